@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "highest_bidder_user_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "bids" ADD COLUMN "was_placed_by_proxy" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "maximum_bids" (
+    "id" TEXT NOT NULL,
+    "maximum_bid_amount" DECIMAL(12,2) NOT NULL,
+    "maximum_bid_placed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "auction_item_id" TEXT NOT NULL,
+    "bidder_user_id" TEXT NOT NULL,
+
+    CONSTRAINT "maximum_bids_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill the current highest bidder from existing successful bids
+UPDATE "auction_items" AS "auction"
+SET "highest_bidder_user_id" = (
+    SELECT "bid"."bidder_user_id"
+    FROM "bids" AS "bid"
+    WHERE "bid"."auction_item_id" = "auction"."id" AND "bid"."was_successful" = true
+    ORDER BY "bid"."bid_amount" DESC, "bid"."placed_at" ASC
+    LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "auction_items_highest_bidder_user_id_idx" ON "auction_items"("highest_bidder_user_id");
+
+-- CreateIndex
+CREATE INDEX "maximum_bids_auction_item_id_idx" ON "maximum_bids"("auction_item_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "maximum_bids_auction_item_id_bidder_user_id_key" ON "maximum_bids"("auction_item_id", "bidder_user_id");
+
+-- AddForeignKey
+ALTER TABLE "auction_items" ADD CONSTRAINT "auction_items_highest_bidder_user_id_fkey" FOREIGN KEY ("highest_bidder_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "maximum_bids" ADD CONSTRAINT "maximum_bids_auction_item_id_fkey" FOREIGN KEY ("auction_item_id") REFERENCES "auction_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "maximum_bids" ADD CONSTRAINT "maximum_bids_bidder_user_id_fkey" FOREIGN KEY ("bidder_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
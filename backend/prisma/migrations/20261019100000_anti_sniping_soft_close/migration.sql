@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "soft_close_window_seconds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "soft_close_extension_seconds" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "AuctionEndReason" AS ENUM ('SOLD', 'NO_BIDS', 'RESERVE_NOT_MET');
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "reserve_price" DECIMAL(12,2),
+ADD COLUMN "end_reason" "AuctionEndReason";
+
+-- Backfill the end reason of auctions that have already ended
+UPDATE "auction_items"
+SET "end_reason" = CASE WHEN "winner_user_id" IS NULL THEN 'NO_BIDS'::"AuctionEndReason" ELSE 'SOLD'::"AuctionEndReason" END
+WHERE "status" = 'ENDED';
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "AuctionEndReason" ADD VALUE 'BOUGHT_NOW';
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "buy_now_price" DECIMAL(12,2);
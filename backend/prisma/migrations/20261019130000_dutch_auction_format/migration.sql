@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "AuctionFormat" AS ENUM ('ENGLISH', 'DUTCH');
+
+-- CreateEnum
+CREATE TYPE "DutchPriceCurve" AS ENUM ('STEPWISE', 'LINEAR');
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "format" "AuctionFormat" NOT NULL DEFAULT 'ENGLISH',
+ADD COLUMN "dutch_floor_price" DECIMAL(12,2),
+ADD COLUMN "dutch_price_curve" "DutchPriceCurve",
+ADD COLUMN "dutch_drop_interval_seconds" INTEGER,
+ADD COLUMN "dutch_drop_amount" DECIMAL(12,2);
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "AuctionFormat" ADD VALUE 'SEALED_BID';
+
+-- CreateEnum
+CREATE TYPE "SealedBidPricing" AS ENUM ('FIRST_PRICE', 'SECOND_PRICE');
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "sealed_bid_pricing" "SealedBidPricing";
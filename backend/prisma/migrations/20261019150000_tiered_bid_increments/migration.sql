@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "bid_increment_tables" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "is_platform_table" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bid_increment_tables_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bid_increment_bands" (
+    "id" TEXT NOT NULL,
+    "price_from" DECIMAL(12,2) NOT NULL,
+    "increment" DECIMAL(12,2) NOT NULL,
+    "bid_increment_table_id" TEXT NOT NULL,
+
+    CONSTRAINT "bid_increment_bands_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bid_increment_tables_name_key" ON "bid_increment_tables"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bid_increment_bands_bid_increment_table_id_price_from_key" ON "bid_increment_bands"("bid_increment_table_id", "price_from");
+
+-- AddForeignKey
+ALTER TABLE "bid_increment_bands" ADD CONSTRAINT "bid_increment_bands_bid_increment_table_id_fkey" FOREIGN KEY ("bid_increment_table_id") REFERENCES "bid_increment_tables"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the reusable platform tables
+INSERT INTO "bid_increment_tables" ("id", "name", "is_platform_table") VALUES
+    ('platform-standard', 'standard', true),
+    ('platform-low-value', 'low-value', true),
+    ('platform-high-value', 'high-value', true);
+
+INSERT INTO "bid_increment_bands" ("id", "price_from", "increment", "bid_increment_table_id") VALUES
+    (gen_random_uuid()::text, 0, 1, 'platform-standard'),
+    (gen_random_uuid()::text, 50, 5, 'platform-standard'),
+    (gen_random_uuid()::text, 500, 25, 'platform-standard'),
+    (gen_random_uuid()::text, 0, 0.25, 'platform-low-value'),
+    (gen_random_uuid()::text, 10, 0.5, 'platform-low-value'),
+    (gen_random_uuid()::text, 50, 1, 'platform-low-value'),
+    (gen_random_uuid()::text, 100, 2.5, 'platform-low-value'),
+    (gen_random_uuid()::text, 0, 5, 'platform-high-value'),
+    (gen_random_uuid()::text, 500, 25, 'platform-high-value'),
+    (gen_random_uuid()::text, 1000, 50, 'platform-high-value'),
+    (gen_random_uuid()::text, 5000, 100, 'platform-high-value'),
+    (gen_random_uuid()::text, 10000, 250, 'platform-high-value');
+
+-- Keep each existing auction's flat increment as a single-band custom table that reuses the auction id
+INSERT INTO "bid_increment_tables" ("id", "name", "is_platform_table")
+SELECT "id", 'auction-' || "id", false FROM "auction_items";
+
+INSERT INTO "bid_increment_bands" ("id", "price_from", "increment", "bid_increment_table_id")
+SELECT gen_random_uuid()::text, 0, "minimum_bid_increment", "id" FROM "auction_items";
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "bid_increment_table_id" TEXT;
+
+UPDATE "auction_items" SET "bid_increment_table_id" = "id";
+
+ALTER TABLE "auction_items" ALTER COLUMN "bid_increment_table_id" SET NOT NULL,
+DROP COLUMN "minimum_bid_increment";
+
+-- AddForeignKey
+ALTER TABLE "auction_items" ADD CONSTRAINT "auction_items_bid_increment_table_id_fkey" FOREIGN KEY ("bid_increment_table_id") REFERENCES "bid_increment_tables"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "AuctionItemStatus" ADD VALUE 'SCHEDULED' BEFORE 'ACTIVE';
+
+-- CreateIndex
+CREATE INDEX "auction_items_auction_start_time_idx" ON "auction_items"("auction_start_time");
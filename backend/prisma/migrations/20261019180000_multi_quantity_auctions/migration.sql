@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "MultiUnitPricing" AS ENUM ('UNIFORM_PRICE', 'PAY_AS_BID');
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "quantity" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN "multi_unit_pricing" "MultiUnitPricing";
+
+-- AlterTable
+ALTER TABLE "bids" ADD COLUMN "quantity" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "auction_winners" (
+    "id" TEXT NOT NULL,
+    "quantity_won" INTEGER NOT NULL DEFAULT 1,
+    "price_per_unit" DECIMAL(12,2) NOT NULL,
+    "won_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "auction_item_id" TEXT NOT NULL,
+    "winner_user_id" TEXT NOT NULL,
+
+    CONSTRAINT "auction_winners_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_winners_auction_item_id_winner_user_id_key" ON "auction_winners"("auction_item_id", "winner_user_id");
+
+-- CreateIndex
+CREATE INDEX "auction_winners_winner_user_id_idx" ON "auction_winners"("winner_user_id");
+
+-- AddForeignKey
+ALTER TABLE "auction_winners" ADD CONSTRAINT "auction_winners_auction_item_id_fkey" FOREIGN KEY ("auction_item_id") REFERENCES "auction_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_winners" ADD CONSTRAINT "auction_winners_winner_user_id_fkey" FOREIGN KEY ("winner_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Carry every existing single winner over as one unit at the final price
+INSERT INTO "auction_winners" ("id", "quantity_won", "price_per_unit", "won_at", "auction_item_id", "winner_user_id")
+SELECT gen_random_uuid()::text, 1, "current_bid", "auction_end_time", "id", "winner_user_id"
+FROM "auction_items"
+WHERE "winner_user_id" IS NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "auction_items" DROP CONSTRAINT "auction_items_winner_user_id_fkey";
+
+-- DropIndex
+DROP INDEX "auction_items_winner_user_id_idx";
+
+-- AlterTable
+ALTER TABLE "auction_items" DROP COLUMN "winner_user_id";
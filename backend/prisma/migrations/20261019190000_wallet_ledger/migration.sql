@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('USER_AVAILABLE', 'USER_HELD', 'PLATFORM_FUNDING');
+
+-- CreateEnum
+CREATE TYPE "LedgerTransactionType" AS ENUM ('DEPOSIT', 'BID_HOLD', 'HOLD_RELEASE', 'SETTLEMENT');
+
+-- CreateEnum
+CREATE TYPE "FundHoldStatus" AS ENUM ('ACTIVE', 'RELEASED', 'CAPTURED');
+
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "account_type" "LedgerAccountType" NOT NULL,
+    "balance" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "owner_user_id" TEXT,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_transactions" (
+    "id" TEXT NOT NULL,
+    "transaction_type" "LedgerTransactionType" NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "auction_item_id" TEXT,
+
+    CONSTRAINT "ledger_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "ledger_transaction_id" TEXT NOT NULL,
+    "ledger_account_id" TEXT NOT NULL,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fund_holds" (
+    "id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "FundHoldStatus" NOT NULL DEFAULT 'ACTIVE',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "auction_item_id" TEXT NOT NULL,
+    "holder_user_id" TEXT NOT NULL,
+
+    CONSTRAINT "fund_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_owner_user_id_account_type_key" ON "ledger_accounts"("owner_user_id", "account_type");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_auction_item_id_idx" ON "ledger_transactions"("auction_item_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_ledger_transaction_id_idx" ON "ledger_entries"("ledger_transaction_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_ledger_account_id_idx" ON "ledger_entries"("ledger_account_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fund_holds_auction_item_id_holder_user_id_key" ON "fund_holds"("auction_item_id", "holder_user_id");
+
+-- CreateIndex
+CREATE INDEX "fund_holds_holder_user_id_idx" ON "fund_holds"("holder_user_id");
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_owner_user_id_fkey" FOREIGN KEY ("owner_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_auction_item_id_fkey" FOREIGN KEY ("auction_item_id") REFERENCES "auction_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_ledger_transaction_id_fkey" FOREIGN KEY ("ledger_transaction_id") REFERENCES "ledger_transactions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_ledger_account_id_fkey" FOREIGN KEY ("ledger_account_id") REFERENCES "ledger_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fund_holds" ADD CONSTRAINT "fund_holds_auction_item_id_fkey" FOREIGN KEY ("auction_item_id") REFERENCES "auction_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fund_holds" ADD CONSTRAINT "fund_holds_holder_user_id_fkey" FOREIGN KEY ("holder_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- User wallets can never go negative - the bid path relies on this to reject over-commitment
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_user_balance_non_negative"
+    CHECK ("account_type" = 'PLATFORM_FUNDING' OR "balance" >= 0);
+
+-- The ledger is append-only: corrections are new transactions, never edits
+CREATE FUNCTION "reject_ledger_modification"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'The ledger is append-only (% on %)', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ledger_transactions_append_only"
+    BEFORE UPDATE OR DELETE ON "ledger_transactions"
+    FOR EACH ROW EXECUTE FUNCTION "reject_ledger_modification"();
+
+CREATE TRIGGER "ledger_entries_append_only"
+    BEFORE UPDATE OR DELETE ON "ledger_entries"
+    FOR EACH ROW EXECUTE FUNCTION "reject_ledger_modification"();
+
+-- The one platform account every deposit is balanced against
+INSERT INTO "ledger_accounts" ("id", "account_type", "balance", "owner_user_id")
+VALUES ('platform-funding', 'PLATFORM_FUNDING', 0, NULL);
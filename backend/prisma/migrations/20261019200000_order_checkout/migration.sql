@@ -0,0 +1,83 @@
+-- AlterEnum
+ALTER TYPE "LedgerAccountType" ADD VALUE 'PAYMENT_PROVIDER_CLEARING';
+
+-- AlterEnum
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'CHECKOUT_PAYMENT';
+
+-- CreateEnum
+CREATE TYPE "OrderStatus" AS ENUM ('AWAITING_PAYMENT', 'PAYMENT_PENDING', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "OrderPaymentMethod" AS ENUM ('WALLET', 'PAYMENT_PROVIDER');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "orders" (
+    "id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "OrderStatus" NOT NULL DEFAULT 'AWAITING_PAYMENT',
+    "payment_method" "OrderPaymentMethod",
+    "payment_deadline" TIMESTAMP(3) NOT NULL,
+    "paid_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "auction_winner_id" TEXT NOT NULL,
+    "auction_item_id" TEXT NOT NULL,
+    "buyer_user_id" TEXT NOT NULL,
+
+    CONSTRAINT "orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "order_payments" (
+    "id" TEXT NOT NULL,
+    "provider_name" TEXT NOT NULL,
+    "provider_reference" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "order_id" TEXT NOT NULL,
+
+    CONSTRAINT "order_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_auction_winner_id_key" ON "orders"("auction_winner_id");
+
+-- CreateIndex
+CREATE INDEX "orders_buyer_user_id_idx" ON "orders"("buyer_user_id");
+
+-- CreateIndex
+CREATE INDEX "orders_status_payment_deadline_idx" ON "orders"("status", "payment_deadline");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_payments_provider_name_provider_reference_key" ON "order_payments"("provider_name", "provider_reference");
+
+-- CreateIndex
+CREATE INDEX "order_payments_order_id_idx" ON "order_payments"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_auction_winner_id_fkey" FOREIGN KEY ("auction_winner_id") REFERENCES "auction_winners"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_auction_item_id_fkey" FOREIGN KEY ("auction_item_id") REFERENCES "auction_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_buyer_user_id_fkey" FOREIGN KEY ("buyer_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_payments" ADD CONSTRAINT "order_payments_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Platform accounts (no owner) may run negative; user wallets still never can
+ALTER TABLE "ledger_accounts" DROP CONSTRAINT "ledger_accounts_user_balance_non_negative";
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_user_balance_non_negative"
+    CHECK ("owner_user_id" IS NULL OR "balance" >= 0);
+
+-- Wins from before checkout existed were settled by hand, so they are recorded as paid
+INSERT INTO "orders" ("id", "amount", "status", "payment_deadline", "paid_at", "updated_at", "auction_winner_id", "auction_item_id", "buyer_user_id")
+SELECT gen_random_uuid()::text, "price_per_unit" * "quantity_won", 'PAID', "won_at", "won_at", CURRENT_TIMESTAMP, "id", "auction_item_id", "winner_user_id"
+FROM "auction_winners";
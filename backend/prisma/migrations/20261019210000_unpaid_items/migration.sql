@@ -0,0 +1,71 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'VOIDED';
+
+-- CreateEnum
+CREATE TYPE "BidderStrikeReason" AS ENUM ('UNPAID_ITEM');
+
+-- CreateEnum
+CREATE TYPE "SecondChanceOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED');
+
+-- AlterTable
+ALTER TABLE "auction_winners" ADD COLUMN "voided_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "voided_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "bidder_strikes" (
+    "id" TEXT NOT NULL,
+    "reason" "BidderStrikeReason" NOT NULL DEFAULT 'UNPAID_ITEM',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+
+    CONSTRAINT "bidder_strikes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "second_chance_offers" (
+    "id" TEXT NOT NULL,
+    "offer_price_per_unit" DECIMAL(12,2) NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "status" "SecondChanceOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "responded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "auction_item_id" TEXT NOT NULL,
+    "recipient_user_id" TEXT NOT NULL,
+    "voided_order_id" TEXT NOT NULL,
+
+    CONSTRAINT "second_chance_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bidder_strikes_order_id_key" ON "bidder_strikes"("order_id");
+
+-- CreateIndex
+CREATE INDEX "bidder_strikes_user_id_created_at_idx" ON "bidder_strikes"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "second_chance_offers_recipient_user_id_idx" ON "second_chance_offers"("recipient_user_id");
+
+-- CreateIndex
+CREATE INDEX "second_chance_offers_voided_order_id_idx" ON "second_chance_offers"("voided_order_id");
+
+-- CreateIndex
+CREATE INDEX "second_chance_offers_auction_item_id_idx" ON "second_chance_offers"("auction_item_id");
+
+-- AddForeignKey
+ALTER TABLE "bidder_strikes" ADD CONSTRAINT "bidder_strikes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bidder_strikes" ADD CONSTRAINT "bidder_strikes_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "second_chance_offers" ADD CONSTRAINT "second_chance_offers_auction_item_id_fkey" FOREIGN KEY ("auction_item_id") REFERENCES "auction_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "second_chance_offers" ADD CONSTRAINT "second_chance_offers_recipient_user_id_fkey" FOREIGN KEY ("recipient_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "second_chance_offers" ADD CONSTRAINT "second_chance_offers_voided_order_id_fkey" FOREIGN KEY ("voided_order_id") REFERENCES "orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
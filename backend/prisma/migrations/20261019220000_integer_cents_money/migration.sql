@@ -0,0 +1,74 @@
+-- Money moves from DECIMAL dollars to whole cents in BIGINT columns. Every existing value has exactly two
+-- decimal places, so multiplying by 100 is lossless; the columns are renamed so no reader can mistake the unit
+
+-- AlterTable
+ALTER TABLE "auction_items" RENAME COLUMN "starting_price" TO "starting_price_cents";
+ALTER TABLE "auction_items" RENAME COLUMN "current_bid" TO "current_bid_cents";
+ALTER TABLE "auction_items" RENAME COLUMN "reserve_price" TO "reserve_price_cents";
+ALTER TABLE "auction_items" RENAME COLUMN "buy_now_price" TO "buy_now_price_cents";
+ALTER TABLE "auction_items" RENAME COLUMN "dutch_floor_price" TO "dutch_floor_price_cents";
+ALTER TABLE "auction_items" RENAME COLUMN "dutch_drop_amount" TO "dutch_drop_amount_cents";
+ALTER TABLE "auction_items"
+ALTER COLUMN "starting_price_cents" TYPE BIGINT USING ROUND("starting_price_cents" * 100)::BIGINT,
+ALTER COLUMN "current_bid_cents" TYPE BIGINT USING ROUND("current_bid_cents" * 100)::BIGINT,
+ALTER COLUMN "reserve_price_cents" TYPE BIGINT USING ROUND("reserve_price_cents" * 100)::BIGINT,
+ALTER COLUMN "buy_now_price_cents" TYPE BIGINT USING ROUND("buy_now_price_cents" * 100)::BIGINT,
+ALTER COLUMN "dutch_floor_price_cents" TYPE BIGINT USING ROUND("dutch_floor_price_cents" * 100)::BIGINT,
+ALTER COLUMN "dutch_drop_amount_cents" TYPE BIGINT USING ROUND("dutch_drop_amount_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "bids" RENAME COLUMN "bid_amount" TO "bid_amount_cents";
+ALTER TABLE "bids"
+ALTER COLUMN "bid_amount_cents" TYPE BIGINT USING ROUND("bid_amount_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "auction_winners" RENAME COLUMN "price_per_unit" TO "price_per_unit_cents";
+ALTER TABLE "auction_winners"
+ALTER COLUMN "price_per_unit_cents" TYPE BIGINT USING ROUND("price_per_unit_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "maximum_bids" RENAME COLUMN "maximum_bid_amount" TO "maximum_bid_amount_cents";
+ALTER TABLE "maximum_bids"
+ALTER COLUMN "maximum_bid_amount_cents" TYPE BIGINT USING ROUND("maximum_bid_amount_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "bid_increment_bands" RENAME COLUMN "price_from" TO "price_from_cents";
+ALTER TABLE "bid_increment_bands" RENAME COLUMN "increment" TO "increment_cents";
+ALTER TABLE "bid_increment_bands"
+ALTER COLUMN "price_from_cents" TYPE BIGINT USING ROUND("price_from_cents" * 100)::BIGINT,
+ALTER COLUMN "increment_cents" TYPE BIGINT USING ROUND("increment_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "ledger_accounts" RENAME COLUMN "balance" TO "balance_cents";
+ALTER TABLE "ledger_accounts"
+ALTER COLUMN "balance_cents" DROP DEFAULT,
+ALTER COLUMN "balance_cents" TYPE BIGINT USING ROUND("balance_cents" * 100)::BIGINT,
+ALTER COLUMN "balance_cents" SET DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ledger_entries" RENAME COLUMN "amount" TO "amount_cents";
+ALTER TABLE "ledger_entries"
+ALTER COLUMN "amount_cents" TYPE BIGINT USING ROUND("amount_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "fund_holds" RENAME COLUMN "amount" TO "amount_cents";
+ALTER TABLE "fund_holds"
+ALTER COLUMN "amount_cents" TYPE BIGINT USING ROUND("amount_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "orders" RENAME COLUMN "amount" TO "amount_cents";
+ALTER TABLE "orders"
+ALTER COLUMN "amount_cents" TYPE BIGINT USING ROUND("amount_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "order_payments" RENAME COLUMN "amount" TO "amount_cents";
+ALTER TABLE "order_payments"
+ALTER COLUMN "amount_cents" TYPE BIGINT USING ROUND("amount_cents" * 100)::BIGINT;
+
+-- AlterTable
+ALTER TABLE "second_chance_offers" RENAME COLUMN "offer_price_per_unit" TO "offer_price_per_unit_cents";
+ALTER TABLE "second_chance_offers"
+ALTER COLUMN "offer_price_per_unit_cents" TYPE BIGINT USING ROUND("offer_price_per_unit_cents" * 100)::BIGINT;
+
+-- RenameIndex
+ALTER INDEX "bid_increment_bands_bid_increment_table_id_price_from_key" RENAME TO "bid_increment_bands_bid_increment_table_id_price_from_cents_key";
@@ -0,0 +1,39 @@
+-- Auctions are listed in their seller's currency and wallets keep a balance per currency.
+-- Everything that exists today was priced in US dollars, which is what the new columns default to
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "is_platform_admin" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "display_currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "ledger_accounts" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- DropIndex
+DROP INDEX "ledger_accounts_owner_user_id_account_type_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_owner_user_id_account_type_currency_key" ON "ledger_accounts"("owner_user_id", "account_type", "currency");
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "units_per_platform_unit" DECIMAL(18,8) NOT NULL,
+    "quoted_at" TIMESTAMP(3) NOT NULL,
+    "updated_by_user_id" TEXT,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_currency_key" ON "exchange_rates"("currency");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_updated_by_user_id_fkey" FOREIGN KEY ("updated_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Rates are quoted against the platform currency, which is always worth exactly itself
+INSERT INTO "exchange_rates" ("id", "currency", "units_per_platform_unit", "quoted_at")
+VALUES (gen_random_uuid()::text, 'USD', 1, CURRENT_TIMESTAMP);
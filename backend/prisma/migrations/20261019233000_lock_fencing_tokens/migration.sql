@@ -0,0 +1,5 @@
+-- Writes made under the auction's distributed lock record the lock's fencing token,
+-- and a write carrying an older token than the one recorded is refused
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "lock_fencing_token" BIGINT NOT NULL DEFAULT 0;
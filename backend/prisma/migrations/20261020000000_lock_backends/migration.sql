@@ -0,0 +1,17 @@
+-- Locks can be served by Postgres when Redis is unreachable. Fencing tokens move from a Redis counter
+-- to a sequence every lock backend draws from, so tokens stay comparable across a failover
+
+-- CreateTable
+CREATE TABLE "distributed_locks" (
+    "lock_name" TEXT NOT NULL,
+    "lock_owner" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "distributed_locks_pkey" PRIMARY KEY ("lock_name")
+);
+
+-- CreateSequence
+CREATE SEQUENCE "lock_fencing_tokens";
+
+-- Start above every token already recorded, so no earlier holder outranks the first new one
+SELECT setval('lock_fencing_tokens', GREATEST(COALESCE(MAX("lock_fencing_token"), 0), 1)) FROM "auction_items";
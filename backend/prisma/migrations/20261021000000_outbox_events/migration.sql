@@ -0,0 +1,19 @@
+-- Auction domain events are recorded in the transaction that makes the change, then published by the outbox
+-- dispatcher, so a crash between the write and the broadcast can no longer lose the notification
+
+-- CreateTable
+CREATE TABLE "outbox_events" (
+    "id" BIGSERIAL NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "auction_item_id" TEXT NOT NULL,
+    "event_payload" JSONB NOT NULL,
+    "occurred_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "published_at" TIMESTAMP(3),
+    "delivery_attempt_count" INTEGER NOT NULL DEFAULT 0,
+    "last_delivery_error" TEXT,
+
+    CONSTRAINT "outbox_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_events_published_at_id_idx" ON "outbox_events"("published_at", "id");
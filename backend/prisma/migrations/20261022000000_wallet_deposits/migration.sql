@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "wallet_deposits" (
+    "id" TEXT NOT NULL,
+    "amount_cents" BIGINT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "provider_name" TEXT NOT NULL,
+    "provider_reference" TEXT,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "failure_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "depositor_user_id" TEXT NOT NULL,
+
+    CONSTRAINT "wallet_deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_deposits_provider_name_provider_reference_key" ON "wallet_deposits"("provider_name", "provider_reference");
+
+-- CreateIndex
+CREATE INDEX "wallet_deposits_depositor_user_id_idx" ON "wallet_deposits"("depositor_user_id");
+
+-- AddForeignKey
+ALTER TABLE "wallet_deposits" ADD CONSTRAINT "wallet_deposits_depositor_user_id_fkey" FOREIGN KEY ("depositor_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- Outbox events are published in a per-auction sequence taken under the auction's row lock. The BIGSERIAL id is
+-- drawn at insert, so an event whose transaction commits later can hold a lower id than one already published
+
+-- AlterTable
+ALTER TABLE "auction_items" ADD COLUMN "last_event_sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "outbox_events" ADD COLUMN "auction_event_sequence" INTEGER;
+
+-- Events already recorded keep their id order
+UPDATE "outbox_events"
+SET "auction_event_sequence" = "numbered_events"."auction_event_sequence"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "auction_item_id" ORDER BY "id") AS "auction_event_sequence"
+    FROM "outbox_events"
+) AS "numbered_events"
+WHERE "outbox_events"."id" = "numbered_events"."id";
+
+UPDATE "auction_items"
+SET "last_event_sequence" = "latest_events"."last_event_sequence"
+FROM (
+    SELECT "auction_item_id", MAX("auction_event_sequence") AS "last_event_sequence"
+    FROM "outbox_events"
+    GROUP BY "auction_item_id"
+) AS "latest_events"
+WHERE "auction_items"."id" = "latest_events"."auction_item_id";
+
+ALTER TABLE "outbox_events" ALTER COLUMN "auction_event_sequence" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "outbox_events_published_at_id_idx";
+
+-- CreateIndex
+CREATE INDEX "outbox_events_published_at_auction_event_sequence_idx" ON "outbox_events"("published_at", "auction_event_sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outbox_events_auction_item_id_auction_event_sequence_key" ON "outbox_events"("auction_item_id", "auction_event_sequence");
@@ -53,12 +53,86 @@ async function seedDatabaseWithDemoData(): Promise<void> {
       fullName: 'Demo User',
       hashedPassword: demoUserPassword,
       isAccountActive: true,
-      isEmailVerified: true
+      isEmailVerified: true,
+      isPlatformAdmin: true
     }
   });
 
   console.log('Created demo users:', [demoUser1.username, demoUser2.username, demoUser3.username]);
 
+  // ==============================|| FUND DEMO WALLETS ||============================== //
+
+  // Bids need wallet funds, so each demo user starts with an opening deposit from the platform funding account
+  // Demo auctions are listed in several currencies, so the wallets are funded in each of them
+  const openingDepositInCents = 1_000_000;
+  const demoCurrencyCodes = ['USD', 'EUR', 'GBP'];
+
+  for (const currencyCode of demoCurrencyCodes) {
+    // The platform currency's funding account comes from the wallet_ledger migration, the others are created here
+    const fundingAccountId = currencyCode === 'USD' ? 'platform-funding' : `platform-funding-${currencyCode.toLowerCase()}`;
+
+    await prismaClient.ledgerAccount.upsert({
+      where: { id: fundingAccountId },
+      update: {},
+      create: { id: fundingAccountId, accountType: 'PLATFORM_FUNDING', currencyCode }
+    });
+
+    for (const demoUser of [demoUser1, demoUser2, demoUser3]) {
+      const existingWalletAccount = await prismaClient.ledgerAccount.findUnique({
+        where: {
+          ownerUserId_accountType_currencyCode: { ownerUserId: demoUser.id, accountType: 'USER_AVAILABLE', currencyCode }
+        }
+      });
+
+      if (existingWalletAccount) continue;
+
+      await prismaClient.$transaction(async (transactionClient) => {
+        const walletAccount = await transactionClient.ledgerAccount.create({
+          data: { ownerUserId: demoUser.id, accountType: 'USER_AVAILABLE', currencyCode, balanceInCents: openingDepositInCents }
+        });
+        await transactionClient.ledgerAccount.update({
+          where: { id: fundingAccountId },
+          data: { balanceInCents: { decrement: openingDepositInCents } }
+        });
+        await transactionClient.ledgerTransaction.create({
+          data: {
+            transactionType: 'DEPOSIT',
+            transactionDescription: 'Demo opening balance',
+            ledgerEntries: {
+              create: [
+                { ledgerAccountId: fundingAccountId, amountInCents: -openingDepositInCents },
+                { ledgerAccountId: walletAccount.id, amountInCents: openingDepositInCents }
+              ]
+            }
+          }
+        });
+      });
+    }
+  }
+
+  console.log(`Funded demo wallets with ${openingDepositInCents / 100} in each of ${demoCurrencyCodes.join(', ')}`);
+
+  // ==============================|| SEED EXCHANGE RATES ||============================== //
+
+  // Display-only rates against the platform currency, maintained by the demo admin from here on
+  const demoExchangeRates = [
+    { currencyCode: 'EUR', unitsPerPlatformUnit: '0.92' },
+    { currencyCode: 'GBP', unitsPerPlatformUnit: '0.79' }
+  ];
+
+  for (const demoExchangeRate of demoExchangeRates) {
+    await prismaClient.exchangeRate.upsert({
+      where: { currencyCode: demoExchangeRate.currencyCode },
+      update: {},
+      create: { ...demoExchangeRate, quotedAtTimestamp: new Date(), updatedByUserId: demoUser3.id }
+    });
+  }
+
+  console.log(
+    'Seeded exchange rates:',
+    demoExchangeRates.map((demoExchangeRate) => demoExchangeRate.currencyCode)
+  );
+
   // ==============================|| CREATE DEMO AUCTION ITEMS ||============================== //
 
   const now = new Date();
@@ -68,14 +142,18 @@ async function seedDatabaseWithDemoData(): Promise<void> {
   const oneDayFromNow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
   const threeDaysFromNow = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
 
+  // The platform increment tables are created by the tiered_bid_increments migration
+  const standardBidIncrementTable = await prismaClient.bidIncrementTable.findUniqueOrThrow({
+    where: { tableName: 'standard' }
+  });
+
   const auctionItems = [
     {
       itemTitle: 'Vintage Rolex Submariner Watch',
       itemDescription:
         "Beautiful vintage Rolex Submariner from 1985. Excellent condition with original box and papers. A true collector's item.",
-      startingPriceInDollars: 5000,
-      currentHighestBidInDollars: 5000,
-      minimumBidIncrementInDollars: 100,
+      startingPriceInCents: 500_000,
+      currentHighestBidInCents: 500_000,
       auctionStartTimeTimestamp: now,
       auctionEndTimeTimestamp: oneHourFromNow,
       itemImageUrl: 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=800',
@@ -84,9 +162,8 @@ async function seedDatabaseWithDemoData(): Promise<void> {
     {
       itemTitle: 'MacBook Pro 16" M3 Max',
       itemDescription: 'Brand new Apple MacBook Pro 16-inch with M3 Max chip, 64GB RAM, 1TB SSD. Still sealed in original packaging.',
-      startingPriceInDollars: 2500,
-      currentHighestBidInDollars: 2500,
-      minimumBidIncrementInDollars: 50,
+      startingPriceInCents: 250_000,
+      currentHighestBidInCents: 250_000,
       auctionStartTimeTimestamp: now,
       auctionEndTimeTimestamp: twoHoursFromNow,
       itemImageUrl: 'https://images.unsplash.com/photo-1517336714731-489689fd1ca8?w=800',
@@ -95,9 +172,8 @@ async function seedDatabaseWithDemoData(): Promise<void> {
     {
       itemTitle: 'Original Oil Painting - Sunset',
       itemDescription: 'Original oil painting by emerging artist. 24x36 inches on canvas. Stunning sunset landscape with vibrant colors.',
-      startingPriceInDollars: 500,
-      currentHighestBidInDollars: 500,
-      minimumBidIncrementInDollars: 25,
+      startingPriceInCents: 50_000,
+      currentHighestBidInCents: 50_000,
       auctionStartTimeTimestamp: now,
       auctionEndTimeTimestamp: sixHoursFromNow,
       itemImageUrl: 'https://images.unsplash.com/photo-1578301978693-85fa9c0320b9?w=800',
@@ -106,9 +182,9 @@ async function seedDatabaseWithDemoData(): Promise<void> {
     {
       itemTitle: 'Rare First Edition Book Collection',
       itemDescription: 'Collection of 5 rare first edition books from the 1920s. Includes works by Hemingway, Fitzgerald, and Faulkner.',
-      startingPriceInDollars: 3000,
-      currentHighestBidInDollars: 3000,
-      minimumBidIncrementInDollars: 150,
+      startingPriceInCents: 300_000,
+      currentHighestBidInCents: 300_000,
+      currencyCode: 'GBP',
       auctionStartTimeTimestamp: now,
       auctionEndTimeTimestamp: oneDayFromNow,
       itemImageUrl: 'https://images.unsplash.com/photo-1481627834876-b7833e8f5570?w=800',
@@ -118,9 +194,9 @@ async function seedDatabaseWithDemoData(): Promise<void> {
       itemTitle: 'Antique Persian Rug',
       itemDescription:
         'Hand-woven Persian rug from the early 1900s. 8x10 feet. Excellent condition with rich colors and intricate patterns.',
-      startingPriceInDollars: 8000,
-      currentHighestBidInDollars: 8000,
-      minimumBidIncrementInDollars: 200,
+      startingPriceInCents: 800_000,
+      currentHighestBidInCents: 800_000,
+      currencyCode: 'EUR',
       auctionStartTimeTimestamp: now,
       auctionEndTimeTimestamp: threeDaysFromNow,
       itemImageUrl: 'https://images.unsplash.com/photo-1600166898405-da9535204843?w=800',
@@ -129,9 +205,8 @@ async function seedDatabaseWithDemoData(): Promise<void> {
     {
       itemTitle: 'Signed Sports Memorabilia',
       itemDescription: 'Authentic signed basketball by Michael Jordan with certificate of authenticity. Perfect for any sports collector.',
-      startingPriceInDollars: 1500,
-      currentHighestBidInDollars: 1500,
-      minimumBidIncrementInDollars: 50,
+      startingPriceInCents: 150_000,
+      currentHighestBidInCents: 150_000,
       auctionStartTimeTimestamp: now,
       auctionEndTimeTimestamp: twoHoursFromNow,
       itemImageUrl: 'https://images.unsplash.com/photo-1546519638-68e109498ffc?w=800',
@@ -148,6 +223,7 @@ async function seedDatabaseWithDemoData(): Promise<void> {
       await prismaClient.auctionItem.create({
         data: {
           ...auctionData,
+          bidIncrementTableId: standardBidIncrementTable.id,
           currentStatus: AuctionItemStatus.ACTIVE
         }
       });
@@ -163,6 +239,7 @@ async function seedDatabaseWithDemoData(): Promise<void> {
   console.log('========================');
   console.log('Email: demo@auction.com');
   console.log('Password: Password123');
+  console.log('(platform admin - can maintain exchange rates)');
   console.log('');
 }
 
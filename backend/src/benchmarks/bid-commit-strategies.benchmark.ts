@@ -0,0 +1,295 @@
+// ==============================|| BID COMMIT STRATEGY BENCHMARK ||============================== //
+// Runs the same contended bidding load through every bid commit strategy and reports throughput and latency.
+// Needs the database and Redis from .env. Usage: npm run benchmark:bids -- [bidderCount] [bidsPerBidder] [strategies]
+
+import bcrypt from 'bcrypt';
+import { v4 as generateUuid } from 'uuid';
+import { prismaClient } from '../config/prisma-client.config';
+import { redisClient } from '../config/redis-client.config';
+import { BidCommitStrategy, processBid } from '../services/bid-processor.service';
+import { mapBidIncrementBands } from '../services/bid-increment-tables.service';
+import { depositIntoWallet, releaseAuctionFundHolds } from '../services/wallet-ledger.service';
+import { findBidIncrementForPrice } from '../utils/bid-increment.util';
+import { PLATFORM_CURRENCY_CODE, convertCentsToNumber } from '../utils/money.util';
+
+const DEFAULT_BIDDER_COUNT = 20;
+const DEFAULT_BIDS_PER_BIDDER = 10;
+const ALL_BID_COMMIT_STRATEGIES: BidCommitStrategy[] = ['queue', 'lock', 'conditional-update'];
+
+const BENCHMARK_STARTING_PRICE_IN_CENTS = 10_000;
+const BENCHMARK_WALLET_DEPOSIT_IN_CENTS = 100_000_000;
+const BENCHMARK_AUCTION_DURATION_IN_MILLISECONDS = 60 * 60 * 1000;
+
+interface BenchmarkOptions {
+  bidderCount: number;
+  bidsPerBidder: number;
+  bidCommitStrategies: BidCommitStrategy[];
+}
+
+interface BenchmarkFixtures {
+  runIdentifier: string;
+  sellerUserId: string;
+  bidderUserIds: string[];
+  bidIncrementTableId: string;
+}
+
+interface StrategyBenchmarkResult {
+  bidCommitStrategy: BidCommitStrategy;
+  acceptedBidCount: number;
+  rejectedBidCount: number;
+  failedBidCount: number;
+  elapsedTimeInMs: number;
+  latenciesInMs: number[];
+  rejectionCountsByCode: Record<string, number>;
+}
+
+// ==============================|| OPTIONS ||============================== //
+
+function parseBenchmarkOptions(commandLineArguments: string[]): BenchmarkOptions {
+  const [bidderCountArgument, bidsPerBidderArgument, strategiesArgument] = commandLineArguments;
+
+  const bidCommitStrategies = strategiesArgument
+    ? strategiesArgument.split(',').map((strategyName) => strategyName.trim() as BidCommitStrategy)
+    : ALL_BID_COMMIT_STRATEGIES;
+
+  const unknownStrategy = bidCommitStrategies.find((strategyName) => !ALL_BID_COMMIT_STRATEGIES.includes(strategyName));
+
+  if (unknownStrategy) {
+    throw new Error(`Unknown bid commit strategy "${unknownStrategy}" - expected one of ${ALL_BID_COMMIT_STRATEGIES.join(', ')}`);
+  }
+
+  return {
+    bidderCount: Number(bidderCountArgument) || DEFAULT_BIDDER_COUNT,
+    bidsPerBidder: Number(bidsPerBidderArgument) || DEFAULT_BIDS_PER_BIDDER,
+    bidCommitStrategies
+  };
+}
+
+// ==============================|| FIXTURES ||============================== //
+
+// Benchmark users are named after the run so repeated runs never collide, and are never active accounts
+async function createBenchmarkFixtures(bidderCount: number): Promise<BenchmarkFixtures> {
+  const runIdentifier = generateUuid().slice(0, 8);
+  const hashedPassword = await bcrypt.hash(generateUuid(), 4);
+
+  const createBenchmarkUser = async (userRole: string) => {
+    const username = `benchmark-${runIdentifier}-${userRole}`;
+
+    const createdUser = await prismaClient.user.create({
+      data: {
+        emailAddress: `${username}@benchmark.invalid`,
+        username,
+        fullName: `Benchmark ${userRole}`,
+        hashedPassword,
+        isAccountActive: false
+      }
+    });
+
+    return createdUser.id;
+  };
+
+  const sellerUserId = await createBenchmarkUser('seller');
+  const bidderUserIds: string[] = [];
+
+  for (let bidderIndex = 0; bidderIndex < bidderCount; bidderIndex++) {
+    const bidderUserId = await createBenchmarkUser(`bidder-${bidderIndex + 1}`);
+    const depositResult = await depositIntoWallet(bidderUserId, BENCHMARK_WALLET_DEPOSIT_IN_CENTS, PLATFORM_CURRENCY_CODE);
+
+    if (!depositResult.wasDepositSuccessful) {
+      throw new Error(`Could not fund benchmark bidder: ${depositResult.errorMessage}`);
+    }
+
+    bidderUserIds.push(bidderUserId);
+  }
+
+  // The platform increment tables are created by the tiered_bid_increments migration
+  const standardBidIncrementTable = await prismaClient.bidIncrementTable.findUniqueOrThrow({
+    where: { tableName: 'standard' }
+  });
+
+  return { runIdentifier, sellerUserId, bidderUserIds, bidIncrementTableId: standardBidIncrementTable.id };
+}
+
+async function createBenchmarkAuction(fixtures: BenchmarkFixtures, bidCommitStrategy: BidCommitStrategy): Promise<string> {
+  const currentTimestamp = new Date();
+
+  const createdAuction = await prismaClient.auctionItem.create({
+    data: {
+      itemTitle: `Benchmark ${fixtures.runIdentifier} - ${bidCommitStrategy}`,
+      itemDescription: 'Created by the bid commit strategy benchmark and cancelled when it finishes.',
+      startingPriceInCents: BENCHMARK_STARTING_PRICE_IN_CENTS,
+      currentHighestBidInCents: BENCHMARK_STARTING_PRICE_IN_CENTS,
+      currencyCode: PLATFORM_CURRENCY_CODE,
+      auctionStartTimeTimestamp: currentTimestamp,
+      auctionEndTimeTimestamp: new Date(currentTimestamp.getTime() + BENCHMARK_AUCTION_DURATION_IN_MILLISECONDS),
+      creatorUserId: fixtures.sellerUserId,
+      bidIncrementTableId: fixtures.bidIncrementTableId
+    }
+  });
+
+  return createdAuction.id;
+}
+
+// Cancels the auction and releases its holds, so the benchmark leaves no live auction or locked funds behind
+async function cancelBenchmarkAuction(auctionItemId: string): Promise<void> {
+  await prismaClient.$transaction(async (transactionClient) => {
+    await transactionClient.auctionItem.update({
+      where: { id: auctionItemId },
+      data: {
+        currentStatus: 'CANCELLED',
+        cancellationReason: 'Bid commit strategy benchmark finished',
+        cancelledAtTimestamp: new Date()
+      }
+    });
+
+    await releaseAuctionFundHolds(transactionClient, auctionItemId);
+  });
+}
+
+// ==============================|| LOAD ||============================== //
+
+// Every bidder reads the live price and bids the minimum over it, so bids race the way they do near a close
+async function fetchNextMinimumBidInCents(auctionItemId: string): Promise<number> {
+  const auctionItem = await prismaClient.auctionItem.findUniqueOrThrow({
+    where: { id: auctionItemId },
+    include: { bidIncrementTable: { include: { incrementBands: true } } }
+  });
+
+  const currentBidInCents = convertCentsToNumber(auctionItem.currentHighestBidInCents);
+  const incrementBands = mapBidIncrementBands(auctionItem.bidIncrementTable.incrementBands);
+
+  return currentBidInCents + findBidIncrementForPrice(incrementBands, currentBidInCents);
+}
+
+async function runStrategyBenchmark(
+  fixtures: BenchmarkFixtures,
+  bidCommitStrategy: BidCommitStrategy,
+  bidsPerBidder: number
+): Promise<StrategyBenchmarkResult> {
+  const auctionItemId = await createBenchmarkAuction(fixtures, bidCommitStrategy);
+
+  const strategyResult: StrategyBenchmarkResult = {
+    bidCommitStrategy,
+    acceptedBidCount: 0,
+    rejectedBidCount: 0,
+    failedBidCount: 0,
+    elapsedTimeInMs: 0,
+    latenciesInMs: [],
+    rejectionCountsByCode: {}
+  };
+
+  const placeBenchmarkBids = async (bidderUserId: string) => {
+    for (let bidIndex = 0; bidIndex < bidsPerBidder; bidIndex++) {
+      const bidAmountInCents = await fetchNextMinimumBidInCents(auctionItemId);
+      const bidStartTime = Date.now();
+
+      try {
+        const bidResult = await processBid(
+          auctionItemId,
+          bidderUserId,
+          bidAmountInCents,
+          PLATFORM_CURRENCY_CODE,
+          null,
+          1,
+          null,
+          bidCommitStrategy
+        );
+        strategyResult.latenciesInMs.push(Date.now() - bidStartTime);
+
+        if (bidResult.wasBidSuccessful) {
+          strategyResult.acceptedBidCount += 1;
+        } else {
+          const rejectionCode = bidResult.errorCode ?? 'UNKNOWN';
+          strategyResult.rejectedBidCount += 1;
+          strategyResult.rejectionCountsByCode[rejectionCode] = (strategyResult.rejectionCountsByCode[rejectionCode] ?? 0) + 1;
+        }
+      } catch (error) {
+        strategyResult.failedBidCount += 1;
+        console.error(`[${bidCommitStrategy}] Bid threw:`, error instanceof Error ? error.message : error);
+      }
+    }
+  };
+
+  const benchmarkStartTime = Date.now();
+
+  try {
+    await Promise.all(fixtures.bidderUserIds.map(placeBenchmarkBids));
+    strategyResult.elapsedTimeInMs = Date.now() - benchmarkStartTime;
+  } finally {
+    await cancelBenchmarkAuction(auctionItemId);
+  }
+
+  return strategyResult;
+}
+
+// ==============================|| REPORT ||============================== //
+
+function findLatencyPercentile(sortedLatenciesInMs: number[], percentile: number): number {
+  if (sortedLatenciesInMs.length === 0) return 0;
+
+  const percentileIndex = Math.min(sortedLatenciesInMs.length - 1, Math.ceil((percentile / 100) * sortedLatenciesInMs.length) - 1);
+
+  return sortedLatenciesInMs[Math.max(0, percentileIndex)];
+}
+
+function printBenchmarkReport(options: BenchmarkOptions, strategyResults: StrategyBenchmarkResult[]): void {
+  console.log('');
+  console.log(`Bid commit strategies - ${options.bidderCount} concurrent bidders x ${options.bidsPerBidder} bids`);
+  console.log('');
+
+  console.table(
+    strategyResults.map((strategyResult) => {
+      const sortedLatenciesInMs = [...strategyResult.latenciesInMs].sort((first, second) => first - second);
+      const attemptedBidCount = strategyResult.acceptedBidCount + strategyResult.rejectedBidCount + strategyResult.failedBidCount;
+
+      return {
+        strategy: strategyResult.bidCommitStrategy,
+        attempted: attemptedBidCount,
+        accepted: strategyResult.acceptedBidCount,
+        rejected: strategyResult.rejectedBidCount,
+        failed: strategyResult.failedBidCount,
+        'bids/s': Number(((attemptedBidCount * 1000) / Math.max(1, strategyResult.elapsedTimeInMs)).toFixed(1)),
+        'accepted/s': Number(((strategyResult.acceptedBidCount * 1000) / Math.max(1, strategyResult.elapsedTimeInMs)).toFixed(1)),
+        'p50 ms': findLatencyPercentile(sortedLatenciesInMs, 50),
+        'p95 ms': findLatencyPercentile(sortedLatenciesInMs, 95),
+        'p99 ms': findLatencyPercentile(sortedLatenciesInMs, 99),
+        'max ms': sortedLatenciesInMs[sortedLatenciesInMs.length - 1] ?? 0
+      };
+    })
+  );
+
+  for (const strategyResult of strategyResults) {
+    if (strategyResult.rejectedBidCount > 0) {
+      console.log(`${strategyResult.bidCommitStrategy} rejections:`, strategyResult.rejectionCountsByCode);
+    }
+  }
+}
+
+// ==============================|| RUN ||============================== //
+
+async function runBidCommitStrategyBenchmark(): Promise<void> {
+  const options = parseBenchmarkOptions(process.argv.slice(2));
+  const fixtures = await createBenchmarkFixtures(options.bidderCount);
+
+  console.log(`Created benchmark run ${fixtures.runIdentifier} with ${options.bidderCount} funded bidders`);
+
+  const strategyResults: StrategyBenchmarkResult[] = [];
+
+  // Strategies run one after another so they never compete for the same database and Redis
+  for (const bidCommitStrategy of options.bidCommitStrategies) {
+    console.log(`Running ${bidCommitStrategy}...`);
+    strategyResults.push(await runStrategyBenchmark(fixtures, bidCommitStrategy, options.bidsPerBidder));
+  }
+
+  printBenchmarkReport(options, strategyResults);
+}
+
+runBidCommitStrategyBenchmark()
+  .catch((error) => {
+    console.error('Bid commit strategy benchmark failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prismaClient.$disconnect();
+    redisClient.disconnect();
+  });
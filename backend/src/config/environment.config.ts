@@ -17,6 +17,20 @@ const environmentVariablesSchema = z.object({
   // Redis Configuration
   REDIS_URL: z.string().min(1, 'REDIS_URL is required').describe('Redis connection string'),
 
+  // Distributed Lock Configuration
+  LOCK_BACKENDS: z
+    .string()
+    .default('redis,postgres')
+    .transform((valueAsString) => valueAsString.split(',').map((backendName) => backendName.trim()))
+    .pipe(z.array(z.enum(['redis', 'postgres', 'memory'])).min(1, 'At least one lock backend is required'))
+    .describe('Lock backends in failover order - locks go to the first healthy one'),
+
+  // Bid Commit Configuration
+  BID_COMMIT_STRATEGY: z
+    .enum(['queue', 'lock', 'conditional-update'])
+    .default('queue')
+    .describe('How bids are committed - queued per auction, under the lock directly, or by one conditional update'),
+
   // JWT Configuration
   JWT_SECRET_KEY: z
     .string()
@@ -40,6 +54,13 @@ const environmentVariablesSchema = z.object({
 
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development').describe('Node environment'),
 
+  NODE_ROLES: z
+    .string()
+    .default('api,socket,worker')
+    .transform((valueAsString) => valueAsString.split(',').map((nodeRole) => nodeRole.trim()))
+    .pipe(z.array(z.enum(['api', 'socket', 'worker'])).min(1, 'At least one node role is required'))
+    .describe('What this instance runs - the HTTP API, Socket.IO connections and the leader-elected background jobs'),
+
   // CORS Configuration
   CORS_ORIGIN: z.string().min(1, 'CORS_ORIGIN is required').describe('Allowed CORS origin'),
 
@@ -56,13 +77,95 @@ const environmentVariablesSchema = z.object({
     .default('100')
     .transform((valueAsString) => parseInt(valueAsString, 10))
     .refine((value) => value >= 1 && value <= 1000, 'Must be between 1 and 1000 requests')
-    .describe('Maximum requests per window')
+    .describe('Maximum requests per window'),
+
+  // Buy-It-Now Configuration
+  BUY_NOW_DISABLE_THRESHOLD_PERCENT: z
+    .string()
+    .default('50')
+    .transform((valueAsString) => parseInt(valueAsString, 10))
+    .refine((value) => value >= 1 && value <= 100, 'Must be between 1 and 100 percent')
+    .describe('Buy-now is hidden once the highest bid reaches this percentage of the buy-now price'),
+
+  // Bid Increment Configuration
+  DEFAULT_BID_INCREMENT_TABLE_NAME: z
+    .string()
+    .default('standard')
+    .describe('Platform increment table used when a seller does not choose one'),
+
+  // Checkout Configuration
+  ORDER_PAYMENT_DEADLINE_IN_HOURS: z
+    .string()
+    .default('48')
+    .transform((valueAsString) => parseInt(valueAsString, 10))
+    .refine((value) => value >= 1 && value <= 720, 'Must be between 1 and 720 hours')
+    .describe('How long a winner has to pay before the order is overdue'),
+
+  PAYMENT_PROVIDER: z.enum(['fake']).describe('Payment provider used for checkout - fake is switched off in production'),
+
+  PAYMENT_CALLBACK_SECRET: z
+    .string()
+    .min(16, 'PAYMENT_CALLBACK_SECRET must be at least 16 characters')
+    .describe('Shared secret the payment provider signs its callbacks with'),
+
+  PAYMENT_CALLBACK_BASE_URL: z
+    .string()
+    .default('http://localhost:3010/api')
+    .describe('Public API base URL the payment provider sends callbacks to'),
+
+  FAKE_PAYMENT_OUTCOME: z
+    .enum(['succeed', 'fail'])
+    .default('succeed')
+    .describe('Whether the fake payment provider reports payments as succeeded or failed'),
+
+  // Unpaid Item Configuration
+  UNPAID_STRIKE_LIMIT: z
+    .string()
+    .default('2')
+    .transform((valueAsString) => parseInt(valueAsString, 10))
+    .refine((value) => value >= 1 && value <= 10, 'Must be between 1 and 10 strikes')
+    .describe('Unpaid-item strikes within the window at which a user can no longer bid'),
+
+  UNPAID_STRIKE_WINDOW_IN_DAYS: z
+    .string()
+    .default('180')
+    .transform((valueAsString) => parseInt(valueAsString, 10))
+    .refine((value) => value >= 1 && value <= 3650, 'Must be between 1 and 3650 days')
+    .describe('How long a strike counts against a user'),
+
+  SECOND_CHANCE_OFFER_DURATION_IN_HOURS: z
+    .string()
+    .default('24')
+    .transform((valueAsString) => parseInt(valueAsString, 10))
+    .refine((value) => value >= 1 && value <= 168, 'Must be between 1 and 168 hours')
+    .describe('How long the runner-up has to accept a second-chance offer')
+});
+
+// ==============================|| PRODUCTION SAFEGUARDS ||============================== //
+// Settings that are fine locally but would let anyone mark orders as paid in production
+
+// The example secrets in .env.example and docker-compose.dev.yml
+const DEVELOPMENT_PAYMENT_CALLBACK_SECRETS = [
+  'your-payment-callback-secret-change-in-production',
+  'dev-payment-callback-secret-change-in-production'
+];
+
+const productionSafeEnvironmentVariablesSchema = environmentVariablesSchema.superRefine((environmentVariables, refinementContext) => {
+  if (environmentVariables.NODE_ENV !== 'production') return;
+
+  if (DEVELOPMENT_PAYMENT_CALLBACK_SECRETS.includes(environmentVariables.PAYMENT_CALLBACK_SECRET)) {
+    refinementContext.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['PAYMENT_CALLBACK_SECRET'],
+      message: 'PAYMENT_CALLBACK_SECRET must not be a development example value in production'
+    });
+  }
 });
 
 // ==============================|| VALIDATE ENVIRONMENT VARIABLES ||============================== //
 
 function validateAndParseEnvironmentVariables() {
-  const validationResult = environmentVariablesSchema.safeParse(process.env);
+  const validationResult = productionSafeEnvironmentVariablesSchema.safeParse(process.env);
 
   if (!validationResult.success) {
     const formattedErrors = validationResult.error.format();
@@ -85,3 +188,9 @@ export type EnvironmentConfigType = z.infer<typeof environmentVariablesSchema>;
 export const isProductionEnvironment = environmentConfig.NODE_ENV === 'production';
 export const isDevelopmentEnvironment = environmentConfig.NODE_ENV === 'development';
 export const isTestEnvironment = environmentConfig.NODE_ENV === 'test';
+
+export type NodeRole = EnvironmentConfigType['NODE_ROLES'][number];
+
+export function checkHasNodeRole(nodeRole: NodeRole): boolean {
+  return environmentConfig.NODE_ROLES.includes(nodeRole);
+}
@@ -2,7 +2,10 @@
 // Configuration options for Socket.IO server
 
 import { ServerOptions } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
 import { environmentConfig } from './environment.config';
+import { redisClient } from './redis-client.config';
 
 // ==============================|| SOCKET.IO SERVER OPTIONS ||============================== //
 // Defines the configuration for the Socket.IO server
@@ -23,6 +26,26 @@ export const socketIoServerOptions: Partial<ServerOptions> = {
   maxHttpBufferSize: 1e6 // 1MB max buffer size
 };
 
+// ==============================|| REDIS ADAPTER ||============================== //
+// Relays every broadcast through Redis pub/sub, so an emit on one instance reaches the clients of all of them.
+// Subscribing takes a connection of its own, so the adapter gets two alongside the shared client
+
+const redisAdapterClients: Redis[] = [];
+
+export function createSocketIoRedisAdapter(): ReturnType<typeof createAdapter> {
+  const publisherClient = redisClient.duplicate();
+  const subscriberClient = redisClient.duplicate();
+
+  redisAdapterClients.push(publisherClient, subscriberClient);
+
+  return createAdapter(publisherClient, subscriberClient);
+}
+
+export async function closeSocketIoRedisAdapter(): Promise<void> {
+  await Promise.all(redisAdapterClients.map((adapterClient) => adapterClient.quit()));
+  redisAdapterClients.length = 0;
+}
+
 // ==============================|| SOCKET ROOM PREFIXES ||============================== //
 // Prefixes used for organizing socket rooms
 
@@ -0,0 +1,84 @@
+// ==============================|| AUCTION EVENTS CONSTANTS ||============================== //
+// Defines the auction domain events recorded in the outbox and published to its consumers
+
+// ==============================|| EVENT TYPES ||============================== //
+
+export const AUCTION_EVENT_AUCTION_CREATED = 'AuctionCreated';
+export const AUCTION_EVENT_AUCTION_STARTED = 'AuctionStarted';
+export const AUCTION_EVENT_AUCTION_DETAILS_UPDATED = 'AuctionDetailsUpdated';
+export const AUCTION_EVENT_BID_PLACED = 'BidPlaced';
+export const AUCTION_EVENT_AUCTION_CANCELLED = 'AuctionCancelled';
+export const AUCTION_EVENT_AUCTION_ENDED = 'AuctionEnded';
+
+// ==============================|| EVENT PAYLOAD INTERFACES ||============================== //
+// Payloads are stored as JSON, so timestamps travel as ISO strings and amounts as whole cents
+
+// Consumers read the listing as it is when they take the event
+export interface AuctionCreatedEventPayload {
+  auctionItemId: string;
+}
+
+export interface AuctionStartedEventPayload {
+  auctionItemId: string;
+  auctionStartTimeTimestamp: string;
+  auctionEndTimeTimestamp: string;
+}
+
+export interface AuctionDetailsUpdatedEventPayload {
+  auctionItemId: string;
+  updatedFields: string[];
+}
+
+export interface BidPlacedEventPayload {
+  auctionItemId: string;
+  bidId: string;
+  currencyCode: string;
+  newHighestBidInCents: number;
+  highestBidderUserId: string | null;
+  highestBidderUsername: string | null;
+  bidPlacedAtTimestamp: string;
+  isReservePriceMet: boolean | null;
+  isBuyNowAvailable: boolean;
+  nextBidIncrementInCents: number | null;
+  auctionEndTimeTimestamp: string;
+  previousAuctionEndTimeTimestamp: string | null; // Only set when the bid extended the auction
+  isSealedBid: boolean; // The amount of a sealed bid is not in the event and it must not be shown publicly
+}
+
+export interface AuctionCancelledEventPayload {
+  auctionItemId: string;
+  itemTitle: string;
+  cancellationReason: string;
+  cancelledAtTimestamp: string;
+}
+
+export interface AuctionEndedEventPayload {
+  auctionItemId: string;
+  winnerUserId: string | null;
+  winnerUsername: string | null;
+  winners: {
+    userId: string;
+    username: string;
+    quantityWon: number;
+    pricePerUnitInCents: number;
+  }[];
+  finalBidAmountInCents: number;
+  currencyCode: string;
+  endReason: 'SOLD' | 'RESERVE_NOT_MET' | 'NO_BIDS' | 'BOUGHT_NOW';
+}
+
+// ==============================|| AUCTION DOMAIN EVENT ||============================== //
+
+export type AuctionDomainEvent =
+  | { eventType: typeof AUCTION_EVENT_AUCTION_CREATED; eventPayload: AuctionCreatedEventPayload }
+  | { eventType: typeof AUCTION_EVENT_AUCTION_STARTED; eventPayload: AuctionStartedEventPayload }
+  | { eventType: typeof AUCTION_EVENT_AUCTION_DETAILS_UPDATED; eventPayload: AuctionDetailsUpdatedEventPayload }
+  | { eventType: typeof AUCTION_EVENT_BID_PLACED; eventPayload: BidPlacedEventPayload }
+  | { eventType: typeof AUCTION_EVENT_AUCTION_CANCELLED; eventPayload: AuctionCancelledEventPayload }
+  | { eventType: typeof AUCTION_EVENT_AUCTION_ENDED; eventPayload: AuctionEndedEventPayload };
+
+// An event as consumers receive it from the outbox
+export type PublishedAuctionEvent = AuctionDomainEvent & {
+  eventId: string;
+  occurredAtTimestamp: Date;
+};
@@ -12,6 +12,7 @@ export const AUTH_ERROR_USER_NOT_FOUND = 'AUTH_USER_NOT_FOUND';
 export const AUTH_ERROR_EMAIL_ALREADY_EXISTS = 'AUTH_EMAIL_ALREADY_EXISTS';
 export const AUTH_ERROR_USERNAME_ALREADY_EXISTS = 'AUTH_USERNAME_ALREADY_EXISTS';
 export const AUTH_ERROR_ACCOUNT_INACTIVE = 'AUTH_ACCOUNT_INACTIVE';
+export const AUTH_ERROR_ADMIN_REQUIRED = 'AUTH_ADMIN_REQUIRED';
 
 // ==============================|| BID ERRORS ||============================== //
 
@@ -20,10 +21,71 @@ export const BID_ERROR_AUCTION_ENDED = 'BID_AUCTION_ENDED';
 export const BID_ERROR_AUCTION_NOT_STARTED = 'BID_AUCTION_NOT_STARTED';
 export const BID_ERROR_AUCTION_NOT_FOUND = 'BID_AUCTION_NOT_FOUND';
 export const BID_ERROR_BID_TOO_LOW = 'BID_AMOUNT_TOO_LOW';
+export const BID_ERROR_MAXIMUM_BID_TOO_LOW = 'BID_MAXIMUM_BID_TOO_LOW';
 export const BID_ERROR_INVALID_AMOUNT = 'BID_INVALID_AMOUNT';
 export const BID_ERROR_OWN_AUCTION = 'BID_CANNOT_BID_ON_OWN_AUCTION';
 export const BID_ERROR_PROCESSING_FAILED = 'BID_PROCESSING_FAILED';
 export const BID_ERROR_LOCK_ACQUISITION_FAILED = 'BID_LOCK_ACQUISITION_FAILED';
+export const BID_ERROR_WRONG_AUCTION_FORMAT = 'BID_WRONG_AUCTION_FORMAT';
+export const BID_ERROR_SEALED_BID_TOO_LOW = 'BID_SEALED_BID_TOO_LOW';
+export const BID_ERROR_SEALED_MAXIMUM_BID_NOT_ALLOWED = 'BID_SEALED_MAXIMUM_BID_NOT_ALLOWED';
+export const BID_ERROR_INVALID_QUANTITY = 'BID_INVALID_QUANTITY';
+export const BID_ERROR_MULTI_UNIT_MAXIMUM_BID_NOT_ALLOWED = 'BID_MULTI_UNIT_MAXIMUM_BID_NOT_ALLOWED';
+export const BID_ERROR_MULTI_UNIT_BID_LOWERED = 'BID_MULTI_UNIT_BID_LOWERED';
+export const BID_ERROR_INSUFFICIENT_FUNDS = 'BID_INSUFFICIENT_FUNDS';
+export const BID_ERROR_BIDDING_RESTRICTED = 'BID_BIDDING_RESTRICTED';
+export const BID_ERROR_CURRENCY_MISMATCH = 'BID_CURRENCY_MISMATCH';
+export const BID_ERROR_REQUEST_IN_PROGRESS = 'BID_REQUEST_IN_PROGRESS';
+export const BID_ERROR_REQUEST_ID_REUSED = 'BID_REQUEST_ID_REUSED';
+export const BID_ERROR_QUEUE_TIMEOUT = 'BID_QUEUE_TIMEOUT';
+export const BID_ERROR_LOCK_LEASE_LOST = 'BID_LOCK_LEASE_LOST';
+export const BID_ERROR_OUTCOME_UNKNOWN = 'BID_OUTCOME_UNKNOWN';
+
+// ==============================|| BUY NOW ERRORS ||============================== //
+
+export const BUY_NOW_ERROR_NOT_AVAILABLE = 'BUY_NOW_NOT_AVAILABLE';
+export const BUY_NOW_ERROR_OWN_AUCTION = 'BUY_NOW_CANNOT_BUY_OWN_AUCTION';
+export const BUY_NOW_ERROR_PROCESSING_FAILED = 'BUY_NOW_PROCESSING_FAILED';
+
+// ==============================|| DUTCH AUCTION ERRORS ||============================== //
+
+export const DUTCH_ERROR_NOT_DUTCH_AUCTION = 'DUTCH_NOT_A_DUTCH_AUCTION';
+export const DUTCH_ERROR_OWN_AUCTION = 'DUTCH_CANNOT_ACCEPT_OWN_AUCTION';
+export const DUTCH_ERROR_PROCESSING_FAILED = 'DUTCH_PROCESSING_FAILED';
+
+// ==============================|| WALLET ERRORS ||============================== //
+
+export const WALLET_ERROR_INVALID_DEPOSIT_AMOUNT = 'WALLET_INVALID_DEPOSIT_AMOUNT';
+export const WALLET_ERROR_OPERATION_FAILED = 'WALLET_OPERATION_FAILED';
+export const WALLET_ERROR_DEPOSIT_FAILED = 'WALLET_DEPOSIT_FAILED';
+
+// ==============================|| CURRENCY ERRORS ||============================== //
+
+export const CURRENCY_ERROR_UNSUPPORTED = 'CURRENCY_UNSUPPORTED';
+export const CURRENCY_ERROR_INVALID_RATE = 'CURRENCY_INVALID_RATE';
+export const CURRENCY_ERROR_PLATFORM_RATE_FIXED = 'CURRENCY_PLATFORM_RATE_FIXED';
+export const CURRENCY_ERROR_OPERATION_FAILED = 'CURRENCY_OPERATION_FAILED';
+
+// ==============================|| ORDER ERRORS ||============================== //
+
+export const ORDER_ERROR_NOT_FOUND = 'ORDER_NOT_FOUND';
+export const ORDER_ERROR_ALREADY_PAID = 'ORDER_ALREADY_PAID';
+export const ORDER_ERROR_PAYMENT_IN_PROGRESS = 'ORDER_PAYMENT_IN_PROGRESS';
+export const ORDER_ERROR_CHECKOUT_FAILED = 'ORDER_CHECKOUT_FAILED';
+export const ORDER_ERROR_PAYMENT_DEADLINE_PASSED = 'ORDER_PAYMENT_DEADLINE_PASSED';
+export const PAYMENT_ERROR_UNKNOWN_PROVIDER = 'PAYMENT_UNKNOWN_PROVIDER';
+export const PAYMENT_ERROR_INVALID_CALLBACK = 'PAYMENT_INVALID_CALLBACK';
+export const PAYMENT_ERROR_PROVIDER_UNAVAILABLE = 'PAYMENT_PROVIDER_UNAVAILABLE';
+
+// ==============================|| SECOND CHANCE OFFER ERRORS ||============================== //
+
+export const SECOND_CHANCE_ERROR_ORDER_NOT_FOUND = 'SECOND_CHANCE_ORDER_NOT_FOUND';
+export const SECOND_CHANCE_ERROR_ORDER_NOT_VOIDED = 'SECOND_CHANCE_ORDER_NOT_VOIDED';
+export const SECOND_CHANCE_ERROR_OFFER_ALREADY_OPEN = 'SECOND_CHANCE_OFFER_ALREADY_OPEN';
+export const SECOND_CHANCE_ERROR_NO_RUNNER_UP = 'SECOND_CHANCE_NO_RUNNER_UP';
+export const SECOND_CHANCE_ERROR_OFFER_NOT_FOUND = 'SECOND_CHANCE_OFFER_NOT_FOUND';
+export const SECOND_CHANCE_ERROR_OFFER_UNAVAILABLE = 'SECOND_CHANCE_OFFER_UNAVAILABLE';
+export const SECOND_CHANCE_ERROR_OPERATION_FAILED = 'SECOND_CHANCE_OPERATION_FAILED';
 
 // ==============================|| AUCTION ERRORS ||============================== //
 
@@ -31,6 +93,12 @@ export const AUCTION_ERROR_NOT_FOUND = 'AUCTION_NOT_FOUND';
 export const AUCTION_ERROR_ALREADY_ENDED = 'AUCTION_ALREADY_ENDED';
 export const AUCTION_ERROR_NOT_ACTIVE = 'AUCTION_NOT_ACTIVE';
 export const AUCTION_ERROR_INVALID_DATES = 'AUCTION_INVALID_DATES';
+export const AUCTION_ERROR_NOT_CREATOR = 'AUCTION_NOT_CREATOR';
+export const AUCTION_ERROR_NOT_MODIFIABLE = 'AUCTION_NOT_MODIFIABLE';
+export const AUCTION_ERROR_EDIT_LOCKED_AFTER_BIDS = 'AUCTION_EDIT_LOCKED_AFTER_BIDS';
+export const AUCTION_ERROR_INVALID_EDIT = 'AUCTION_INVALID_EDIT';
+export const AUCTION_ERROR_CANCELLATION_REASON_REQUIRED = 'AUCTION_CANCELLATION_REASON_REQUIRED';
+export const AUCTION_ERROR_MANAGEMENT_FAILED = 'AUCTION_MANAGEMENT_FAILED';
 
 // ==============================|| VALIDATION ERRORS ||============================== //
 
@@ -61,6 +129,7 @@ export const ERROR_MESSAGES_MAP: Record<string, string> = {
   [AUTH_ERROR_EMAIL_ALREADY_EXISTS]: 'An account with this email already exists',
   [AUTH_ERROR_USERNAME_ALREADY_EXISTS]: 'This username is already taken',
   [AUTH_ERROR_ACCOUNT_INACTIVE]: 'Your account has been deactivated',
+  [AUTH_ERROR_ADMIN_REQUIRED]: 'Only platform administrators can do this',
 
   // Bidding
   [BID_ERROR_CONCURRENT_BID]: 'Another bid was placed at the same time. Please try again',
@@ -68,16 +137,77 @@ export const ERROR_MESSAGES_MAP: Record<string, string> = {
   [BID_ERROR_AUCTION_NOT_STARTED]: 'This auction has not started yet',
   [BID_ERROR_AUCTION_NOT_FOUND]: 'Auction not found',
   [BID_ERROR_BID_TOO_LOW]: 'Your bid must be higher than the current bid plus minimum increment',
+  [BID_ERROR_MAXIMUM_BID_TOO_LOW]: 'Your maximum bid must be at least the next minimum bid',
   [BID_ERROR_INVALID_AMOUNT]: 'Invalid bid amount',
   [BID_ERROR_OWN_AUCTION]: 'You cannot bid on your own auction',
   [BID_ERROR_PROCESSING_FAILED]: 'Failed to process bid. Please try again',
   [BID_ERROR_LOCK_ACQUISITION_FAILED]: 'Bid processing is busy. Please try again',
+  [BID_ERROR_WRONG_AUCTION_FORMAT]: 'This auction does not accept bids. Accept the current price instead',
+  [BID_ERROR_SEALED_BID_TOO_LOW]: 'Your sealed bid must be at least the starting price',
+  [BID_ERROR_SEALED_MAXIMUM_BID_NOT_ALLOWED]: 'Maximum bids are not available on sealed-bid auctions',
+  [BID_ERROR_INVALID_QUANTITY]: 'Quantity must be a whole number no larger than the units on offer',
+  [BID_ERROR_MULTI_UNIT_MAXIMUM_BID_NOT_ALLOWED]: 'Maximum bids are not available on multi-quantity auctions',
+  [BID_ERROR_MULTI_UNIT_BID_LOWERED]: 'Your new bid cannot be lower per unit than your standing bid',
+  [BID_ERROR_INSUFFICIENT_FUNDS]: 'Your wallet does not have enough available funds for this amount',
+  [BID_ERROR_BIDDING_RESTRICTED]: 'Bidding is restricted on your account because of unpaid items',
+  [BID_ERROR_CURRENCY_MISMATCH]: "Bids must be placed in the auction's own currency",
+  [BID_ERROR_REQUEST_IN_PROGRESS]: 'This bid is still being processed. Check back in a moment',
+  [BID_ERROR_REQUEST_ID_REUSED]: 'This bid request was already used for a different bid',
+  [BID_ERROR_QUEUE_TIMEOUT]: 'Bids are arriving faster than they can be processed. Your bid was not placed, please try again',
+  [BID_ERROR_LOCK_LEASE_LOST]: 'Your bid took too long to process and was not placed. Please try again',
+  [BID_ERROR_OUTCOME_UNKNOWN]: 'We could not confirm whether your bid was placed. Check the auction before bidding again',
+
+  // Buy now
+  [BUY_NOW_ERROR_NOT_AVAILABLE]: 'Buy It Now is no longer available for this auction',
+  [BUY_NOW_ERROR_OWN_AUCTION]: 'You cannot buy your own auction item',
+  [BUY_NOW_ERROR_PROCESSING_FAILED]: 'Failed to complete the purchase. Please try again',
+
+  // Dutch auction
+  [DUTCH_ERROR_NOT_DUTCH_AUCTION]: 'This auction does not have a descending price',
+  [DUTCH_ERROR_OWN_AUCTION]: 'You cannot buy your own auction item',
+  [DUTCH_ERROR_PROCESSING_FAILED]: 'Failed to accept the price. Please try again',
+
+  // Wallet
+  [WALLET_ERROR_INVALID_DEPOSIT_AMOUNT]: 'Deposits must be between 0.01 and 100,000.00',
+  [WALLET_ERROR_OPERATION_FAILED]: 'Wallet update failed. Please try again',
+  [WALLET_ERROR_DEPOSIT_FAILED]: 'Failed to start the deposit payment. Please try again',
+
+  // Currency
+  [CURRENCY_ERROR_UNSUPPORTED]: 'This currency is not supported',
+  [CURRENCY_ERROR_INVALID_RATE]: 'Exchange rates must be a positive number with at most 8 decimal places',
+  [CURRENCY_ERROR_PLATFORM_RATE_FIXED]: 'The platform currency always has a rate of 1',
+  [CURRENCY_ERROR_OPERATION_FAILED]: 'Failed to update currency settings. Please try again',
+
+  // Orders
+  [ORDER_ERROR_NOT_FOUND]: 'Order not found',
+  [ORDER_ERROR_ALREADY_PAID]: 'This order has already been paid',
+  [ORDER_ERROR_PAYMENT_IN_PROGRESS]: 'A payment for this order is already being processed',
+  [ORDER_ERROR_CHECKOUT_FAILED]: 'Failed to start checkout. Please try again',
+  [ORDER_ERROR_PAYMENT_DEADLINE_PASSED]: 'The payment deadline for this order has passed',
+  [PAYMENT_ERROR_UNKNOWN_PROVIDER]: 'Unknown payment provider',
+  [PAYMENT_ERROR_INVALID_CALLBACK]: 'Invalid payment callback',
+  [PAYMENT_ERROR_PROVIDER_UNAVAILABLE]: 'Payments are not available right now. Please try again later',
+
+  // Second-chance offers
+  [SECOND_CHANCE_ERROR_ORDER_NOT_FOUND]: 'Order not found',
+  [SECOND_CHANCE_ERROR_ORDER_NOT_VOIDED]: 'Second-chance offers can only follow a win that was voided for non-payment',
+  [SECOND_CHANCE_ERROR_OFFER_ALREADY_OPEN]: 'This item already has an open or accepted second-chance offer',
+  [SECOND_CHANCE_ERROR_NO_RUNNER_UP]: 'There is no other eligible bidder to make an offer to',
+  [SECOND_CHANCE_ERROR_OFFER_NOT_FOUND]: 'Offer not found',
+  [SECOND_CHANCE_ERROR_OFFER_UNAVAILABLE]: 'This offer has expired or was already answered',
+  [SECOND_CHANCE_ERROR_OPERATION_FAILED]: 'Failed to process the offer. Please try again',
 
   // Auction
   [AUCTION_ERROR_NOT_FOUND]: 'Auction not found',
   [AUCTION_ERROR_ALREADY_ENDED]: 'This auction has already ended',
   [AUCTION_ERROR_NOT_ACTIVE]: 'This auction is not currently active',
   [AUCTION_ERROR_INVALID_DATES]: 'Invalid auction dates',
+  [AUCTION_ERROR_NOT_CREATOR]: 'Only the seller can change this auction',
+  [AUCTION_ERROR_NOT_MODIFIABLE]: 'Only scheduled or running auctions can be changed',
+  [AUCTION_ERROR_EDIT_LOCKED_AFTER_BIDS]: 'Once bidding has started you can only add to the description',
+  [AUCTION_ERROR_INVALID_EDIT]: 'Invalid auction changes',
+  [AUCTION_ERROR_CANCELLATION_REASON_REQUIRED]: 'Please give bidders a reason for cancelling (at least 3 characters)',
+  [AUCTION_ERROR_MANAGEMENT_FAILED]: 'Failed to update the auction. Please try again',
 
   // Validation
   [VALIDATION_ERROR_INVALID_EMAIL]: 'Please enter a valid email address',
@@ -111,4 +241,5 @@ export const HTTP_STATUS_CONFLICT = 409;
 export const HTTP_STATUS_UNPROCESSABLE_ENTITY = 422;
 export const HTTP_STATUS_TOO_MANY_REQUESTS = 429;
 export const HTTP_STATUS_INTERNAL_SERVER_ERROR = 500;
+export const HTTP_STATUS_BAD_GATEWAY = 502;
 export const HTTP_STATUS_SERVICE_UNAVAILABLE = 503;
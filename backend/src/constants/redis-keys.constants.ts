@@ -10,23 +10,67 @@ export function generateBidProcessingLockKey(auctionItemId: string): string {
   return `${REDIS_KEY_PREFIX_FOR_BID_PROCESSING_LOCK}${auctionItemId}`;
 }
 
-// ==============================|| AUCTION STATE CACHE ||============================== //
-// Keys for caching current auction state for fast reads
+// ==============================|| LEADER ELECTION ||============================== //
+// Keys for the lease held by the one instance that runs a background job
+
+export const REDIS_KEY_PREFIX_FOR_LEADER_ELECTION = 'leader:';
+
+export function generateLeaderElectionKey(electionName: string): string {
+  return `${REDIS_KEY_PREFIX_FOR_LEADER_ELECTION}${electionName}`;
+}
+
+// ==============================|| AUCTION LIFECYCLE SCHEDULE ||============================== //
+// Sorted set of every auction waiting to start or end, scored by the time that is next due in milliseconds
+
+export const REDIS_KEY_FOR_AUCTION_LIFECYCLE_SCHEDULE = 'schedule:auction-lifecycle';
+
+// ==============================|| OUTBOX NOTIFICATIONS ||============================== //
+// Pub/sub channel a writer pings once its transaction has recorded outbox events, waking the dispatcher
+
+export const REDIS_CHANNEL_FOR_OUTBOX_EVENTS_RECORDED = 'outbox:events-recorded';
+
+// ==============================|| BID QUEUES ||============================== //
+// Keys for the per-auction Redis Stream bids wait in, for the marker of a bid being processed, and for the
+// outcome handed back to each queued bidder
+
+export const REDIS_KEY_PREFIX_FOR_BID_QUEUE = 'queue:bid:';
+export const REDIS_KEY_PREFIX_FOR_BID_QUEUE_PROCESSING = 'queue:bid-processing:';
+export const REDIS_KEY_PREFIX_FOR_BID_QUEUE_RESULT = 'queue:bid-result:';
 
-export const REDIS_KEY_PREFIX_FOR_CURRENT_BID = 'auction:current-bid:';
-export const REDIS_KEY_PREFIX_FOR_HIGHEST_BIDDER = 'auction:highest-bidder:';
-export const REDIS_KEY_PREFIX_FOR_AUCTION_STATUS = 'auction:status:';
+export function generateBidQueueStreamKey(auctionItemId: string): string {
+  return `${REDIS_KEY_PREFIX_FOR_BID_QUEUE}${auctionItemId}`;
+}
+
+export function generateBidQueueProcessingKey(queuedJobId: string): string {
+  return `${REDIS_KEY_PREFIX_FOR_BID_QUEUE_PROCESSING}${queuedJobId}`;
+}
+
+export function generateBidQueueResultKey(queuedJobId: string): string {
+  return `${REDIS_KEY_PREFIX_FOR_BID_QUEUE_RESULT}${queuedJobId}`;
+}
 
-export function generateCurrentBidCacheKey(auctionItemId: string): string {
-  return `${REDIS_KEY_PREFIX_FOR_CURRENT_BID}${auctionItemId}`;
+// ==============================|| BID REQUEST DEDUPLICATION ||============================== //
+// Keys for remembering recent bid requests and their outcomes, so a retried PLACE_BID is answered instead of re-run
+
+export const REDIS_KEY_PREFIX_FOR_BID_REQUEST = 'bid-request:';
+
+// Scoped to the bidder so one user can never read back another user's outcome
+export function generateBidRequestKey(bidderUserId: string, bidRequestId: string): string {
+  return `${REDIS_KEY_PREFIX_FOR_BID_REQUEST}${bidderUserId}:${bidRequestId}`;
 }
 
-export function generateHighestBidderCacheKey(auctionItemId: string): string {
-  return `${REDIS_KEY_PREFIX_FOR_HIGHEST_BIDDER}${auctionItemId}`;
+// ==============================|| AUCTION STATE CACHE ||============================== //
+// Keys for caching current auction state for fast reads, and the generation counter bumped on every invalidation
+
+export const REDIS_KEY_PREFIX_FOR_AUCTION_STATE = 'auction:state:';
+export const REDIS_KEY_PREFIX_FOR_AUCTION_STATE_GENERATION = 'auction:state-generation:';
+
+export function generateAuctionStateCacheKey(auctionItemId: string): string {
+  return `${REDIS_KEY_PREFIX_FOR_AUCTION_STATE}${auctionItemId}`;
 }
 
-export function generateAuctionStatusCacheKey(auctionItemId: string): string {
-  return `${REDIS_KEY_PREFIX_FOR_AUCTION_STATUS}${auctionItemId}`;
+export function generateAuctionStateGenerationKey(auctionItemId: string): string {
+  return `${REDIS_KEY_PREFIX_FOR_AUCTION_STATE_GENERATION}${auctionItemId}`;
 }
 
 // ==============================|| TOKEN BLACKLIST ||============================== //
@@ -64,7 +108,24 @@ export function generateRateLimitKey(ipAddress: string, endpoint: string): strin
 // ==============================|| CACHE TTL VALUES (IN SECONDS) ||============================== //
 // Time-to-live values for various cached data
 
-export const CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS = 60; // 1 minute
+export const CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS = 60; // 1 minute - a safety net, as writes update or invalidate the cache
+export const CACHE_TTL_FOR_AUCTION_STATE_GENERATION_IN_SECONDS = 3600; // 1 hour - far longer than any read that fills the cache
 export const CACHE_TTL_FOR_BLACKLISTED_TOKEN_IN_SECONDS = 86400; // 24 hours (matches JWT expiry)
 export const CACHE_TTL_FOR_USER_SESSION_IN_SECONDS = 86400; // 24 hours
 export const LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS = 5000; // 5 seconds
+export const LOCK_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS = 1500; // Renewed well before the 5 second lease runs out
+export const LOCK_ACQUIRE_MAXIMUM_ATTEMPTS = 5;
+export const LOCK_ACQUIRE_BASE_RETRY_DELAY_IN_MILLISECONDS = 25;
+export const LOCK_ACQUIRE_MAXIMUM_RETRY_DELAY_IN_MILLISECONDS = 400;
+export const LEADER_LEASE_TTL_IN_MILLISECONDS = 15000; // 15 seconds - how long jobs pause when the leader dies
+export const LEADER_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS = 5000; // Renewed twice before the lease could run out
+export const AUCTION_SCHEDULER_MAXIMUM_SLEEP_IN_MILLISECONDS = 1000; // Auctions scheduled by other instances are picked up this quickly
+export const AUCTION_SCHEDULER_FALLBACK_POLL_INTERVAL_IN_MILLISECONDS = 5000; // How often Postgres is swept for due auctions while Redis is down
+export const AUCTION_SCHEDULER_RETRY_DELAY_IN_MILLISECONDS = 1000; // A due auction that could not be finalized is tried again after this
+export const AUCTION_SCHEDULE_RECONCILE_INTERVAL_IN_MILLISECONDS = 30000; // 30 seconds - rebuilds the schedule from Postgres and sweeps anything missed
+export const CACHE_TTL_FOR_BID_REQUEST_IN_SECONDS = 600; // 10 minutes - long enough for any client retry
+export const CACHE_TTL_FOR_UNCONFIRMED_BID_REQUEST_IN_SECONDS = 60; // 1 minute - a bid whose outcome was unknown is settled by then, or never
+export const CACHE_TTL_FOR_BID_QUEUE_RESULT_IN_SECONDS = 60; // 1 minute - collected by the waiting bidder right away
+export const CACHE_TTL_FOR_BID_QUEUE_STREAM_IN_SECONDS = 3600; // 1 hour - an idle auction's empty stream is cleaned up
+export const QUEUE_WAIT_TIMEOUT_FOR_BID_IN_MILLISECONDS = 6000; // 6 seconds - a bid still queued after this is taken out unprocessed
+export const QUEUE_SUBMISSION_TIMEOUT_FOR_BID_IN_MILLISECONDS = 9000; // 9 seconds - answered before the client's 10 second timeout
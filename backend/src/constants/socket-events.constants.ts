@@ -1,6 +1,8 @@
 // ==============================|| SOCKET EVENTS CONSTANTS ||============================== //
 // Defines all WebSocket event names for client-server communication
 
+import { Money } from '../utils/money.util';
+
 // ==============================|| CLIENT TO SERVER EVENTS ||============================== //
 // Events emitted from client to server
 
@@ -8,6 +10,8 @@ export const SOCKET_EVENT_CLIENT_TIME_SYNC_REQUEST = 'TIME_SYNC_REQUEST';
 export const SOCKET_EVENT_CLIENT_JOIN_AUCTION_ROOM = 'JOIN_AUCTION_ROOM';
 export const SOCKET_EVENT_CLIENT_LEAVE_AUCTION_ROOM = 'LEAVE_AUCTION_ROOM';
 export const SOCKET_EVENT_CLIENT_PLACE_BID = 'PLACE_BID';
+export const SOCKET_EVENT_CLIENT_BUY_NOW = 'BUY_NOW';
+export const SOCKET_EVENT_CLIENT_ACCEPT_DUTCH_PRICE = 'ACCEPT_DUTCH_PRICE';
 
 // ==============================|| SERVER TO CLIENT EVENTS ||============================== //
 // Events emitted from server to client
@@ -21,6 +25,15 @@ export const SOCKET_EVENT_SERVER_JOINED_AUCTION_ROOM = 'JOINED_AUCTION_ROOM';
 export const SOCKET_EVENT_SERVER_LEFT_AUCTION_ROOM = 'LEFT_AUCTION_ROOM';
 export const SOCKET_EVENT_SERVER_CONNECTION_ERROR = 'CONNECTION_ERROR';
 export const SOCKET_EVENT_SERVER_AUCTION_STATE_SYNC = 'AUCTION_STATE_SYNC';
+export const SOCKET_EVENT_SERVER_AUCTION_END_TIME_EXTENDED = 'AUCTION_END_TIME_EXTENDED';
+export const SOCKET_EVENT_SERVER_AUCTION_ENDED_BROADCAST = 'auction:ended';
+export const SOCKET_EVENT_SERVER_AUCTION_STARTED_BROADCAST = 'auction:started';
+export const SOCKET_EVENT_SERVER_AUCTION_CANCELLED_NOTIFICATION = 'AUCTION_CANCELLED_NOTIFICATION';
+export const SOCKET_EVENT_SERVER_AUCTION_DETAILS_UPDATED = 'AUCTION_DETAILS_UPDATED';
+export const SOCKET_EVENT_SERVER_BUY_NOW_SUCCESS = 'BUY_NOW_SUCCESS';
+export const SOCKET_EVENT_SERVER_BUY_NOW_ERROR = 'BUY_NOW_ERROR';
+export const SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_SUCCESS = 'DUTCH_PRICE_ACCEPTED_SUCCESS';
+export const SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_ERROR = 'DUTCH_PRICE_ACCEPTED_ERROR';
 
 // ==============================|| BUILT-IN SOCKET.IO EVENTS ||============================== //
 // Standard Socket.IO events
@@ -31,7 +44,7 @@ export const SOCKET_EVENT_ERROR = 'error';
 export const SOCKET_EVENT_CONNECT_ERROR = 'connect_error';
 
 // ==============================|| EVENT PAYLOAD INTERFACES ||============================== //
-// TypeScript interfaces for event payloads
+// TypeScript interfaces for event payloads. Every amount travels as Money - whole cents with their currency
 
 export interface TimeSyncRequestPayload {
   clientTimestampT0InMs: number;
@@ -53,45 +66,137 @@ export interface LeaveAuctionRoomPayload {
 
 export interface PlaceBidPayload {
   auctionItemId: string;
-  bidAmountInDollars: number;
+  bidAmount: Money;
+  maximumBidAmount?: Money | null; // Hidden ceiling for automatic counter-bids
+  bidQuantity?: number; // Units wanted on a multi-quantity auction, where the amount is per unit
+  bidRequestId?: string; // Client-generated and reused on retries - a repeat gets the original outcome instead of a second bid
+}
+
+export interface BuyNowPayload {
+  auctionItemId: string;
+}
+
+export interface AcceptDutchPricePayload {
+  auctionItemId: string;
 }
 
 export interface BidUpdateBroadcastPayload {
   auctionItemId: string;
-  newHighestBidInDollars: number;
+  newHighestBid: Money;
   highestBidderUserId: string;
   highestBidderUsername: string;
   bidPlacedAtTimestamp: string;
   totalNumberOfBids: number;
+  isReservePriceMet: boolean | null; // Null when the auction has no reserve - the amount itself is never sent
+  isBuyNowAvailable: boolean;
+  bidIncrement: Money; // Increment of the band the new price falls in
+}
+
+export interface AuctionEndedWinnerPayload {
+  userId: string;
+  username: string;
+  quantityWon: number;
+  pricePerUnit: Money;
 }
 
 export interface AuctionEndedNotificationPayload {
   auctionItemId: string;
   winnerUserId: string | null;
   winnerUsername: string | null;
-  finalBidAmountInDollars: number;
+  winners: AuctionEndedWinnerPayload[]; // Several when a multi-quantity auction sold to more than one bidder
+  finalBidAmount: Money;
+  endReason: 'SOLD' | 'NO_BIDS' | 'RESERVE_NOT_MET' | 'BOUGHT_NOW';
   auctionEndedAtTimestamp: string;
 }
 
+export interface AuctionStartedBroadcastPayload {
+  auctionItemId: string;
+  auctionStartTimeTimestamp: string;
+  auctionEndTimeTimestamp: string;
+}
+
+export interface AuctionCancelledNotificationPayload {
+  auctionItemId: string;
+  itemTitle: string;
+  cancellationReason: string;
+  cancelledAtTimestamp: string;
+}
+
+export interface AuctionDetailsUpdatedPayload {
+  auctionItemId: string;
+  itemTitle: string;
+  itemDescription: string;
+  itemImageUrl: string | null;
+  bidIncrement: Money;
+}
+
+export interface AuctionEndTimeExtendedPayload {
+  auctionItemId: string;
+  previousAuctionEndTimeTimestamp: string;
+  newAuctionEndTimeTimestamp: string;
+  extendedBySeconds: number;
+}
+
 export interface BidPlacedSuccessPayload {
   auctionItemId: string;
-  bidAmountInDollars: number;
-  bidId: string;
+  bidAmount: Money;
+  bidId: string | null; // Null when only the bidder's maximum bid was raised
   bidPlacedAtTimestamp: string;
+  newHighestBid: Money;
+  isHighestBidder: boolean;
+  maximumBidAmount: Money | null; // Only ever sent back to the bidder who set it
+  isSealedBid: boolean; // Sealed bids never report a standing - the result is only known at close
+  quantityWinning: number | null; // Units the standing bid currently wins on a multi-quantity auction
+  bidRequestId: string | null; // Echoed back so the client can match the reply to its request
+}
+
+export interface BuyNowSuccessPayload {
+  auctionItemId: string;
+  purchasePrice: Money;
+  purchasedAtTimestamp: string;
+}
+
+export interface BuyNowErrorPayload {
+  auctionItemId: string;
+  errorCode: string;
+  errorMessage: string;
+}
+
+export interface DutchPriceAcceptedSuccessPayload {
+  auctionItemId: string;
+  purchasePrice: Money;
+  purchasedAtTimestamp: string;
+}
+
+export interface DutchPriceAcceptedErrorPayload {
+  auctionItemId: string;
+  errorCode: string;
+  errorMessage: string;
 }
 
 export interface BidPlacedErrorPayload {
   auctionItemId: string;
   errorCode: string;
   errorMessage: string;
+  bidRequestId?: string | null;
 }
 
+// Passed to the PLACE_BID acknowledgement callback. Clients that emit without one get
+// BID_PLACED_SUCCESS or BID_PLACED_ERROR with the same payload instead
+export type PlaceBidAcknowledgement =
+  | { wasBidSuccessful: true; successPayload: BidPlacedSuccessPayload }
+  | { wasBidSuccessful: false; errorPayload: BidPlacedErrorPayload };
+
+export type PlaceBidAcknowledgementCallback = (acknowledgement: PlaceBidAcknowledgement) => void;
+
 export interface AuctionStateSyncPayload {
   auctionItemId: string;
-  currentHighestBidInDollars: number;
+  currentHighestBid: Money;
   highestBidderUserId: string | null;
   highestBidderUsername: string | null;
   auctionEndTimeTimestamp: string;
   currentStatus: string;
   totalNumberOfBids: number;
+  isReservePriceMet: boolean | null;
+  bidIncrement: Money;
 }
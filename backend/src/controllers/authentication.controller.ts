@@ -6,6 +6,7 @@ import {
   loginUserWithCredentials,
   logoutUserAndBlacklistToken,
   fetchUserProfileById,
+  updateUserDisplayCurrency,
 } from "../services/authentication.service";
 import { AuthenticatedRequest } from "../middleware/authentication.middleware";
 import {
@@ -61,7 +62,8 @@ export async function handleUserRegistrationRequest(
           email: result.userProfile?.emailAddress,
           name: result.userProfile?.fullName,
           avatar: result.userProfile?.avatarUrl,
-          role: "user",
+          role: result.userProfile?.isPlatformAdmin ? "admin" : "user",
+          displayCurrencyCode: result.userProfile?.displayCurrencyCode,
         },
       },
     });
@@ -115,7 +117,8 @@ export async function handleUserLoginRequest(
           email: result.userProfile?.emailAddress,
           name: result.userProfile?.fullName,
           avatar: result.userProfile?.avatarUrl,
-          role: "user",
+          role: result.userProfile?.isPlatformAdmin ? "admin" : "user",
+          displayCurrencyCode: result.userProfile?.displayCurrencyCode,
         },
       },
     });
@@ -212,7 +215,8 @@ export async function handleGetCurrentUserRequest(
           email: userProfile.emailAddress,
           name: userProfile.fullName,
           avatar: userProfile.avatarUrl,
-          role: "user",
+          role: userProfile.isPlatformAdmin ? "admin" : "user",
+          displayCurrencyCode: userProfile.displayCurrencyCode,
         },
       },
     });
@@ -225,3 +229,47 @@ export async function handleGetCurrentUserRequest(
     });
   }
 }
+
+export async function handleUpdateDisplayCurrencyRequest(
+  request: AuthenticatedRequest,
+  response: Response,
+): Promise<void> {
+  try {
+    const { authenticatedUser } = request;
+
+    if (!authenticatedUser) {
+      response.status(HTTP_STATUS_UNAUTHORIZED).json({
+        success: false,
+        errorCode: "AUTH_ERROR",
+        errorMessage: "Not authenticated",
+      });
+      return;
+    }
+
+    const result = await updateUserDisplayCurrency(
+      authenticatedUser.userId,
+      request.body?.currencyCode,
+    );
+
+    if (!result.wasUpdateSuccessful) {
+      response.status(HTTP_STATUS_BAD_REQUEST).json({
+        success: false,
+        errorCode: result.errorCode,
+        errorMessage: result.errorMessage,
+      });
+      return;
+    }
+
+    response.status(HTTP_STATUS_OK).json({
+      success: true,
+      data: { displayCurrencyCode: result.displayCurrencyCode },
+    });
+  } catch (error) {
+    logErrorMessage("Error in update display currency controller", error);
+    response.status(HTTP_STATUS_BAD_REQUEST).json({
+      success: false,
+      errorCode: "SERVER_ERROR",
+      errorMessage: "An unexpected error occurred",
+    });
+  }
+}
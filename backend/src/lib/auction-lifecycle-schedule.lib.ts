@@ -0,0 +1,91 @@
+// ==============================|| AUCTION LIFECYCLE SCHEDULE ||============================== //
+// Keeps every auction waiting to start or end in one Redis sorted set, scored by the time its next event is due,
+// so the scheduler can sleep until exactly the earliest one. The schedule only says when to look - Postgres
+// decides what is actually due - so an entry that is stale, early or missing costs a wasted wake at worst
+
+import { AuctionItemStatus } from '@prisma/client';
+import { redisClient } from '../config/redis-client.config';
+import { REDIS_KEY_FOR_AUCTION_LIFECYCLE_SCHEDULE } from '../constants/redis-keys.constants';
+import { logErrorMessage } from '../utils/logger.util';
+
+// ==============================|| SCHEDULE INTERFACES ||============================== //
+
+export interface SchedulableAuction {
+  id: string;
+  currentStatus: AuctionItemStatus;
+  auctionStartTimeTimestamp: Date;
+  auctionEndTimeTimestamp: Date;
+}
+
+// Commands sent while disconnected would wait out the client's reconnect retries
+export function checkIsLifecycleScheduleAvailable(): boolean {
+  return redisClient.status === 'ready';
+}
+
+// The next event of an auction still waiting on one: its opening while scheduled, its close while running
+export function findNextLifecycleEventTimestamp(auction: SchedulableAuction): Date | null {
+  if (auction.currentStatus === 'SCHEDULED') return auction.auctionStartTimeTimestamp;
+  if (auction.currentStatus === 'ACTIVE') return auction.auctionEndTimeTimestamp;
+
+  return null;
+}
+
+// ==============================|| WRITE SCHEDULE ||============================== //
+
+// Puts the auction on the schedule at its next event. A failure is only logged - the next reconcile puts it back
+export async function scheduleAuctionLifecycleEvent(auction: SchedulableAuction): Promise<void> {
+  const nextEventTimestamp = findNextLifecycleEventTimestamp(auction);
+
+  if (!nextEventTimestamp || !checkIsLifecycleScheduleAvailable()) return;
+
+  try {
+    await redisClient.zadd(REDIS_KEY_FOR_AUCTION_LIFECYCLE_SCHEDULE, nextEventTimestamp.getTime(), auction.id);
+  } catch (error) {
+    logErrorMessage('Failed to schedule auction lifecycle event', error, { auctionItemId: auction.id });
+  }
+}
+
+// Moves each auction's entry on to its next event, or drops it once the auction is over. An event already past
+// that is still pending failed to run, so it is retried after a delay rather than straight away
+export async function rescheduleAuctionLifecycleEvents(
+  scheduledAuctionItemIds: string[],
+  currentAuctions: SchedulableAuction[],
+  retryDelayInMilliseconds: number
+): Promise<void> {
+  if (scheduledAuctionItemIds.length === 0) return;
+
+  const earliestRetryTimeInMs = Date.now() + retryDelayInMilliseconds;
+  const schedulePipeline = redisClient.pipeline();
+
+  for (const auctionItemId of scheduledAuctionItemIds) {
+    const currentAuction = currentAuctions.find((auction) => auction.id === auctionItemId);
+    const nextEventTimestamp = currentAuction ? findNextLifecycleEventTimestamp(currentAuction) : null;
+
+    if (!nextEventTimestamp) {
+      schedulePipeline.zrem(REDIS_KEY_FOR_AUCTION_LIFECYCLE_SCHEDULE, auctionItemId);
+      continue;
+    }
+
+    const nextEventTimeInMs = nextEventTimestamp.getTime();
+    schedulePipeline.zadd(
+      REDIS_KEY_FOR_AUCTION_LIFECYCLE_SCHEDULE,
+      nextEventTimeInMs <= Date.now() ? earliestRetryTimeInMs : nextEventTimeInMs,
+      auctionItemId
+    );
+  }
+
+  await schedulePipeline.exec();
+}
+
+// ==============================|| READ SCHEDULE ||============================== //
+
+export async function fetchDueScheduledAuctionIds(): Promise<string[]> {
+  return await redisClient.zrangebyscore(REDIS_KEY_FOR_AUCTION_LIFECYCLE_SCHEDULE, '-inf', Date.now());
+}
+
+// Resolves to null when nothing is scheduled
+export async function fetchNextScheduledEventTimeInMs(): Promise<number | null> {
+  const [, earliestScore] = await redisClient.zrange(REDIS_KEY_FOR_AUCTION_LIFECYCLE_SCHEDULE, 0, 0, 'WITHSCORES');
+
+  return earliestScore === undefined ? null : Number(earliestScore);
+}
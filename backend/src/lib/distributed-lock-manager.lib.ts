@@ -0,0 +1,396 @@
+// ==============================|| DISTRIBUTED LOCK MANAGER ||============================== //
+// Implements distributed locking for race condition prevention on top of the active lock backend
+// (Redis, failing over to Postgres). Every acquisition also hands out a fencing token and records it on the
+// auction row, which writes to the auction check so a holder whose lease ran out can no longer commit anything
+
+import { Prisma } from '@prisma/client';
+import { v4 as generateUuidV4 } from 'uuid';
+import { prismaClient } from '../config/prisma-client.config';
+import { ApplicationError } from '../middleware/global-error-handler.middleware';
+import {
+  generateBidProcessingLockKey,
+  LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS,
+  LOCK_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS,
+  LOCK_ACQUIRE_MAXIMUM_ATTEMPTS,
+  LOCK_ACQUIRE_BASE_RETRY_DELAY_IN_MILLISECONDS,
+  LOCK_ACQUIRE_MAXIMUM_RETRY_DELAY_IN_MILLISECONDS
+} from '../constants/redis-keys.constants';
+import { BID_ERROR_LOCK_LEASE_LOST, HTTP_STATUS_CONFLICT, getErrorMessageFromCode } from '../constants/error-codes.constants';
+import { logDebugMessage, logErrorMessage, logWarningMessage } from '../utils/logger.util';
+import { LockBackend, LockBackendName, getActiveLockBackend, markLockBackendUnhealthy } from './lock-backend.lib';
+
+// ==============================|| LOCK RESULT INTERFACE ||============================== //
+
+export interface LockAcquisitionResult {
+  wasLockAcquiredSuccessfully: boolean;
+  uniqueLockIdentifier: string | null;
+  fencingToken: number | null; // Higher than every token handed out before, whichever backend granted the lock
+  lockBackendName: LockBackendName | null;
+  errorMessage: string | null;
+}
+
+export interface LockAcquireRetryOptions {
+  maximumAcquireAttempts: number;
+  baseRetryDelayInMilliseconds: number;
+  maximumRetryDelayInMilliseconds: number;
+}
+
+// What a callback run under the lock needs to fence its writes
+export interface HeldDistributedLock {
+  uniqueLockIdentifier: string;
+  fencingToken: number;
+}
+
+export const DEFAULT_LOCK_ACQUIRE_RETRY_OPTIONS: LockAcquireRetryOptions = {
+  maximumAcquireAttempts: LOCK_ACQUIRE_MAXIMUM_ATTEMPTS,
+  baseRetryDelayInMilliseconds: LOCK_ACQUIRE_BASE_RETRY_DELAY_IN_MILLISECONDS,
+  maximumRetryDelayInMilliseconds: LOCK_ACQUIRE_MAXIMUM_RETRY_DELAY_IN_MILLISECONDS
+};
+
+// For callers that would rather give up straight away than wait for the lock
+export const SINGLE_LOCK_ACQUIRE_ATTEMPT: LockAcquireRetryOptions = {
+  ...DEFAULT_LOCK_ACQUIRE_RETRY_OPTIONS,
+  maximumAcquireAttempts: 1
+};
+
+export interface LockReleaseResult {
+  wasLockReleasedSuccessfully: boolean;
+  errorMessage: string | null;
+}
+
+// Renewal and release go to the backend that granted the lock, even after new locks have failed over
+const lockBackendsByHeldLockIdentifier = new Map<string, LockBackend>();
+
+// ==============================|| FENCING TOKENS ||============================== //
+// Drawn from one Postgres sequence for every backend, so tokens stay comparable across a failover.
+// The new token is recorded on the auction row before the holder reads anything. That waits for an older
+// holder's write that is still in flight, and refuses any it tries later, so what the new holder reads
+// cannot change under it
+
+async function drawAndRecordNextFencingToken(auctionItemId: string): Promise<number> {
+  const [{ fencingToken }] = await prismaClient.$queryRaw<{ fencingToken: bigint }[]>`
+    WITH next_token AS (
+      SELECT nextval('lock_fencing_tokens') AS fencing_token
+    ), recorded_token AS (
+      UPDATE auction_items
+      SET lock_fencing_token = next_token.fencing_token
+      FROM next_token
+      WHERE auction_items.id = ${auctionItemId}
+        AND auction_items.lock_fencing_token < next_token.fencing_token
+    )
+    SELECT fencing_token AS "fencingToken" FROM next_token
+  `;
+
+  return Number(fencingToken);
+}
+
+// ==============================|| ACQUIRE DISTRIBUTED LOCK ||============================== //
+// Attempts to acquire a lock for a specific auction item, retrying with jittered exponential backoff
+
+function calculateLockAcquireRetryDelay(failedAttemptCount: number, retryOptions: LockAcquireRetryOptions): number {
+  const backoffCeilingInMilliseconds = Math.min(
+    retryOptions.maximumRetryDelayInMilliseconds,
+    retryOptions.baseRetryDelayInMilliseconds * 2 ** (failedAttemptCount - 1)
+  );
+
+  // Full jitter keeps processes that collided once from colliding again on every retry
+  return Math.random() * backoffCeilingInMilliseconds;
+}
+
+// Tries the active backend, failing over to the next healthy one when it cannot be reached.
+// Resolves with the granting backend, or null when the lock is held by someone else
+async function tryAcquireLockOnActiveBackend(
+  lockKeyName: string,
+  uniqueLockIdentifier: string,
+  lockTimeoutInMilliseconds: number
+): Promise<LockBackend | null> {
+  for (let lockBackend = getActiveLockBackend(); lockBackend !== null; lockBackend = getActiveLockBackend()) {
+    try {
+      const wasLockAcquired = await lockBackend.tryAcquireLock(lockKeyName, uniqueLockIdentifier, lockTimeoutInMilliseconds);
+      return wasLockAcquired ? lockBackend : null;
+    } catch (lockBackendError) {
+      markLockBackendUnhealthy(lockBackend.backendName, lockBackendError);
+    }
+  }
+
+  throw new Error('No lock backend is reachable');
+}
+
+export async function acquireDistributedLockForBidProcessing(
+  auctionItemId: string,
+  lockTimeoutInMilliseconds: number = LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS,
+  retryOptions: LockAcquireRetryOptions = SINGLE_LOCK_ACQUIRE_ATTEMPT
+): Promise<LockAcquisitionResult> {
+  const lockKeyName = generateBidProcessingLockKey(auctionItemId);
+  const uniqueLockIdentifier = generateUuidV4();
+
+  try {
+    for (let acquireAttempt = 1; acquireAttempt <= retryOptions.maximumAcquireAttempts; acquireAttempt++) {
+      const grantingLockBackend = await tryAcquireLockOnActiveBackend(lockKeyName, uniqueLockIdentifier, lockTimeoutInMilliseconds);
+
+      if (grantingLockBackend) {
+        lockBackendsByHeldLockIdentifier.set(uniqueLockIdentifier, grantingLockBackend);
+
+        let fencingToken: number;
+
+        try {
+          fencingToken = await drawAndRecordNextFencingToken(auctionItemId);
+        } catch (fencingTokenError) {
+          await releaseDistributedLockForBidProcessing(auctionItemId, uniqueLockIdentifier);
+          throw fencingTokenError;
+        }
+
+        logDebugMessage('Distributed lock acquired successfully', {
+          lockKeyName,
+          uniqueLockIdentifier,
+          fencingToken,
+          lockBackendName: grantingLockBackend.backendName,
+          lockTimeoutInMilliseconds,
+          acquireAttempt,
+          auctionItemId
+        });
+
+        return {
+          wasLockAcquiredSuccessfully: true,
+          uniqueLockIdentifier,
+          fencingToken,
+          lockBackendName: grantingLockBackend.backendName,
+          errorMessage: null
+        };
+      }
+
+      if (acquireAttempt < retryOptions.maximumAcquireAttempts) {
+        const retryDelayInMilliseconds = calculateLockAcquireRetryDelay(acquireAttempt, retryOptions);
+        await new Promise((resolve) => setTimeout(resolve, retryDelayInMilliseconds));
+      }
+    }
+
+    logDebugMessage('Failed to acquire distributed lock - lock already held', {
+      lockKeyName,
+      maximumAcquireAttempts: retryOptions.maximumAcquireAttempts,
+      auctionItemId
+    });
+
+    return {
+      wasLockAcquiredSuccessfully: false,
+      uniqueLockIdentifier: null,
+      fencingToken: null,
+      lockBackendName: null,
+      errorMessage: 'Lock is currently held by another process'
+    };
+  } catch (lockAcquisitionError) {
+    logErrorMessage('Error while attempting to acquire distributed lock', lockAcquisitionError, { lockKeyName, auctionItemId });
+
+    return {
+      wasLockAcquiredSuccessfully: false,
+      uniqueLockIdentifier: null,
+      fencingToken: null,
+      lockBackendName: null,
+      errorMessage: 'Failed to acquire lock - no lock backend is reachable'
+    };
+  }
+}
+
+// ==============================|| RENEW DISTRIBUTED LOCK ||============================== //
+// Pushes the lease expiry back out while we still own the lock. Returns false once the lock is lost
+
+export async function renewDistributedLockForBidProcessing(
+  auctionItemId: string,
+  uniqueLockIdentifier: string,
+  lockTimeoutInMilliseconds: number = LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS
+): Promise<boolean> {
+  const lockKeyName = generateBidProcessingLockKey(auctionItemId);
+  const grantingLockBackend = lockBackendsByHeldLockIdentifier.get(uniqueLockIdentifier);
+
+  if (!grantingLockBackend) return false;
+
+  try {
+    return await grantingLockBackend.renewLock(lockKeyName, uniqueLockIdentifier, lockTimeoutInMilliseconds);
+  } catch (leaseRenewalError) {
+    markLockBackendUnhealthy(grantingLockBackend.backendName, leaseRenewalError);
+    logErrorMessage('Error while attempting to renew distributed lock', leaseRenewalError, { lockKeyName, auctionItemId });
+    return false;
+  }
+}
+
+// Keeps renewing the lease until stopped, so a slow callback does not outlive its lock
+function startDistributedLockLeaseRenewal(auctionItemId: string, uniqueLockIdentifier: string, lockTimeoutInMilliseconds: number) {
+  const renewalIntervalInMilliseconds = Math.min(LOCK_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS, lockTimeoutInMilliseconds / 3);
+
+  const leaseRenewalTimer = setInterval(async () => {
+    const wasLeaseRenewed = await renewDistributedLockForBidProcessing(auctionItemId, uniqueLockIdentifier, lockTimeoutInMilliseconds);
+
+    if (!wasLeaseRenewed) {
+      // Nothing this holder writes from here on gets past the fencing token check
+      logWarningMessage('Distributed lock lease was lost while still in use', { auctionItemId, uniqueLockIdentifier });
+      clearInterval(leaseRenewalTimer);
+    }
+  }, renewalIntervalInMilliseconds);
+
+  return () => clearInterval(leaseRenewalTimer);
+}
+
+// ==============================|| RELEASE DISTRIBUTED LOCK ||============================== //
+// Releases a lock only if we own it, on the backend that granted it
+
+export async function releaseDistributedLockForBidProcessing(
+  auctionItemId: string,
+  uniqueLockIdentifier: string
+): Promise<LockReleaseResult> {
+  const lockKeyName = generateBidProcessingLockKey(auctionItemId);
+  const grantingLockBackend = lockBackendsByHeldLockIdentifier.get(uniqueLockIdentifier);
+
+  if (!grantingLockBackend) {
+    return {
+      wasLockReleasedSuccessfully: false,
+      errorMessage: 'Lock was not acquired by this process'
+    };
+  }
+
+  lockBackendsByHeldLockIdentifier.delete(uniqueLockIdentifier);
+
+  try {
+    const wasLockReleasedSuccessfully = await grantingLockBackend.releaseLock(lockKeyName, uniqueLockIdentifier);
+
+    if (wasLockReleasedSuccessfully) {
+      logDebugMessage('Distributed lock released successfully', {
+        lockKeyName,
+        uniqueLockIdentifier,
+        auctionItemId
+      });
+
+      return {
+        wasLockReleasedSuccessfully: true,
+        errorMessage: null
+      };
+    }
+
+    logDebugMessage('Lock was not released - may have expired or been released by another process', {
+      lockKeyName,
+      uniqueLockIdentifier,
+      auctionItemId
+    });
+
+    return {
+      wasLockReleasedSuccessfully: false,
+      errorMessage: 'Lock was not owned by this process or has already expired'
+    };
+  } catch (lockReleaseError) {
+    markLockBackendUnhealthy(grantingLockBackend.backendName, lockReleaseError);
+    logErrorMessage('Error while attempting to release distributed lock', lockReleaseError, {
+      lockKeyName,
+      auctionItemId,
+      uniqueLockIdentifier
+    });
+
+    return {
+      wasLockReleasedSuccessfully: false,
+      errorMessage: `Failed to release lock due to ${grantingLockBackend.backendName} lock backend error`
+    };
+  }
+}
+
+// ==============================|| EXECUTE WITH LOCK ||============================== //
+// Helper function to execute a callback while holding a lock
+
+export interface ExecuteWithLockResult<T> {
+  wasExecutionSuccessful: boolean;
+  executionResult: T | null;
+  errorMessage: string | null;
+  wasLockAcquired: boolean;
+}
+
+export async function executeWithDistributedLock<T>(
+  auctionItemId: string,
+  callbackToExecuteWhileHoldingLock: (heldLock: HeldDistributedLock) => Promise<T>,
+  lockTimeoutInMilliseconds: number = LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS,
+  retryOptions: LockAcquireRetryOptions = DEFAULT_LOCK_ACQUIRE_RETRY_OPTIONS
+): Promise<ExecuteWithLockResult<T>> {
+  // Step 1: Acquire the lock
+  const lockAcquisitionResult = await acquireDistributedLockForBidProcessing(auctionItemId, lockTimeoutInMilliseconds, retryOptions);
+
+  if (!lockAcquisitionResult.wasLockAcquiredSuccessfully) {
+    return {
+      wasExecutionSuccessful: false,
+      executionResult: null,
+      errorMessage: lockAcquisitionResult.errorMessage,
+      wasLockAcquired: false
+    };
+  }
+
+  const heldLock: HeldDistributedLock = {
+    uniqueLockIdentifier: lockAcquisitionResult.uniqueLockIdentifier!,
+    fencingToken: lockAcquisitionResult.fencingToken!
+  };
+  const stopLeaseRenewal = startDistributedLockLeaseRenewal(auctionItemId, heldLock.uniqueLockIdentifier, lockTimeoutInMilliseconds);
+
+  try {
+    // Step 2: Execute the callback, renewing the lease for as long as it runs
+    const executionResult = await callbackToExecuteWhileHoldingLock(heldLock);
+
+    return {
+      wasExecutionSuccessful: true,
+      executionResult,
+      errorMessage: null,
+      wasLockAcquired: true
+    };
+  } catch (executionError) {
+    const errorMessage = executionError instanceof Error ? executionError.message : 'Unknown error during locked execution';
+
+    logErrorMessage('Error during locked execution', executionError, { auctionItemId });
+
+    return {
+      wasExecutionSuccessful: false,
+      executionResult: null,
+      errorMessage,
+      wasLockAcquired: true
+    };
+  } finally {
+    // Step 3: Always release the lock
+    stopLeaseRenewal();
+    await releaseDistributedLockForBidProcessing(auctionItemId, heldLock.uniqueLockIdentifier);
+  }
+}
+
+// ==============================|| FENCING TOKEN CHECK ||============================== //
+// Run first inside a transaction that writes to the auction under its lock. Checking the token takes the
+// auction's row lock, and a token older than the one recorded means a newer holder has taken over,
+// so the whole transaction is rolled back instead of committing over its writes
+
+export async function verifyFencingTokenForAuctionWrite(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  fencingToken: number
+): Promise<void> {
+  const updateResult = await transactionClient.auctionItem.updateMany({
+    where: { id: auctionItemId, lockFencingToken: { lte: fencingToken } },
+    data: { lockFencingToken: fencingToken }
+  });
+
+  if (updateResult.count === 0) {
+    logWarningMessage('Write refused - lock fencing token is stale', { auctionItemId, fencingToken });
+
+    throw new ApplicationError(getErrorMessageFromCode(BID_ERROR_LOCK_LEASE_LOST), HTTP_STATUS_CONFLICT, BID_ERROR_LOCK_LEASE_LOST);
+  }
+}
+
+export function checkIsStaleFencingTokenError(error: unknown): boolean {
+  return error instanceof ApplicationError && error.errorCode === BID_ERROR_LOCK_LEASE_LOST;
+}
+
+// ==============================|| CHECK LOCK STATUS ||============================== //
+// Checks if a lock is currently held (for debugging/monitoring)
+
+export async function checkIfLockIsCurrentlyHeld(auctionItemId: string): Promise<boolean> {
+  const lockKeyName = generateBidProcessingLockKey(auctionItemId);
+  const activeLockBackend = getActiveLockBackend();
+
+  if (!activeLockBackend) return false;
+
+  try {
+    return await activeLockBackend.checkIsLockHeld(lockKeyName);
+  } catch (checkError) {
+    logErrorMessage('Error checking lock status', checkError, { lockKeyName });
+    return false;
+  }
+}
@@ -0,0 +1,111 @@
+// ==============================|| FAKE PAYMENT PROVIDER ||============================== //
+// Local stand-in for a real payment provider, for development and tests. It accepts every payment session,
+// then calls back a moment later with the outcome set by FAKE_PAYMENT_OUTCOME, signed like a real webhook
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { v4 as generateUuidV4 } from 'uuid';
+import { environmentConfig } from '../config/environment.config';
+import { logErrorMessage, logInfoMessage } from '../utils/logger.util';
+import type { PaymentCallbackData, PaymentProvider, PaymentSession, PaymentSessionRequest } from './payment-provider.lib';
+
+const FAKE_PROVIDER_NAME = 'fake';
+const FAKE_CALLBACK_DELAY_IN_MILLISECONDS = 2000;
+const FAKE_SIGNATURE_HEADER = 'x-fake-payment-signature';
+
+interface FakeCallbackBody {
+  paymentId: string;
+  providerPaymentReference: string;
+  outcome: 'succeeded' | 'failed';
+  failureReason: string | null;
+}
+
+// ==============================|| CALLBACK SIGNATURES ||============================== //
+// HMAC-SHA256 over the JSON body with the shared callback secret
+
+function signCallbackBody(callbackBody: unknown): string {
+  return createHmac('sha256', environmentConfig.PAYMENT_CALLBACK_SECRET).update(JSON.stringify(callbackBody)).digest('hex');
+}
+
+function checkIsCallbackSignatureValid(callbackBody: unknown, receivedSignature: string | string[] | undefined): boolean {
+  if (typeof receivedSignature !== 'string') return false;
+
+  const expectedSignatureBuffer = Buffer.from(signCallbackBody(callbackBody), 'hex');
+  const receivedSignatureBuffer = Buffer.from(receivedSignature, 'hex');
+
+  return (
+    expectedSignatureBuffer.length === receivedSignatureBuffer.length && timingSafeEqual(expectedSignatureBuffer, receivedSignatureBuffer)
+  );
+}
+
+function checkIsFakeCallbackBody(requestBody: unknown): requestBody is FakeCallbackBody {
+  const callbackBody = requestBody as Partial<FakeCallbackBody> | null;
+
+  return (
+    typeof callbackBody === 'object' &&
+    callbackBody !== null &&
+    typeof callbackBody.paymentId === 'string' &&
+    typeof callbackBody.providerPaymentReference === 'string' &&
+    (callbackBody.outcome === 'succeeded' || callbackBody.outcome === 'failed')
+  );
+}
+
+// ==============================|| SEND CALLBACK ||============================== //
+
+async function sendFakeCallback(callbackUrl: string, callbackBody: FakeCallbackBody): Promise<void> {
+  try {
+    const callbackResponse = await fetch(callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [FAKE_SIGNATURE_HEADER]: signCallbackBody(callbackBody)
+      },
+      body: JSON.stringify(callbackBody)
+    });
+
+    logInfoMessage('Fake payment provider sent callback', {
+      paymentId: callbackBody.paymentId,
+      outcome: callbackBody.outcome,
+      responseStatus: callbackResponse.status
+    });
+  } catch (error) {
+    logErrorMessage('Fake payment provider failed to send callback', error, { paymentId: callbackBody.paymentId, callbackUrl });
+  }
+}
+
+// ==============================|| CREATE PROVIDER ||============================== //
+
+export function createFakePaymentProvider(): PaymentProvider {
+  return {
+    providerName: FAKE_PROVIDER_NAME,
+
+    async createPaymentSession(sessionRequest: PaymentSessionRequest): Promise<PaymentSession> {
+      const providerPaymentReference = `fake_${generateUuidV4()}`;
+      const shouldSucceed = environmentConfig.FAKE_PAYMENT_OUTCOME === 'succeed';
+
+      setTimeout(() => {
+        void sendFakeCallback(sessionRequest.callbackUrl, {
+          paymentId: sessionRequest.paymentId,
+          providerPaymentReference,
+          outcome: shouldSucceed ? 'succeeded' : 'failed',
+          failureReason: shouldSucceed ? null : 'Card declined by the fake provider'
+        });
+      }, FAKE_CALLBACK_DELAY_IN_MILLISECONDS);
+
+      // The fake has no payment page to visit
+      return { providerPaymentReference, checkoutUrl: null };
+    },
+
+    parsePaymentCallback(requestHeaders, requestBody): PaymentCallbackData | null {
+      if (!checkIsFakeCallbackBody(requestBody) || !checkIsCallbackSignatureValid(requestBody, requestHeaders[FAKE_SIGNATURE_HEADER])) {
+        return null;
+      }
+
+      return {
+        paymentId: requestBody.paymentId,
+        providerPaymentReference: requestBody.providerPaymentReference,
+        paymentStatus: requestBody.outcome === 'succeeded' ? 'SUCCEEDED' : 'FAILED',
+        failureReason: requestBody.failureReason ?? null
+      };
+    }
+  };
+}
@@ -0,0 +1,64 @@
+// ==============================|| IN-MEMORY LOCK BACKEND ||============================== //
+// Locks held in this process only. Enough for a single instance, or as the last resort when neither
+// Redis nor Postgres answers - other instances do not see these locks, so fencing tokens guard the writes
+
+import type { LockBackend } from './lock-backend.lib';
+
+interface InMemoryLockLease {
+  lockOwner: string;
+  expiresAtInMilliseconds: number;
+}
+
+// ==============================|| CREATE BACKEND ||============================== //
+
+export function createInMemoryLockBackend(): LockBackend {
+  const lockLeasesByName = new Map<string, InMemoryLockLease>();
+
+  const findLiveLease = (lockName: string): InMemoryLockLease | null => {
+    const lockLease = lockLeasesByName.get(lockName);
+
+    if (!lockLease) return null;
+
+    if (lockLease.expiresAtInMilliseconds <= Date.now()) {
+      lockLeasesByName.delete(lockName);
+      return null;
+    }
+
+    return lockLease;
+  };
+
+  return {
+    backendName: 'memory',
+
+    async tryAcquireLock(lockName, lockOwner, lockTimeoutInMilliseconds) {
+      if (findLiveLease(lockName)) return false;
+
+      lockLeasesByName.set(lockName, { lockOwner, expiresAtInMilliseconds: Date.now() + lockTimeoutInMilliseconds });
+      return true;
+    },
+
+    async renewLock(lockName, lockOwner, lockTimeoutInMilliseconds) {
+      const lockLease = findLiveLease(lockName);
+
+      if (lockLease?.lockOwner !== lockOwner) return false;
+
+      lockLease.expiresAtInMilliseconds = Date.now() + lockTimeoutInMilliseconds;
+      return true;
+    },
+
+    async releaseLock(lockName, lockOwner) {
+      if (findLiveLease(lockName)?.lockOwner !== lockOwner) return false;
+
+      lockLeasesByName.delete(lockName);
+      return true;
+    },
+
+    async checkIsLockHeld(lockName) {
+      return findLiveLease(lockName) !== null;
+    },
+
+    async checkIsReachable() {
+      return true;
+    }
+  };
+}
@@ -0,0 +1,178 @@
+// ==============================|| LEADER ELECTION ||============================== //
+// Elects one instance to run each background job, so jobs run once however many instances are up.
+// The leader holds a renewed lease on the active lock backend - Redis unless it has failed over - and
+// when the leader stops renewing it, another instance takes over as soon as the lease runs out
+
+import { hostname } from 'os';
+import { v4 as generateUuidV4 } from 'uuid';
+import {
+  LEADER_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS,
+  LEADER_LEASE_TTL_IN_MILLISECONDS,
+  generateLeaderElectionKey
+} from '../constants/redis-keys.constants';
+import { logErrorMessage, logInfoMessage, logWarningMessage } from '../utils/logger.util';
+import { environmentConfig } from '../config/environment.config';
+import {
+  LockBackendName,
+  checkIsLockBackendActive,
+  findLockBackendByName,
+  getActiveLockBackend,
+  markLockBackendUnhealthy
+} from './lock-backend.lib';
+
+// Identifies this process as the lease owner
+const NODE_IDENTIFIER = `${hostname()}:${process.pid}:${generateUuidV4()}`;
+
+// ==============================|| LEADER ELECTION INTERFACES ||============================== //
+
+interface LeaderElection {
+  electionName: string;
+  leaseBackendName: LockBackendName | null; // The backend holding this instance's lease, while it leads
+  campaignTimer: NodeJS.Timeout;
+  jobTimer: NodeJS.Timeout;
+}
+
+const leaderElectionsByName = new Map<string, LeaderElection>();
+
+// ==============================|| CAMPAIGN ||============================== //
+
+// A lease may still be held on a backend the lock traffic has moved away from, and taking the active one
+// then would make a second leader
+async function checkIsLeaseHeldElsewhere(leaseName: string, activeBackendName: LockBackendName): Promise<boolean> {
+  for (const backendName of environmentConfig.LOCK_BACKENDS) {
+    if (backendName === activeBackendName) continue;
+
+    try {
+      if (await findLockBackendByName(backendName).checkIsLockHeld(leaseName)) return true;
+    } catch {
+      // An unreachable backend's lease cannot be renewed either, so it runs out on its own
+    }
+  }
+
+  return false;
+}
+
+// Takes the lease on the active backend, unless another instance holds it there or elsewhere
+async function tryTakeLease(leaseName: string): Promise<LockBackendName | null> {
+  const activeLockBackend = getActiveLockBackend();
+
+  if (!activeLockBackend) return null;
+
+  try {
+    if (await checkIsLeaseHeldElsewhere(leaseName, activeLockBackend.backendName)) return null;
+
+    const wasLeaseTaken = await activeLockBackend.tryAcquireLock(leaseName, NODE_IDENTIFIER, LEADER_LEASE_TTL_IN_MILLISECONDS);
+    return wasLeaseTaken ? activeLockBackend.backendName : null;
+  } catch (error) {
+    markLockBackendUnhealthy(activeLockBackend.backendName, error);
+    return null;
+  }
+}
+
+async function tryRenewLease(leaseName: string, leaseBackendName: LockBackendName): Promise<boolean> {
+  try {
+    return await findLockBackendByName(leaseBackendName).renewLock(leaseName, NODE_IDENTIFIER, LEADER_LEASE_TTL_IN_MILLISECONDS);
+  } catch (error) {
+    markLockBackendUnhealthy(leaseBackendName, error);
+    return false;
+  }
+}
+
+async function tryReleaseLease(leaseName: string, leaseBackendName: LockBackendName): Promise<void> {
+  try {
+    await findLockBackendByName(leaseBackendName).releaseLock(leaseName, NODE_IDENTIFIER);
+  } catch (error) {
+    logErrorMessage('Failed to release leader lease', error, { leaseName, leaseBackendName });
+  }
+}
+
+// Renews the lease while leading, otherwise tries to take it. A lease that cannot be renewed means
+// leadership cannot be proven, so the instance steps down instead of risking a second leader
+async function campaignForLeadership(leaderElection: LeaderElection): Promise<void> {
+  const leaseName = generateLeaderElectionKey(leaderElection.electionName);
+  const previousLeaseBackendName = leaderElection.leaseBackendName;
+
+  let leaseBackendName: LockBackendName | null = null;
+
+  if (!previousLeaseBackendName) {
+    leaseBackendName = await tryTakeLease(leaseName);
+  } else if (await tryRenewLease(leaseName, previousLeaseBackendName)) {
+    leaseBackendName = previousLeaseBackendName;
+
+    // Locks have moved to another backend - the lease follows them, taken there before it is let go here
+    if (!checkIsLockBackendActive(previousLeaseBackendName)) {
+      const activeLockBackend = getActiveLockBackend();
+
+      try {
+        if (activeLockBackend && (await activeLockBackend.tryAcquireLock(leaseName, NODE_IDENTIFIER, LEADER_LEASE_TTL_IN_MILLISECONDS))) {
+          leaseBackendName = activeLockBackend.backendName;
+          await tryReleaseLease(leaseName, previousLeaseBackendName);
+        }
+      } catch (error) {
+        markLockBackendUnhealthy(activeLockBackend!.backendName, error);
+      }
+    }
+  }
+
+  leaderElection.leaseBackendName = leaseBackendName;
+
+  if (!previousLeaseBackendName && leaseBackendName) {
+    logInfoMessage('Elected leader', { electionName: leaderElection.electionName, nodeIdentifier: NODE_IDENTIFIER, leaseBackendName });
+  } else if (previousLeaseBackendName && !leaseBackendName) {
+    logWarningMessage('Lost leadership', { electionName: leaderElection.electionName, nodeIdentifier: NODE_IDENTIFIER });
+  }
+}
+
+// ==============================|| RUN AS LEADER ||============================== //
+
+export function checkIsLeader(electionName: string): boolean {
+  return leaderElectionsByName.get(electionName)?.leaseBackendName != null;
+}
+
+// Every instance campaigns, and only the current leader runs the job on each tick
+export function runWhileLeader(electionName: string, leaderJob: () => Promise<void>, jobIntervalInMilliseconds: number): void {
+  let isJobRunning = false;
+
+  const runLeaderJob = async () => {
+    if (!checkIsLeader(electionName) || isJobRunning) return;
+
+    isJobRunning = true;
+
+    try {
+      await leaderJob();
+    } catch (error) {
+      logErrorMessage('Leader job failed', error, { electionName });
+    } finally {
+      isJobRunning = false;
+    }
+  };
+
+  const leaderElection: LeaderElection = {
+    electionName,
+    leaseBackendName: null,
+    campaignTimer: setInterval(() => campaignForLeadership(leaderElection), LEADER_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS),
+    jobTimer: setInterval(runLeaderJob, jobIntervalInMilliseconds)
+  };
+
+  leaderElectionsByName.set(electionName, leaderElection);
+
+  // Campaign straight away, so a lone instance does not wait a renewal interval before its first run
+  campaignForLeadership(leaderElection).then(runLeaderJob);
+
+  logInfoMessage('Leader election started', { electionName, nodeIdentifier: NODE_IDENTIFIER, intervalMs: jobIntervalInMilliseconds });
+}
+
+// Gives up every lease on shutdown, so another instance takes over without waiting for them to run out
+export async function stepDownFromLeaderElections(): Promise<void> {
+  for (const leaderElection of leaderElectionsByName.values()) {
+    clearInterval(leaderElection.campaignTimer);
+    clearInterval(leaderElection.jobTimer);
+
+    if (!leaderElection.leaseBackendName) continue;
+
+    await tryReleaseLease(generateLeaderElectionKey(leaderElection.electionName), leaderElection.leaseBackendName);
+    leaderElection.leaseBackendName = null;
+  }
+
+  leaderElectionsByName.clear();
+}
@@ -0,0 +1,143 @@
+// ==============================|| LOCK BACKEND ||============================== //
+// The contract every distributed lock backend implements, and the health-based failover between them.
+// Locks go to the first healthy backend in LOCK_BACKENDS, so a Redis outage moves locking to the next one.
+// Health is tracked by each instance on its own, so while instances disagree two of them can hold the same
+// auction's lock on different backends. The lock only keeps that rare overlap cheap - what keeps auction writes
+// exclusive is the fencing token recorded on the auction row when a lock is taken and checked by every write
+
+import { EnvironmentConfigType, environmentConfig } from '../config/environment.config';
+import { logErrorMessage, logInfoMessage, logWarningMessage } from '../utils/logger.util';
+import { createRedisLockBackend } from './redis-lock-backend.lib';
+import { createPostgresLockBackend } from './postgres-lock-backend.lib';
+import { createInMemoryLockBackend } from './in-memory-lock-backend.lib';
+
+const LOCK_BACKEND_HEALTH_CHECK_INTERVAL_IN_MILLISECONDS = 1000;
+const LOCK_BACKEND_HEALTH_CHECK_TIMEOUT_IN_MILLISECONDS = 500;
+const LOCK_BACKEND_RECOVERY_CHECK_COUNT = 3; // Consecutive passing checks before a failed backend is trusted again
+
+// ==============================|| LOCK BACKEND INTERFACES ||============================== //
+
+export type LockBackendName = EnvironmentConfigType['LOCK_BACKENDS'][number];
+
+// Contention is answered with false. A backend throws only when it cannot be reached, which fails it over
+export interface LockBackend {
+  backendName: LockBackendName;
+  tryAcquireLock(lockName: string, lockOwner: string, lockTimeoutInMilliseconds: number): Promise<boolean>;
+  renewLock(lockName: string, lockOwner: string, lockTimeoutInMilliseconds: number): Promise<boolean>;
+  releaseLock(lockName: string, lockOwner: string): Promise<boolean>;
+  checkIsLockHeld(lockName: string): Promise<boolean>;
+  checkIsReachable(): Promise<boolean>;
+}
+
+interface LockBackendHealth {
+  isHealthy: boolean;
+  consecutivePassedCheckCount: number;
+}
+
+// ==============================|| BACKEND REGISTRY ||============================== //
+
+const lockBackendsByName = new Map<LockBackendName, LockBackend>();
+const lockBackendHealthByName = new Map<LockBackendName, LockBackendHealth>();
+
+function registerLockBackend(lockBackend: LockBackend): void {
+  lockBackendsByName.set(lockBackend.backendName, lockBackend);
+  lockBackendHealthByName.set(lockBackend.backendName, { isHealthy: true, consecutivePassedCheckCount: 0 });
+}
+
+registerLockBackend(createRedisLockBackend());
+registerLockBackend(createPostgresLockBackend());
+registerLockBackend(createInMemoryLockBackend());
+
+export function findLockBackendByName(backendName: LockBackendName): LockBackend {
+  return lockBackendsByName.get(backendName)!;
+}
+
+// The backend new locks are taken from - the first healthy one in the configured order, as this instance sees it
+export function getActiveLockBackend(): LockBackend | null {
+  const activeBackendName = environmentConfig.LOCK_BACKENDS.find((backendName) => lockBackendHealthByName.get(backendName)!.isHealthy);
+
+  return activeBackendName ? findLockBackendByName(activeBackendName) : null;
+}
+
+export function checkIsLockBackendActive(backendName: LockBackendName): boolean {
+  return getActiveLockBackend()?.backendName === backendName;
+}
+
+// ==============================|| HEALTH TRACKING ||============================== //
+
+// Called when a lock operation could not reach the backend, so the next one fails over straight away
+export function markLockBackendUnhealthy(backendName: LockBackendName, failureError: unknown): void {
+  const backendHealth = lockBackendHealthByName.get(backendName)!;
+  backendHealth.consecutivePassedCheckCount = 0;
+
+  if (!backendHealth.isHealthy) return;
+
+  backendHealth.isHealthy = false;
+  logErrorMessage('Lock backend is unreachable - failing over', failureError, {
+    backendName,
+    activeBackendName: getActiveLockBackend()?.backendName ?? null
+  });
+}
+
+async function checkLockBackendHealth(lockBackend: LockBackend): Promise<void> {
+  const backendHealth = lockBackendHealthByName.get(lockBackend.backendName)!;
+
+  let isReachable: boolean;
+  let healthCheckTimer: NodeJS.Timeout | undefined;
+
+  try {
+    isReachable = await Promise.race([
+      lockBackend.checkIsReachable(),
+      new Promise<boolean>((resolve) => {
+        healthCheckTimer = setTimeout(() => resolve(false), LOCK_BACKEND_HEALTH_CHECK_TIMEOUT_IN_MILLISECONDS);
+      })
+    ]);
+  } catch {
+    isReachable = false;
+  } finally {
+    clearTimeout(healthCheckTimer);
+  }
+
+  if (!isReachable) {
+    markLockBackendUnhealthy(lockBackend.backendName, new Error('Health check failed'));
+    return;
+  }
+
+  if (backendHealth.isHealthy) return;
+
+  backendHealth.consecutivePassedCheckCount += 1;
+
+  if (backendHealth.consecutivePassedCheckCount >= LOCK_BACKEND_RECOVERY_CHECK_COUNT) {
+    backendHealth.isHealthy = true;
+    backendHealth.consecutivePassedCheckCount = 0;
+    logInfoMessage('Lock backend recovered', {
+      backendName: lockBackend.backendName,
+      activeBackendName: getActiveLockBackend()?.backendName ?? null
+    });
+  }
+}
+
+// Checks every configured backend on an interval, failing over as soon as one stops answering
+export function startLockBackendHealthMonitor(): void {
+  let hadActiveLockBackend = true;
+
+  const checkConfiguredLockBackends = async () => {
+    await Promise.all(environmentConfig.LOCK_BACKENDS.map((backendName) => checkLockBackendHealth(findLockBackendByName(backendName))));
+
+    const hasActiveLockBackend = getActiveLockBackend() !== null;
+
+    if (!hasActiveLockBackend && hadActiveLockBackend) {
+      logWarningMessage('No lock backend is reachable - locked operations will fail', {
+        configuredBackends: environmentConfig.LOCK_BACKENDS
+      });
+    }
+
+    hadActiveLockBackend = hasActiveLockBackend;
+  };
+
+  setInterval(checkConfiguredLockBackends, LOCK_BACKEND_HEALTH_CHECK_INTERVAL_IN_MILLISECONDS);
+  logInfoMessage('Lock backend health monitor started', {
+    configuredBackends: environmentConfig.LOCK_BACKENDS,
+    intervalMs: LOCK_BACKEND_HEALTH_CHECK_INTERVAL_IN_MILLISECONDS
+  });
+}
@@ -0,0 +1,63 @@
+// ==============================|| PAYMENT PROVIDER ||============================== //
+// The contract every checkout payment provider implements, and the registry checkout looks providers up in
+
+import { environmentConfig, isDevelopmentEnvironment, isTestEnvironment } from '../config/environment.config';
+import { logWarningMessage } from '../utils/logger.util';
+import { createFakePaymentProvider } from './fake-payment-provider.lib';
+
+// ==============================|| PAYMENT PROVIDER INTERFACES ||============================== //
+
+export interface PaymentSessionRequest {
+  paymentId: string; // Our OrderPayment id, echoed back in the callback
+  orderId: string | null; // Null for wallet deposits
+  amountInCents: number;
+  currencyCode: string; // The auction's currency - orders are always charged in it
+  paymentDescription: string;
+  callbackUrl: string;
+}
+
+export interface PaymentSession {
+  providerPaymentReference: string;
+  checkoutUrl: string | null; // Where to send the buyer, when the provider hosts its own payment page
+}
+
+export interface PaymentCallbackData {
+  paymentId: string;
+  providerPaymentReference: string;
+  paymentStatus: 'SUCCEEDED' | 'FAILED';
+  failureReason: string | null;
+}
+
+export interface PaymentProvider {
+  providerName: string;
+  createPaymentSession(sessionRequest: PaymentSessionRequest): Promise<PaymentSession>;
+  // Null when the callback is not signed by the provider or cannot be read
+  parsePaymentCallback(requestHeaders: Record<string, string | string[] | undefined>, requestBody: unknown): PaymentCallbackData | null;
+}
+
+// ==============================|| PROVIDER REGISTRY ||============================== //
+
+const paymentProvidersByName = new Map<string, PaymentProvider>();
+
+function registerPaymentProvider(paymentProvider: PaymentProvider): void {
+  paymentProvidersByName.set(paymentProvider.providerName, paymentProvider);
+}
+
+// The fake provider confirms payments without taking money, so it never exists outside development and tests.
+// Configured in production, the server still starts, but checkouts and deposits are refused and its callbacks
+// are answered as coming from an unknown provider
+if (isDevelopmentEnvironment || isTestEnvironment) {
+  registerPaymentProvider(createFakePaymentProvider());
+} else if (environmentConfig.PAYMENT_PROVIDER === 'fake') {
+  logWarningMessage('The fake payment provider is switched off outside development and tests - payments are unavailable');
+}
+
+export function findPaymentProviderByName(providerName: string): PaymentProvider | null {
+  return paymentProvidersByName.get(providerName) ?? null;
+}
+
+// The provider new checkouts go through, or null when it is switched off here. Callbacks still reach whichever
+// provider a payment was started with
+export function getActivePaymentProvider(): PaymentProvider | null {
+  return findPaymentProviderByName(environmentConfig.PAYMENT_PROVIDER);
+}
@@ -0,0 +1,60 @@
+// ==============================|| POSTGRES LOCK BACKEND ||============================== //
+// Fallback lock backend for when Redis cannot be reached. Each lock is a lease row in distributed_locks
+// with the same expiry semantics as the Redis key, timed by the database clock so every instance agrees
+
+import { prismaClient } from '../config/prisma-client.config';
+import type { LockBackend } from './lock-backend.lib';
+
+// ==============================|| CREATE BACKEND ||============================== //
+
+export function createPostgresLockBackend(): LockBackend {
+  return {
+    backendName: 'postgres',
+
+    async tryAcquireLock(lockName, lockOwner, lockTimeoutInMilliseconds) {
+      // The upsert locks a conflicting row like SELECT ... FOR UPDATE would, and only takes it over once its lease ran out
+      const acquiredRows = await prismaClient.$queryRaw<{ lock_owner: string }[]>`
+        INSERT INTO distributed_locks (lock_name, lock_owner, expires_at)
+        VALUES (${lockName}, ${lockOwner}, now() + ${lockTimeoutInMilliseconds} * interval '1 millisecond')
+        ON CONFLICT (lock_name) DO UPDATE
+          SET lock_owner = EXCLUDED.lock_owner, expires_at = EXCLUDED.expires_at
+          WHERE distributed_locks.expires_at <= now()
+        RETURNING lock_owner
+      `;
+
+      return acquiredRows.length === 1;
+    },
+
+    async renewLock(lockName, lockOwner, lockTimeoutInMilliseconds) {
+      const renewedRowCount = await prismaClient.$executeRaw`
+        UPDATE distributed_locks
+        SET expires_at = now() + ${lockTimeoutInMilliseconds} * interval '1 millisecond'
+        WHERE lock_name = ${lockName} AND lock_owner = ${lockOwner} AND expires_at > now()
+      `;
+
+      return renewedRowCount === 1;
+    },
+
+    async releaseLock(lockName, lockOwner) {
+      const releasedRowCount = await prismaClient.$executeRaw`
+        DELETE FROM distributed_locks
+        WHERE lock_name = ${lockName} AND lock_owner = ${lockOwner} AND expires_at > now()
+      `;
+
+      return releasedRowCount === 1;
+    },
+
+    async checkIsLockHeld(lockName) {
+      const heldRows = await prismaClient.$queryRaw<{ lock_name: string }[]>`
+        SELECT lock_name FROM distributed_locks WHERE lock_name = ${lockName} AND expires_at > now()
+      `;
+
+      return heldRows.length === 1;
+    },
+
+    async checkIsReachable() {
+      await prismaClient.$queryRaw`SELECT 1`;
+      return true;
+    }
+  };
+}
@@ -0,0 +1,250 @@
+// ==============================|| REDIS BID QUEUE ||============================== //
+// Implements a per-auction bid queue on a Redis Stream so colliding bids wait their turn instead of failing
+// Whoever holds the auction's bid lock drains the stream oldest-first, one entry per lock, so bids are
+// processed in arrival order across every server instance. A claimed entry carries a processing marker that its
+// drainer keeps alive until the outcome is stored, so its bidder waits on the real work rather than a fixed time
+
+import { v4 as generateUuidV4 } from 'uuid';
+import { redisClient } from '../config/redis-client.config';
+import {
+  generateBidQueueStreamKey,
+  generateBidQueueProcessingKey,
+  generateBidQueueResultKey,
+  CACHE_TTL_FOR_BID_QUEUE_RESULT_IN_SECONDS,
+  CACHE_TTL_FOR_BID_QUEUE_STREAM_IN_SECONDS,
+  LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS,
+  LOCK_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS,
+  QUEUE_WAIT_TIMEOUT_FOR_BID_IN_MILLISECONDS,
+  QUEUE_SUBMISSION_TIMEOUT_FOR_BID_IN_MILLISECONDS
+} from '../constants/redis-keys.constants';
+import { HeldDistributedLock, SINGLE_LOCK_ACQUIRE_ATTEMPT, executeWithDistributedLock } from './distributed-lock-manager.lib';
+import { logDebugMessage, logErrorMessage } from '../utils/logger.util';
+
+const QUEUE_POLL_INTERVAL_IN_MILLISECONDS = 50;
+
+// ==============================|| BID QUEUE RESULT INTERFACE ||============================== //
+
+export interface BidQueueSubmissionResult<TResult> {
+  wasProcessed: boolean;
+  processingResult: TResult | null;
+  wasRemovedUnprocessed: boolean; // Timed out while still queued and taken out again, so it will never be processed
+  wasOutcomeUnknown: boolean; // Processing started but never reported back, so the bid may or may not have been committed
+  errorMessage: string | null;
+}
+
+// Runs with the auction's lock held. Writes it makes must be fenced with the lock's token
+export type QueuedJobProcessor<TJob, TResult> = (queuedJob: TJob, heldLock: HeldDistributedLock) => Promise<TResult>;
+
+function waitForNextPoll(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, QUEUE_POLL_INTERVAL_IN_MILLISECONDS));
+}
+
+async function fetchQueuedJobResult<TResult>(queuedJobId: string): Promise<BidQueueSubmissionResult<TResult> | null> {
+  const resultKeyName = generateBidQueueResultKey(queuedJobId);
+  const storedResultJson = await redisClient.get(resultKeyName);
+
+  if (storedResultJson === null) return null;
+
+  await redisClient.del(resultKeyName);
+  return JSON.parse(storedResultJson);
+}
+
+// ==============================|| DRAIN QUEUE ||============================== //
+// Processes queued entries oldest-first for as long as this caller can take the lock. Returns as soon as
+// someone else holds it, since they are draining the same stream
+
+// Claims and processes the oldest entry while holding the lock. Returns false once the stream is empty
+async function processOldestQueuedJob<TJob, TResult>(
+  auctionItemId: string,
+  heldLock: HeldDistributedLock,
+  processQueuedJob: QueuedJobProcessor<TJob, TResult>
+): Promise<boolean> {
+  const streamKeyName = generateBidQueueStreamKey(auctionItemId);
+  const [oldestEntry] = await redisClient.xrange(streamKeyName, '-', '+', 'COUNT', 1);
+
+  if (!oldestEntry) return false;
+
+  const [entryId, entryFields] = oldestEntry;
+  const queuedJobId = entryFields[entryFields.indexOf('queuedJobId') + 1];
+  const queuedJob: TJob = JSON.parse(entryFields[entryFields.indexOf('job') + 1]);
+  const processingKeyName = generateBidQueueProcessingKey(queuedJobId);
+
+  // Removing the entry claims it, and the processing marker is set in the same step so its bidder never sees
+  // the entry gone without one or the other. A bidder that timed out may have removed it first
+  const claimReplies = await redisClient
+    .multi()
+    .xdel(streamKeyName, entryId)
+    .set(processingKeyName, '1', 'PX', LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS)
+    .exec();
+
+  const wasEntryClaimed = claimReplies?.[0]?.[1] === 1;
+
+  if (!wasEntryClaimed) {
+    await redisClient.del(processingKeyName);
+    return true;
+  }
+
+  // Kept alive like the lock's lease for as long as the processor runs. If this instance dies the marker runs
+  // out, and the bidder knows the outcome was lost
+  const processingMarkerTimer = setInterval(() => {
+    redisClient.pexpire(processingKeyName, LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS).catch((renewalError) => {
+      logErrorMessage('Failed to renew queued bid processing marker', renewalError, { auctionItemId, queuedJobId });
+    });
+  }, LOCK_LEASE_RENEWAL_INTERVAL_IN_MILLISECONDS);
+
+  let submissionResult: BidQueueSubmissionResult<TResult>;
+
+  try {
+    submissionResult = {
+      wasProcessed: true,
+      processingResult: await processQueuedJob(queuedJob, heldLock),
+      wasRemovedUnprocessed: false,
+      wasOutcomeUnknown: false,
+      errorMessage: null
+    };
+  } catch (processingError) {
+    logErrorMessage('Error processing queued bid', processingError, { auctionItemId, queuedJobId });
+
+    // The processor may have thrown after its transaction committed
+    submissionResult = {
+      wasProcessed: false,
+      processingResult: null,
+      wasRemovedUnprocessed: false,
+      wasOutcomeUnknown: true,
+      errorMessage: processingError instanceof Error ? processingError.message : 'Unknown error while processing queued bid'
+    };
+  } finally {
+    clearInterval(processingMarkerTimer);
+  }
+
+  await redisClient
+    .multi()
+    .set(generateBidQueueResultKey(queuedJobId), JSON.stringify(submissionResult), 'EX', CACHE_TTL_FOR_BID_QUEUE_RESULT_IN_SECONDS)
+    .del(processingKeyName)
+    .exec();
+
+  return true;
+}
+
+export async function drainAuctionBidQueue<TJob, TResult>(
+  auctionItemId: string,
+  processQueuedJob: QueuedJobProcessor<TJob, TResult>
+): Promise<void> {
+  for (;;) {
+    // One entry per lock, so bidders waiting on other instances get a turn at the lock between entries
+    const lockExecutionResult = await executeWithDistributedLock<boolean>(
+      auctionItemId,
+      (heldLock) => processOldestQueuedJob(auctionItemId, heldLock, processQueuedJob),
+      LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS,
+      SINGLE_LOCK_ACQUIRE_ATTEMPT
+    );
+
+    if (!lockExecutionResult.wasExecutionSuccessful || !lockExecutionResult.executionResult) return;
+  }
+}
+
+// ==============================|| SUBMIT TO QUEUE ||============================== //
+// Queues a job behind every bid already waiting on the auction and resolves with its own outcome.
+// The caller helps drain while it waits, so the queue keeps moving even if the current drainer goes away.
+// Draining runs alongside the wait, so working through other bidders' entries never holds up this answer
+
+function startHelpingToDrain<TJob, TResult>(auctionItemId: string, processQueuedJob: QueuedJobProcessor<TJob, TResult>) {
+  let isDraining = true;
+
+  drainAuctionBidQueue(auctionItemId, processQueuedJob)
+    .catch((drainError) => logErrorMessage('Error while draining the bid queue', drainError, { auctionItemId }))
+    .finally(() => {
+      isDraining = false;
+    });
+
+  return () => isDraining;
+}
+
+export async function submitToAuctionBidQueue<TJob, TResult>(
+  auctionItemId: string,
+  queuedJob: TJob,
+  processQueuedJob: QueuedJobProcessor<TJob, TResult>
+): Promise<BidQueueSubmissionResult<TResult>> {
+  const streamKeyName = generateBidQueueStreamKey(auctionItemId);
+  const queuedJobId = generateUuidV4();
+  const submissionDeadline = Date.now() + QUEUE_SUBMISSION_TIMEOUT_FOR_BID_IN_MILLISECONDS;
+  let entryId: string | null = null;
+
+  try {
+    entryId = await redisClient.xadd(streamKeyName, '*', 'queuedJobId', queuedJobId, 'job', JSON.stringify(queuedJob));
+    await redisClient.expire(streamKeyName, CACHE_TTL_FOR_BID_QUEUE_STREAM_IN_SECONDS);
+
+    logDebugMessage('Bid queued', { auctionItemId, queuedJobId, entryId });
+
+    const queueWaitDeadline = Date.now() + QUEUE_WAIT_TIMEOUT_FOR_BID_IN_MILLISECONDS;
+    let checkIsStillDraining = () => false;
+
+    while (Date.now() < queueWaitDeadline) {
+      if (!checkIsStillDraining()) {
+        checkIsStillDraining = startHelpingToDrain(auctionItemId, processQueuedJob);
+      }
+
+      const submissionResult = await fetchQueuedJobResult<TResult>(queuedJobId);
+      if (submissionResult) return submissionResult;
+
+      await waitForNextPoll();
+    }
+
+    // Still queued - taking it out guarantees it is never processed, so the bidder gets a definite "not placed"
+    if (entryId && (await redisClient.xdel(streamKeyName, entryId)) === 1) {
+      logDebugMessage('Queued bid timed out before processing', { auctionItemId, queuedJobId });
+      return {
+        wasProcessed: false,
+        processingResult: null,
+        wasRemovedUnprocessed: true,
+        wasOutcomeUnknown: false,
+        errorMessage: 'Bid queue wait timed out'
+      };
+    }
+
+    // Already claimed - its drainer keeps the processing marker alive until the outcome is stored
+    const processingKeyName = generateBidQueueProcessingKey(queuedJobId);
+
+    while (Date.now() < submissionDeadline) {
+      const submissionResult = await fetchQueuedJobResult<TResult>(queuedJobId);
+      if (submissionResult) return submissionResult;
+
+      if ((await redisClient.exists(processingKeyName)) === 0) {
+        // The outcome may have been stored just before the marker was cleared
+        const finalSubmissionResult = await fetchQueuedJobResult<TResult>(queuedJobId);
+        if (finalSubmissionResult) return finalSubmissionResult;
+
+        return {
+          wasProcessed: false,
+          processingResult: null,
+          wasRemovedUnprocessed: false,
+          wasOutcomeUnknown: true,
+          errorMessage: 'Queued bid outcome was lost'
+        };
+      }
+
+      await waitForNextPoll();
+    }
+
+    logDebugMessage('Queued bid still processing when its bidder had to be answered', { auctionItemId, queuedJobId });
+
+    return {
+      wasProcessed: false,
+      processingResult: null,
+      wasRemovedUnprocessed: false,
+      wasOutcomeUnknown: true,
+      errorMessage: 'Queued bid was still being processed'
+    };
+  } catch (queueError) {
+    logErrorMessage('Error while waiting on the bid queue', queueError, { auctionItemId, queuedJobId });
+
+    // Once the entry is in the stream a drainer may have processed it, so only a failed enqueue is a definite "not placed"
+    return {
+      wasProcessed: false,
+      processingResult: null,
+      wasRemovedUnprocessed: false,
+      wasOutcomeUnknown: entryId !== null,
+      errorMessage: 'Failed to queue bid due to Redis error'
+    };
+  }
+}
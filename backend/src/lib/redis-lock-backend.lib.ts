@@ -0,0 +1,79 @@
+// ==============================|| REDIS LOCK BACKEND ||============================== //
+// The primary lock backend. Uses SET NX PX with Lua scripts for atomic operations
+
+import { redisClient } from '../config/redis-client.config';
+import type { LockBackend } from './lock-backend.lib';
+
+// ==============================|| LUA SCRIPTS ||============================== //
+// Renew and release only if we own the lock (prevents touching someone else's lock)
+
+const LUA_SCRIPT_FOR_SAFE_LEASE_RENEWAL = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("pexpire", KEYS[1], ARGV[2])
+  else
+    return 0
+  end
+`;
+
+const LUA_SCRIPT_FOR_SAFE_LOCK_RELEASE = `
+  if redis.call("get", KEYS[1]) == ARGV[1] then
+    return redis.call("del", KEYS[1])
+  else
+    return 0
+  end
+`;
+
+// Commands sent while disconnected would wait out the client's reconnect retries, so fail over instead
+function assertIsRedisConnected(): void {
+  if (redisClient.status !== 'ready') {
+    throw new Error(`Redis is not connected (status: ${redisClient.status})`);
+  }
+}
+
+// ==============================|| CREATE BACKEND ||============================== //
+
+export function createRedisLockBackend(): LockBackend {
+  return {
+    backendName: 'redis',
+
+    async tryAcquireLock(lockName, lockOwner, lockTimeoutInMilliseconds) {
+      assertIsRedisConnected();
+
+      // SET key value PX milliseconds NX
+      // NX - Only set if key does not exist
+      // PX - Set expiration in milliseconds
+      const lockAcquisitionResponse = await redisClient.set(lockName, lockOwner, 'PX', lockTimeoutInMilliseconds, 'NX');
+      return lockAcquisitionResponse === 'OK';
+    },
+
+    async renewLock(lockName, lockOwner, lockTimeoutInMilliseconds) {
+      assertIsRedisConnected();
+
+      const leaseRenewalResponse = await redisClient.eval(
+        LUA_SCRIPT_FOR_SAFE_LEASE_RENEWAL,
+        1,
+        lockName,
+        lockOwner,
+        lockTimeoutInMilliseconds
+      );
+      return leaseRenewalResponse === 1;
+    },
+
+    async releaseLock(lockName, lockOwner) {
+      assertIsRedisConnected();
+
+      const lockReleaseResponse = await redisClient.eval(LUA_SCRIPT_FOR_SAFE_LOCK_RELEASE, 1, lockName, lockOwner);
+      return lockReleaseResponse === 1;
+    },
+
+    async checkIsLockHeld(lockName) {
+      assertIsRedisConnected();
+
+      return (await redisClient.get(lockName)) !== null;
+    },
+
+    async checkIsReachable() {
+      return redisClient.status === 'ready' && (await redisClient.ping()) === 'PONG';
+    }
+  };
+}
@@ -3,13 +3,15 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { verifyAndDecodeJwtToken, extractTokenFromAuthorizationHeader, DecodedJwtToken } from '../utils/jwt-token-manager.util';
-import { checkIfTokenIsBlacklisted } from '../services/authentication.service';
+import { checkIfTokenIsBlacklisted, fetchUserProfileById } from '../services/authentication.service';
 import {
   AUTH_ERROR_TOKEN_MISSING,
   AUTH_ERROR_TOKEN_INVALID,
   AUTH_ERROR_TOKEN_EXPIRED,
   AUTH_ERROR_TOKEN_BLACKLISTED,
+  AUTH_ERROR_ADMIN_REQUIRED,
   HTTP_STATUS_UNAUTHORIZED,
+  HTTP_STATUS_FORBIDDEN,
   getErrorMessageFromCode
 } from '../constants/error-codes.constants';
 import { logDebugMessage } from '../utils/logger.util';
@@ -103,6 +105,25 @@ export async function requireJwtAuthentication(
   }
 }
 
+// ==============================|| PLATFORM ADMIN MIDDLEWARE ||============================== //
+// Runs after requireJwtAuthentication. The flag is read from the database rather than the token,
+// so granting or revoking admin rights takes effect without a new login
+
+export async function requirePlatformAdmin(request: AuthenticatedRequest, response: Response, nextMiddleware: NextFunction): Promise<void> {
+  const userProfile = request.authenticatedUser ? await fetchUserProfileById(request.authenticatedUser.userId) : null;
+
+  if (!userProfile?.isPlatformAdmin) {
+    response.status(HTTP_STATUS_FORBIDDEN).json({
+      success: false,
+      errorCode: AUTH_ERROR_ADMIN_REQUIRED,
+      errorMessage: getErrorMessageFromCode(AUTH_ERROR_ADMIN_REQUIRED)
+    });
+    return;
+  }
+
+  nextMiddleware();
+}
+
 // ==============================|| OPTIONAL AUTHENTICATION MIDDLEWARE ||============================== //
 // Attempts to authenticate but doesn't fail if no token is present
 
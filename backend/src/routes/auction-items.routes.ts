@@ -3,11 +3,18 @@
 import { Router, Response } from "express";
 import {
   fetchAllActiveAuctionItems,
+  fetchUpcomingAuctionItems,
   fetchAuctionItemById,
   fetchBidHistoryForAuction,
   createAuctionItem,
 } from "../services/auction-data-fetcher.service";
-import { broadcastNewAuction } from "../sockets/bid-events.socket";
+import { BidIncrementBandData } from "../utils/bid-increment.util";
+import { createMoney, parseCentsFromDecimalAmount } from "../utils/money.util";
+import { processBuyNowWithDistributedLock } from "../services/buy-now-processor.service";
+import {
+  updateAuctionItemWithDistributedLock,
+  cancelAuctionItemWithDistributedLock,
+} from "../services/auction-management.service";
 import {
   requireJwtAuthentication,
   AuthenticatedRequest,
@@ -17,10 +24,62 @@ import {
   HTTP_STATUS_NOT_FOUND,
   HTTP_STATUS_CREATED,
   HTTP_STATUS_BAD_REQUEST,
+  HTTP_STATUS_CONFLICT,
+  HTTP_STATUS_FORBIDDEN,
+  HTTP_STATUS_UNPROCESSABLE_ENTITY,
+  AUCTION_ERROR_NOT_FOUND,
+  BUY_NOW_ERROR_OWN_AUCTION,
+  BID_ERROR_INSUFFICIENT_FUNDS,
+  AUCTION_ERROR_NOT_CREATOR,
+  AUCTION_ERROR_INVALID_EDIT,
+  AUCTION_ERROR_CANCELLATION_REASON_REQUIRED,
 } from "../constants/error-codes.constants";
 
 const auctionItemsRouter = Router();
 
+// Maps a seller-action error code to the HTTP status that describes it
+function getSellerActionStatusCode(errorCode: string | null): number {
+  if (errorCode === AUCTION_ERROR_NOT_FOUND) return HTTP_STATUS_NOT_FOUND;
+  if (errorCode === AUCTION_ERROR_NOT_CREATOR) return HTTP_STATUS_FORBIDDEN;
+  if (
+    errorCode === AUCTION_ERROR_INVALID_EDIT ||
+    errorCode === AUCTION_ERROR_CANCELLATION_REASON_REQUIRED
+  ) {
+    return HTTP_STATUS_BAD_REQUEST;
+  }
+  return HTTP_STATUS_CONFLICT;
+}
+
+// Optional numeric fields arrive as empty strings or null from the create form when left blank
+function parseOptionalNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  return parseFloat(String(value));
+}
+
+// Optional prices are typed as decimals like the required ones. Anything unreadable becomes NaN so the service rejects it
+function parseOptionalCents(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  return parseCentsFromDecimalAmount(value) ?? NaN;
+}
+
+// Custom increment bands arrive as [{ priceFrom, increment }], or are left out to use a platform table
+function parseBidIncrementBands(value: unknown): BidIncrementBandData[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  return value.map((band) => ({
+    priceFromInCents: parseCentsFromDecimalAmount(band?.priceFrom) ?? NaN,
+    incrementInCents: parseCentsFromDecimalAmount(band?.increment) ?? NaN,
+  }));
+}
+
 // Create auction
 auctionItemsRouter.post(
   "/",
@@ -42,8 +101,23 @@ auctionItemsRouter.post(
         title,
         description,
         startingPrice,
-        minimumBidIncrement,
+        currencyCode,
+        bidIncrementTableId,
+        customBidIncrementBands,
+        reservePrice,
+        buyNowPrice,
         durationInSeconds,
+        startTime,
+        softCloseWindowInSeconds,
+        softCloseExtensionInSeconds,
+        auctionFormat,
+        dutchFloorPrice,
+        dutchPriceCurve,
+        dutchDropIntervalInSeconds,
+        dutchDropAmount,
+        sealedBidPricing,
+        quantity,
+        multiUnitPricing,
         imageUrl,
       } = request.body;
 
@@ -65,9 +139,29 @@ auctionItemsRouter.post(
       const result = await createAuctionItem({
         itemTitle: title,
         itemDescription: description,
-        startingPriceInDollars: parseFloat(startingPrice),
-        minimumBidIncrementInDollars: parseFloat(minimumBidIncrement) || 1.0,
+        startingPriceInCents: parseCentsFromDecimalAmount(startingPrice) ?? NaN,
+        currencyCode: currencyCode || undefined,
+        bidIncrementTableId: bidIncrementTableId || null,
+        customBidIncrementBands: parseBidIncrementBands(
+          customBidIncrementBands,
+        ),
+        reservePriceInCents: parseOptionalCents(reservePrice),
+        buyNowPriceInCents: parseOptionalCents(buyNowPrice),
         auctionDurationInSeconds: parseInt(durationInSeconds, 10),
+        auctionStartTimeTimestamp: startTime ? new Date(startTime) : null,
+        softCloseWindowInSeconds: parseInt(softCloseWindowInSeconds, 10) || 0,
+        softCloseExtensionInSeconds:
+          parseInt(softCloseExtensionInSeconds, 10) || 0,
+        auctionFormat: auctionFormat || "ENGLISH",
+        dutchFloorPriceInCents: parseOptionalCents(dutchFloorPrice),
+        dutchPriceCurve: dutchPriceCurve || null,
+        dutchDropIntervalInSeconds: parseOptionalNumber(
+          dutchDropIntervalInSeconds,
+        ),
+        dutchDropAmountInCents: parseOptionalCents(dutchDropAmount),
+        sealedBidPricing: sealedBidPricing || null,
+        quantityAvailable: parseOptionalNumber(quantity) ?? 1,
+        multiUnitPricing: multiUnitPricing || null,
         itemImageUrl: imageUrl || null,
         creatorUserId: userId,
       });
@@ -81,9 +175,6 @@ auctionItemsRouter.post(
         return;
       }
 
-      // Broadcast to all connected clients
-      broadcastNewAuction(result.auctionItem);
-
       response.status(HTTP_STATUS_CREATED).json({
         success: true,
         data: { auctionItem: result.auctionItem },
@@ -123,6 +214,31 @@ auctionItemsRouter.get(
   },
 );
 
+// Get scheduled auctions that have not opened yet
+auctionItemsRouter.get(
+  "/upcoming",
+  requireJwtAuthentication as any,
+  async (_request: AuthenticatedRequest, response: Response) => {
+    try {
+      const upcomingAuctionItems = await fetchUpcomingAuctionItems();
+
+      response.status(HTTP_STATUS_OK).json({
+        success: true,
+        data: {
+          auctionItems: upcomingAuctionItems,
+          totalCount: upcomingAuctionItems.length,
+        },
+      });
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: "SERVER_ERROR",
+        errorMessage: "Failed to fetch upcoming auction items",
+      });
+    }
+  },
+);
+
 // Get single auction
 auctionItemsRouter.get(
   "/:auctionItemId",
@@ -166,7 +282,11 @@ auctionItemsRouter.get(
       const limit =
         typeof limitParam === "string" ? parseInt(limitParam, 10) : 50;
 
-      const bidHistory = await fetchBidHistoryForAuction(auctionItemId, limit);
+      const bidHistory = await fetchBidHistoryForAuction(
+        auctionItemId,
+        limit,
+        request.authenticatedUser?.userId ?? null,
+      );
 
       response.status(HTTP_STATUS_OK).json({
         success: true,
@@ -185,4 +305,180 @@ auctionItemsRouter.get(
   },
 );
 
+// Buy the item now at its Buy-It-Now price, ending the auction
+auctionItemsRouter.post(
+  "/:auctionItemId/buy-now",
+  requireJwtAuthentication as any,
+  async (request: AuthenticatedRequest, response: Response) => {
+    try {
+      const userId = request.authenticatedUser?.userId;
+
+      if (!userId) {
+        response.status(401).json({
+          success: false,
+          errorCode: "AUTH_ERROR",
+          errorMessage: "User not authenticated",
+        });
+        return;
+      }
+
+      const auctionItemId = request.params.auctionItemId as string;
+      const result = await processBuyNowWithDistributedLock(
+        auctionItemId,
+        userId,
+      );
+
+      if (!result.wasPurchaseSuccessful) {
+        const statusCode =
+          result.errorCode === AUCTION_ERROR_NOT_FOUND
+            ? HTTP_STATUS_NOT_FOUND
+            : result.errorCode === BUY_NOW_ERROR_OWN_AUCTION
+              ? HTTP_STATUS_FORBIDDEN
+              : result.errorCode === BID_ERROR_INSUFFICIENT_FUNDS
+                ? HTTP_STATUS_UNPROCESSABLE_ENTITY
+                : HTTP_STATUS_CONFLICT;
+
+        response.status(statusCode).json({
+          success: false,
+          errorCode: result.errorCode,
+          errorMessage: result.errorMessage,
+        });
+        return;
+      }
+
+      response.status(HTTP_STATUS_OK).json({
+        success: true,
+        data: {
+          auctionItemId,
+          purchasePrice: createMoney(
+            result.purchasePriceInCents!,
+            result.currencyCode!,
+          ),
+          purchasedAtTimestamp: result.purchasedAtTimestamp,
+        },
+      });
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: "SERVER_ERROR",
+        errorMessage: "Failed to complete purchase",
+      });
+    }
+  },
+);
+
+// Edit an auction's listing details (seller only)
+auctionItemsRouter.patch(
+  "/:auctionItemId",
+  requireJwtAuthentication as any,
+  async (request: AuthenticatedRequest, response: Response) => {
+    try {
+      const userId = request.authenticatedUser?.userId;
+
+      if (!userId) {
+        response.status(401).json({
+          success: false,
+          errorCode: "AUTH_ERROR",
+          errorMessage: "User not authenticated",
+        });
+        return;
+      }
+
+      const auctionItemId = request.params.auctionItemId as string;
+      const {
+        title,
+        description,
+        imageUrl,
+        bidIncrementTableId,
+        customBidIncrementBands,
+      } = request.body;
+
+      const result = await updateAuctionItemWithDistributedLock(
+        auctionItemId,
+        userId,
+        {
+          itemTitle: title,
+          itemDescription: description,
+          itemImageUrl: imageUrl,
+          bidIncrementTableId: bidIncrementTableId || null,
+          customBidIncrementBands: parseBidIncrementBands(
+            customBidIncrementBands,
+          ),
+        },
+      );
+
+      if (!result.wasUpdateSuccessful || !result.auctionItem) {
+        response.status(getSellerActionStatusCode(result.errorCode)).json({
+          success: false,
+          errorCode: result.errorCode,
+          errorMessage: result.errorMessage,
+        });
+        return;
+      }
+
+      response.status(HTTP_STATUS_OK).json({
+        success: true,
+        data: { auctionItem: result.auctionItem },
+      });
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: "SERVER_ERROR",
+        errorMessage: "Failed to update auction item",
+      });
+    }
+  },
+);
+
+// Withdraw an auction before it ends (seller only)
+auctionItemsRouter.post(
+  "/:auctionItemId/cancel",
+  requireJwtAuthentication as any,
+  async (request: AuthenticatedRequest, response: Response) => {
+    try {
+      const userId = request.authenticatedUser?.userId;
+
+      if (!userId) {
+        response.status(401).json({
+          success: false,
+          errorCode: "AUTH_ERROR",
+          errorMessage: "User not authenticated",
+        });
+        return;
+      }
+
+      const auctionItemId = request.params.auctionItemId as string;
+      const result = await cancelAuctionItemWithDistributedLock(
+        auctionItemId,
+        userId,
+        String(request.body?.reason ?? ""),
+      );
+
+      if (!result.wasCancellationSuccessful) {
+        response.status(getSellerActionStatusCode(result.errorCode)).json({
+          success: false,
+          errorCode: result.errorCode,
+          errorMessage: result.errorMessage,
+        });
+        return;
+      }
+
+      response.status(HTTP_STATUS_OK).json({
+        success: true,
+        data: {
+          auctionItemId,
+          cancellationReason: result.cancellationReason,
+          cancelledAtTimestamp: result.cancelledAtTimestamp,
+        },
+      });
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: "SERVER_ERROR",
+        errorMessage: "Failed to cancel auction item",
+      });
+    }
+  },
+);
+
 export default auctionItemsRouter;
@@ -6,7 +6,8 @@ import {
   handleUserRegistrationRequest,
   handleUserLoginRequest,
   handleUserLogoutRequest,
-  handleGetCurrentUserRequest
+  handleGetCurrentUserRequest,
+  handleUpdateDisplayCurrencyRequest
 } from '../controllers/authentication.controller';
 import { requireJwtAuthentication } from '../middleware/authentication.middleware';
 import { authenticationRateLimiter } from '../middleware/rate-limiter.middleware';
@@ -23,4 +24,6 @@ authenticationRouter.post('/logout', requireJwtAuthentication as any, handleUser
 
 authenticationRouter.get('/me', requireJwtAuthentication as any, handleGetCurrentUserRequest as any);
 
+authenticationRouter.put('/display-currency', requireJwtAuthentication as any, handleUpdateDisplayCurrencyRequest as any);
+
 export default authenticationRouter;
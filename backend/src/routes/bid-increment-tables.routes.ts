@@ -0,0 +1,34 @@
+// ==============================|| BID INCREMENT TABLES ROUTES ||============================== //
+// Defines routes for the reusable platform bid increment tables
+
+import { Router, Response } from 'express';
+import { environmentConfig } from '../config/environment.config';
+import { fetchPlatformBidIncrementTables } from '../services/bid-increment-tables.service';
+import { requireJwtAuthentication, AuthenticatedRequest } from '../middleware/authentication.middleware';
+import { HTTP_STATUS_OK } from '../constants/error-codes.constants';
+
+const bidIncrementTablesRouter = Router();
+
+// ==============================|| GET PLATFORM TABLES ||============================== //
+
+bidIncrementTablesRouter.get('/', requireJwtAuthentication as any, async (_request: AuthenticatedRequest, response: Response) => {
+  try {
+    const bidIncrementTables = await fetchPlatformBidIncrementTables();
+
+    response.status(HTTP_STATUS_OK).json({
+      success: true,
+      data: {
+        bidIncrementTables,
+        defaultTableName: environmentConfig.DEFAULT_BID_INCREMENT_TABLE_NAME
+      }
+    });
+  } catch (error) {
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to fetch bid increment tables'
+    });
+  }
+});
+
+export default bidIncrementTablesRouter;
@@ -0,0 +1,76 @@
+// ==============================|| EXCHANGE RATES ROUTES ||============================== //
+// Defines routes for reading the exchange-rate table and for admins maintaining it
+
+import { Router, Request, Response } from 'express';
+import { fetchExchangeRates, updateExchangeRate } from '../services/exchange-rates.service';
+import { requireJwtAuthentication, requirePlatformAdmin, AuthenticatedRequest } from '../middleware/authentication.middleware';
+import {
+  HTTP_STATUS_OK,
+  HTTP_STATUS_BAD_REQUEST,
+  HTTP_STATUS_INTERNAL_SERVER_ERROR,
+  CURRENCY_ERROR_OPERATION_FAILED
+} from '../constants/error-codes.constants';
+import { PLATFORM_CURRENCY_CODE, SUPPORTED_CURRENCY_CODES } from '../utils/money.util';
+
+const exchangeRatesRouter = Router();
+
+// ==============================|| GET RATES ||============================== //
+
+exchangeRatesRouter.get('/', async (_request: Request, response: Response) => {
+  try {
+    const exchangeRates = await fetchExchangeRates();
+
+    response.status(HTTP_STATUS_OK).json({
+      success: true,
+      data: {
+        platformCurrencyCode: PLATFORM_CURRENCY_CODE,
+        supportedCurrencyCodes: SUPPORTED_CURRENCY_CODES,
+        exchangeRates
+      }
+    });
+  } catch (error) {
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to fetch exchange rates'
+    });
+  }
+});
+
+// ==============================|| UPDATE RATE ||============================== //
+
+exchangeRatesRouter.put(
+  '/:currencyCode',
+  requireJwtAuthentication as any,
+  requirePlatformAdmin as any,
+  async (request: AuthenticatedRequest, response: Response) => {
+    try {
+      const currencyCode = request.params.currencyCode as string;
+      const result = await updateExchangeRate(request.authenticatedUser!.userId, currencyCode, request.body?.rate);
+
+      if (!result.wasUpdateSuccessful) {
+        response
+          .status(result.errorCode === CURRENCY_ERROR_OPERATION_FAILED ? HTTP_STATUS_INTERNAL_SERVER_ERROR : HTTP_STATUS_BAD_REQUEST)
+          .json({
+            success: false,
+            errorCode: result.errorCode,
+            errorMessage: result.errorMessage
+          });
+        return;
+      }
+
+      response.status(HTTP_STATUS_OK).json({
+        success: true,
+        data: { exchangeRate: result.exchangeRate }
+      });
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: 'SERVER_ERROR',
+        errorMessage: 'Failed to update exchange rate'
+      });
+    }
+  }
+);
+
+export default exchangeRatesRouter;
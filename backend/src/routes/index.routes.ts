@@ -5,12 +5,19 @@ import { Router, Request, Response } from 'express';
 import authenticationRouter from './authentication.routes';
 import auctionItemsRouter from './auction-items.routes';
 import userAuctionsRouter from './user-auctions.routes';
+import bidIncrementTablesRouter from './bid-increment-tables.routes';
+import walletRouter from './wallet.routes';
+import ordersRouter from './orders.routes';
+import paymentsRouter from './payments.routes';
+import secondChanceOffersRouter from './second-chance-offers.routes';
+import exchangeRatesRouter from './exchange-rates.routes';
 
 const mainRouter = Router();
 
 // ==============================|| HEALTH CHECK ||============================== //
 
-mainRouter.get('/health', (_request: Request, response: Response) => {
+// Also served on instances that do not run the API, so every instance can be health-checked the same way
+export function handleHealthCheck(_request: Request, response: Response): void {
   response.status(200).json({
     success: true,
     data: {
@@ -19,13 +26,21 @@ mainRouter.get('/health', (_request: Request, response: Response) => {
       uptime: process.uptime()
     }
   });
-});
+}
+
+mainRouter.get('/health', handleHealthCheck);
 
 // ==============================|| API ROUTES ||============================== //
 
 mainRouter.use('/account', authenticationRouter);
 mainRouter.use('/auction-items', auctionItemsRouter);
 mainRouter.use('/user', userAuctionsRouter);
+mainRouter.use('/bid-increment-tables', bidIncrementTablesRouter);
+mainRouter.use('/wallet', walletRouter);
+mainRouter.use('/orders', ordersRouter);
+mainRouter.use('/payments', paymentsRouter);
+mainRouter.use('/second-chance-offers', secondChanceOffersRouter);
+mainRouter.use('/exchange-rates', exchangeRatesRouter);
 
 // ==============================|| API INFO ||============================== //
 
@@ -42,16 +57,44 @@ mainRouter.get('/', (_request: Request, response: Response) => {
           register: 'POST /api/account/register',
           login: 'POST /api/account/login',
           logout: 'POST /api/account/logout',
-          me: 'GET /api/account/me'
+          me: 'GET /api/account/me',
+          displayCurrency: 'PUT /api/account/display-currency'
         },
         auctions: {
           list: 'GET /api/auction-items',
+          upcoming: 'GET /api/auction-items/upcoming',
           detail: 'GET /api/auction-items/:id',
+          update: 'PATCH /api/auction-items/:id',
+          cancel: 'POST /api/auction-items/:id/cancel',
           bidHistory: 'GET /api/auction-items/:id/bid-history'
         },
+        bidIncrementTables: {
+          list: 'GET /api/bid-increment-tables'
+        },
         user: {
           myBids: 'GET /api/user/my-bids',
-          wonItems: 'GET /api/user/won-items'
+          wonItems: 'GET /api/user/won-items',
+          unpaidItems: 'GET /api/user/unpaid-items',
+          secondChanceOffers: 'GET /api/user/second-chance-offers'
+        },
+        wallet: {
+          summary: 'GET /api/wallet',
+          deposit: 'POST /api/wallet/deposits'
+        },
+        orders: {
+          checkout: 'POST /api/orders/:orderId/checkout'
+        },
+        payments: {
+          callback: 'POST /api/payments/callbacks/:providerName'
+        },
+        secondChanceOffers: {
+          send: 'POST /api/second-chance-offers',
+          accept: 'POST /api/second-chance-offers/:offerId/accept',
+          decline: 'POST /api/second-chance-offers/:offerId/decline'
+        },
+        exchangeRates: {
+          list: 'GET /api/exchange-rates',
+          update: 'PUT /api/exchange-rates/:currencyCode'
         }
       }
     }
@@ -0,0 +1,77 @@
+// ==============================|| ORDER ROUTES ||============================== //
+// Defines routes for paying for won auctions
+
+import { Router, Response } from 'express';
+import { startOrderCheckout } from '../services/order-checkout.service';
+import { requireJwtAuthentication, AuthenticatedRequest } from '../middleware/authentication.middleware';
+import {
+  HTTP_STATUS_CREATED,
+  HTTP_STATUS_NOT_FOUND,
+  HTTP_STATUS_CONFLICT,
+  HTTP_STATUS_BAD_GATEWAY,
+  HTTP_STATUS_SERVICE_UNAVAILABLE,
+  ORDER_ERROR_NOT_FOUND,
+  ORDER_ERROR_ALREADY_PAID,
+  ORDER_ERROR_PAYMENT_IN_PROGRESS,
+  ORDER_ERROR_PAYMENT_DEADLINE_PASSED,
+  PAYMENT_ERROR_PROVIDER_UNAVAILABLE
+} from '../constants/error-codes.constants';
+
+const ordersRouter = Router();
+
+// ==============================|| START CHECKOUT ||============================== //
+
+ordersRouter.post('/:orderId/checkout', requireJwtAuthentication as any, async (request: AuthenticatedRequest, response: Response) => {
+  try {
+    const userId = request.authenticatedUser?.userId;
+
+    if (!userId) {
+      response.status(401).json({
+        success: false,
+        errorCode: 'AUTH_ERROR',
+        errorMessage: 'User not authenticated'
+      });
+      return;
+    }
+
+    const orderId = request.params.orderId as string;
+    const result = await startOrderCheckout(orderId, userId);
+
+    if (!result.wasCheckoutStarted) {
+      const statusCode =
+        result.errorCode === ORDER_ERROR_NOT_FOUND
+          ? HTTP_STATUS_NOT_FOUND
+          : result.errorCode === ORDER_ERROR_ALREADY_PAID ||
+              result.errorCode === ORDER_ERROR_PAYMENT_IN_PROGRESS ||
+              result.errorCode === ORDER_ERROR_PAYMENT_DEADLINE_PASSED
+            ? HTTP_STATUS_CONFLICT
+            : result.errorCode === PAYMENT_ERROR_PROVIDER_UNAVAILABLE
+              ? HTTP_STATUS_SERVICE_UNAVAILABLE
+              : HTTP_STATUS_BAD_GATEWAY;
+
+      response.status(statusCode).json({
+        success: false,
+        errorCode: result.errorCode,
+        errorMessage: result.errorMessage
+      });
+      return;
+    }
+
+    response.status(HTTP_STATUS_CREATED).json({
+      success: true,
+      data: {
+        orderId: result.orderId,
+        paymentId: result.paymentId,
+        checkoutUrl: result.checkoutUrl
+      }
+    });
+  } catch (error) {
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to start checkout'
+    });
+  }
+});
+
+export default ordersRouter;
@@ -0,0 +1,45 @@
+// ==============================|| PAYMENT ROUTES ||============================== //
+// Receives payment provider callbacks. These are not signed in as a user; each provider verifies its own signature
+
+import { Router, Request, Response } from 'express';
+import { handlePaymentCallback } from '../services/order-checkout.service';
+import {
+  HTTP_STATUS_OK,
+  HTTP_STATUS_BAD_REQUEST,
+  HTTP_STATUS_NOT_FOUND,
+  PAYMENT_ERROR_UNKNOWN_PROVIDER
+} from '../constants/error-codes.constants';
+import { logErrorMessage } from '../utils/logger.util';
+
+const paymentsRouter = Router();
+
+// ==============================|| PAYMENT CALLBACK ||============================== //
+
+paymentsRouter.post('/callbacks/:providerName', async (request: Request, response: Response) => {
+  const providerName = request.params.providerName as string;
+
+  try {
+    const result = await handlePaymentCallback(providerName, request.headers, request.body);
+
+    if (!result.wasCallbackAccepted) {
+      response.status(result.errorCode === PAYMENT_ERROR_UNKNOWN_PROVIDER ? HTTP_STATUS_NOT_FOUND : HTTP_STATUS_BAD_REQUEST).json({
+        success: false,
+        errorCode: result.errorCode,
+        errorMessage: result.errorMessage
+      });
+      return;
+    }
+
+    response.status(HTTP_STATUS_OK).json({ success: true });
+  } catch (error) {
+    // A non-2xx answer makes the provider retry later
+    logErrorMessage('Failed to process payment callback', error, { providerName });
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to process payment callback'
+    });
+  }
+});
+
+export default paymentsRouter;
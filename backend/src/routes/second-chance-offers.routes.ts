@@ -0,0 +1,144 @@
+// ==============================|| SECOND-CHANCE OFFER ROUTES ||============================== //
+// Defines routes for sellers to offer a voided win to the runner-up, and for the runner-up to answer
+
+import { Router, Response } from 'express';
+import {
+  SecondChanceOfferResult,
+  acceptSecondChanceOffer,
+  declineSecondChanceOffer,
+  sendSecondChanceOffer
+} from '../services/unpaid-item.service';
+import { requireJwtAuthentication, AuthenticatedRequest } from '../middleware/authentication.middleware';
+import {
+  HTTP_STATUS_OK,
+  HTTP_STATUS_CREATED,
+  HTTP_STATUS_BAD_REQUEST,
+  HTTP_STATUS_NOT_FOUND,
+  HTTP_STATUS_CONFLICT,
+  HTTP_STATUS_INTERNAL_SERVER_ERROR,
+  SECOND_CHANCE_ERROR_ORDER_NOT_FOUND,
+  SECOND_CHANCE_ERROR_OFFER_NOT_FOUND,
+  SECOND_CHANCE_ERROR_OPERATION_FAILED
+} from '../constants/error-codes.constants';
+
+const secondChanceOffersRouter = Router();
+
+function getStatusCodeForOfferError(errorCode: string | null): number {
+  if (errorCode === SECOND_CHANCE_ERROR_ORDER_NOT_FOUND || errorCode === SECOND_CHANCE_ERROR_OFFER_NOT_FOUND) return HTTP_STATUS_NOT_FOUND;
+  if (errorCode === SECOND_CHANCE_ERROR_OPERATION_FAILED) return HTTP_STATUS_INTERNAL_SERVER_ERROR;
+  return HTTP_STATUS_CONFLICT;
+}
+
+function sendOfferResult(response: Response, result: SecondChanceOfferResult, successStatusCode: number): void {
+  if (!result.wasActionSuccessful) {
+    response.status(getStatusCodeForOfferError(result.errorCode)).json({
+      success: false,
+      errorCode: result.errorCode,
+      errorMessage: result.errorMessage
+    });
+    return;
+  }
+
+  response.status(successStatusCode).json({
+    success: true,
+    data: { offer: result.offer }
+  });
+}
+
+// ==============================|| SEND OFFER (SELLER) ||============================== //
+
+secondChanceOffersRouter.post('/', requireJwtAuthentication as any, async (request: AuthenticatedRequest, response: Response) => {
+  try {
+    const userId = request.authenticatedUser?.userId;
+
+    if (!userId) {
+      response.status(401).json({
+        success: false,
+        errorCode: 'AUTH_ERROR',
+        errorMessage: 'User not authenticated'
+      });
+      return;
+    }
+
+    const { orderId } = request.body;
+
+    if (typeof orderId !== 'string' || orderId.length === 0) {
+      response.status(HTTP_STATUS_BAD_REQUEST).json({
+        success: false,
+        errorCode: 'VALIDATION_ERROR',
+        errorMessage: 'orderId is required'
+      });
+      return;
+    }
+
+    sendOfferResult(response, await sendSecondChanceOffer(orderId, userId), HTTP_STATUS_CREATED);
+  } catch (error) {
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to send second-chance offer'
+    });
+  }
+});
+
+// ==============================|| ACCEPT OFFER (RUNNER-UP) ||============================== //
+
+secondChanceOffersRouter.post(
+  '/:offerId/accept',
+  requireJwtAuthentication as any,
+  async (request: AuthenticatedRequest, response: Response) => {
+    try {
+      const userId = request.authenticatedUser?.userId;
+
+      if (!userId) {
+        response.status(401).json({
+          success: false,
+          errorCode: 'AUTH_ERROR',
+          errorMessage: 'User not authenticated'
+        });
+        return;
+      }
+
+      const offerId = request.params.offerId as string;
+      sendOfferResult(response, await acceptSecondChanceOffer(offerId, userId), HTTP_STATUS_OK);
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: 'SERVER_ERROR',
+        errorMessage: 'Failed to accept second-chance offer'
+      });
+    }
+  }
+);
+
+// ==============================|| DECLINE OFFER (RUNNER-UP) ||============================== //
+
+secondChanceOffersRouter.post(
+  '/:offerId/decline',
+  requireJwtAuthentication as any,
+  async (request: AuthenticatedRequest, response: Response) => {
+    try {
+      const userId = request.authenticatedUser?.userId;
+
+      if (!userId) {
+        response.status(401).json({
+          success: false,
+          errorCode: 'AUTH_ERROR',
+          errorMessage: 'User not authenticated'
+        });
+        return;
+      }
+
+      const offerId = request.params.offerId as string;
+      sendOfferResult(response, await declineSecondChanceOffer(offerId, userId), HTTP_STATUS_OK);
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: 'SERVER_ERROR',
+        errorMessage: 'Failed to decline second-chance offer'
+      });
+    }
+  }
+);
+
+export default secondChanceOffersRouter;
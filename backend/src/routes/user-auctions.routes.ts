@@ -1,9 +1,11 @@
 // ==============================|| USER AUCTIONS ROUTES ||============================== //
-// Defines routes for user's bids and won auctions
+// Defines routes for user's bids, won auctions and unpaid-item follow-up
 
 import { Router, Response } from 'express';
 import { fetchUserBidsWithAuctionDetails, fetchUserWonAuctions } from '../services/auction-data-fetcher.service';
 import { requireJwtAuthentication, AuthenticatedRequest } from '../middleware/authentication.middleware';
+import { countRecentBidderStrikes, fetchOpenSecondChanceOffersForUser, fetchUnpaidItemsForSeller } from '../services/unpaid-item.service';
+import { environmentConfig } from '../config/environment.config';
 import { HTTP_STATUS_OK } from '../constants/error-codes.constants';
 
 const userAuctionsRouter = Router();
@@ -56,13 +58,18 @@ userAuctionsRouter.get('/won-items', requireJwtAuthentication as any, async (req
       return;
     }
 
-    const wonAuctions = await fetchUserWonAuctions(userId);
+    const [wonAuctions, recentStrikeCount] = await Promise.all([fetchUserWonAuctions(userId), countRecentBidderStrikes(userId)]);
 
     response.status(HTTP_STATUS_OK).json({
       success: true,
       data: {
         wonItems: wonAuctions,
-        totalCount: wonAuctions.length
+        totalCount: wonAuctions.length,
+        bidderStanding: {
+          recentStrikeCount,
+          strikeLimit: environmentConfig.UNPAID_STRIKE_LIMIT,
+          isBiddingRestricted: recentStrikeCount >= environmentConfig.UNPAID_STRIKE_LIMIT
+        }
       }
     });
   } catch (error) {
@@ -74,4 +81,74 @@ userAuctionsRouter.get('/won-items', requireJwtAuthentication as any, async (req
   }
 });
 
+// ==============================|| GET SELLER'S UNPAID ITEMS ||============================== //
+
+userAuctionsRouter.get('/unpaid-items', requireJwtAuthentication as any, async (request: AuthenticatedRequest, response: Response) => {
+  try {
+    const userId = request.authenticatedUser?.userId;
+
+    if (!userId) {
+      response.status(401).json({
+        success: false,
+        errorCode: 'AUTH_ERROR',
+        errorMessage: 'User not authenticated'
+      });
+      return;
+    }
+
+    const unpaidItems = await fetchUnpaidItemsForSeller(userId);
+
+    response.status(HTTP_STATUS_OK).json({
+      success: true,
+      data: {
+        unpaidItems,
+        totalCount: unpaidItems.length
+      }
+    });
+  } catch (error) {
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to fetch unpaid items'
+    });
+  }
+});
+
+// ==============================|| GET USER'S SECOND-CHANCE OFFERS ||============================== //
+
+userAuctionsRouter.get(
+  '/second-chance-offers',
+  requireJwtAuthentication as any,
+  async (request: AuthenticatedRequest, response: Response) => {
+    try {
+      const userId = request.authenticatedUser?.userId;
+
+      if (!userId) {
+        response.status(401).json({
+          success: false,
+          errorCode: 'AUTH_ERROR',
+          errorMessage: 'User not authenticated'
+        });
+        return;
+      }
+
+      const secondChanceOffers = await fetchOpenSecondChanceOffersForUser(userId);
+
+      response.status(HTTP_STATUS_OK).json({
+        success: true,
+        data: {
+          secondChanceOffers,
+          totalCount: secondChanceOffers.length
+        }
+      });
+    } catch (error) {
+      response.status(500).json({
+        success: false,
+        errorCode: 'SERVER_ERROR',
+        errorMessage: 'Failed to fetch second-chance offers'
+      });
+    }
+  }
+);
+
 export default userAuctionsRouter;
@@ -0,0 +1,105 @@
+// ==============================|| WALLET ROUTES ||============================== //
+// Defines routes for the signed-in user's wallet balance, holds and deposits
+
+import { Router, Response } from 'express';
+import { fetchWalletSummary } from '../services/wallet-ledger.service';
+import { startWalletDeposit } from '../services/wallet-deposit.service';
+import { requireJwtAuthentication, AuthenticatedRequest } from '../middleware/authentication.middleware';
+import {
+  HTTP_STATUS_OK,
+  HTTP_STATUS_CREATED,
+  HTTP_STATUS_BAD_REQUEST,
+  HTTP_STATUS_BAD_GATEWAY,
+  HTTP_STATUS_SERVICE_UNAVAILABLE,
+  WALLET_ERROR_DEPOSIT_FAILED,
+  PAYMENT_ERROR_PROVIDER_UNAVAILABLE
+} from '../constants/error-codes.constants';
+import { PLATFORM_CURRENCY_CODE, parseCentsFromDecimalAmount } from '../utils/money.util';
+
+const walletRouter = Router();
+
+// ==============================|| GET WALLET ||============================== //
+
+walletRouter.get('/', requireJwtAuthentication as any, async (request: AuthenticatedRequest, response: Response) => {
+  try {
+    const userId = request.authenticatedUser?.userId;
+
+    if (!userId) {
+      response.status(401).json({
+        success: false,
+        errorCode: 'AUTH_ERROR',
+        errorMessage: 'User not authenticated'
+      });
+      return;
+    }
+
+    const wallet = await fetchWalletSummary(userId);
+
+    response.status(HTTP_STATUS_OK).json({
+      success: true,
+      data: { wallet }
+    });
+  } catch (error) {
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to fetch wallet'
+    });
+  }
+});
+
+// ==============================|| DEPOSIT INTO WALLET ||============================== //
+// Starts a provider payment for the deposit. The balance only grows once the provider confirms it
+
+walletRouter.post('/deposits', requireJwtAuthentication as any, async (request: AuthenticatedRequest, response: Response) => {
+  try {
+    const userId = request.authenticatedUser?.userId;
+
+    if (!userId) {
+      response.status(401).json({
+        success: false,
+        errorCode: 'AUTH_ERROR',
+        errorMessage: 'User not authenticated'
+      });
+      return;
+    }
+
+    const result = await startWalletDeposit(
+      userId,
+      parseCentsFromDecimalAmount(request.body.amount),
+      request.body.currencyCode ?? PLATFORM_CURRENCY_CODE
+    );
+
+    if (!result.wasDepositStarted) {
+      const statusCode =
+        result.errorCode === WALLET_ERROR_DEPOSIT_FAILED
+          ? HTTP_STATUS_BAD_GATEWAY
+          : result.errorCode === PAYMENT_ERROR_PROVIDER_UNAVAILABLE
+            ? HTTP_STATUS_SERVICE_UNAVAILABLE
+            : HTTP_STATUS_BAD_REQUEST;
+
+      response.status(statusCode).json({
+        success: false,
+        errorCode: result.errorCode,
+        errorMessage: result.errorMessage
+      });
+      return;
+    }
+
+    response.status(HTTP_STATUS_CREATED).json({
+      success: true,
+      data: {
+        depositId: result.depositId,
+        checkoutUrl: result.checkoutUrl
+      }
+    });
+  } catch (error) {
+    response.status(500).json({
+      success: false,
+      errorCode: 'SERVER_ERROR',
+      errorMessage: 'Failed to start deposit'
+    });
+  }
+});
+
+export default walletRouter;
@@ -6,8 +6,15 @@ import { Server as SocketIOServer } from "socket.io";
 import cors from "cors";
 import helmet from "helmet";
 
-import { environmentConfig } from "./config/environment.config";
-import { socketIoServerOptions } from "./config/socket-io.config";
+import {
+  checkHasNodeRole,
+  environmentConfig,
+} from "./config/environment.config";
+import {
+  closeSocketIoRedisAdapter,
+  createSocketIoRedisAdapter,
+  socketIoServerOptions,
+} from "./config/socket-io.config";
 import {
   connectToDatabaseWithPrisma,
   disconnectFromDatabaseWithPrisma,
@@ -21,24 +28,47 @@ import {
   globalErrorHandlerMiddleware,
   notFoundHandlerMiddleware,
 } from "./middleware/global-error-handler.middleware";
-import mainRouter from "./routes/index.routes";
+import mainRouter, { handleHealthCheck } from "./routes/index.routes";
 import { socketAuthenticationMiddleware } from "./sockets/authentication.socket";
 import { registerTimeSyncHandlers } from "./sockets/time-sync.socket";
 import {
   registerBidEventHandlers,
   setSocketIoServerInstance,
+  publishAuctionEventToSocketClients,
 } from "./sockets/bid-events.socket";
 import { logInfoMessage, logErrorMessage } from "./utils/logger.util";
-import { markExpiredAuctionsAsEnded } from "./services/auction-data-fetcher.service";
+import {
+  startAuctionLifecycleScheduler,
+  stopAuctionLifecycleScheduler,
+} from "./services/auction-lifecycle-scheduler.service";
+import {
+  registerAuctionEventConsumer,
+  startAuctionEventDispatcher,
+  stopAuctionEventDispatcher,
+} from "./services/auction-event-outbox.service";
+import { voidOverdueOrders } from "./services/unpaid-item.service";
+import { startLockBackendHealthMonitor } from "./lib/lock-backend.lib";
+import {
+  runWhileLeader,
+  stepDownFromLeaderElections,
+} from "./lib/leader-election.lib";
 
-const AUCTION_CHECK_INTERVAL = 5000;
+const OVERDUE_ORDER_CHECK_INTERVAL = 5000;
+const AUCTION_LIFECYCLE_ELECTION_NAME = "auction-lifecycle";
+const OVERDUE_ORDERS_ELECTION_NAME = "overdue-orders";
 
 const app = express();
 const httpServer = createServer(app);
-const io = new SocketIOServer(httpServer, socketIoServerOptions);
+
+// Every instance can broadcast through the Redis adapter, but only socket instances accept connections
+const io = new SocketIOServer(socketIoServerOptions);
+io.adapter(createSocketIoRedisAdapter());
 
 setSocketIoServerInstance(io);
 
+// Auction events reach clients through the outbox, which the elected worker publishes
+registerAuctionEventConsumer("socket-io", publishAuctionEventToSocketClients);
+
 // Middleware
 app.use(helmet({ crossOriginResourcePolicy: { policy: "cross-origin" } }));
 app.use(
@@ -54,60 +84,68 @@ app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 app.use(generalRateLimiter);
 
 // Routes
-app.use("/api", mainRouter);
+if (checkHasNodeRole("api")) {
+  app.use("/api", mainRouter);
+} else {
+  app.get("/api/health", handleHealthCheck);
+}
 app.use(notFoundHandlerMiddleware);
 app.use(globalErrorHandlerMiddleware);
 
 // Socket.io setup
-io.use(socketAuthenticationMiddleware);
-
-io.on("connection", (socket) => {
-  const { userId, username } = socket.data;
-  logInfoMessage("Socket connected", { socketId: socket.id, userId, username });
+if (checkHasNodeRole("socket")) {
+  io.attach(httpServer);
+  io.use(socketAuthenticationMiddleware);
 
-  registerTimeSyncHandlers(socket);
-  registerBidEventHandlers(socket);
-
-  socket.on("disconnect", (reason) => {
-    logInfoMessage("Socket disconnected", {
+  io.on("connection", (socket) => {
+    const { userId, username } = socket.data;
+    logInfoMessage("Socket connected", {
       socketId: socket.id,
       userId,
-      reason,
+      username,
     });
-  });
 
-  socket.on("error", (error) => {
-    logErrorMessage("Socket error", error, { socketId: socket.id, userId });
+    registerTimeSyncHandlers(socket);
+    registerBidEventHandlers(socket);
+
+    socket.on("disconnect", (reason) => {
+      logInfoMessage("Socket disconnected", {
+        socketId: socket.id,
+        userId,
+        reason,
+      });
+    });
+
+    socket.on("error", (error) => {
+      logErrorMessage("Socket error", error, { socketId: socket.id, userId });
+    });
   });
-});
+}
 
-// Auction expiration checker
-async function checkExpiredAuctions(): Promise<void> {
+// Unpaid order voider
+async function checkOverdueOrders(): Promise<void> {
   try {
-    const result = await markExpiredAuctionsAsEnded();
-    if (result.count > 0) {
-      logInfoMessage(`Marked ${result.count} auctions as ended`);
-
-      // Broadcast each ended auction individually for real-time UI update
-      for (const auction of result.endedAuctions) {
-        io.emit("auction:ended", {
-          auctionItemId: auction.auctionItemId,
-          winnerUserId: auction.winnerUserId,
-          winnerUsername: auction.winnerUsername,
-          finalBidAmountInDollars: auction.finalBidAmountInDollars,
-        });
-      }
+    const voidedOrderCount = await voidOverdueOrders();
+    if (voidedOrderCount > 0) {
+      logInfoMessage(`Voided ${voidedOrderCount} unpaid orders`);
     }
   } catch (error) {
-    logErrorMessage("Auction expiration check failed", error);
+    logErrorMessage("Overdue order check failed", error);
   }
 }
 
-function startAuctionExpirationChecker(): void {
-  checkExpiredAuctions();
-  setInterval(checkExpiredAuctions, AUCTION_CHECK_INTERVAL);
-  logInfoMessage("Auction expiration checker started", {
-    intervalMs: AUCTION_CHECK_INTERVAL,
+// Runs on whichever worker instance is elected, so auctions are opened and ended once however many run.
+// Auctions start and end on the scheduler's timers, while orders only need checking on an interval
+function startBackgroundJobs(): void {
+  startAuctionLifecycleScheduler(AUCTION_LIFECYCLE_ELECTION_NAME);
+  startAuctionEventDispatcher();
+  runWhileLeader(
+    OVERDUE_ORDERS_ELECTION_NAME,
+    checkOverdueOrders,
+    OVERDUE_ORDER_CHECK_INTERVAL,
+  );
+  logInfoMessage("Background jobs started", {
+    overdueOrderCheckIntervalMs: OVERDUE_ORDER_CHECK_INTERVAL,
   });
 }
 
@@ -123,18 +161,24 @@ async function startServer(): Promise<void> {
       logInfoMessage("Server started", {
         port,
         environment: environmentConfig.NODE_ENV,
+        nodeRoles: environmentConfig.NODE_ROLES,
       });
       console.log(`
 ========================================
   Auction Platform Backend
 ========================================
   Environment: ${environmentConfig.NODE_ENV}
+  Roles: ${environmentConfig.NODE_ROLES.join(", ")}
   Port: ${port}
   API URL: http://localhost:${port}/api
   Socket.IO: ws://localhost:${port}
 ========================================
       `);
-      startAuctionExpirationChecker();
+      startLockBackendHealthMonitor();
+
+      if (checkHasNodeRole("worker")) {
+        startBackgroundJobs();
+      }
     });
   } catch (error) {
     logErrorMessage("Failed to start server", error);
@@ -146,8 +190,12 @@ async function startServer(): Promise<void> {
 async function gracefulShutdown(signal: string): Promise<void> {
   logInfoMessage(`Received ${signal}, shutting down...`);
   try {
+    stopAuctionLifecycleScheduler();
+    await stopAuctionEventDispatcher();
+    await stepDownFromLeaderElections();
     io.close();
     httpServer.close();
+    await closeSocketIoRedisAdapter();
     await disconnectFromDatabaseWithPrisma();
     await disconnectFromRedisServer();
     logInfoMessage("Shutdown completed");
@@ -1,9 +1,64 @@
 // ==============================|| AUCTION DATA FETCHER SERVICE ||============================== //
 // Handles fetching auction items and related data
 
-import { AuctionItemStatus } from "@prisma/client";
+import {
+  AuctionEndReason,
+  AuctionFormat,
+  AuctionItem,
+  AuctionItemStatus,
+  DutchPriceCurve,
+  MultiUnitPricing,
+  OrderPaymentMethod,
+  OrderStatus,
+  Prisma,
+  SealedBidPricing,
+} from "@prisma/client";
 import { prismaClient } from "../config/prisma-client.config";
+import {
+  checkIsReservePriceMet,
+  fetchStandingMultiUnitBids,
+} from "./bid-processor.service";
+import { checkIsBuyNowAvailable } from "./buy-now-processor.service";
+import {
+  mapBidIncrementBands,
+  resolveBidIncrementTableForAuction,
+} from "./bid-increment-tables.service";
+import { settleSealedBidAuction } from "../utils/sealed-bid-settlement.util";
+import { allocateMultiUnitAuction } from "../utils/multi-unit-allocation.util";
+import {
+  BidIncrementBandData,
+  findBidIncrementForPrice,
+} from "../utils/bid-increment.util";
 import { logErrorMessage } from "../utils/logger.util";
+import {
+  Money,
+  PLATFORM_CURRENCY_CODE,
+  SUPPORTED_CURRENCY_CODES,
+  checkIsSupportedCurrencyCode,
+  convertCentsToNumber,
+  convertOptionalCentsToNumber,
+  createMoney,
+  createOptionalMoney,
+} from "../utils/money.util";
+import {
+  checkIsOrderOverdue,
+  openOrdersForEndedAuction,
+} from "./order-checkout.service";
+import {
+  CachedAuctionState,
+  fetchAuctionStates,
+  invalidateAuctionState,
+} from "./auction-state-cache.service";
+import { scheduleAuctionLifecycleEvent } from "../lib/auction-lifecycle-schedule.lib";
+import {
+  notifyAuctionEventsRecorded,
+  recordAuctionEvent,
+} from "./auction-event-outbox.service";
+import {
+  AUCTION_EVENT_AUCTION_CREATED,
+  AUCTION_EVENT_AUCTION_ENDED,
+  AUCTION_EVENT_AUCTION_STARTED,
+} from "../constants/auction-events.constants";
 
 // ==============================|| AUCTION ITEM INTERFACES ||============================== //
 
@@ -11,24 +66,33 @@ export interface AuctionItemData {
   id: string;
   itemTitle: string;
   itemDescription: string;
-  startingPriceInDollars: number;
-  currentHighestBidInDollars: number;
-  minimumBidIncrementInDollars: number;
+  currencyCode: string; // Every amount of the auction is in this currency
+  startingPrice: Money;
+  currentHighestBid: Money;
+  bidIncrement: Money; // Increment of the band the current price falls in
   auctionStartTimeTimestamp: Date;
   auctionEndTimeTimestamp: Date;
   itemImageUrl: string | null;
   currentStatus: AuctionItemStatus;
+  endReason: AuctionEndReason | null;
+  hasReservePrice: boolean; // The reserve amount itself is never exposed
+  isReservePriceMet: boolean | null;
+  buyNowPrice: Money | null;
+  isBuyNowAvailable: boolean;
+  softCloseWindowInSeconds: number;
+  softCloseExtensionInSeconds: number;
+  auctionFormat: AuctionFormat;
+  dutchPriceSchedule: DutchPriceScheduleData | null;
+  sealedBidPricing: SealedBidPricing | null;
+  quantityAvailable: number;
+  multiUnitPricing: MultiUnitPricing | null;
   createdAtTimestamp: Date;
   creatorUser: {
     userId: string;
     username: string;
     fullName: string;
   };
-  winnerUser: {
-    userId: string;
-    username: string;
-    fullName: string;
-  } | null;
+  winners: AuctionWinnerData[]; // Highest price first; single-item auctions have at most one
   totalBidCount: number;
   highestBidder: {
     userId: string;
@@ -36,9 +100,25 @@ export interface AuctionItemData {
   } | null;
 }
 
+export interface AuctionWinnerData {
+  userId: string;
+  username: string;
+  fullName: string;
+  quantityWon: number;
+  pricePerUnit: Money;
+}
+
+// Clients compute the live Dutch price from this schedule and the auction's start and end times
+export interface DutchPriceScheduleData {
+  floorPrice: Money;
+  priceCurve: DutchPriceCurve;
+  dropIntervalInSeconds: number | null;
+  dropAmount: Money | null;
+}
+
 export interface BidHistoryItem {
   bidId: string;
-  bidAmountInDollars: number;
+  bidAmount: Money;
   placedAtTimestamp: Date;
   bidderUser: {
     userId: string;
@@ -49,9 +129,24 @@ export interface BidHistoryItem {
 export interface CreateAuctionItemInput {
   itemTitle: string;
   itemDescription: string;
-  startingPriceInDollars: number;
-  minimumBidIncrementInDollars: number;
+  startingPriceInCents: number;
+  currencyCode?: string; // The platform currency when omitted
+  bidIncrementTableId?: string | null; // A platform table, or the default when omitted
+  customBidIncrementBands?: BidIncrementBandData[] | null; // Seller's own bands for this auction only
+  reservePriceInCents?: number | null;
+  buyNowPriceInCents?: number | null;
   auctionDurationInSeconds: number;
+  auctionStartTimeTimestamp?: Date | null; // Future start for a scheduled auction, or now when omitted
+  softCloseWindowInSeconds?: number;
+  softCloseExtensionInSeconds?: number;
+  auctionFormat?: AuctionFormat;
+  dutchFloorPriceInCents?: number | null;
+  dutchPriceCurve?: DutchPriceCurve | null;
+  dutchDropIntervalInSeconds?: number | null;
+  dutchDropAmountInCents?: number | null;
+  sealedBidPricing?: SealedBidPricing | null;
+  quantityAvailable?: number; // Identical units on offer, 1 for a single item
+  multiUnitPricing?: MultiUnitPricing | null;
   itemImageUrl?: string | null;
   creatorUserId: string;
 }
@@ -62,6 +157,8 @@ export interface CreateAuctionItemResult {
   errorMessage: string | null;
 }
 
+const MAXIMUM_QUANTITY_PER_AUCTION = 1000;
+
 // Sample images for auctions without provided images
 const SAMPLE_AUCTION_IMAGES = [
   "https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=600&h=400&fit=crop",
@@ -80,6 +177,182 @@ function getRandomSampleImage(): string {
   ];
 }
 
+function mapDutchPriceSchedule(
+  auctionItem: AuctionItem,
+): DutchPriceScheduleData | null {
+  if (
+    auctionItem.auctionFormat !== "DUTCH" ||
+    auctionItem.dutchFloorPriceInCents === null ||
+    !auctionItem.dutchPriceCurve
+  ) {
+    return null;
+  }
+
+  return {
+    floorPrice: createMoney(
+      auctionItem.dutchFloorPriceInCents,
+      auctionItem.currencyCode,
+    ),
+    priceCurve: auctionItem.dutchPriceCurve,
+    dropIntervalInSeconds: auctionItem.dutchDropIntervalInSeconds,
+    dropAmount: createOptionalMoney(
+      auctionItem.dutchDropAmountInCents,
+      auctionItem.currencyCode,
+    ),
+  };
+}
+
+function mapAuctionWinners(
+  auctionWinners: Array<{
+    quantityWon: number;
+    pricePerUnitInCents: bigint;
+    winnerUser: { id: string; username: string; fullName: string };
+  }>,
+  currencyCode: string,
+): AuctionWinnerData[] {
+  return auctionWinners.map((auctionWinner) => ({
+    userId: auctionWinner.winnerUser.id,
+    username: auctionWinner.winnerUser.username,
+    fullName: auctionWinner.winnerUser.fullName,
+    quantityWon: auctionWinner.quantityWon,
+    pricePerUnit: createMoney(auctionWinner.pricePerUnitInCents, currencyCode),
+  }));
+}
+
+function calculateCurrentBidIncrement(auctionItem: {
+  currentHighestBidInCents: bigint;
+  currencyCode: string;
+  bidIncrementTable: {
+    incrementBands: Array<{
+      priceFromInCents: bigint;
+      incrementInCents: bigint;
+    }>;
+  };
+}): Money {
+  return createMoney(
+    findBidIncrementForPrice(
+      mapBidIncrementBands(auctionItem.bidIncrementTable.incrementBands),
+      convertCentsToNumber(auctionItem.currentHighestBidInCents),
+    ),
+    auctionItem.currencyCode,
+  );
+}
+
+// Returns an error message when the Dutch settings are invalid, or null when they are fine
+function validateDutchAuctionInput(
+  input: CreateAuctionItemInput,
+): string | null {
+  const floorPriceInCents = input.dutchFloorPriceInCents ?? null;
+
+  if (
+    floorPriceInCents === null ||
+    !Number.isSafeInteger(floorPriceInCents) ||
+    floorPriceInCents < 1 ||
+    floorPriceInCents >= input.startingPriceInCents
+  ) {
+    return "Floor price must be at least 0.01 and below the starting price";
+  }
+
+  if (
+    input.dutchPriceCurve !== "LINEAR" &&
+    input.dutchPriceCurve !== "STEPWISE"
+  ) {
+    return "Dutch auctions need a price curve of LINEAR or STEPWISE";
+  }
+
+  if (input.dutchPriceCurve === "STEPWISE") {
+    const dropIntervalInSeconds = input.dutchDropIntervalInSeconds ?? null;
+    const dropAmountInCents = input.dutchDropAmountInCents ?? null;
+
+    if (
+      dropIntervalInSeconds === null ||
+      !Number.isInteger(dropIntervalInSeconds) ||
+      dropIntervalInSeconds < 1
+    ) {
+      return "Price drop interval must be a whole number of seconds, at least 1";
+    }
+
+    if (
+      dropAmountInCents === null ||
+      !Number.isSafeInteger(dropAmountInCents) ||
+      dropAmountInCents < 1
+    ) {
+      return "Price drop amount must be at least 0.01";
+    }
+  }
+
+  if (
+    (input.reservePriceInCents ?? null) !== null ||
+    (input.buyNowPriceInCents ?? null) !== null ||
+    (input.softCloseWindowInSeconds ?? 0) > 0
+  ) {
+    return "Dutch auctions cannot have a reserve price, Buy It Now price or soft close";
+  }
+
+  return null;
+}
+
+// Returns an error message when the sealed-bid settings are invalid, or null when they are fine
+function validateSealedBidAuctionInput(
+  input: CreateAuctionItemInput,
+): string | null {
+  if (
+    input.sealedBidPricing !== "FIRST_PRICE" &&
+    input.sealedBidPricing !== "SECOND_PRICE"
+  ) {
+    return "Sealed-bid auctions need a pricing rule of FIRST_PRICE or SECOND_PRICE";
+  }
+
+  if (
+    (input.reservePriceInCents ?? null) !== null ||
+    (input.buyNowPriceInCents ?? null) !== null ||
+    (input.softCloseWindowInSeconds ?? 0) > 0
+  ) {
+    return "Sealed-bid auctions cannot have a reserve price, Buy It Now price or soft close";
+  }
+
+  return null;
+}
+
+// Returns an error message when the multi-quantity settings are invalid, or null when they are fine
+function validateMultiUnitAuctionInput(
+  input: CreateAuctionItemInput,
+): string | null {
+  const quantityAvailable = input.quantityAvailable ?? 1;
+
+  if (
+    !Number.isInteger(quantityAvailable) ||
+    quantityAvailable < 1 ||
+    quantityAvailable > MAXIMUM_QUANTITY_PER_AUCTION
+  ) {
+    return `Quantity must be a whole number from 1 to ${MAXIMUM_QUANTITY_PER_AUCTION}`;
+  }
+
+  if (quantityAvailable === 1) {
+    return null;
+  }
+
+  if ((input.auctionFormat ?? "ENGLISH") !== "ENGLISH") {
+    return "Only English auctions can offer more than one unit";
+  }
+
+  if (
+    input.multiUnitPricing !== "UNIFORM_PRICE" &&
+    input.multiUnitPricing !== "PAY_AS_BID"
+  ) {
+    return "Multi-quantity auctions need a pricing rule of UNIFORM_PRICE or PAY_AS_BID";
+  }
+
+  if (
+    (input.reservePriceInCents ?? null) !== null ||
+    (input.buyNowPriceInCents ?? null) !== null
+  ) {
+    return "Multi-quantity auctions cannot have a reserve price or Buy It Now price";
+  }
+
+  return null;
+}
+
 // ==============================|| CREATE AUCTION ITEM ||============================== //
 
 export async function createAuctionItem(
@@ -103,19 +376,37 @@ export async function createAuctionItem(
       };
     }
 
-    if (input.startingPriceInDollars < 0.01) {
+    if (
+      !Number.isSafeInteger(input.startingPriceInCents) ||
+      input.startingPriceInCents < 1
+    ) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage: "Starting price must be at least 0.01",
+      };
+    }
+
+    const currencyCode = input.currencyCode ?? PLATFORM_CURRENCY_CODE;
+
+    if (!checkIsSupportedCurrencyCode(currencyCode)) {
       return {
         wasCreationSuccessful: false,
         auctionItem: null,
-        errorMessage: "Starting price must be at least $0.01",
+        errorMessage: `Currency must be one of ${SUPPORTED_CURRENCY_CODES.join(", ")}`,
       };
     }
 
-    if (input.minimumBidIncrementInDollars < 0.01) {
+    const bidIncrementTableResult = await resolveBidIncrementTableForAuction(
+      input.bidIncrementTableId ?? null,
+      input.customBidIncrementBands ?? null,
+    );
+
+    if (!bidIncrementTableResult.bidIncrementTableRelation) {
       return {
         wasCreationSuccessful: false,
         auctionItem: null,
-        errorMessage: "Minimum bid increment must be at least $0.01",
+        errorMessage: bidIncrementTableResult.errorMessage,
       };
     }
 
@@ -128,8 +419,137 @@ export async function createAuctionItem(
     }
 
     const now = new Date();
+    const scheduledStartTime = input.auctionStartTimeTimestamp ?? null;
+
+    if (
+      scheduledStartTime !== null &&
+      (isNaN(scheduledStartTime.getTime()) || scheduledStartTime <= now)
+    ) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage: "Scheduled start time must be in the future",
+      };
+    }
+
+    const reservePriceInCents = input.reservePriceInCents ?? null;
+
+    if (
+      reservePriceInCents !== null &&
+      (!Number.isSafeInteger(reservePriceInCents) ||
+        reservePriceInCents < input.startingPriceInCents)
+    ) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage: "Reserve price must be at least the starting price",
+      };
+    }
+
+    const buyNowPriceInCents = input.buyNowPriceInCents ?? null;
+
+    if (
+      buyNowPriceInCents !== null &&
+      (!Number.isSafeInteger(buyNowPriceInCents) ||
+        buyNowPriceInCents <= input.startingPriceInCents ||
+        (reservePriceInCents !== null &&
+          buyNowPriceInCents < reservePriceInCents))
+    ) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage:
+          "Buy It Now price must be above the starting price and at least the reserve price",
+      };
+    }
+
+    const softCloseWindowInSeconds = input.softCloseWindowInSeconds ?? 0;
+    const softCloseExtensionInSeconds = input.softCloseExtensionInSeconds ?? 0;
+
+    if (
+      !Number.isInteger(softCloseWindowInSeconds) ||
+      !Number.isInteger(softCloseExtensionInSeconds) ||
+      softCloseWindowInSeconds < 0 ||
+      softCloseExtensionInSeconds < 0
+    ) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage: "Soft close settings must be whole, non-negative seconds",
+      };
+    }
+
+    if (softCloseWindowInSeconds > 0 && softCloseExtensionInSeconds === 0) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage:
+          "Soft close extension must be at least 1 second when a window is set",
+      };
+    }
+
+    const auctionFormat = input.auctionFormat ?? "ENGLISH";
+
+    if (
+      auctionFormat !== "ENGLISH" &&
+      auctionFormat !== "DUTCH" &&
+      auctionFormat !== "SEALED_BID"
+    ) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage: "Auction format must be ENGLISH, DUTCH or SEALED_BID",
+      };
+    }
+
+    const isDutchAuction = auctionFormat === "DUTCH";
+
+    if (isDutchAuction) {
+      const dutchValidationErrorMessage = validateDutchAuctionInput(input);
+
+      if (dutchValidationErrorMessage) {
+        return {
+          wasCreationSuccessful: false,
+          auctionItem: null,
+          errorMessage: dutchValidationErrorMessage,
+        };
+      }
+    }
+
+    const isSealedBidAuction = auctionFormat === "SEALED_BID";
+
+    if (isSealedBidAuction) {
+      const sealedValidationErrorMessage = validateSealedBidAuctionInput(input);
+
+      if (sealedValidationErrorMessage) {
+        return {
+          wasCreationSuccessful: false,
+          auctionItem: null,
+          errorMessage: sealedValidationErrorMessage,
+        };
+      }
+    }
+
+    const multiUnitValidationErrorMessage =
+      validateMultiUnitAuctionInput(input);
+
+    if (multiUnitValidationErrorMessage) {
+      return {
+        wasCreationSuccessful: false,
+        auctionItem: null,
+        errorMessage: multiUnitValidationErrorMessage,
+      };
+    }
+
+    const quantityAvailable = input.quantityAvailable ?? 1;
+
+    const isStepwiseDutchAuction =
+      isDutchAuction && input.dutchPriceCurve === "STEPWISE";
+
+    // The duration counts from the opening, so scheduled auctions run just as long as immediate ones
+    const auctionStartTime = scheduledStartTime ?? now;
     const auctionEndTime = new Date(
-      now.getTime() + input.auctionDurationInSeconds * 1000,
+      auctionStartTime.getTime() + input.auctionDurationInSeconds * 1000,
     );
 
     // Use provided image or get a random sample image
@@ -138,25 +558,65 @@ export async function createAuctionItem(
         ? input.itemImageUrl.trim()
         : getRandomSampleImage();
 
-    const createdAuction = await prismaClient.auctionItem.create({
-      data: {
-        itemTitle: input.itemTitle.trim(),
-        itemDescription: input.itemDescription.trim(),
-        startingPriceInDollars: input.startingPriceInDollars,
-        currentHighestBidInDollars: input.startingPriceInDollars,
-        minimumBidIncrementInDollars: input.minimumBidIncrementInDollars,
-        auctionStartTimeTimestamp: now,
-        auctionEndTimeTimestamp: auctionEndTime,
-        itemImageUrl: imageUrl,
-        currentStatus: "ACTIVE",
-        creatorUserId: input.creatorUserId,
-      },
-      include: {
-        creatorUser: {
-          select: { id: true, username: true, fullName: true },
-        },
+    const bidIncrementTableRelation =
+      bidIncrementTableResult.bidIncrementTableRelation;
+
+    const createdAuction = await prismaClient.$transaction(
+      async (transactionClient) => {
+        const insertedAuction = await transactionClient.auctionItem.create({
+          data: {
+            itemTitle: input.itemTitle.trim(),
+            itemDescription: input.itemDescription.trim(),
+            startingPriceInCents: input.startingPriceInCents,
+            currentHighestBidInCents: input.startingPriceInCents,
+            currencyCode,
+            bidIncrementTable: bidIncrementTableRelation,
+            reservePriceInCents,
+            buyNowPriceInCents,
+            auctionStartTimeTimestamp: auctionStartTime,
+            auctionEndTimeTimestamp: auctionEndTime,
+            itemImageUrl: imageUrl,
+            currentStatus: scheduledStartTime ? "SCHEDULED" : "ACTIVE",
+            softCloseWindowInSeconds,
+            softCloseExtensionInSeconds,
+            auctionFormat,
+            dutchFloorPriceInCents: isDutchAuction
+              ? input.dutchFloorPriceInCents
+              : null,
+            dutchPriceCurve: isDutchAuction ? input.dutchPriceCurve : null,
+            dutchDropIntervalInSeconds: isStepwiseDutchAuction
+              ? input.dutchDropIntervalInSeconds
+              : null,
+            dutchDropAmountInCents: isStepwiseDutchAuction
+              ? input.dutchDropAmountInCents
+              : null,
+            sealedBidPricing: isSealedBidAuction
+              ? input.sealedBidPricing
+              : null,
+            quantityAvailable,
+            multiUnitPricing:
+              quantityAvailable > 1 ? input.multiUnitPricing : null,
+            creatorUser: { connect: { id: input.creatorUserId } },
+          },
+          include: {
+            creatorUser: {
+              select: { id: true, username: true, fullName: true },
+            },
+            bidIncrementTable: { include: { incrementBands: true } },
+          },
+        });
+
+        await recordAuctionEvent(transactionClient, {
+          eventType: AUCTION_EVENT_AUCTION_CREATED,
+          eventPayload: { auctionItemId: insertedAuction.id },
+        });
+
+        return insertedAuction;
       },
-    });
+    );
+
+    await notifyAuctionEventsRecorded();
+    await scheduleAuctionLifecycleEvent(createdAuction);
 
     return {
       wasCreationSuccessful: true,
@@ -164,23 +624,49 @@ export async function createAuctionItem(
         id: createdAuction.id,
         itemTitle: createdAuction.itemTitle,
         itemDescription: createdAuction.itemDescription,
-        startingPriceInDollars:
-          createdAuction.startingPriceInDollars.toNumber(),
-        currentHighestBidInDollars:
-          createdAuction.currentHighestBidInDollars.toNumber(),
-        minimumBidIncrementInDollars:
-          createdAuction.minimumBidIncrementInDollars.toNumber(),
+        currencyCode: createdAuction.currencyCode,
+        startingPrice: createMoney(
+          createdAuction.startingPriceInCents,
+          createdAuction.currencyCode,
+        ),
+        currentHighestBid: createMoney(
+          createdAuction.currentHighestBidInCents,
+          createdAuction.currencyCode,
+        ),
+        bidIncrement: calculateCurrentBidIncrement(createdAuction),
         auctionStartTimeTimestamp: createdAuction.auctionStartTimeTimestamp,
         auctionEndTimeTimestamp: createdAuction.auctionEndTimeTimestamp,
         itemImageUrl: createdAuction.itemImageUrl,
         currentStatus: createdAuction.currentStatus,
+        endReason: createdAuction.endReason,
+        hasReservePrice: createdAuction.reservePriceInCents !== null,
+        isReservePriceMet: checkIsReservePriceMet(
+          convertCentsToNumber(createdAuction.currentHighestBidInCents),
+          convertOptionalCentsToNumber(createdAuction.reservePriceInCents),
+        ),
+        buyNowPrice: createOptionalMoney(
+          createdAuction.buyNowPriceInCents,
+          createdAuction.currencyCode,
+        ),
+        isBuyNowAvailable: checkIsBuyNowAvailable(
+          convertOptionalCentsToNumber(createdAuction.buyNowPriceInCents),
+          convertCentsToNumber(createdAuction.currentHighestBidInCents),
+          false,
+        ),
+        softCloseWindowInSeconds: createdAuction.softCloseWindowInSeconds,
+        softCloseExtensionInSeconds: createdAuction.softCloseExtensionInSeconds,
+        auctionFormat: createdAuction.auctionFormat,
+        dutchPriceSchedule: mapDutchPriceSchedule(createdAuction),
+        sealedBidPricing: createdAuction.sealedBidPricing,
+        quantityAvailable: createdAuction.quantityAvailable,
+        multiUnitPricing: createdAuction.multiUnitPricing,
         createdAtTimestamp: createdAuction.createdAtTimestamp,
         creatorUser: {
           userId: createdAuction.creatorUser.id,
           username: createdAuction.creatorUser.username,
           fullName: createdAuction.creatorUser.fullName,
         },
-        winnerUser: null,
+        winners: [],
         totalBidCount: 0,
         highestBidder: null,
       },
@@ -196,6 +682,102 @@ export async function createAuctionItem(
   }
 }
 
+// ==============================|| AUCTION LIST QUERY ||============================== //
+
+// The price, leader, end time, status and bid count come from the auction state cache instead
+const AUCTION_LIST_ITEM_INCLUDE = {
+  creatorUser: {
+    select: { id: true, username: true, fullName: true },
+  },
+  allWinners: {
+    where: { voidedAtTimestamp: null },
+    include: {
+      winnerUser: { select: { id: true, username: true, fullName: true } },
+    },
+    orderBy: { pricePerUnitInCents: "desc" },
+  },
+} satisfies Prisma.AuctionItemInclude;
+
+type AuctionListItem = Prisma.AuctionItemGetPayload<{
+  include: typeof AUCTION_LIST_ITEM_INCLUDE;
+}>;
+
+function mapAuctionListItem(
+  item: AuctionListItem,
+  auctionState: CachedAuctionState,
+): AuctionItemData {
+  return {
+    id: item.id,
+    itemTitle: item.itemTitle,
+    itemDescription: item.itemDescription,
+    currencyCode: item.currencyCode,
+    startingPrice: createMoney(item.startingPriceInCents, item.currencyCode),
+    currentHighestBid: createMoney(
+      auctionState.currentHighestBidInCents,
+      item.currencyCode,
+    ),
+    bidIncrement: createMoney(
+      auctionState.bidIncrementInCents,
+      item.currencyCode,
+    ),
+    auctionStartTimeTimestamp: item.auctionStartTimeTimestamp,
+    auctionEndTimeTimestamp: auctionState.auctionEndTimeTimestamp,
+    itemImageUrl: item.itemImageUrl,
+    currentStatus: auctionState.currentStatus,
+    endReason: item.endReason,
+    hasReservePrice: item.reservePriceInCents !== null,
+    isReservePriceMet: checkIsReservePriceMet(
+      auctionState.currentHighestBidInCents,
+      auctionState.reservePriceInCents,
+    ),
+    buyNowPrice: createOptionalMoney(
+      item.buyNowPriceInCents,
+      item.currencyCode,
+    ),
+    isBuyNowAvailable: checkIsBuyNowAvailable(
+      auctionState.buyNowPriceInCents,
+      auctionState.currentHighestBidInCents,
+      auctionState.highestBidderUserId !== null,
+    ),
+    softCloseWindowInSeconds: item.softCloseWindowInSeconds,
+    softCloseExtensionInSeconds: item.softCloseExtensionInSeconds,
+    auctionFormat: item.auctionFormat,
+    dutchPriceSchedule: mapDutchPriceSchedule(item),
+    sealedBidPricing: item.sealedBidPricing,
+    quantityAvailable: item.quantityAvailable,
+    multiUnitPricing: item.multiUnitPricing,
+    createdAtTimestamp: item.createdAtTimestamp,
+    creatorUser: {
+      userId: item.creatorUser.id,
+      username: item.creatorUser.username,
+      fullName: item.creatorUser.fullName,
+    },
+    winners: mapAuctionWinners(item.allWinners, item.currencyCode),
+    totalBidCount: auctionState.totalNumberOfBids,
+    highestBidder: auctionState.highestBidderUserId
+      ? {
+          userId: auctionState.highestBidderUserId,
+          username: auctionState.highestBidderUsername ?? "",
+        }
+      : null,
+  };
+}
+
+// Overlays each listed auction's hot state, read from the cache in one round trip
+async function mapAuctionListItemsWithCachedState(
+  auctionItems: AuctionListItem[],
+): Promise<AuctionItemData[]> {
+  const auctionStatesById = await fetchAuctionStates(
+    auctionItems.map((auctionItem) => auctionItem.id),
+  );
+
+  return auctionItems.flatMap((auctionItem) => {
+    const auctionState = auctionStatesById.get(auctionItem.id);
+
+    return auctionState ? [mapAuctionListItem(auctionItem, auctionState)] : [];
+  });
+}
+
 // ==============================|| FETCH ALL ACTIVE AUCTIONS ||============================== //
 
 export async function fetchAllActiveAuctionItems(): Promise<AuctionItemData[]> {
@@ -207,80 +789,34 @@ export async function fetchAllActiveAuctionItems(): Promise<AuctionItemData[]> {
           gt: new Date(),
         },
       },
-      include: {
-        creatorUser: {
-          select: { id: true, username: true, fullName: true },
-        },
-        winnerUser: {
-          select: { id: true, username: true, fullName: true },
-        },
-        _count: {
-          select: { allBidsOnItem: true },
-        },
-      },
+      include: AUCTION_LIST_ITEM_INCLUDE,
       orderBy: {
         auctionEndTimeTimestamp: "asc",
       },
     });
 
-    // Get highest bidder for each auction
-    const auctionItemsWithBidders = await Promise.all(
-      auctionItems.map(async (item) => {
-        const highestBid = await prismaClient.bid.findFirst({
-          where: {
-            auctionItemId: item.id,
-            wasBidSuccessful: true,
-          },
-          orderBy: {
-            bidAmountInDollars: "desc",
-          },
-          include: {
-            bidderUser: {
-              select: { id: true, username: true },
-            },
-          },
-        });
+    return await mapAuctionListItemsWithCachedState(auctionItems);
+  } catch (error) {
+    logErrorMessage("Error fetching active auction items", error);
+    return [];
+  }
+}
 
-        return {
-          id: item.id,
-          itemTitle: item.itemTitle,
-          itemDescription: item.itemDescription,
-          startingPriceInDollars: item.startingPriceInDollars.toNumber(),
-          currentHighestBidInDollars:
-            item.currentHighestBidInDollars.toNumber(),
-          minimumBidIncrementInDollars:
-            item.minimumBidIncrementInDollars.toNumber(),
-          auctionStartTimeTimestamp: item.auctionStartTimeTimestamp,
-          auctionEndTimeTimestamp: item.auctionEndTimeTimestamp,
-          itemImageUrl: item.itemImageUrl,
-          currentStatus: item.currentStatus,
-          createdAtTimestamp: item.createdAtTimestamp,
-          creatorUser: {
-            userId: item.creatorUser.id,
-            username: item.creatorUser.username,
-            fullName: item.creatorUser.fullName,
-          },
-          winnerUser: item.winnerUser
-            ? {
-                userId: item.winnerUser.id,
-                username: item.winnerUser.username,
-                fullName: item.winnerUser.fullName,
-              }
-            : null,
-          totalBidCount: item._count.allBidsOnItem,
-          highestBidder: highestBid
-            ? {
-                userId: highestBid.bidderUser.id,
-                username: highestBid.bidderUser.username,
-              }
-            : null,
-        };
-      }),
-    );
+// ==============================|| FETCH UPCOMING AUCTIONS ||============================== //
 
-    return auctionItemsWithBidders;
+export async function fetchUpcomingAuctionItems(): Promise<AuctionItemData[]> {
+  try {
+    const auctionItems = await prismaClient.auctionItem.findMany({
+      where: { currentStatus: "SCHEDULED" },
+      include: AUCTION_LIST_ITEM_INCLUDE,
+      orderBy: {
+        auctionStartTimeTimestamp: "asc",
+      },
+    });
+
+    return await mapAuctionListItemsWithCachedState(auctionItems);
   } catch (error) {
-    logErrorMessage("Error fetching active auction items", error);
+    logErrorMessage("Error fetching upcoming auction items", error);
     return [];
   }
 }
@@ -297,9 +833,19 @@ export async function fetchAuctionItemById(
         creatorUser: {
           select: { id: true, username: true, fullName: true },
         },
-        winnerUser: {
-          select: { id: true, username: true, fullName: true },
+        allWinners: {
+          where: { voidedAtTimestamp: null },
+          include: {
+            winnerUser: {
+              select: { id: true, username: true, fullName: true },
+            },
+          },
+          orderBy: { pricePerUnitInCents: "desc" },
+        },
+        highestBidderUser: {
+          select: { id: true, username: true },
         },
+        bidIncrementTable: { include: { incrementBands: true } },
         _count: {
           select: { allBidsOnItem: true },
         },
@@ -310,52 +856,63 @@ export async function fetchAuctionItemById(
       return null;
     }
 
-    const highestBid = await prismaClient.bid.findFirst({
-      where: {
-        auctionItemId: auctionItem.id,
-        wasBidSuccessful: true,
-      },
-      orderBy: {
-        bidAmountInDollars: "desc",
-      },
-      include: {
-        bidderUser: {
-          select: { id: true, username: true },
-        },
-      },
-    });
-
     return {
       id: auctionItem.id,
       itemTitle: auctionItem.itemTitle,
       itemDescription: auctionItem.itemDescription,
-      startingPriceInDollars: auctionItem.startingPriceInDollars.toNumber(),
-      currentHighestBidInDollars:
-        auctionItem.currentHighestBidInDollars.toNumber(),
-      minimumBidIncrementInDollars:
-        auctionItem.minimumBidIncrementInDollars.toNumber(),
+      currencyCode: auctionItem.currencyCode,
+      startingPrice: createMoney(
+        auctionItem.startingPriceInCents,
+        auctionItem.currencyCode,
+      ),
+      currentHighestBid: createMoney(
+        auctionItem.currentHighestBidInCents,
+        auctionItem.currencyCode,
+      ),
+      bidIncrement: calculateCurrentBidIncrement(auctionItem),
       auctionStartTimeTimestamp: auctionItem.auctionStartTimeTimestamp,
       auctionEndTimeTimestamp: auctionItem.auctionEndTimeTimestamp,
       itemImageUrl: auctionItem.itemImageUrl,
       currentStatus: auctionItem.currentStatus,
+      endReason: auctionItem.endReason,
+      hasReservePrice: auctionItem.reservePriceInCents !== null,
+      isReservePriceMet: checkIsReservePriceMet(
+        convertCentsToNumber(auctionItem.currentHighestBidInCents),
+        convertOptionalCentsToNumber(auctionItem.reservePriceInCents),
+      ),
+      buyNowPrice: createOptionalMoney(
+        auctionItem.buyNowPriceInCents,
+        auctionItem.currencyCode,
+      ),
+      isBuyNowAvailable:
+        auctionItem.currentStatus === "ACTIVE" &&
+        checkIsBuyNowAvailable(
+          convertOptionalCentsToNumber(auctionItem.buyNowPriceInCents),
+          convertCentsToNumber(auctionItem.currentHighestBidInCents),
+          auctionItem.highestBidderUserId !== null,
+        ),
+      softCloseWindowInSeconds: auctionItem.softCloseWindowInSeconds,
+      softCloseExtensionInSeconds: auctionItem.softCloseExtensionInSeconds,
+      auctionFormat: auctionItem.auctionFormat,
+      dutchPriceSchedule: mapDutchPriceSchedule(auctionItem),
+      sealedBidPricing: auctionItem.sealedBidPricing,
+      quantityAvailable: auctionItem.quantityAvailable,
+      multiUnitPricing: auctionItem.multiUnitPricing,
       createdAtTimestamp: auctionItem.createdAtTimestamp,
       creatorUser: {
         userId: auctionItem.creatorUser.id,
         username: auctionItem.creatorUser.username,
         fullName: auctionItem.creatorUser.fullName,
       },
-      winnerUser: auctionItem.winnerUser
-        ? {
-            userId: auctionItem.winnerUser.id,
-            username: auctionItem.winnerUser.username,
-            fullName: auctionItem.winnerUser.fullName,
-          }
-        : null,
+      winners: mapAuctionWinners(
+        auctionItem.allWinners,
+        auctionItem.currencyCode,
+      ),
       totalBidCount: auctionItem._count.allBidsOnItem,
-      highestBidder: highestBid
+      highestBidder: auctionItem.highestBidderUser
         ? {
-            userId: highestBid.bidderUser.id,
-            username: highestBid.bidderUser.username,
+            userId: auctionItem.highestBidderUser.id,
+            username: auctionItem.highestBidderUser.username,
           }
         : null,
     };
@@ -372,12 +929,32 @@ export async function fetchAuctionItemById(
 export async function fetchBidHistoryForAuction(
   auctionItemId: string,
   limitNumberOfBids: number = 50,
+  requestingUserId: string | null = null,
 ): Promise<BidHistoryItem[]> {
   try {
+    const auctionItem = await prismaClient.auctionItem.findUnique({
+      where: { id: auctionItemId },
+      select: { auctionFormat: true, currentStatus: true, currencyCode: true },
+    });
+
+    if (!auctionItem) {
+      return [];
+    }
+
+    // Sealed bids stay private until close - bidders only see their own
+    const isSealedAndOpen =
+      auctionItem.auctionFormat === "SEALED_BID" &&
+      auctionItem.currentStatus === "ACTIVE";
+
+    if (isSealedAndOpen && !requestingUserId) {
+      return [];
+    }
+
     const bidHistory = await prismaClient.bid.findMany({
       where: {
         auctionItemId,
         wasBidSuccessful: true,
+        ...(isSealedAndOpen ? { bidderUserId: requestingUserId! } : {}),
       },
       include: {
         bidderUser: {
@@ -392,7 +969,7 @@ export async function fetchBidHistoryForAuction(
 
     return bidHistory.map((bid) => ({
       bidId: bid.id,
-      bidAmountInDollars: bid.bidAmountInDollars.toNumber(),
+      bidAmount: createMoney(bid.bidAmountInCents, auctionItem.currencyCode),
       placedAtTimestamp: bid.placedAtTimestamp,
       bidderUser: {
         userId: bid.bidderUser.id,
@@ -421,7 +998,7 @@ export async function fetchBidHistoryForUser(
           select: { id: true, username: true },
         },
         auctionItem: {
-          select: { itemTitle: true },
+          select: { itemTitle: true, currencyCode: true },
         },
       },
       orderBy: {
@@ -432,7 +1009,10 @@ export async function fetchBidHistoryForUser(
 
     return userBids.map((bid) => ({
       bidId: bid.id,
-      bidAmountInDollars: bid.bidAmountInDollars.toNumber(),
+      bidAmount: createMoney(
+        bid.bidAmountInCents,
+        bid.auctionItem.currencyCode,
+      ),
       placedAtTimestamp: bid.placedAtTimestamp,
       bidderUser: {
         userId: bid.bidderUser.id,
@@ -450,7 +1030,7 @@ export async function fetchBidHistoryForUser(
 
 export interface UserBidWithAuctionData {
   bidId: string;
-  bidAmountInDollars: number;
+  bidAmount: Money;
   placedAtTimestamp: Date;
   wasBidSuccessful: boolean;
   auctionItem: {
@@ -458,9 +1038,11 @@ export interface UserBidWithAuctionData {
     itemTitle: string;
     itemDescription: string;
     itemImageUrl: string | null;
-    currentHighestBidInDollars: number;
+    currentHighestBid: Money;
     auctionEndTimeTimestamp: Date;
     currentStatus: string;
+    endReason: AuctionEndReason | null;
+    auctionFormat: AuctionFormat;
   };
   isHighestBidder: boolean;
   isWinner: boolean;
@@ -479,6 +1061,10 @@ export async function fetchUserBidsWithAuctionDetails(
       include: {
         auctionItem: {
           include: {
+            allWinners: {
+              where: { winnerUserId: userId, voidedAtTimestamp: null },
+              select: { quantityWon: true },
+            },
             _count: {
               select: { allBidsOnItem: true },
             },
@@ -494,37 +1080,26 @@ export async function fetchUserBidsWithAuctionDetails(
     const auctionBidsMap = new Map<string, (typeof userBids)[0]>();
     for (const bid of userBids) {
       const existingBid = auctionBidsMap.get(bid.auctionItemId);
-      if (
-        !existingBid ||
-        bid.bidAmountInDollars.toNumber() >
-          existingBid.bidAmountInDollars.toNumber()
-      ) {
+      if (!existingBid || bid.bidAmountInCents > existingBid.bidAmountInCents) {
         auctionBidsMap.set(bid.auctionItemId, bid);
       }
     }
 
     const results: UserBidWithAuctionData[] = [];
 
-    for (const [auctionId, userHighestBid] of auctionBidsMap) {
-      // Check if user is the highest bidder for this auction
-      const highestBidOnAuction = await prismaClient.bid.findFirst({
-        where: {
-          auctionItemId: auctionId,
-          wasBidSuccessful: true,
-        },
-        orderBy: {
-          bidAmountInDollars: "desc",
-        },
-      });
-
-      const isHighestBidder = highestBidOnAuction?.bidderUserId === userId;
+    for (const userHighestBid of auctionBidsMap.values()) {
+      const isHighestBidder =
+        userHighestBid.auctionItem.highestBidderUserId === userId;
       const isWinner =
         userHighestBid.auctionItem.currentStatus === "ENDED" &&
-        userHighestBid.auctionItem.winnerUserId === userId;
+        userHighestBid.auctionItem.allWinners.length > 0;
 
       results.push({
         bidId: userHighestBid.id,
-        bidAmountInDollars: userHighestBid.bidAmountInDollars.toNumber(),
+        bidAmount: createMoney(
+          userHighestBid.bidAmountInCents,
+          userHighestBid.auctionItem.currencyCode,
+        ),
         placedAtTimestamp: userHighestBid.placedAtTimestamp,
         wasBidSuccessful: userHighestBid.wasBidSuccessful,
         auctionItem: {
@@ -532,11 +1107,15 @@ export async function fetchUserBidsWithAuctionDetails(
           itemTitle: userHighestBid.auctionItem.itemTitle,
           itemDescription: userHighestBid.auctionItem.itemDescription,
           itemImageUrl: userHighestBid.auctionItem.itemImageUrl,
-          currentHighestBidInDollars:
-            userHighestBid.auctionItem.currentHighestBidInDollars.toNumber(),
+          currentHighestBid: createMoney(
+            userHighestBid.auctionItem.currentHighestBidInCents,
+            userHighestBid.auctionItem.currencyCode,
+          ),
           auctionEndTimeTimestamp:
             userHighestBid.auctionItem.auctionEndTimeTimestamp,
           currentStatus: userHighestBid.auctionItem.currentStatus,
+          endReason: userHighestBid.auctionItem.endReason,
+          auctionFormat: userHighestBid.auctionItem.auctionFormat,
         },
         isHighestBidder,
         isWinner,
@@ -564,33 +1143,69 @@ export interface WonAuctionData {
   itemTitle: string;
   itemDescription: string;
   itemImageUrl: string | null;
-  winningBidAmountInDollars: number;
+  winningBidAmount: Money; // Per unit
+  quantityWon: number;
+  quantityAvailable: number;
+  totalPrice: Money;
   auctionEndTimeTimestamp: Date;
   wonAtTimestamp: Date;
+  order: WonAuctionOrderData | null; // Null only while the order is still being opened
+}
+
+export interface WonAuctionOrderData {
+  orderId: string;
+  orderStatus: OrderStatus;
+  paymentMethod: OrderPaymentMethod | null;
+  paymentDeadlineTimestamp: Date;
+  paidAtTimestamp: Date | null;
+  voidedAtTimestamp: Date | null;
+  isOverdue: boolean;
 }
 
 export async function fetchUserWonAuctions(
   userId: string,
 ): Promise<WonAuctionData[]> {
   try {
-    const wonAuctions = await prismaClient.auctionItem.findMany({
+    const auctionWins = await prismaClient.auctionWinner.findMany({
       where: {
         winnerUserId: userId,
-        currentStatus: "ENDED",
+        auctionItem: { currentStatus: "ENDED" },
       },
+      include: { auctionItem: true, order: true },
       orderBy: {
-        auctionEndTimeTimestamp: "desc",
+        wonAtTimestamp: "desc",
       },
     });
+    const currentTimestamp = new Date();
 
-    return wonAuctions.map((auction) => ({
-      id: auction.id,
-      itemTitle: auction.itemTitle,
-      itemDescription: auction.itemDescription,
-      itemImageUrl: auction.itemImageUrl,
-      winningBidAmountInDollars: auction.currentHighestBidInDollars.toNumber(),
-      auctionEndTimeTimestamp: auction.auctionEndTimeTimestamp,
-      wonAtTimestamp: auction.auctionEndTimeTimestamp,
+    return auctionWins.map((auctionWin) => ({
+      id: auctionWin.auctionItem.id,
+      itemTitle: auctionWin.auctionItem.itemTitle,
+      itemDescription: auctionWin.auctionItem.itemDescription,
+      itemImageUrl: auctionWin.auctionItem.itemImageUrl,
+      winningBidAmount: createMoney(
+        auctionWin.pricePerUnitInCents,
+        auctionWin.auctionItem.currencyCode,
+      ),
+      quantityWon: auctionWin.quantityWon,
+      quantityAvailable: auctionWin.auctionItem.quantityAvailable,
+      totalPrice: createMoney(
+        auctionWin.pricePerUnitInCents * BigInt(auctionWin.quantityWon),
+        auctionWin.auctionItem.currencyCode,
+      ),
+      auctionEndTimeTimestamp: auctionWin.auctionItem.auctionEndTimeTimestamp,
+      wonAtTimestamp: auctionWin.wonAtTimestamp,
+      order: auctionWin.order
+        ? {
+            orderId: auctionWin.order.id,
+            orderStatus: auctionWin.order.orderStatus,
+            paymentMethod: auctionWin.order.paymentMethod,
+            paymentDeadlineTimestamp: auctionWin.order.paymentDeadlineTimestamp,
+            paidAtTimestamp: auctionWin.order.paidAtTimestamp,
+            voidedAtTimestamp: auctionWin.order.voidedAtTimestamp,
+            isOverdue: checkIsOrderOverdue(auctionWin.order, currentTimestamp),
+          }
+        : null,
     }));
   } catch (error) {
     logErrorMessage("Error fetching user won auctions", error, { userId });
@@ -598,12 +1213,100 @@ export async function fetchUserWonAuctions(
   }
 }
 
+// ==============================|| ACTIVATE SCHEDULED AUCTIONS ||============================== //
+
+export interface StartedAuctionInfo {
+  auctionItemId: string;
+  auctionStartTimeTimestamp: Date;
+  auctionEndTimeTimestamp: Date;
+}
+
+export interface ActivateScheduledResult {
+  count: number;
+  startedAuctions: StartedAuctionInfo[];
+}
+
+export async function activateScheduledAuctions(): Promise<ActivateScheduledResult> {
+  try {
+    const activationCheckTimestamp = new Date();
+    const dueAuctions = await prismaClient.auctionItem.findMany({
+      where: {
+        currentStatus: "SCHEDULED",
+        auctionStartTimeTimestamp: {
+          lte: activationCheckTimestamp,
+        },
+      },
+      select: {
+        id: true,
+        auctionStartTimeTimestamp: true,
+        auctionEndTimeTimestamp: true,
+      },
+    });
+
+    // Open each auction only if it is still scheduled, so it is announced exactly once
+    const startedAuctions: StartedAuctionInfo[] = [];
+    for (const auction of dueAuctions) {
+      const wasAuctionStarted = await prismaClient.$transaction(
+        async (transactionClient) => {
+          const updateResult = await transactionClient.auctionItem.updateMany({
+            where: { id: auction.id, currentStatus: "SCHEDULED" },
+            data: { currentStatus: "ACTIVE" },
+          });
+
+          if (updateResult.count === 0) return false;
+
+          await recordAuctionEvent(transactionClient, {
+            eventType: AUCTION_EVENT_AUCTION_STARTED,
+            eventPayload: {
+              auctionItemId: auction.id,
+              auctionStartTimeTimestamp:
+                auction.auctionStartTimeTimestamp.toISOString(),
+              auctionEndTimeTimestamp:
+                auction.auctionEndTimeTimestamp.toISOString(),
+            },
+          });
+
+          return true;
+        },
+      );
+
+      if (wasAuctionStarted) {
+        await invalidateAuctionState(auction.id);
+        startedAuctions.push({
+          auctionItemId: auction.id,
+          auctionStartTimeTimestamp: auction.auctionStartTimeTimestamp,
+          auctionEndTimeTimestamp: auction.auctionEndTimeTimestamp,
+        });
+      }
+    }
+
+    if (startedAuctions.length > 0) {
+      await notifyAuctionEventsRecorded();
+    }
+
+    return { count: startedAuctions.length, startedAuctions };
+  } catch (error) {
+    logErrorMessage("Error activating scheduled auctions", error);
+    return { count: 0, startedAuctions: [] };
+  }
+}
+
 // Types for ended auction info
+export interface EndedAuctionWinnerInfo {
+  userId: string;
+  username: string;
+  quantityWon: number;
+  pricePerUnitInCents: number;
+}
+
 export interface EndedAuctionInfo {
   auctionItemId: string;
-  winnerUserId: string | null;
+  winnerUserId: string | null; // Top winner - the only one unless several units were sold
   winnerUsername: string | null;
-  finalBidAmountInDollars: number;
+  winners: EndedAuctionWinnerInfo[];
+  finalBidAmountInCents: number;
+  currencyCode: string;
+  endReason: AuctionEndReason;
 }
 
 export interface MarkExpiredResult {
@@ -611,81 +1314,341 @@ export interface MarkExpiredResult {
   endedAuctions: EndedAuctionInfo[];
 }
 
+// Sweeps every auction past its end time, finalizing each on its own so one failure does not hold up the rest
 export async function markExpiredAuctionsAsEnded(): Promise<MarkExpiredResult> {
   try {
-    // Find auctions that need to be ended
-    const auctionsToEnd = await prismaClient.auctionItem.findMany({
+    const expiredAuctions = await prismaClient.auctionItem.findMany({
       where: {
         currentStatus: "ACTIVE",
         auctionEndTimeTimestamp: {
           lte: new Date(),
         },
       },
-      select: {
-        id: true,
-        currentHighestBidInDollars: true,
-      },
+      select: { id: true },
     });
 
-    if (auctionsToEnd.length === 0) {
-      return { count: 0, endedAuctions: [] };
+    const endedAuctions: EndedAuctionInfo[] = [];
+    for (const auction of expiredAuctions) {
+      try {
+        const endedAuction = await finalizeEndedAuction(auction.id);
+
+        if (endedAuction) {
+          endedAuctions.push(endedAuction);
+        }
+      } catch (error) {
+        logErrorMessage("Error finalizing ended auction", error, {
+          auctionItemId: auction.id,
+        });
+      }
     }
 
-    // Update them to ENDED
-    await prismaClient.auctionItem.updateMany({
-      where: {
-        id: { in: auctionsToEnd.map((a) => a.id) },
-      },
-      data: {
-        currentStatus: "ENDED",
-      },
-    });
+    return { count: endedAuctions.length, endedAuctions };
+  } catch (error) {
+    logErrorMessage("Error marking expired auctions as ended", error);
+    return { count: 0, endedAuctions: [] };
+  }
+}
 
-    const endedAuctions: EndedAuctionInfo[] = [];
+// Ends the auction and records its outcome in one transaction, so it is never ENDED without its winners and orders.
+// Resolves to null when there is nothing to do - the auction is not due yet, or was already ended, sold or cancelled -
+// which makes finalizing the same auction twice, from a retry or a second instance, harmless
+export async function finalizeEndedAuction(
+  auctionItemId: string,
+): Promise<EndedAuctionInfo | null> {
+  const endedAuction = await prismaClient.$transaction(
+    async (transactionClient) => {
+      // Ending takes the row lock and draws a fencing token, so a bid still in flight under an older token
+      // fails its own write, and everything read below is final
+      const endedRowCount = await transactionClient.$executeRaw`
+        UPDATE auction_items
+        SET status = 'ENDED',
+            lock_fencing_token = nextval('lock_fencing_tokens'),
+            updated_at = now()
+        WHERE id = ${auctionItemId}
+          AND status = 'ACTIVE'
+          AND auction_end_time <= now()
+      `;
 
-    // For each ended auction, set the winner and collect info
-    for (const auction of auctionsToEnd) {
-      const highestBid = await prismaClient.bid.findFirst({
-        where: {
-          auctionItemId: auction.id,
-          wasBidSuccessful: true,
-        },
-        orderBy: {
-          bidAmountInDollars: "desc",
-        },
-        include: {
-          bidderUser: {
+      if (endedRowCount === 0) return null;
+
+      const auction = await transactionClient.auctionItem.findUniqueOrThrow({
+        where: { id: auctionItemId },
+        select: {
+          id: true,
+          startingPriceInCents: true,
+          currentHighestBidInCents: true,
+          currencyCode: true,
+          reservePriceInCents: true,
+          auctionFormat: true,
+          sealedBidPricing: true,
+          quantityAvailable: true,
+          multiUnitPricing: true,
+          creatorUserId: true,
+          highestBidderUser: {
             select: { id: true, username: true },
           },
         },
       });
 
-      if (highestBid) {
-        await prismaClient.auctionItem.update({
-          where: { id: auction.id },
-          data: { winnerUserId: highestBid.bidderUserId },
-        });
+      const endedAuction =
+        auction.auctionFormat === "SEALED_BID"
+          ? await settleEndedSealedBidAuction(transactionClient, auction)
+          : auction.quantityAvailable > 1
+            ? await settleEndedMultiUnitAuction(transactionClient, auction)
+            : await settleEndedEnglishAuction(transactionClient, auction);
 
-        endedAuctions.push({
-          auctionItemId: auction.id,
-          winnerUserId: highestBid.bidderUserId,
-          winnerUsername: highestBid.bidderUser.username,
-          finalBidAmountInDollars: Number(highestBid.bidAmountInDollars),
-        });
-      } else {
-        // No bids - no winner
-        endedAuctions.push({
-          auctionItemId: auction.id,
-          winnerUserId: null,
-          winnerUsername: null,
-          finalBidAmountInDollars: Number(auction.currentHighestBidInDollars),
-        });
-      }
-    }
+      await recordAuctionEvent(transactionClient, {
+        eventType: AUCTION_EVENT_AUCTION_ENDED,
+        eventPayload: endedAuction,
+      });
 
-    return { count: auctionsToEnd.length, endedAuctions };
-  } catch (error) {
-    logErrorMessage("Error marking expired auctions as ended", error);
-    return { count: 0, endedAuctions: [] };
+      return endedAuction;
+    },
+  );
+
+  if (endedAuction) {
+    await invalidateAuctionState(auctionItemId);
+    await notifyAuctionEventsRecorded();
   }
+
+  return endedAuction;
+}
+
+// Records the highest bidder of a just-ended single-unit auction as its winner, if the reserve was met
+async function settleEndedEnglishAuction(
+  transactionClient: Prisma.TransactionClient,
+  auction: {
+    id: string;
+    creatorUserId: string;
+    currentHighestBidInCents: bigint;
+    currencyCode: string;
+    reservePriceInCents: bigint | null;
+    highestBidderUser: { id: string; username: string } | null;
+  },
+): Promise<EndedAuctionInfo> {
+  const isReservePriceMet = checkIsReservePriceMet(
+    convertCentsToNumber(auction.currentHighestBidInCents),
+    convertOptionalCentsToNumber(auction.reservePriceInCents),
+  );
+  const winnerUser =
+    auction.highestBidderUser && isReservePriceMet !== false
+      ? auction.highestBidderUser
+      : null;
+  const endReason: AuctionEndReason = winnerUser
+    ? "SOLD"
+    : auction.highestBidderUser
+      ? "RESERVE_NOT_MET"
+      : "NO_BIDS";
+
+  await transactionClient.auctionItem.update({
+    where: { id: auction.id },
+    data: {
+      endReason,
+      ...(winnerUser
+        ? {
+            allWinners: {
+              create: {
+                winnerUserId: winnerUser.id,
+                pricePerUnitInCents: auction.currentHighestBidInCents,
+              },
+            },
+          }
+        : {}),
+    },
+  });
+
+  // The winner's hold pays the seller where it can; everyone else's is released
+  await openOrdersForEndedAuction(
+    transactionClient,
+    auction.id,
+    auction.creatorUserId,
+    winnerUser
+      ? [
+          {
+            payerUserId: winnerUser.id,
+            amountInCents: convertCentsToNumber(
+              auction.currentHighestBidInCents,
+            ),
+          },
+        ]
+      : [],
+  );
+
+  return {
+    auctionItemId: auction.id,
+    winnerUserId: winnerUser?.id ?? null,
+    winnerUsername: winnerUser?.username ?? null,
+    winners: winnerUser
+      ? [
+          {
+            userId: winnerUser.id,
+            username: winnerUser.username,
+            quantityWon: 1,
+            pricePerUnitInCents: convertCentsToNumber(
+              auction.currentHighestBidInCents,
+            ),
+          },
+        ]
+      : [],
+    finalBidAmountInCents: convertCentsToNumber(
+      auction.currentHighestBidInCents,
+    ),
+    currencyCode: auction.currencyCode,
+    endReason,
+  };
+}
+
+// Opens the sealed bids of a just-ended auction and records the winner and the price they pay
+async function settleEndedSealedBidAuction(
+  transactionClient: Prisma.TransactionClient,
+  auction: {
+    id: string;
+    creatorUserId: string;
+    startingPriceInCents: bigint;
+    currencyCode: string;
+    sealedBidPricing: SealedBidPricing | null;
+  },
+): Promise<EndedAuctionInfo> {
+  const sealedBids = await transactionClient.bid.findMany({
+    where: { auctionItemId: auction.id, wasBidSuccessful: true },
+    include: { bidderUser: { select: { id: true, username: true } } },
+  });
+
+  const settlement = settleSealedBidAuction(
+    sealedBids.map((bid) => ({
+      bidderUserId: bid.bidderUserId,
+      bidAmountInCents: convertCentsToNumber(bid.bidAmountInCents),
+      placedAtTimestamp: bid.placedAtTimestamp,
+    })),
+    auction.sealedBidPricing ?? "FIRST_PRICE",
+    convertCentsToNumber(auction.startingPriceInCents),
+  );
+  const winnerUser =
+    sealedBids.find((bid) => bid.bidderUserId === settlement.winnerUserId)
+      ?.bidderUser ?? null;
+  const endReason: AuctionEndReason = winnerUser ? "SOLD" : "NO_BIDS";
+
+  await transactionClient.auctionItem.update({
+    where: { id: auction.id },
+    data: {
+      currentHighestBidInCents: settlement.settlementPriceInCents,
+      highestBidderUserId: winnerUser?.id ?? null,
+      endReason,
+      ...(winnerUser
+        ? {
+            allWinners: {
+              create: {
+                winnerUserId: winnerUser.id,
+                pricePerUnitInCents: settlement.settlementPriceInCents,
+              },
+            },
+          }
+        : {}),
+    },
+  });
+
+  // Under second-price settlement the winner's hold covers more than they pay, and the rest is released
+  await openOrdersForEndedAuction(
+    transactionClient,
+    auction.id,
+    auction.creatorUserId,
+    winnerUser
+      ? [
+          {
+            payerUserId: winnerUser.id,
+            amountInCents: settlement.settlementPriceInCents,
+          },
+        ]
+      : [],
+  );
+
+  return {
+    auctionItemId: auction.id,
+    winnerUserId: winnerUser?.id ?? null,
+    winnerUsername: winnerUser?.username ?? null,
+    winners: winnerUser
+      ? [
+          {
+            userId: winnerUser.id,
+            username: winnerUser.username,
+            quantityWon: 1,
+            pricePerUnitInCents: settlement.settlementPriceInCents,
+          },
+        ]
+      : [],
+    finalBidAmountInCents: settlement.settlementPriceInCents,
+    currencyCode: auction.currencyCode,
+    endReason,
+  };
+}
+
+// Allocates the units of a just-ended multi-quantity auction to the top standing bids
+async function settleEndedMultiUnitAuction(
+  transactionClient: Prisma.TransactionClient,
+  auction: {
+    id: string;
+    creatorUserId: string;
+    startingPriceInCents: bigint;
+    currencyCode: string;
+    quantityAvailable: number;
+    multiUnitPricing: MultiUnitPricing | null;
+  },
+): Promise<EndedAuctionInfo> {
+  const standingBids = await fetchStandingMultiUnitBids(
+    transactionClient,
+    auction.id,
+  );
+  const allocationResult = allocateMultiUnitAuction(
+    standingBids,
+    auction.quantityAvailable,
+    auction.multiUnitPricing ?? "PAY_AS_BID",
+  );
+  const winners: EndedAuctionWinnerInfo[] = allocationResult.allocations.map(
+    (allocation) => ({
+      userId: allocation.bidderUserId,
+      username:
+        standingBids.find(
+          (standingBid) => standingBid.bidderUserId === allocation.bidderUserId,
+        )?.bidderUsername ?? "",
+      quantityWon: allocation.quantityWon,
+      pricePerUnitInCents: allocation.pricePerUnitInCents,
+    }),
+  );
+  const endReason: AuctionEndReason = winners.length > 0 ? "SOLD" : "NO_BIDS";
+
+  await transactionClient.auctionItem.update({
+    where: { id: auction.id },
+    data: {
+      endReason,
+      allWinners: {
+        create: winners.map((winner) => ({
+          winnerUserId: winner.userId,
+          quantityWon: winner.quantityWon,
+          pricePerUnitInCents: winner.pricePerUnitInCents,
+        })),
+      },
+    },
+  });
+
+  await openOrdersForEndedAuction(
+    transactionClient,
+    auction.id,
+    auction.creatorUserId,
+    winners.map((winner) => ({
+      payerUserId: winner.userId,
+      amountInCents: winner.pricePerUnitInCents * winner.quantityWon,
+    })),
+  );
+
+  return {
+    auctionItemId: auction.id,
+    winnerUserId: winners[0]?.userId ?? null,
+    winnerUsername: winners[0]?.username ?? null,
+    winners,
+    finalBidAmountInCents:
+      allocationResult.lowestAcceptedBidInCents ??
+      convertCentsToNumber(auction.startingPriceInCents),
+    currencyCode: auction.currencyCode,
+    endReason,
+  };
 }
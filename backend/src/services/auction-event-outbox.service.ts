@@ -0,0 +1,230 @@
+// ==============================|| AUCTION EVENT OUTBOX SERVICE ||============================== //
+// Records auction domain events in the outbox table inside the transaction that makes the change, and publishes
+// them to every registered consumer afterwards. Delivery is at least once: an event is only marked published after
+// every consumer has taken it, so a crash or a failing consumer means it is delivered again, never lost.
+// One elected dispatcher publishes each auction's events in the order their transactions committed. Writers wake
+// it over Redis pub/sub once they commit, and it polls as well, so a lost wake-up only delays events
+
+import { Prisma } from '@prisma/client';
+import Redis from 'ioredis';
+import { prismaClient } from '../config/prisma-client.config';
+import { redisClient } from '../config/redis-client.config';
+import { REDIS_CHANNEL_FOR_OUTBOX_EVENTS_RECORDED } from '../constants/redis-keys.constants';
+import { AuctionDomainEvent, PublishedAuctionEvent } from '../constants/auction-events.constants';
+import { checkIsLeader, runWhileLeader } from '../lib/leader-election.lib';
+import { logErrorMessage, logInfoMessage } from '../utils/logger.util';
+
+const OUTBOX_DISPATCHER_ELECTION_NAME = 'outbox-dispatcher';
+const OUTBOX_POLL_INTERVAL_IN_MILLISECONDS = 1000;
+const OUTBOX_DISPATCH_BATCH_SIZE = 100;
+const OUTBOX_MAXIMUM_DELIVERY_ATTEMPTS = 10; // An event failing this often is left in the table for inspection, holding back its auction
+const OUTBOX_PUBLISHED_EVENT_RETENTION_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+const OUTBOX_PRUNE_INTERVAL_IN_MILLISECONDS = 60 * 60 * 1000;
+
+// ==============================|| CONSUMER REGISTRY ||============================== //
+
+// Consumers may see an event more than once, so each must be safe to repeat
+export type AuctionEventConsumer = (auctionEvent: PublishedAuctionEvent) => Promise<void>;
+
+const auctionEventConsumersByName = new Map<string, AuctionEventConsumer>();
+
+let outboxSubscriberClient: Redis | null = null;
+let isDispatchRunning = false;
+let isDispatchRequested = false;
+let lastPruneTimeInMs = 0;
+
+export function registerAuctionEventConsumer(consumerName: string, auctionEventConsumer: AuctionEventConsumer): void {
+  auctionEventConsumersByName.set(consumerName, auctionEventConsumer);
+}
+
+// ==============================|| RECORD EVENTS ||============================== //
+
+// Takes the transaction making the change, so the event commits or rolls back with it. The outbox id is drawn at
+// insert and says nothing about commit order, so the event takes the auction's next sequence instead. That locks
+// the auction row until the transaction ends, so a later event of the auction can only be numbered after this one
+// has committed, and a rolled-back event gives its number back
+export async function recordAuctionEvent(transactionClient: Prisma.TransactionClient, auctionEvent: AuctionDomainEvent): Promise<void> {
+  const auctionItemId = auctionEvent.eventPayload.auctionItemId;
+
+  const [{ auctionEventSequence }] = await transactionClient.$queryRaw<{ auctionEventSequence: number }[]>`
+    UPDATE auction_items
+    SET last_event_sequence = last_event_sequence + 1
+    WHERE id = ${auctionItemId}
+    RETURNING last_event_sequence AS "auctionEventSequence"
+  `;
+
+  await transactionClient.outboxEvent.create({
+    data: {
+      eventType: auctionEvent.eventType,
+      auctionItemId,
+      auctionEventSequence,
+      eventPayload: auctionEvent.eventPayload as unknown as Prisma.InputJsonObject
+    }
+  });
+}
+
+// Called once the transaction has committed, so the dispatcher publishes straight away instead of on its next poll
+export async function notifyAuctionEventsRecorded(): Promise<void> {
+  if (redisClient.status !== 'ready') return;
+
+  try {
+    await redisClient.publish(REDIS_CHANNEL_FOR_OUTBOX_EVENTS_RECORDED, '1');
+  } catch (error) {
+    logErrorMessage('Failed to wake the outbox dispatcher', error);
+  }
+}
+
+// ==============================|| DISPATCH ||============================== //
+
+interface PendingOutboxEventRow {
+  id: bigint;
+  eventType: string;
+  auctionItemId: string;
+  eventPayload: Prisma.JsonValue;
+  occurredAtTimestamp: Date;
+  deliveryAttemptCount: number;
+}
+
+// Publishes the earliest unpublished event of each auction. A committed event's earlier events in its auction are
+// always committed already, so consumers see each auction's events in order. A failed event is retried on the next
+// dispatch run, and one that has given up stays at the head of its auction, holding back its later events, while
+// other auctions carry on. Resolves to whether publishing moved any auction forward
+async function publishPendingAuctionEvents(heldBackAuctionItemIds: Set<string>): Promise<boolean> {
+  const pendingEvents = await prismaClient.$queryRaw<PendingOutboxEventRow[]>`
+    SELECT
+      id,
+      event_type AS "eventType",
+      auction_item_id AS "auctionItemId",
+      event_payload AS "eventPayload",
+      occurred_at AS "occurredAtTimestamp",
+      delivery_attempt_count AS "deliveryAttemptCount"
+    FROM (
+      SELECT DISTINCT ON (auction_item_id) * FROM outbox_events
+      WHERE published_at IS NULL
+      ORDER BY auction_item_id, auction_event_sequence
+    ) AS earliest_event
+    WHERE delivery_attempt_count < ${OUTBOX_MAXIMUM_DELIVERY_ATTEMPTS}
+    ORDER BY occurred_at
+    LIMIT ${OUTBOX_DISPATCH_BATCH_SIZE}
+  `;
+
+  let publishedEventCount = 0;
+
+  for (const pendingEvent of pendingEvents) {
+    if (heldBackAuctionItemIds.has(pendingEvent.auctionItemId)) continue;
+
+    const publishedEvent = {
+      eventId: pendingEvent.id.toString(),
+      eventType: pendingEvent.eventType,
+      eventPayload: pendingEvent.eventPayload,
+      occurredAtTimestamp: pendingEvent.occurredAtTimestamp
+    } as unknown as PublishedAuctionEvent;
+
+    try {
+      for (const auctionEventConsumer of auctionEventConsumersByName.values()) {
+        await auctionEventConsumer(publishedEvent);
+      }
+
+      await prismaClient.outboxEvent.update({
+        where: { id: pendingEvent.id },
+        data: { publishedAtTimestamp: new Date(), deliveryAttemptCount: { increment: 1 } }
+      });
+      publishedEventCount++;
+    } catch (error) {
+      heldBackAuctionItemIds.add(pendingEvent.auctionItemId);
+
+      await prismaClient.outboxEvent.update({
+        where: { id: pendingEvent.id },
+        data: {
+          deliveryAttemptCount: { increment: 1 },
+          lastDeliveryError: error instanceof Error ? error.message : String(error)
+        }
+      });
+
+      const eventContext = {
+        eventId: publishedEvent.eventId,
+        eventType: pendingEvent.eventType,
+        auctionItemId: pendingEvent.auctionItemId
+      };
+
+      if (pendingEvent.deliveryAttemptCount + 1 >= OUTBOX_MAXIMUM_DELIVERY_ATTEMPTS) {
+        logErrorMessage('Gave up publishing auction event - the later events of its auction are held back', error, eventContext);
+      } else {
+        logErrorMessage('Failed to publish auction event', error, eventContext);
+      }
+    }
+  }
+
+  return publishedEventCount > 0;
+}
+
+// Published events are kept a day for inspection
+async function prunePublishedAuctionEvents(): Promise<void> {
+  if (Date.now() - lastPruneTimeInMs < OUTBOX_PRUNE_INTERVAL_IN_MILLISECONDS) return;
+
+  lastPruneTimeInMs = Date.now();
+
+  const pruneResult = await prismaClient.outboxEvent.deleteMany({
+    where: { publishedAtTimestamp: { lt: new Date(Date.now() - OUTBOX_PUBLISHED_EVENT_RETENTION_IN_MILLISECONDS) } }
+  });
+
+  if (pruneResult.count > 0) {
+    logInfoMessage('Pruned published auction events', { prunedCount: pruneResult.count });
+  }
+}
+
+// Drains the outbox. A wake-up that arrives mid-run asks for one more pass rather than starting a second runner
+async function dispatchAuctionEvents(): Promise<void> {
+  if (isDispatchRunning) {
+    isDispatchRequested = true;
+    return;
+  }
+
+  isDispatchRunning = true;
+
+  try {
+    // An auction whose event fails waits for the next run, so a failing consumer is not retried in a tight loop
+    const heldBackAuctionItemIds = new Set<string>();
+    let hasMorePendingEvents = true;
+
+    while (hasMorePendingEvents || isDispatchRequested) {
+      isDispatchRequested = false;
+      hasMorePendingEvents = await publishPendingAuctionEvents(heldBackAuctionItemIds);
+    }
+
+    await prunePublishedAuctionEvents();
+  } catch (error) {
+    logErrorMessage('Auction event dispatch failed', error);
+  } finally {
+    isDispatchRunning = false;
+  }
+}
+
+// ==============================|| START / STOP ||============================== //
+
+// Every worker instance campaigns and listens for wake-ups, and only the elected leader publishes
+export function startAuctionEventDispatcher(): void {
+  runWhileLeader(OUTBOX_DISPATCHER_ELECTION_NAME, dispatchAuctionEvents, OUTBOX_POLL_INTERVAL_IN_MILLISECONDS);
+
+  outboxSubscriberClient = redisClient.duplicate();
+  outboxSubscriberClient.on('message', () => {
+    if (checkIsLeader(OUTBOX_DISPATCHER_ELECTION_NAME)) {
+      dispatchAuctionEvents();
+    }
+  });
+  outboxSubscriberClient.subscribe(REDIS_CHANNEL_FOR_OUTBOX_EVENTS_RECORDED).catch((error) => {
+    logErrorMessage('Failed to subscribe to outbox wake-ups - relying on polling', error);
+  });
+
+  logInfoMessage('Auction event dispatcher started', {
+    consumerNames: [...auctionEventConsumersByName.keys()],
+    pollIntervalMs: OUTBOX_POLL_INTERVAL_IN_MILLISECONDS
+  });
+}
+
+export async function stopAuctionEventDispatcher(): Promise<void> {
+  if (!outboxSubscriberClient) return;
+
+  await outboxSubscriberClient.quit();
+  outboxSubscriberClient = null;
+}
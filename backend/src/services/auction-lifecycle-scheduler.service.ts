@@ -0,0 +1,128 @@
+// ==============================|| AUCTION LIFECYCLE SCHEDULER SERVICE ||============================== //
+// Opens and ends auctions at their exact start and end times. The elected worker sleeps until the earliest
+// entry on the lifecycle schedule instead of polling, runs whatever Postgres says is due, and moves each entry on.
+// A periodic reconcile rebuilds the schedule from Postgres and sweeps anything overdue, so a lost schedule write
+// or a Redis outage only delays an auction
+
+import { prismaClient } from '../config/prisma-client.config';
+import {
+  AUCTION_SCHEDULER_FALLBACK_POLL_INTERVAL_IN_MILLISECONDS,
+  AUCTION_SCHEDULER_MAXIMUM_SLEEP_IN_MILLISECONDS,
+  AUCTION_SCHEDULER_RETRY_DELAY_IN_MILLISECONDS,
+  AUCTION_SCHEDULE_RECONCILE_INTERVAL_IN_MILLISECONDS
+} from '../constants/redis-keys.constants';
+import {
+  checkIsLifecycleScheduleAvailable,
+  fetchDueScheduledAuctionIds,
+  fetchNextScheduledEventTimeInMs,
+  rescheduleAuctionLifecycleEvents
+} from '../lib/auction-lifecycle-schedule.lib';
+import { checkIsLeader, runWhileLeader } from '../lib/leader-election.lib';
+import { logErrorMessage, logInfoMessage } from '../utils/logger.util';
+import { activateScheduledAuctions, markExpiredAuctionsAsEnded } from './auction-data-fetcher.service';
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+const SCHEDULABLE_AUCTION_SELECT = {
+  id: true,
+  currentStatus: true,
+  auctionStartTimeTimestamp: true,
+  auctionEndTimeTimestamp: true
+} as const;
+
+// ==============================|| RUN DUE EVENTS ||============================== //
+
+// Opens due auctions before ending expired ones, so a short auction that was due is never ended unseen.
+// Each opening and ending records its own event, which the outbox publishes
+async function runDueLifecycleSweep(): Promise<void> {
+  const activateResult = await activateScheduledAuctions();
+  const markExpiredResult = await markExpiredAuctionsAsEnded();
+
+  if (activateResult.count > 0 || markExpiredResult.count > 0) {
+    logInfoMessage('Auction lifecycle events run', { startedCount: activateResult.count, endedCount: markExpiredResult.count });
+  }
+}
+
+// Entries are moved on from what the auctions look like after the sweep - the end of one just opened,
+// the later end of one a soft close extended - or dropped for auctions that are over
+async function runDueScheduledEvents(): Promise<void> {
+  const dueAuctionItemIds = await fetchDueScheduledAuctionIds();
+
+  if (dueAuctionItemIds.length === 0) return;
+
+  await runDueLifecycleSweep();
+
+  const dueAuctions = await prismaClient.auctionItem.findMany({
+    where: { id: { in: dueAuctionItemIds } },
+    select: SCHEDULABLE_AUCTION_SELECT
+  });
+
+  await rescheduleAuctionLifecycleEvents(dueAuctionItemIds, dueAuctions, AUCTION_SCHEDULER_RETRY_DELAY_IN_MILLISECONDS);
+}
+
+// Wakes for the next due entry, but never sleeps past the maximum so entries added by other instances are seen.
+// Without Redis the schedule cannot be read, so Postgres is swept on an interval until it is back
+async function runSchedulerTick(electionName: string): Promise<void> {
+  let sleepInMilliseconds = AUCTION_SCHEDULER_MAXIMUM_SLEEP_IN_MILLISECONDS;
+
+  try {
+    if (checkIsLeader(electionName)) {
+      if (checkIsLifecycleScheduleAvailable()) {
+        await runDueScheduledEvents();
+
+        const nextEventTimeInMs = await fetchNextScheduledEventTimeInMs();
+
+        if (nextEventTimeInMs !== null) {
+          sleepInMilliseconds = Math.min(Math.max(nextEventTimeInMs - Date.now(), 0), AUCTION_SCHEDULER_MAXIMUM_SLEEP_IN_MILLISECONDS);
+        }
+      } else {
+        await runDueLifecycleSweep();
+        sleepInMilliseconds = AUCTION_SCHEDULER_FALLBACK_POLL_INTERVAL_IN_MILLISECONDS;
+      }
+    }
+  } catch (error) {
+    logErrorMessage('Auction lifecycle scheduler tick failed', error, { electionName });
+  }
+
+  if (schedulerTimer) {
+    schedulerTimer = setTimeout(() => runSchedulerTick(electionName), sleepInMilliseconds);
+  }
+}
+
+// ==============================|| RECONCILE ||============================== //
+
+// Sweeps anything overdue, then puts every auction still waiting back on the schedule at its current time
+async function reconcileAuctionLifecycleSchedule(): Promise<void> {
+  await runDueLifecycleSweep();
+
+  if (!checkIsLifecycleScheduleAvailable()) return;
+
+  const waitingAuctions = await prismaClient.auctionItem.findMany({
+    where: { currentStatus: { in: ['SCHEDULED', 'ACTIVE'] } },
+    select: SCHEDULABLE_AUCTION_SELECT
+  });
+
+  await rescheduleAuctionLifecycleEvents(
+    waitingAuctions.map((auction) => auction.id),
+    waitingAuctions,
+    AUCTION_SCHEDULER_RETRY_DELAY_IN_MILLISECONDS
+  );
+}
+
+// ==============================|| START / STOP ||============================== //
+
+// Every worker instance runs the loop and campaigns, and only the elected leader acts on a tick
+export function startAuctionLifecycleScheduler(electionName: string): void {
+  runWhileLeader(electionName, reconcileAuctionLifecycleSchedule, AUCTION_SCHEDULE_RECONCILE_INTERVAL_IN_MILLISECONDS);
+
+  schedulerTimer = setTimeout(() => runSchedulerTick(electionName), 0);
+
+  logInfoMessage('Auction lifecycle scheduler started', { electionName });
+}
+
+export function stopAuctionLifecycleScheduler(): void {
+  if (!schedulerTimer) return;
+
+  clearTimeout(schedulerTimer);
+  schedulerTimer = null;
+}
@@ -0,0 +1,323 @@
+// ==============================|| AUCTION MANAGEMENT SERVICE ||============================== //
+// Handles seller edits and cancellations. Both run under the bid processing lock so a change can never
+// interleave with a bid, and the "has bidding started" check is always made against the latest state.
+
+import { Prisma } from '@prisma/client';
+import { prismaClient } from '../config/prisma-client.config';
+import { executeWithDistributedLock, verifyFencingTokenForAuctionWrite } from '../lib/distributed-lock-manager.lib';
+import {
+  AUCTION_ERROR_NOT_FOUND,
+  AUCTION_ERROR_NOT_CREATOR,
+  AUCTION_ERROR_NOT_MODIFIABLE,
+  AUCTION_ERROR_EDIT_LOCKED_AFTER_BIDS,
+  AUCTION_ERROR_INVALID_EDIT,
+  AUCTION_ERROR_CANCELLATION_REASON_REQUIRED,
+  AUCTION_ERROR_MANAGEMENT_FAILED,
+  BID_ERROR_LOCK_ACQUISITION_FAILED,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { AUCTION_EVENT_AUCTION_CANCELLED, AUCTION_EVENT_AUCTION_DETAILS_UPDATED } from '../constants/auction-events.constants';
+import { AuctionItemData, fetchAuctionItemById } from './auction-data-fetcher.service';
+import { resolveBidIncrementTableForAuction } from './bid-increment-tables.service';
+import { releaseAuctionFundHolds } from './wallet-ledger.service';
+import { invalidateAuctionState } from './auction-state-cache.service';
+import { notifyAuctionEventsRecorded, recordAuctionEvent } from './auction-event-outbox.service';
+import { BidIncrementBandData } from '../utils/bid-increment.util';
+import { logInfoMessage } from '../utils/logger.util';
+
+const MINIMUM_CANCELLATION_REASON_LENGTH = 3;
+
+// ==============================|| AUCTION MANAGEMENT INTERFACES ||============================== //
+
+// Fields left undefined are not changed
+export interface UpdateAuctionItemInput {
+  itemTitle?: string;
+  itemDescription?: string;
+  itemImageUrl?: string | null;
+  bidIncrementTableId?: string | null;
+  customBidIncrementBands?: BidIncrementBandData[] | null;
+}
+
+export interface AuctionUpdateResult {
+  wasUpdateSuccessful: boolean;
+  auctionItem: AuctionItemData | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+export interface AuctionCancellationResult {
+  wasCancellationSuccessful: boolean;
+  auctionItemId: string;
+  itemTitle: string | null;
+  cancellationReason: string | null;
+  cancelledAtTimestamp: Date | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+// ==============================|| UPDATE AUCTION WITH LOCK ||============================== //
+
+export async function updateAuctionItemWithDistributedLock(
+  auctionItemId: string,
+  sellerUserId: string,
+  input: UpdateAuctionItemInput
+): Promise<AuctionUpdateResult> {
+  const lockExecutionResult = await executeWithDistributedLock<AuctionUpdateResult>(auctionItemId, async (heldLock) => {
+    return await processAuctionUpdateTransaction(auctionItemId, sellerUserId, input, heldLock.fencingToken);
+  });
+
+  if (!lockExecutionResult.wasLockAcquired) {
+    return createUpdateErrorResult(BID_ERROR_LOCK_ACQUISITION_FAILED);
+  }
+
+  if (!lockExecutionResult.wasExecutionSuccessful || !lockExecutionResult.executionResult) {
+    return createUpdateErrorResult(AUCTION_ERROR_MANAGEMENT_FAILED);
+  }
+
+  return lockExecutionResult.executionResult;
+}
+
+// ==============================|| UPDATE TRANSACTION (WITHIN LOCK) ||============================== //
+
+// Before the first bid every field can change. Afterwards bidders have committed to what they saw,
+// so the seller may only add to the end of the description
+async function processAuctionUpdateTransaction(
+  auctionItemId: string,
+  sellerUserId: string,
+  input: UpdateAuctionItemInput,
+  fencingToken: number
+): Promise<AuctionUpdateResult> {
+  const auctionItem = await prismaClient.auctionItem.findUnique({
+    where: { id: auctionItemId },
+    include: {
+      bidIncrementTable: { select: { id: true, isPlatformTable: true } },
+      _count: { select: { allBidsOnItem: true } }
+    }
+  });
+
+  if (!auctionItem) {
+    return createUpdateErrorResult(AUCTION_ERROR_NOT_FOUND);
+  }
+
+  if (auctionItem.creatorUserId !== sellerUserId) {
+    return createUpdateErrorResult(AUCTION_ERROR_NOT_CREATOR);
+  }
+
+  if (auctionItem.currentStatus !== 'SCHEDULED' && auctionItem.currentStatus !== 'ACTIVE') {
+    return createUpdateErrorResult(AUCTION_ERROR_NOT_MODIFIABLE);
+  }
+
+  const hasBiddingStarted = auctionItem._count.allBidsOnItem > 0;
+  const updateData: Prisma.AuctionItemUpdateInput = {};
+
+  const itemTitle = input.itemTitle?.trim();
+  if (itemTitle !== undefined && itemTitle !== auctionItem.itemTitle) {
+    if (hasBiddingStarted) {
+      return createUpdateErrorResult(AUCTION_ERROR_EDIT_LOCKED_AFTER_BIDS);
+    }
+
+    if (itemTitle.length < 3) {
+      return createUpdateErrorResult(AUCTION_ERROR_INVALID_EDIT, 'Title must be at least 3 characters long');
+    }
+
+    updateData.itemTitle = itemTitle;
+  }
+
+  const itemDescription = input.itemDescription?.trim();
+  if (itemDescription !== undefined && itemDescription !== auctionItem.itemDescription) {
+    if (hasBiddingStarted && !itemDescription.startsWith(auctionItem.itemDescription)) {
+      return createUpdateErrorResult(AUCTION_ERROR_EDIT_LOCKED_AFTER_BIDS);
+    }
+
+    if (itemDescription.length < 10) {
+      return createUpdateErrorResult(AUCTION_ERROR_INVALID_EDIT, 'Description must be at least 10 characters long');
+    }
+
+    updateData.itemDescription = itemDescription;
+  }
+
+  if (input.itemImageUrl !== undefined) {
+    const itemImageUrl = input.itemImageUrl?.trim() || null;
+
+    if (itemImageUrl !== auctionItem.itemImageUrl) {
+      if (hasBiddingStarted) {
+        return createUpdateErrorResult(AUCTION_ERROR_EDIT_LOCKED_AFTER_BIDS);
+      }
+
+      updateData.itemImageUrl = itemImageUrl;
+    }
+  }
+
+  const isChangingBidIncrementTable =
+    (input.customBidIncrementBands ?? null) !== null ||
+    ((input.bidIncrementTableId ?? null) !== null && input.bidIncrementTableId !== auctionItem.bidIncrementTableId);
+
+  if (isChangingBidIncrementTable) {
+    if (hasBiddingStarted) {
+      return createUpdateErrorResult(AUCTION_ERROR_EDIT_LOCKED_AFTER_BIDS);
+    }
+
+    const bidIncrementTableResult = await resolveBidIncrementTableForAuction(
+      input.bidIncrementTableId ?? null,
+      input.customBidIncrementBands ?? null
+    );
+
+    if (!bidIncrementTableResult.bidIncrementTableRelation) {
+      return createUpdateErrorResult(AUCTION_ERROR_INVALID_EDIT, bidIncrementTableResult.errorMessage);
+    }
+
+    updateData.bidIncrementTable = bidIncrementTableResult.bidIncrementTableRelation;
+  }
+
+  if (Object.keys(updateData).length > 0) {
+    // A replaced custom table belonged to this auction alone, so it goes with the change
+    const replacedCustomTableId =
+      isChangingBidIncrementTable && !auctionItem.bidIncrementTable.isPlatformTable ? auctionItem.bidIncrementTable.id : null;
+
+    await prismaClient.$transaction(async (transactionClient) => {
+      await verifyFencingTokenForAuctionWrite(transactionClient, auctionItemId, fencingToken);
+      await transactionClient.auctionItem.update({ where: { id: auctionItemId }, data: updateData });
+
+      if (replacedCustomTableId) {
+        await transactionClient.bidIncrementTable.delete({ where: { id: replacedCustomTableId } });
+      }
+
+      await recordAuctionEvent(transactionClient, {
+        eventType: AUCTION_EVENT_AUCTION_DETAILS_UPDATED,
+        eventPayload: { auctionItemId, updatedFields: Object.keys(updateData) }
+      });
+    });
+
+    await invalidateAuctionState(auctionItemId);
+    await notifyAuctionEventsRecorded();
+
+    logInfoMessage('Auction updated by seller', { auctionItemId, sellerUserId, updatedFields: Object.keys(updateData) });
+  }
+
+  return {
+    wasUpdateSuccessful: true,
+    auctionItem: await fetchAuctionItemById(auctionItemId),
+    errorCode: null,
+    errorMessage: null
+  };
+}
+
+// ==============================|| CANCEL AUCTION WITH LOCK ||============================== //
+
+export async function cancelAuctionItemWithDistributedLock(
+  auctionItemId: string,
+  sellerUserId: string,
+  cancellationReason: string
+): Promise<AuctionCancellationResult> {
+  const trimmedCancellationReason = (cancellationReason || '').trim();
+
+  if (trimmedCancellationReason.length < MINIMUM_CANCELLATION_REASON_LENGTH) {
+    return createCancellationErrorResult(auctionItemId, AUCTION_ERROR_CANCELLATION_REASON_REQUIRED);
+  }
+
+  const lockExecutionResult = await executeWithDistributedLock<AuctionCancellationResult>(auctionItemId, async (heldLock) => {
+    return await processAuctionCancellationTransaction(auctionItemId, sellerUserId, trimmedCancellationReason, heldLock.fencingToken);
+  });
+
+  if (!lockExecutionResult.wasLockAcquired) {
+    return createCancellationErrorResult(auctionItemId, BID_ERROR_LOCK_ACQUISITION_FAILED);
+  }
+
+  if (!lockExecutionResult.wasExecutionSuccessful || !lockExecutionResult.executionResult) {
+    return createCancellationErrorResult(auctionItemId, AUCTION_ERROR_MANAGEMENT_FAILED);
+  }
+
+  return lockExecutionResult.executionResult;
+}
+
+// ==============================|| CANCELLATION TRANSACTION (WITHIN LOCK) ||============================== //
+
+async function processAuctionCancellationTransaction(
+  auctionItemId: string,
+  sellerUserId: string,
+  cancellationReason: string,
+  fencingToken: number
+): Promise<AuctionCancellationResult> {
+  const auctionItem = await prismaClient.auctionItem.findUnique({
+    where: { id: auctionItemId },
+    select: { itemTitle: true, creatorUserId: true, currentStatus: true }
+  });
+
+  if (!auctionItem) {
+    return createCancellationErrorResult(auctionItemId, AUCTION_ERROR_NOT_FOUND);
+  }
+
+  if (auctionItem.creatorUserId !== sellerUserId) {
+    return createCancellationErrorResult(auctionItemId, AUCTION_ERROR_NOT_CREATOR);
+  }
+
+  if (auctionItem.currentStatus !== 'SCHEDULED' && auctionItem.currentStatus !== 'ACTIVE') {
+    return createCancellationErrorResult(auctionItemId, AUCTION_ERROR_NOT_MODIFIABLE);
+  }
+
+  const cancelledAtTimestamp = new Date();
+
+  // The expiry checker only ends ACTIVE auctions, so a cancelled auction never gets a winner
+  await prismaClient.$transaction(async (transactionClient) => {
+    await verifyFencingTokenForAuctionWrite(transactionClient, auctionItemId, fencingToken);
+    await transactionClient.auctionItem.update({
+      where: { id: auctionItemId },
+      data: {
+        currentStatus: 'CANCELLED',
+        cancellationReason,
+        cancelledAtTimestamp
+      }
+    });
+
+    // Bidders get their held money back with the cancellation
+    await releaseAuctionFundHolds(transactionClient, auctionItemId);
+
+    await recordAuctionEvent(transactionClient, {
+      eventType: AUCTION_EVENT_AUCTION_CANCELLED,
+      eventPayload: {
+        auctionItemId,
+        itemTitle: auctionItem.itemTitle,
+        cancellationReason,
+        cancelledAtTimestamp: cancelledAtTimestamp.toISOString()
+      }
+    });
+  });
+
+  await invalidateAuctionState(auctionItemId);
+  await notifyAuctionEventsRecorded();
+
+  logInfoMessage('Auction cancelled by seller', { auctionItemId, sellerUserId });
+
+  return {
+    wasCancellationSuccessful: true,
+    auctionItemId,
+    itemTitle: auctionItem.itemTitle,
+    cancellationReason,
+    cancelledAtTimestamp,
+    errorCode: null,
+    errorMessage: null
+  };
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function createUpdateErrorResult(errorCode: string, errorMessage: string | null = null): AuctionUpdateResult {
+  return {
+    wasUpdateSuccessful: false,
+    auctionItem: null,
+    errorCode,
+    errorMessage: errorMessage || getErrorMessageFromCode(errorCode)
+  };
+}
+
+function createCancellationErrorResult(auctionItemId: string, errorCode: string): AuctionCancellationResult {
+  return {
+    wasCancellationSuccessful: false,
+    auctionItemId,
+    itemTitle: null,
+    cancellationReason: null,
+    cancelledAtTimestamp: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode)
+  };
+}
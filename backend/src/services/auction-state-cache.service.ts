@@ -0,0 +1,321 @@
+// ==============================|| AUCTION STATE CACHE SERVICE ||============================== //
+// Keeps each auction's hot state - price, leader, end time, status and bid count - in one Redis hash.
+// Reads fill it from Postgres on a miss, committed bids write through to it, and anything else that changes
+// an auction invalidates it. Redis being unavailable only means reading from Postgres
+
+import { AuctionItemStatus, Prisma } from '@prisma/client';
+import { prismaClient } from '../config/prisma-client.config';
+import { redisClient } from '../config/redis-client.config';
+import {
+  CACHE_TTL_FOR_AUCTION_STATE_GENERATION_IN_SECONDS,
+  CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS,
+  generateAuctionStateCacheKey,
+  generateAuctionStateGenerationKey
+} from '../constants/redis-keys.constants';
+import { logErrorMessage } from '../utils/logger.util';
+import { findBidIncrementForPrice } from '../utils/bid-increment.util';
+import { convertCentsToNumber, convertOptionalCentsToNumber } from '../utils/money.util';
+import { mapBidIncrementBands } from './bid-increment-tables.service';
+
+// ==============================|| AUCTION STATE INTERFACES ||============================== //
+
+export interface CachedAuctionState {
+  auctionItemId: string;
+  currencyCode: string;
+  currentStatus: AuctionItemStatus;
+  currentHighestBidInCents: number;
+  highestBidderUserId: string | null;
+  highestBidderUsername: string | null;
+  bidIncrementInCents: number; // Increment of the band the current price falls in
+  reservePriceInCents: number | null;
+  buyNowPriceInCents: number | null;
+  auctionEndTimeTimestamp: Date;
+  totalNumberOfBids: number; // Successful bids only, automatic ones included
+  stateVersion: number; // The auction's lock fencing token when this state was read or written
+}
+
+// What a committed bid changed, written straight into the cached state
+export interface AuctionBidStateUpdate {
+  auctionItemId: string;
+  stateVersion: number; // Fencing token the bid was written under - higher than any earlier write to the auction
+  currentHighestBidInCents: number;
+  highestBidderUserId: string;
+  highestBidderUsername: string | null;
+  bidIncrementInCents: number;
+  auctionEndTimeTimestamp: Date;
+  placedBidCount: number; // Bid records the write created, automatic ones included
+}
+
+// ==============================|| LUA SCRIPTS ||============================== //
+
+// Fills the cache from a database read, unless the auction was invalidated since the read began
+// or a newer write already reached the cache
+const LUA_SCRIPT_FOR_AUCTION_STATE_FILL = `
+  if (redis.call("get", KEYS[2]) or "0") ~= ARGV[1] then
+    return 0
+  end
+  local cachedVersion = redis.call("hget", KEYS[1], "stateVersion")
+  if cachedVersion and tonumber(cachedVersion) > tonumber(ARGV[2]) then
+    return 0
+  end
+  redis.call("del", KEYS[1])
+  redis.call("hset", KEYS[1], unpack(ARGV, 4))
+  redis.call("expire", KEYS[1], ARGV[3])
+  return 1
+`;
+
+// Applies a committed bid only in version order. A bid already reflected is skipped, and one that arrives
+// after a newer write drops the entry instead, so the next read refills an exact bid count
+const LUA_SCRIPT_FOR_AUCTION_BID_WRITE_THROUGH = `
+  local cachedVersion = redis.call("hget", KEYS[1], "stateVersion")
+  if not cachedVersion then
+    return 0
+  end
+  if tonumber(ARGV[1]) == tonumber(cachedVersion) then
+    return 0
+  end
+  if tonumber(ARGV[1]) < tonumber(cachedVersion) then
+    redis.call("del", KEYS[1])
+    return -1
+  end
+  redis.call("hset", KEYS[1], "stateVersion", ARGV[1], unpack(ARGV, 4))
+  redis.call("hincrby", KEYS[1], "totalNumberOfBids", ARGV[2])
+  redis.call("expire", KEYS[1], ARGV[3])
+  return 1
+`;
+
+// ==============================|| HELPERS ||============================== //
+
+// Commands sent while disconnected would wait out the client's reconnect retries, so go to Postgres instead
+function checkIsRedisReady(): boolean {
+  return redisClient.status === 'ready';
+}
+
+const AUCTION_STATE_INCLUDE = {
+  highestBidderUser: { select: { username: true } },
+  bidIncrementTable: { include: { incrementBands: true } },
+  _count: { select: { allBidsOnItem: { where: { wasBidSuccessful: true } } } }
+} satisfies Prisma.AuctionItemInclude;
+
+type AuctionStateRow = Prisma.AuctionItemGetPayload<{ include: typeof AUCTION_STATE_INCLUDE }>;
+
+function mapAuctionStateRow(auctionItem: AuctionStateRow): CachedAuctionState {
+  const currentHighestBidInCents = convertCentsToNumber(auctionItem.currentHighestBidInCents);
+
+  return {
+    auctionItemId: auctionItem.id,
+    currencyCode: auctionItem.currencyCode,
+    currentStatus: auctionItem.currentStatus,
+    currentHighestBidInCents,
+    highestBidderUserId: auctionItem.highestBidderUserId,
+    highestBidderUsername: auctionItem.highestBidderUser?.username ?? null,
+    bidIncrementInCents: findBidIncrementForPrice(
+      mapBidIncrementBands(auctionItem.bidIncrementTable.incrementBands),
+      currentHighestBidInCents
+    ),
+    reservePriceInCents: convertOptionalCentsToNumber(auctionItem.reservePriceInCents),
+    buyNowPriceInCents: convertOptionalCentsToNumber(auctionItem.buyNowPriceInCents),
+    auctionEndTimeTimestamp: auctionItem.auctionEndTimeTimestamp,
+    totalNumberOfBids: auctionItem._count.allBidsOnItem,
+    stateVersion: Number(auctionItem.lockFencingToken)
+  };
+}
+
+// Hash fields are strings - an empty string stands for null
+function serializeAuctionState(auctionState: CachedAuctionState): string[] {
+  return [
+    'auctionItemId',
+    auctionState.auctionItemId,
+    'currencyCode',
+    auctionState.currencyCode,
+    'currentStatus',
+    auctionState.currentStatus,
+    'currentHighestBidInCents',
+    String(auctionState.currentHighestBidInCents),
+    'highestBidderUserId',
+    auctionState.highestBidderUserId ?? '',
+    'highestBidderUsername',
+    auctionState.highestBidderUsername ?? '',
+    'bidIncrementInCents',
+    String(auctionState.bidIncrementInCents),
+    'reservePriceInCents',
+    auctionState.reservePriceInCents === null ? '' : String(auctionState.reservePriceInCents),
+    'buyNowPriceInCents',
+    auctionState.buyNowPriceInCents === null ? '' : String(auctionState.buyNowPriceInCents),
+    'auctionEndTimeTimestamp',
+    String(auctionState.auctionEndTimeTimestamp.getTime()),
+    'totalNumberOfBids',
+    String(auctionState.totalNumberOfBids),
+    'stateVersion',
+    String(auctionState.stateVersion)
+  ];
+}
+
+// Returns null for a missing or partial entry, which is then read from Postgres again
+function parseAuctionState(cachedFields: Record<string, string>): CachedAuctionState | null {
+  if (!cachedFields.auctionItemId || !cachedFields.stateVersion) {
+    return null;
+  }
+
+  const parseOptionalNumber = (fieldValue: string) => (fieldValue === '' ? null : Number(fieldValue));
+
+  return {
+    auctionItemId: cachedFields.auctionItemId,
+    currencyCode: cachedFields.currencyCode,
+    currentStatus: cachedFields.currentStatus as AuctionItemStatus,
+    currentHighestBidInCents: Number(cachedFields.currentHighestBidInCents),
+    highestBidderUserId: cachedFields.highestBidderUserId || null,
+    highestBidderUsername: cachedFields.highestBidderUsername || null,
+    bidIncrementInCents: Number(cachedFields.bidIncrementInCents),
+    reservePriceInCents: parseOptionalNumber(cachedFields.reservePriceInCents),
+    buyNowPriceInCents: parseOptionalNumber(cachedFields.buyNowPriceInCents),
+    auctionEndTimeTimestamp: new Date(Number(cachedFields.auctionEndTimeTimestamp)),
+    totalNumberOfBids: Number(cachedFields.totalNumberOfBids),
+    stateVersion: Number(cachedFields.stateVersion)
+  };
+}
+
+async function fillAuctionStateCache(auctionState: CachedAuctionState, generationAtRead: string): Promise<void> {
+  await redisClient.eval(
+    LUA_SCRIPT_FOR_AUCTION_STATE_FILL,
+    2,
+    generateAuctionStateCacheKey(auctionState.auctionItemId),
+    generateAuctionStateGenerationKey(auctionState.auctionItemId),
+    generationAtRead,
+    auctionState.stateVersion,
+    CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS,
+    ...serializeAuctionState(auctionState)
+  );
+}
+
+// ==============================|| READ THROUGH ||============================== //
+
+export async function fetchAuctionState(auctionItemId: string): Promise<CachedAuctionState | null> {
+  const auctionStatesById = await fetchAuctionStates([auctionItemId]);
+
+  return auctionStatesById.get(auctionItemId) ?? null;
+}
+
+// Reads every auction's state in one round trip, and loads all the misses with one query.
+// Auctions that do not exist are left out of the map
+export async function fetchAuctionStates(auctionItemIds: string[]): Promise<Map<string, CachedAuctionState>> {
+  const auctionStatesById = new Map<string, CachedAuctionState>();
+
+  if (auctionItemIds.length === 0) {
+    return auctionStatesById;
+  }
+
+  // The generation is read before Postgres, so an invalidation landing in between stops the stale fill
+  const generationsById = new Map<string, string>();
+
+  if (checkIsRedisReady()) {
+    try {
+      const cachePipeline = redisClient.pipeline();
+
+      for (const auctionItemId of auctionItemIds) {
+        cachePipeline.hgetall(generateAuctionStateCacheKey(auctionItemId));
+        cachePipeline.get(generateAuctionStateGenerationKey(auctionItemId));
+      }
+
+      const pipelineResults = (await cachePipeline.exec()) ?? [];
+
+      auctionItemIds.forEach((auctionItemId, auctionIndex) => {
+        const [stateError, cachedFields] = pipelineResults[auctionIndex * 2] ?? [];
+        const [generationError, cachedGeneration] = pipelineResults[auctionIndex * 2 + 1] ?? [];
+
+        const cachedState = stateError ? null : parseAuctionState(cachedFields as Record<string, string>);
+
+        if (cachedState) {
+          auctionStatesById.set(auctionItemId, cachedState);
+        } else if (!generationError) {
+          generationsById.set(auctionItemId, (cachedGeneration as string | null) ?? '0');
+        }
+      });
+    } catch (cacheError) {
+      logErrorMessage('Failed to read auction state cache', cacheError, { auctionCount: auctionItemIds.length });
+    }
+  }
+
+  const missedAuctionItemIds = auctionItemIds.filter((auctionItemId) => !auctionStatesById.has(auctionItemId));
+
+  if (missedAuctionItemIds.length === 0) {
+    return auctionStatesById;
+  }
+
+  const auctionStateRows = await prismaClient.auctionItem.findMany({
+    where: { id: { in: missedAuctionItemIds } },
+    include: AUCTION_STATE_INCLUDE
+  });
+
+  for (const auctionStateRow of auctionStateRows) {
+    const auctionState = mapAuctionStateRow(auctionStateRow);
+    auctionStatesById.set(auctionState.auctionItemId, auctionState);
+
+    const generationAtRead = generationsById.get(auctionState.auctionItemId);
+
+    // Only auctions whose generation was read can be filled safely
+    if (generationAtRead === undefined) continue;
+
+    try {
+      await fillAuctionStateCache(auctionState, generationAtRead);
+    } catch (cacheError) {
+      logErrorMessage('Failed to fill auction state cache', cacheError, { auctionItemId: auctionState.auctionItemId });
+    }
+  }
+
+  return auctionStatesById;
+}
+
+// ==============================|| WRITE THROUGH ||============================== //
+
+// Called after a bid commits. An auction that is not cached is left alone - the next read fills it in full
+export async function writeAuctionBidToStateCache(bidStateUpdate: AuctionBidStateUpdate): Promise<void> {
+  const { auctionItemId } = bidStateUpdate;
+
+  if (!checkIsRedisReady()) {
+    return;
+  }
+
+  try {
+    await redisClient.eval(
+      LUA_SCRIPT_FOR_AUCTION_BID_WRITE_THROUGH,
+      1,
+      generateAuctionStateCacheKey(auctionItemId),
+      bidStateUpdate.stateVersion,
+      bidStateUpdate.placedBidCount,
+      CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS,
+      'currentHighestBidInCents',
+      bidStateUpdate.currentHighestBidInCents,
+      'highestBidderUserId',
+      bidStateUpdate.highestBidderUserId,
+      'highestBidderUsername',
+      bidStateUpdate.highestBidderUsername ?? '',
+      'bidIncrementInCents',
+      bidStateUpdate.bidIncrementInCents,
+      'auctionEndTimeTimestamp',
+      bidStateUpdate.auctionEndTimeTimestamp.getTime()
+    );
+  } catch (cacheError) {
+    // A cached state the bid never reached would be served until it expires, so drop it
+    logErrorMessage('Failed to write bid to auction state cache', cacheError, { auctionItemId });
+    await invalidateAuctionState(auctionItemId);
+  }
+}
+
+// ==============================|| INVALIDATION ||============================== //
+
+// Called whenever an auction changes outside a bid - it ends, is cancelled, edited or opens
+export async function invalidateAuctionState(auctionItemId: string): Promise<void> {
+  try {
+    const generationKey = generateAuctionStateGenerationKey(auctionItemId);
+
+    await redisClient
+      .multi()
+      .incr(generationKey)
+      .expire(generationKey, CACHE_TTL_FOR_AUCTION_STATE_GENERATION_IN_SECONDS)
+      .del(generateAuctionStateCacheKey(auctionItemId))
+      .exec();
+  } catch (cacheError) {
+    logErrorMessage('Failed to invalidate auction state cache', cacheError, { auctionItemId });
+  }
+}
@@ -24,9 +24,12 @@ import {
   VALIDATION_ERROR_INVALID_EMAIL,
   VALIDATION_ERROR_INVALID_PASSWORD,
   VALIDATION_ERROR_INVALID_USERNAME,
+  CURRENCY_ERROR_UNSUPPORTED,
+  CURRENCY_ERROR_OPERATION_FAILED,
   getErrorMessageFromCode
 } from '../constants/error-codes.constants';
 import { logAuthenticationEvent, logErrorMessage } from '../utils/logger.util';
+import { checkIsSupportedCurrencyCode } from '../utils/money.util';
 
 // ==============================|| SERVICE RESULT INTERFACES ||============================== //
 
@@ -59,6 +62,15 @@ export interface UserProfileData {
   avatarUrl: string | null;
   createdAtTimestamp: Date;
   isAccountActive: boolean;
+  isPlatformAdmin: boolean;
+  displayCurrencyCode: string;
+}
+
+export interface DisplayCurrencyUpdateResult {
+  wasUpdateSuccessful: boolean;
+  displayCurrencyCode: string | null;
+  errorCode: string | null;
+  errorMessage: string | null;
 }
 
 export interface TokenValidationResult {
@@ -171,7 +183,9 @@ export async function registerNewUserAccount(
       fullName: createdUser.fullName,
       avatarUrl: createdUser.avatarUrl,
       createdAtTimestamp: createdUser.createdAtTimestamp,
-      isAccountActive: createdUser.isAccountActive
+      isAccountActive: createdUser.isAccountActive,
+      isPlatformAdmin: createdUser.isPlatformAdmin,
+      displayCurrencyCode: createdUser.displayCurrencyCode
     };
 
     logAuthenticationEvent('REGISTER', createdUser.id, { email: createdUser.emailAddress });
@@ -264,7 +278,9 @@ export async function loginUserWithCredentials(emailOrUsername: string, plainTex
       fullName: foundUser.fullName,
       avatarUrl: foundUser.avatarUrl,
       createdAtTimestamp: foundUser.createdAtTimestamp,
-      isAccountActive: foundUser.isAccountActive
+      isAccountActive: foundUser.isAccountActive,
+      isPlatformAdmin: foundUser.isPlatformAdmin,
+      displayCurrencyCode: foundUser.displayCurrencyCode
     };
 
     logAuthenticationEvent('LOGIN', foundUser.id, { email: foundUser.emailAddress });
@@ -392,7 +408,9 @@ export async function fetchUserProfileById(userId: string): Promise<UserProfileD
       fullName: foundUser.fullName,
       avatarUrl: foundUser.avatarUrl,
       createdAtTimestamp: foundUser.createdAtTimestamp,
-      isAccountActive: foundUser.isAccountActive
+      isAccountActive: foundUser.isAccountActive,
+      isPlatformAdmin: foundUser.isPlatformAdmin,
+      displayCurrencyCode: foundUser.displayCurrencyCode
     };
   } catch (fetchError) {
     logErrorMessage('Error fetching user profile', fetchError, { userId });
@@ -400,6 +418,44 @@ export async function fetchUserProfileById(userId: string): Promise<UserProfileD
   }
 }
 
+// ==============================|| UPDATE DISPLAY CURRENCY ||============================== //
+
+// Only changes how prices are shown to the user - auctions and wallets keep their own currencies
+export async function updateUserDisplayCurrency(userId: string, currencyCode: unknown): Promise<DisplayCurrencyUpdateResult> {
+  if (!checkIsSupportedCurrencyCode(currencyCode)) {
+    return {
+      wasUpdateSuccessful: false,
+      displayCurrencyCode: null,
+      errorCode: CURRENCY_ERROR_UNSUPPORTED,
+      errorMessage: getErrorMessageFromCode(CURRENCY_ERROR_UNSUPPORTED)
+    };
+  }
+
+  try {
+    const updatedUser = await prismaClient.user.update({
+      where: { id: userId },
+      data: { displayCurrencyCode: currencyCode },
+      select: { displayCurrencyCode: true }
+    });
+
+    return {
+      wasUpdateSuccessful: true,
+      displayCurrencyCode: updatedUser.displayCurrencyCode,
+      errorCode: null,
+      errorMessage: null
+    };
+  } catch (updateError) {
+    logErrorMessage('Error updating display currency', updateError, { userId, currencyCode });
+
+    return {
+      wasUpdateSuccessful: false,
+      displayCurrencyCode: null,
+      errorCode: CURRENCY_ERROR_OPERATION_FAILED,
+      errorMessage: getErrorMessageFromCode(CURRENCY_ERROR_OPERATION_FAILED)
+    };
+  }
+}
+
 // ==============================|| CLEAN UP EXPIRED BLACKLISTED TOKENS ||============================== //
 
 export async function cleanUpExpiredBlacklistedTokens(): Promise<number> {
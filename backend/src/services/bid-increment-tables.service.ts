@@ -0,0 +1,106 @@
+// ==============================|| BID INCREMENT TABLES SERVICE ||============================== //
+// Handles the platform increment tables and the per-auction custom tables sellers create
+
+import { Prisma } from '@prisma/client';
+import { v4 as generateUuidV4 } from 'uuid';
+import { prismaClient } from '../config/prisma-client.config';
+import { environmentConfig } from '../config/environment.config';
+import { BidIncrementBandData, validateBidIncrementBands } from '../utils/bid-increment.util';
+import { logErrorMessage } from '../utils/logger.util';
+import { convertCentsToNumber } from '../utils/money.util';
+
+// ==============================|| BID INCREMENT TABLE INTERFACES ||============================== //
+
+export interface BidIncrementTableData {
+  id: string;
+  tableName: string;
+  incrementBands: BidIncrementBandData[];
+}
+
+export interface ResolveBidIncrementTableResult {
+  bidIncrementTableRelation: Prisma.BidIncrementTableCreateNestedOneWithoutAuctionItemsInput | null;
+  errorMessage: string | null;
+}
+
+// ==============================|| MAP BANDS ||============================== //
+
+export function mapBidIncrementBands(
+  incrementBands: Array<{ priceFromInCents: bigint; incrementInCents: bigint }>
+): BidIncrementBandData[] {
+  return incrementBands
+    .map((incrementBand) => ({
+      priceFromInCents: convertCentsToNumber(incrementBand.priceFromInCents),
+      incrementInCents: convertCentsToNumber(incrementBand.incrementInCents)
+    }))
+    .sort((firstBand, secondBand) => firstBand.priceFromInCents - secondBand.priceFromInCents);
+}
+
+// ==============================|| FETCH PLATFORM TABLES ||============================== //
+
+export async function fetchPlatformBidIncrementTables(): Promise<BidIncrementTableData[]> {
+  try {
+    const platformTables = await prismaClient.bidIncrementTable.findMany({
+      where: { isPlatformTable: true },
+      include: { incrementBands: true },
+      orderBy: { tableName: 'asc' }
+    });
+
+    return platformTables.map((platformTable) => ({
+      id: platformTable.id,
+      tableName: platformTable.tableName,
+      incrementBands: mapBidIncrementBands(platformTable.incrementBands)
+    }));
+  } catch (error) {
+    logErrorMessage('Error fetching platform bid increment tables', error);
+    return [];
+  }
+}
+
+// ==============================|| RESOLVE TABLE FOR AUCTION ||============================== //
+
+// Custom bands win over a chosen platform table, which wins over the platform default.
+// Custom tables are created together with the auction write so a failed write leaves nothing behind
+export async function resolveBidIncrementTableForAuction(
+  bidIncrementTableId: string | null,
+  customBidIncrementBands: BidIncrementBandData[] | null
+): Promise<ResolveBidIncrementTableResult> {
+  if (customBidIncrementBands) {
+    const bandsErrorMessage = validateBidIncrementBands(customBidIncrementBands);
+
+    if (bandsErrorMessage) {
+      return { bidIncrementTableRelation: null, errorMessage: bandsErrorMessage };
+    }
+
+    return {
+      bidIncrementTableRelation: {
+        create: {
+          tableName: `custom-${generateUuidV4()}`,
+          isPlatformTable: false,
+          incrementBands: {
+            create: customBidIncrementBands.map((incrementBand) => ({
+              priceFromInCents: incrementBand.priceFromInCents,
+              incrementInCents: incrementBand.incrementInCents
+            }))
+          }
+        }
+      },
+      errorMessage: null
+    };
+  }
+
+  const platformTable = await prismaClient.bidIncrementTable.findFirst({
+    where: bidIncrementTableId
+      ? { id: bidIncrementTableId, isPlatformTable: true }
+      : { tableName: environmentConfig.DEFAULT_BID_INCREMENT_TABLE_NAME, isPlatformTable: true },
+    select: { id: true }
+  });
+
+  if (!platformTable) {
+    return {
+      bidIncrementTableRelation: null,
+      errorMessage: bidIncrementTableId ? 'Bid increment table not found' : 'No default bid increment table is configured'
+    };
+  }
+
+  return { bidIncrementTableRelation: { connect: { id: platformTable.id } }, errorMessage: null };
+}
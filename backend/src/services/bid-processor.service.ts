@@ -1,35 +1,79 @@
 // ==============================|| BID PROCESSOR SERVICE ||============================== //
-// Handles bid processing with race condition prevention using Redis distributed locks
+// Handles bid processing with race condition prevention using a per-auction Redis bid queue and distributed locks
 
-import { Decimal } from '@prisma/client/runtime/library';
+import { AuctionItem, AuctionItemStatus, Prisma } from '@prisma/client';
+import { EnvironmentConfigType, environmentConfig } from '../config/environment.config';
 import { prismaClient } from '../config/prisma-client.config';
-import { redisClient } from '../config/redis-client.config';
-import { executeWithDistributedLock } from '../lib/redis-lock-manager.lib';
+import { BidQueueSubmissionResult, submitToAuctionBidQueue } from '../lib/redis-bid-queue.lib';
 import {
-  generateCurrentBidCacheKey,
-  generateHighestBidderCacheKey,
-  CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS
-} from '../constants/redis-keys.constants';
+  HeldDistributedLock,
+  checkIsStaleFencingTokenError,
+  executeWithDistributedLock,
+  verifyFencingTokenForAuctionWrite
+} from '../lib/distributed-lock-manager.lib';
+import { checkIsLockBackendActive } from '../lib/lock-backend.lib';
 import {
   BID_ERROR_AUCTION_NOT_FOUND,
   BID_ERROR_AUCTION_ENDED,
   BID_ERROR_AUCTION_NOT_STARTED,
   BID_ERROR_BID_TOO_LOW,
+  BID_ERROR_MAXIMUM_BID_TOO_LOW,
   BID_ERROR_OWN_AUCTION,
-  BID_ERROR_LOCK_ACQUISITION_FAILED,
   BID_ERROR_PROCESSING_FAILED,
+  BID_ERROR_QUEUE_TIMEOUT,
+  BID_ERROR_LOCK_LEASE_LOST,
+  BID_ERROR_OUTCOME_UNKNOWN,
+  BID_ERROR_WRONG_AUCTION_FORMAT,
+  BID_ERROR_SEALED_BID_TOO_LOW,
+  BID_ERROR_SEALED_MAXIMUM_BID_NOT_ALLOWED,
+  BID_ERROR_INVALID_QUANTITY,
+  BID_ERROR_MULTI_UNIT_MAXIMUM_BID_NOT_ALLOWED,
+  BID_ERROR_MULTI_UNIT_BID_LOWERED,
+  BID_ERROR_INSUFFICIENT_FUNDS,
+  BID_ERROR_BIDDING_RESTRICTED,
+  BID_ERROR_CURRENCY_MISMATCH,
   getErrorMessageFromCode
 } from '../constants/error-codes.constants';
+import { AUCTION_EVENT_BID_PLACED } from '../constants/auction-events.constants';
 import { logBidProcessingEvent, logErrorMessage } from '../utils/logger.util';
+import { checkIsBuyNowAvailable } from './buy-now-processor.service';
+import { mapBidIncrementBands } from './bid-increment-tables.service';
+import { adjustAuctionFundHolds, checkIsInsufficientFundsError, fetchCommittableFundsInCents } from './wallet-ledger.service';
+import { checkIsUserBiddingRestricted } from './unpaid-item.service';
+import { fetchAuctionState, invalidateAuctionState, writeAuctionBidToStateCache } from './auction-state-cache.service';
+import { notifyAuctionEventsRecorded, recordAuctionEvent } from './auction-event-outbox.service';
+import { createBidRequestFingerprint, recordBidRequestOutcome } from './bid-request-deduplication.service';
+import { PlaceBidAcknowledgement } from '../constants/socket-events.constants';
+import { BidIncrementBandData, findBidIncrementForPrice } from '../utils/bid-increment.util';
+import {
+  Money,
+  convertCentsToNumber,
+  convertOptionalCentsToNumber,
+  createMoney,
+  createOptionalMoney,
+  formatMoney
+} from '../utils/money.util';
+import { MultiUnitBidEntry, allocateMultiUnitAuction, calculateMultiUnitClearingPrice } from '../utils/multi-unit-allocation.util';
 
 // ==============================|| BID RESULT INTERFACES ||============================== //
 
 export interface BidProcessingResult {
   wasBidSuccessful: boolean;
   bidId: string | null;
-  newHighestBidInDollars: number | null;
-  previousHighestBidInDollars: number | null;
+  currencyCode: string | null; // The auction's currency, which every amount below is counted in
+  newHighestBidInCents: number | null;
+  previousHighestBidInCents: number | null;
+  highestBidderUserId: string | null;
+  highestBidderUsername: string | null;
+  maximumBidAmountInCents: number | null;
+  isReservePriceMet: boolean | null;
+  isBuyNowAvailable: boolean;
+  nextBidIncrementInCents: number | null; // Increment of the band the new price falls in
   bidPlacedAtTimestamp: Date | null;
+  auctionEndTimeTimestamp: Date | null;
+  previousAuctionEndTimeTimestamp: Date | null; // Only set when the bid extended the auction
+  isSealedBid: boolean; // Sealed bids leave the public price untouched and must not be broadcast
+  bidderQuantityWinning: number | null; // Units the bidder's standing bid currently wins on a multi-quantity auction
   errorCode: string | null;
   errorMessage: string | null;
   processingTimeInMs: number;
@@ -37,94 +81,306 @@ export interface BidProcessingResult {
 
 export interface AuctionBidInfo {
   auctionItemId: string;
-  currentHighestBidInDollars: number;
+  currencyCode: string;
+  currentStatus: AuctionItemStatus;
+  currentHighestBidInCents: number;
   highestBidderUserId: string | null;
   highestBidderUsername: string | null;
-  minimumBidIncrementInDollars: number;
+  bidIncrementInCents: number; // Increment of the band the current price falls in
   auctionEndTimeTimestamp: Date;
   totalNumberOfBids: number;
+  isReservePriceMet: boolean | null;
+}
+
+export interface StandingMultiUnitBid extends MultiUnitBidEntry {
+  bidderUsername: string;
+}
+
+export type BidCommitStrategy = EnvironmentConfigType['BID_COMMIT_STRATEGY'];
+
+interface QueuedBid {
+  auctionItemId: string;
+  bidderUserId: string;
+  bidAmountInCents: number;
+  bidCurrencyCode: string;
+  maximumBidAmountInCents: number | null;
+  bidQuantity: number;
+  bidRequestId: string | null; // The client's request ID, settled by whichever instance processes the bid
 }
 
-// ==============================|| PROCESS BID WITH LOCK ||============================== //
+interface BidRecordToCreate {
+  bidderUserId: string;
+  bidAmountInCents: number;
+  wasPlacedByProxy: boolean;
+}
+
+// ==============================|| PROCESS BID ||============================== //
+// Commits a bid with the deployment's BID_COMMIT_STRATEGY:
+// queue - bids on the same auction are queued and processed one at a time in arrival order,
+//         so a bid that collides with another waits its turn instead of failing
+// lock - each bid takes the auction's lock directly, retrying while another bid holds it
+// conditional-update - plain bids are validated and written by one conditional update without any lock
 
-export async function processBidWithDistributedLock(
+export async function processBid(
   auctionItemId: string,
   bidderUserId: string,
-  bidAmountInDollars: number
+  bidAmountInCents: number,
+  bidCurrencyCode: string,
+  maximumBidAmountInCents: number | null = null,
+  bidQuantity: number = 1,
+  bidRequestId: string | null = null,
+  bidCommitStrategy: BidCommitStrategy = environmentConfig.BID_COMMIT_STRATEGY
 ): Promise<BidProcessingResult> {
   const processingStartTime = Date.now();
 
-  logBidProcessingEvent('BID_RECEIVED', auctionItemId, bidderUserId, { bidAmountInDollars });
-
-  // Execute bid processing within a distributed lock
-  const lockExecutionResult = await executeWithDistributedLock<BidProcessingResult>(auctionItemId, async () => {
-    return await processBidTransaction(auctionItemId, bidderUserId, bidAmountInDollars);
+  logBidProcessingEvent('BID_RECEIVED', auctionItemId, bidderUserId, {
+    bidAmountInCents,
+    bidQuantity,
+    hasMaximumBid: maximumBidAmountInCents !== null
   });
 
+  const queuedBid: QueuedBid = {
+    auctionItemId,
+    bidderUserId,
+    bidAmountInCents,
+    bidCurrencyCode,
+    maximumBidAmountInCents,
+    bidQuantity,
+    bidRequestId
+  };
+
+  const queueSubmissionResult = await commitBidWithStrategy(queuedBid, bidCommitStrategy);
+
   const processingTimeInMs = Date.now() - processingStartTime;
 
-  if (!lockExecutionResult.wasLockAcquired) {
+  if (queueSubmissionResult.wasRemovedUnprocessed) {
     logBidProcessingEvent('BID_FAILED', auctionItemId, bidderUserId, {
-      reason: 'Lock acquisition failed',
+      reason: 'Bid queue wait timed out',
       processingTimeInMs
     });
 
     return {
-      wasBidSuccessful: false,
-      bidId: null,
-      newHighestBidInDollars: null,
-      previousHighestBidInDollars: null,
-      bidPlacedAtTimestamp: null,
-      errorCode: BID_ERROR_LOCK_ACQUISITION_FAILED,
-      errorMessage: getErrorMessageFromCode(BID_ERROR_LOCK_ACQUISITION_FAILED),
+      ...createErrorResult(BID_ERROR_QUEUE_TIMEOUT),
       processingTimeInMs
     };
   }
 
-  if (!lockExecutionResult.wasExecutionSuccessful || !lockExecutionResult.executionResult) {
+  // The bid may have been committed, so the bidder must not be told to simply try again
+  if (queueSubmissionResult.wasOutcomeUnknown) {
     logBidProcessingEvent('BID_FAILED', auctionItemId, bidderUserId, {
-      reason: lockExecutionResult.errorMessage,
+      reason: queueSubmissionResult.errorMessage,
       processingTimeInMs
     });
 
     return {
-      wasBidSuccessful: false,
-      bidId: null,
-      newHighestBidInDollars: null,
-      previousHighestBidInDollars: null,
-      bidPlacedAtTimestamp: null,
-      errorCode: BID_ERROR_PROCESSING_FAILED,
-      errorMessage: lockExecutionResult.errorMessage || 'Bid processing failed',
+      ...createErrorResult(BID_ERROR_OUTCOME_UNKNOWN),
       processingTimeInMs
     };
   }
 
-  const result = lockExecutionResult.executionResult;
+  if (!queueSubmissionResult.wasProcessed || !queueSubmissionResult.processingResult) {
+    logBidProcessingEvent('BID_FAILED', auctionItemId, bidderUserId, {
+      reason: queueSubmissionResult.errorMessage,
+      processingTimeInMs
+    });
+
+    return {
+      ...createErrorResult(BID_ERROR_PROCESSING_FAILED),
+      errorMessage: queueSubmissionResult.errorMessage || 'Bid processing failed',
+      processingTimeInMs
+    };
+  }
+
+  const result = reviveQueuedBidResult(queueSubmissionResult.processingResult);
   result.processingTimeInMs = processingTimeInMs;
 
   if (result.wasBidSuccessful) {
     logBidProcessingEvent('BID_PROCESSED', auctionItemId, bidderUserId, {
       bidId: result.bidId,
-      newHighestBid: result.newHighestBidInDollars,
+      newHighestBid: result.newHighestBidInCents,
+      highestBidderUserId: result.highestBidderUserId,
+      wasAuctionExtended: result.previousAuctionEndTimeTimestamp !== null,
       processingTimeInMs
     });
   }
 
+  if (result.bidId) {
+    await notifyAuctionEventsRecorded();
+  }
+
   return result;
 }
 
+async function commitBidWithStrategy(
+  queuedBid: QueuedBid,
+  bidCommitStrategy: BidCommitStrategy
+): Promise<BidQueueSubmissionResult<BidProcessingResult>> {
+  if (bidCommitStrategy === 'conditional-update') {
+    const conditionalUpdateResult = await placeBidWithConditionalUpdate(queuedBid);
+
+    if (conditionalUpdateResult) {
+      return {
+        wasProcessed: true,
+        processingResult: conditionalUpdateResult,
+        wasRemovedUnprocessed: false,
+        wasOutcomeUnknown: false,
+        errorMessage: null
+      };
+    }
+
+    // Proxy bidding, sealed and multi-unit auctions need the full bid logic, which runs under the lock
+    return await processBidWithoutQueue(queuedBid);
+  }
+
+  // The queue lives in Redis. While locks have failed over to another backend, bids take the lock directly
+  if (bidCommitStrategy === 'queue' && checkIsLockBackendActive('redis')) {
+    return await submitToAuctionBidQueue<QueuedBid, BidProcessingResult>(queuedBid.auctionItemId, queuedBid, processAndRecordQueuedBid);
+  }
+
+  return await processBidWithoutQueue(queuedBid);
+}
+
+// Answers like the queue would, so a bid that never got the lock reads as one that was never placed
+async function processBidWithoutQueue(queuedBid: QueuedBid): Promise<BidQueueSubmissionResult<BidProcessingResult>> {
+  const lockExecutionResult = await executeWithDistributedLock<BidProcessingResult>(queuedBid.auctionItemId, (heldLock) =>
+    processQueuedBid(queuedBid, heldLock)
+  );
+
+  return {
+    wasProcessed: lockExecutionResult.wasExecutionSuccessful,
+    processingResult: lockExecutionResult.executionResult,
+    wasRemovedUnprocessed: !lockExecutionResult.wasLockAcquired,
+    wasOutcomeUnknown: lockExecutionResult.wasLockAcquired && !lockExecutionResult.wasExecutionSuccessful,
+    errorMessage: lockExecutionResult.errorMessage
+  };
+}
+
+// Runs on whichever instance is draining the auction's queue, while it holds the bid lock
+async function processQueuedBid(queuedBid: QueuedBid, heldLock: HeldDistributedLock): Promise<BidProcessingResult> {
+  try {
+    return await processBidTransaction(
+      queuedBid.auctionItemId,
+      queuedBid.bidderUserId,
+      queuedBid.bidAmountInCents,
+      queuedBid.bidCurrencyCode,
+      queuedBid.maximumBidAmountInCents,
+      queuedBid.bidQuantity,
+      heldLock.fencingToken
+    );
+  } catch (error) {
+    // A hold the wallet could not cover rolls the whole bid back
+    if (checkIsInsufficientFundsError(error)) {
+      return createErrorResult(BID_ERROR_INSUFFICIENT_FUNDS);
+    }
+
+    // The lease ran out before the bid was written and a newer holder has moved on, so nothing was committed
+    if (checkIsStaleFencingTokenError(error)) {
+      return createErrorResult(BID_ERROR_LOCK_LEASE_LOST);
+    }
+
+    throw error;
+  }
+}
+
+// The bidder's instance may have stopped waiting and answered that the outcome is unknown, so the draining
+// instance settles the bid request itself before handing the result back
+async function processAndRecordQueuedBid(queuedBid: QueuedBid, heldLock: HeldDistributedLock): Promise<BidProcessingResult> {
+  const processingResult = await processQueuedBid(queuedBid, heldLock);
+
+  if (queuedBid.bidRequestId) {
+    await recordBidRequestOutcome(
+      queuedBid.bidderUserId,
+      queuedBid.bidRequestId,
+      createBidRequestFingerprint(
+        queuedBid.auctionItemId,
+        queuedBid.bidAmountInCents,
+        queuedBid.bidCurrencyCode,
+        queuedBid.maximumBidAmountInCents,
+        queuedBid.bidQuantity
+      ),
+      createPlaceBidAcknowledgement(
+        queuedBid.auctionItemId,
+        queuedBid.bidderUserId,
+        createMoney(queuedBid.bidAmountInCents, queuedBid.bidCurrencyCode),
+        queuedBid.bidRequestId,
+        processingResult
+      )
+    );
+  }
+
+  return processingResult;
+}
+
+// Results come back through Redis as JSON, which turns the timestamps into strings
+function reviveQueuedBidResult(queuedBidResult: BidProcessingResult): BidProcessingResult {
+  const reviveTimestamp = (timestamp: Date | null) => (timestamp ? new Date(timestamp) : null);
+
+  return {
+    ...queuedBidResult,
+    bidPlacedAtTimestamp: reviveTimestamp(queuedBidResult.bidPlacedAtTimestamp),
+    auctionEndTimeTimestamp: reviveTimestamp(queuedBidResult.auctionEndTimeTimestamp),
+    previousAuctionEndTimeTimestamp: reviveTimestamp(queuedBidResult.previousAuctionEndTimeTimestamp)
+  };
+}
+
+// ==============================|| BID ACKNOWLEDGEMENT ||============================== //
+
+// The reply to a PLACE_BID request, which is also what a retry of the request is answered with
+export function createPlaceBidAcknowledgement(
+  auctionItemId: string,
+  bidderUserId: string,
+  bidAmount: Money,
+  bidRequestId: string | null,
+  result: BidProcessingResult
+): PlaceBidAcknowledgement {
+  if (!result.wasBidSuccessful) {
+    return {
+      wasBidSuccessful: false,
+      errorPayload: {
+        auctionItemId,
+        errorCode: result.errorCode || 'BID_FAILED',
+        errorMessage: result.errorMessage || 'Bid failed',
+        bidRequestId
+      }
+    };
+  }
+
+  return {
+    wasBidSuccessful: true,
+    successPayload: {
+      auctionItemId,
+      bidAmount,
+      bidId: result.bidId,
+      bidPlacedAtTimestamp: result.bidPlacedAtTimestamp!.toISOString(),
+      newHighestBid: createMoney(result.newHighestBidInCents!, result.currencyCode!),
+      isHighestBidder:
+        result.bidderQuantityWinning !== null ? result.bidderQuantityWinning > 0 : result.highestBidderUserId === bidderUserId,
+      maximumBidAmount: createOptionalMoney(result.maximumBidAmountInCents, result.currencyCode!),
+      isSealedBid: result.isSealedBid,
+      quantityWinning: result.bidderQuantityWinning,
+      bidRequestId
+    }
+  };
+}
+
 // ==============================|| BID TRANSACTION (WITHIN LOCK) ||============================== //
 
 async function processBidTransaction(
   auctionItemId: string,
   bidderUserId: string,
-  bidAmountInDollars: number
+  bidAmountInCents: number,
+  bidCurrencyCode: string,
+  maximumBidAmountInCents: number | null,
+  bidQuantity: number,
+  fencingToken: number
 ): Promise<BidProcessingResult> {
   // Step 1: Fetch the auction item
   const auctionItem = await prismaClient.auctionItem.findUnique({
     where: { id: auctionItemId },
     include: {
-      creatorUser: { select: { id: true, username: true } }
+      creatorUser: { select: { id: true, username: true } },
+      highestBidderUser: { select: { id: true, username: true } },
+      bidIncrementTable: { include: { incrementBands: true } }
     }
   });
 
@@ -132,155 +388,908 @@ async function processBidTransaction(
     return createErrorResult(BID_ERROR_AUCTION_NOT_FOUND);
   }
 
-  // Step 2: Validate auction status and timing
-  const currentTimestamp = new Date();
+  // Steps 2-3: Validate currency, auction status and timing, and the bidder
+  const bidRejectionCode = await findBidRejectionCode(auctionItem, bidderUserId, bidCurrencyCode);
 
-  if (auctionItem.currentStatus !== 'ACTIVE') {
-    return createErrorResult(BID_ERROR_AUCTION_ENDED);
+  if (bidRejectionCode) {
+    return createErrorResult(bidRejectionCode);
   }
 
-  if (currentTimestamp < auctionItem.auctionStartTimeTimestamp) {
-    return createErrorResult(BID_ERROR_AUCTION_NOT_STARTED);
+  const currentTimestamp = new Date();
+
+  const incrementBands = mapBidIncrementBands(auctionItem.bidIncrementTable.incrementBands);
+
+  if (auctionItem.quantityAvailable > 1) {
+    return await placeMultiUnitBid(
+      auctionItem,
+      incrementBands,
+      bidderUserId,
+      bidAmountInCents,
+      bidQuantity,
+      maximumBidAmountInCents,
+      fencingToken
+    );
   }
 
-  if (currentTimestamp >= auctionItem.auctionEndTimeTimestamp) {
-    return createErrorResult(BID_ERROR_AUCTION_ENDED);
+  if (bidQuantity !== 1) {
+    return createErrorResult(BID_ERROR_INVALID_QUANTITY);
   }
 
-  // Step 3: Check if bidder is the creator
-  if (auctionItem.creatorUserId === bidderUserId) {
-    return createErrorResult(BID_ERROR_OWN_AUCTION);
+  if (auctionItem.auctionFormat === 'SEALED_BID') {
+    return await placeSealedBid(auctionItem, bidderUserId, bidAmountInCents, maximumBidAmountInCents, fencingToken);
   }
 
   // Step 4: Validate bid amount
-  const currentBidAsNumber = auctionItem.currentHighestBidInDollars.toNumber();
-  const minimumIncrementAsNumber = auctionItem.minimumBidIncrementInDollars.toNumber();
-  const minimumRequiredBid = currentBidAsNumber + minimumIncrementAsNumber;
+  const currentBidInCents = convertCentsToNumber(auctionItem.currentHighestBidInCents);
+  const minimumIncrementInCents = findBidIncrementForPrice(incrementBands, currentBidInCents);
+  const minimumRequiredBidInCents = currentBidInCents + minimumIncrementInCents;
+
+  const reservePriceInCents = convertOptionalCentsToNumber(auctionItem.reservePriceInCents);
+  const buyNowPriceInCents = convertOptionalCentsToNumber(auctionItem.buyNowPriceInCents);
+
+  // The current leader only raises their hidden ceiling - the visible price does not move,
+  // unless the new ceiling covers a reserve the current price has not reached yet
+  const doesRaiseMeetReserve =
+    maximumBidAmountInCents !== null &&
+    reservePriceInCents !== null &&
+    currentBidInCents < reservePriceInCents &&
+    maximumBidAmountInCents >= reservePriceInCents;
+
+  if (maximumBidAmountInCents !== null && auctionItem.highestBidderUserId === bidderUserId && !doesRaiseMeetReserve) {
+    if (maximumBidAmountInCents < minimumRequiredBidInCents) {
+      return createErrorResult(BID_ERROR_MAXIMUM_BID_TOO_LOW);
+    }
+
+    if (maximumBidAmountInCents > (await fetchCommittableFundsInCents(bidderUserId, auctionItemId))) {
+      return createErrorResult(BID_ERROR_INSUFFICIENT_FUNDS);
+    }
+
+    // The whole ceiling is committed, so the leader's hold grows with it
+    await prismaClient.$transaction(async (transactionClient) => {
+      await verifyFencingTokenForAuctionWrite(transactionClient, auctionItemId, fencingToken);
+      await upsertMaximumBid(transactionClient, auctionItemId, bidderUserId, maximumBidAmountInCents, currentTimestamp);
+      await adjustAuctionFundHolds(
+        transactionClient,
+        auctionItemId,
+        [{ userId: bidderUserId, amountInCents: maximumBidAmountInCents }],
+        false
+      );
+    });
 
-  if (bidAmountInDollars < minimumRequiredBid) {
     return {
-      wasBidSuccessful: false,
+      wasBidSuccessful: true,
       bidId: null,
-      newHighestBidInDollars: null,
-      previousHighestBidInDollars: currentBidAsNumber,
-      bidPlacedAtTimestamp: null,
-      errorCode: BID_ERROR_BID_TOO_LOW,
-      errorMessage: `Bid must be at least $${minimumRequiredBid.toFixed(2)} (current: $${currentBidAsNumber.toFixed(2)} + increment: $${minimumIncrementAsNumber.toFixed(2)})`,
+      currencyCode: auctionItem.currencyCode,
+      newHighestBidInCents: currentBidInCents,
+      previousHighestBidInCents: currentBidInCents,
+      highestBidderUserId: bidderUserId,
+      highestBidderUsername: auctionItem.highestBidderUser?.username || null,
+      maximumBidAmountInCents,
+      isReservePriceMet: checkIsReservePriceMet(currentBidInCents, reservePriceInCents),
+      isBuyNowAvailable: checkIsBuyNowAvailable(buyNowPriceInCents, currentBidInCents, true),
+      nextBidIncrementInCents: minimumIncrementInCents,
+      bidPlacedAtTimestamp: currentTimestamp,
+      auctionEndTimeTimestamp: auctionItem.auctionEndTimeTimestamp,
+      previousAuctionEndTimeTimestamp: null,
+      isSealedBid: false,
+      bidderQuantityWinning: null,
+      errorCode: null,
+      errorMessage: null,
       processingTimeInMs: 0
     };
   }
 
-  // Step 5: Execute the transaction
+  if (bidAmountInCents < minimumRequiredBidInCents) {
+    return {
+      ...createErrorResult(BID_ERROR_BID_TOO_LOW),
+      previousHighestBidInCents: currentBidInCents,
+      errorMessage: `Bid must be at least ${formatMoney(createMoney(minimumRequiredBidInCents, auctionItem.currencyCode))} (current: ${formatMoney(createMoney(currentBidInCents, auctionItem.currencyCode))} + increment at this price: ${formatMoney(createMoney(minimumIncrementInCents, auctionItem.currencyCode))})`
+    };
+  }
+
+  if (maximumBidAmountInCents !== null && maximumBidAmountInCents < bidAmountInCents) {
+    return createErrorResult(BID_ERROR_MAXIMUM_BID_TOO_LOW);
+  }
+
+  const bidderCeilingInCents = maximumBidAmountInCents ?? bidAmountInCents;
+
+  if (bidderCeilingInCents > (await fetchCommittableFundsInCents(bidderUserId, auctionItemId))) {
+    return createErrorResult(BID_ERROR_INSUFFICIENT_FUNDS);
+  }
+
+  // Step 5: Resolve automatic counter-bids against the strongest competing maximum bid
+  const competingMaximumBid = await prismaClient.maximumBid.findFirst({
+    where: {
+      auctionItemId,
+      bidderUserId: { not: bidderUserId },
+      maximumBidAmountInCents: { gte: bidAmountInCents }
+    },
+    orderBy: [{ maximumBidAmountInCents: 'desc' }, { maximumBidPlacedAtTimestamp: 'asc' }]
+  });
+
+  const bidRecordsToCreate: BidRecordToCreate[] = [{ bidderUserId, bidAmountInCents, wasPlacedByProxy: false }];
+  let newHighestBidInCents = bidAmountInCents;
+  let newHighestBidderUserId = bidderUserId;
+  let leaderCeilingInCents = bidderCeilingInCents;
+
+  if (competingMaximumBid) {
+    const competingCeilingInCents = convertCentsToNumber(competingMaximumBid.maximumBidAmountInCents);
+
+    // Ties go to the earlier maximum bid, which is always the competing one
+    if (competingCeilingInCents >= bidderCeilingInCents) {
+      if (bidderCeilingInCents > bidAmountInCents) {
+        bidRecordsToCreate.push({ bidderUserId, bidAmountInCents: bidderCeilingInCents, wasPlacedByProxy: true });
+      }
+
+      newHighestBidInCents = Math.min(
+        competingCeilingInCents,
+        bidderCeilingInCents + findBidIncrementForPrice(incrementBands, bidderCeilingInCents)
+      );
+      newHighestBidderUserId = competingMaximumBid.bidderUserId;
+      leaderCeilingInCents = competingCeilingInCents;
+    } else {
+      bidRecordsToCreate.push({
+        bidderUserId: competingMaximumBid.bidderUserId,
+        bidAmountInCents: competingCeilingInCents,
+        wasPlacedByProxy: true
+      });
+
+      newHighestBidInCents = Math.min(
+        bidderCeilingInCents,
+        competingCeilingInCents + findBidIncrementForPrice(incrementBands, competingCeilingInCents)
+      );
+    }
+  }
+
+  // A ceiling that covers the reserve bids straight up to it
+  if (reservePriceInCents !== null && newHighestBidInCents < reservePriceInCents && leaderCeilingInCents >= reservePriceInCents) {
+    newHighestBidInCents = reservePriceInCents;
+  }
+
+  if (competingMaximumBid || newHighestBidInCents !== bidAmountInCents) {
+    bidRecordsToCreate.push({ bidderUserId: newHighestBidderUserId, bidAmountInCents: newHighestBidInCents, wasPlacedByProxy: true });
+  }
+
+  // Step 6: Extend the auction if the bid landed inside the soft close window
   const bidPlacedAtTimestamp = new Date();
-  const bidAmountDecimal = new Decimal(bidAmountInDollars);
+  const newAuctionEndTimeTimestamp = calculateSoftCloseEndTime(
+    auctionItem.auctionEndTimeTimestamp,
+    bidPlacedAtTimestamp,
+    auctionItem.softCloseWindowInSeconds,
+    auctionItem.softCloseExtensionInSeconds
+  );
+  const wasAuctionExtended = newAuctionEndTimeTimestamp.getTime() !== auctionItem.auctionEndTimeTimestamp.getTime();
+
+  // Step 7: Execute the transaction, recording the bid for the outbox with it
+  const bidResult = await prismaClient.$transaction(async (transactionClient) => {
+    await verifyFencingTokenForAuctionWrite(transactionClient, auctionItemId, fencingToken);
 
-  const [, createdBid] = await prismaClient.$transaction([
     // Update the auction with new highest bid
-    prismaClient.auctionItem.update({
+    const updatedAuctionItem = await transactionClient.auctionItem.update({
       where: { id: auctionItemId },
       data: {
-        currentHighestBidInDollars: bidAmountDecimal,
+        currentHighestBidInCents: newHighestBidInCents,
+        highestBidderUserId: newHighestBidderUserId,
+        auctionEndTimeTimestamp: newAuctionEndTimeTimestamp,
+        updatedAtTimestamp: bidPlacedAtTimestamp
+      },
+      include: {
+        highestBidderUser: { select: { id: true, username: true } }
+      }
+    });
+
+    // Store the bidder's hidden ceiling
+    if (maximumBidAmountInCents !== null) {
+      await upsertMaximumBid(transactionClient, auctionItemId, bidderUserId, maximumBidAmountInCents, bidPlacedAtTimestamp);
+    }
+
+    // Create the bid records, offsetting timestamps so automatic bids sort after the bid that triggered them
+    const createdBids = [];
+    for (const [recordIndex, bidRecord] of bidRecordsToCreate.entries()) {
+      createdBids.push(
+        await transactionClient.bid.create({
+          data: {
+            auctionItemId,
+            bidderUserId: bidRecord.bidderUserId,
+            bidAmountInCents: bidRecord.bidAmountInCents,
+            placedAtTimestamp: new Date(bidPlacedAtTimestamp.getTime() + recordIndex),
+            wasBidSuccessful: true,
+            wasPlacedByProxy: bidRecord.wasPlacedByProxy
+          }
+        })
+      );
+    }
+
+    // Only the leader has money held - their whole ceiling, as the proxy may bid up to it. Everyone else is released
+    await adjustAuctionFundHolds(
+      transactionClient,
+      auctionItemId,
+      [{ userId: newHighestBidderUserId, amountInCents: leaderCeilingInCents }],
+      true
+    );
+
+    const bidResult: BidProcessingResult = {
+      wasBidSuccessful: true,
+      bidId: createdBids[0].id,
+      currencyCode: auctionItem.currencyCode,
+      newHighestBidInCents,
+      previousHighestBidInCents: currentBidInCents,
+      highestBidderUserId: newHighestBidderUserId,
+      highestBidderUsername: updatedAuctionItem.highestBidderUser?.username || null,
+      maximumBidAmountInCents,
+      isReservePriceMet: checkIsReservePriceMet(newHighestBidInCents, reservePriceInCents),
+      isBuyNowAvailable: checkIsBuyNowAvailable(buyNowPriceInCents, newHighestBidInCents, true),
+      nextBidIncrementInCents: findBidIncrementForPrice(incrementBands, newHighestBidInCents),
+      bidPlacedAtTimestamp,
+      auctionEndTimeTimestamp: newAuctionEndTimeTimestamp,
+      previousAuctionEndTimeTimestamp: wasAuctionExtended ? auctionItem.auctionEndTimeTimestamp : null,
+      isSealedBid: false,
+      bidderQuantityWinning: null,
+      errorCode: null,
+      errorMessage: null,
+      processingTimeInMs: 0
+    };
+
+    await recordBidPlacedEvent(transactionClient, auctionItemId, bidResult);
+
+    return bidResult;
+  });
+
+  // Step 8: Write the new state through to the auction state cache
+  await writeAuctionBidToStateCache({
+    auctionItemId,
+    stateVersion: fencingToken,
+    currentHighestBidInCents: newHighestBidInCents,
+    highestBidderUserId: newHighestBidderUserId,
+    highestBidderUsername: bidResult.highestBidderUsername,
+    bidIncrementInCents: bidResult.nextBidIncrementInCents!,
+    auctionEndTimeTimestamp: newAuctionEndTimeTimestamp,
+    placedBidCount: bidRecordsToCreate.length
+  });
+
+  return bidResult;
+}
+
+// ==============================|| CONDITIONAL UPDATE BID (WITHOUT LOCK) ||============================== //
+// Validates and writes a plain bid in one conditional update, so concurrent bids need no lock round trips.
+// Losers are told apart by the update touching no row. Returns null for bids that need the full bid logic
+
+interface ConditionalBidUpdateRow {
+  previousHighestBidInCents: bigint;
+  previousAuctionEndTimeTimestamp: Date;
+  auctionEndTimeTimestamp: Date;
+  lockFencingToken: bigint;
+}
+
+async function placeBidWithConditionalUpdate(queuedBid: QueuedBid): Promise<BidProcessingResult | null> {
+  const { auctionItemId, bidderUserId, bidAmountInCents } = queuedBid;
+
+  if (queuedBid.maximumBidAmountInCents !== null || queuedBid.bidQuantity !== 1) {
+    return null;
+  }
+
+  const auctionItem = await prismaClient.auctionItem.findUnique({
+    where: { id: auctionItemId },
+    include: { bidIncrementTable: { include: { incrementBands: true } } }
+  });
+
+  if (!auctionItem) {
+    return createErrorResult(BID_ERROR_AUCTION_NOT_FOUND);
+  }
+
+  if (auctionItem.auctionFormat !== 'ENGLISH' || auctionItem.quantityAvailable > 1) {
+    return null;
+  }
+
+  const bidRejectionCode = await findBidRejectionCode(auctionItem, bidderUserId, queuedBid.bidCurrencyCode);
+
+  if (bidRejectionCode) {
+    return createErrorResult(bidRejectionCode);
+  }
+
+  if (bidAmountInCents > (await fetchCommittableFundsInCents(bidderUserId, auctionItemId))) {
+    return createErrorResult(BID_ERROR_INSUFFICIENT_FUNDS);
+  }
+
+  const bidPlacedAtTimestamp = new Date();
+  const incrementBands = mapBidIncrementBands(auctionItem.bidIncrementTable.incrementBands);
+
+  let committedBid: { bidResult: BidProcessingResult; stateVersion: number } | null;
+
+  try {
+    committedBid = await prismaClient.$transaction(async (transactionClient) => {
+      // Only a bid that clears the increment on the live price, with no competing maximum bid to answer it,
+      // gets through. Drawing a fencing token outranks any lock holder working from an older read. The bid's
+      // own timestamp stands in for now(), so both strategies judge the end time and soft close on one clock
+      const [updatedRow] = await transactionClient.$queryRaw<ConditionalBidUpdateRow[]>`
+        WITH locked_auction AS (
+          SELECT id, current_bid_cents, auction_end_time FROM auction_items WHERE id = ${auctionItemId} FOR UPDATE
+        )
+        UPDATE auction_items AS auction
+        SET current_bid_cents = ${bidAmountInCents},
+            highest_bidder_user_id = ${bidderUserId},
+            auction_end_time = CASE
+              WHEN auction.soft_close_window_seconds > 0
+                AND auction.soft_close_extension_seconds > 0
+                AND auction.auction_end_time - ${bidPlacedAtTimestamp} <= auction.soft_close_window_seconds * interval '1 second'
+              THEN auction.auction_end_time + auction.soft_close_extension_seconds * interval '1 second'
+              ELSE auction.auction_end_time
+            END,
+            lock_fencing_token = nextval('lock_fencing_tokens'),
+            updated_at = ${bidPlacedAtTimestamp}
+        FROM locked_auction
+        WHERE auction.id = locked_auction.id
+          AND auction.status = 'ACTIVE'
+          AND auction.auction_start_time <= ${bidPlacedAtTimestamp}
+          AND auction.auction_end_time > ${bidPlacedAtTimestamp}
+          AND auction.current_bid_cents + COALESCE(
+            (
+              SELECT band.increment_cents FROM bid_increment_bands AS band
+              WHERE band.bid_increment_table_id = auction.bid_increment_table_id AND band.price_from_cents <= auction.current_bid_cents
+              ORDER BY band.price_from_cents DESC
+              LIMIT 1
+            ),
+            100
+          ) <= ${bidAmountInCents}
+          AND NOT EXISTS (
+            SELECT 1 FROM maximum_bids AS maximum_bid
+            WHERE maximum_bid.auction_item_id = auction.id
+              AND maximum_bid.bidder_user_id <> ${bidderUserId}
+              AND maximum_bid.maximum_bid_amount_cents >= ${bidAmountInCents}
+          )
+        RETURNING
+          locked_auction.current_bid_cents AS "previousHighestBidInCents",
+          locked_auction.auction_end_time AS "previousAuctionEndTimeTimestamp",
+          auction.auction_end_time AS "auctionEndTimeTimestamp",
+          auction.lock_fencing_token AS "lockFencingToken"
+      `;
+
+      if (!updatedRow) return null;
+
+      const createdBid = await transactionClient.bid.create({
+        data: {
+          auctionItemId,
+          bidderUserId,
+          bidAmountInCents,
+          placedAtTimestamp: bidPlacedAtTimestamp,
+          wasBidSuccessful: true
+        },
+        include: { bidderUser: { select: { username: true } } }
+      });
+
+      // The new leader holds the bid, everyone else is released
+      await adjustAuctionFundHolds(transactionClient, auctionItemId, [{ userId: bidderUserId, amountInCents: bidAmountInCents }], true);
+
+      const wasAuctionExtended = updatedRow.auctionEndTimeTimestamp.getTime() !== updatedRow.previousAuctionEndTimeTimestamp.getTime();
+      const bidResult: BidProcessingResult = {
+        wasBidSuccessful: true,
+        bidId: createdBid.id,
+        currencyCode: auctionItem.currencyCode,
+        newHighestBidInCents: bidAmountInCents,
+        previousHighestBidInCents: convertCentsToNumber(updatedRow.previousHighestBidInCents),
+        highestBidderUserId: bidderUserId,
+        highestBidderUsername: createdBid.bidderUser.username,
+        maximumBidAmountInCents: null,
+        isReservePriceMet: checkIsReservePriceMet(bidAmountInCents, convertOptionalCentsToNumber(auctionItem.reservePriceInCents)),
+        isBuyNowAvailable: checkIsBuyNowAvailable(convertOptionalCentsToNumber(auctionItem.buyNowPriceInCents), bidAmountInCents, true),
+        nextBidIncrementInCents: findBidIncrementForPrice(incrementBands, bidAmountInCents),
+        bidPlacedAtTimestamp,
+        auctionEndTimeTimestamp: updatedRow.auctionEndTimeTimestamp,
+        previousAuctionEndTimeTimestamp: wasAuctionExtended ? updatedRow.previousAuctionEndTimeTimestamp : null,
+        isSealedBid: false,
+        bidderQuantityWinning: null,
+        errorCode: null,
+        errorMessage: null,
+        processingTimeInMs: 0
+      };
+
+      await recordBidPlacedEvent(transactionClient, auctionItemId, bidResult);
+
+      return { bidResult, stateVersion: Number(updatedRow.lockFencingToken) };
+    });
+  } catch (error) {
+    // A hold the wallet could not cover rolls the whole bid back
+    if (checkIsInsufficientFundsError(error)) {
+      return createErrorResult(BID_ERROR_INSUFFICIENT_FUNDS);
+    }
+
+    // The error may have come while the commit was on its way, so the bid may stand
+    logErrorMessage('Conditional bid update failed with an unknown outcome', error, { auctionItemId, bidderUserId });
+
+    return createErrorResult(BID_ERROR_OUTCOME_UNKNOWN);
+  }
+
+  if (!committedBid) {
+    return await explainConditionalUpdateLoss(auctionItemId, bidderUserId, queuedBid.bidCurrencyCode, bidAmountInCents);
+  }
+
+  const { bidResult, stateVersion } = committedBid;
+
+  await writeAuctionBidToStateCache({
+    auctionItemId,
+    stateVersion,
+    currentHighestBidInCents: bidAmountInCents,
+    highestBidderUserId: bidderUserId,
+    highestBidderUsername: bidResult.highestBidderUsername,
+    bidIncrementInCents: bidResult.nextBidIncrementInCents!,
+    auctionEndTimeTimestamp: bidResult.auctionEndTimeTimestamp!,
+    placedBidCount: 1
+  });
+
+  return bidResult;
+}
+
+// The update touched no row - read the auction again to tell the bidder why
+async function explainConditionalUpdateLoss(
+  auctionItemId: string,
+  bidderUserId: string,
+  bidCurrencyCode: string,
+  bidAmountInCents: number
+): Promise<BidProcessingResult | null> {
+  const auctionItem = await prismaClient.auctionItem.findUnique({
+    where: { id: auctionItemId },
+    include: { bidIncrementTable: { include: { incrementBands: true } } }
+  });
+
+  if (!auctionItem) {
+    return createErrorResult(BID_ERROR_AUCTION_NOT_FOUND);
+  }
+
+  const bidRejectionCode = await findBidRejectionCode(auctionItem, bidderUserId, bidCurrencyCode);
+
+  if (bidRejectionCode) {
+    return createErrorResult(bidRejectionCode);
+  }
+
+  const currentBidInCents = convertCentsToNumber(auctionItem.currentHighestBidInCents);
+  const minimumIncrementInCents = findBidIncrementForPrice(
+    mapBidIncrementBands(auctionItem.bidIncrementTable.incrementBands),
+    currentBidInCents
+  );
+  const minimumRequiredBidInCents = currentBidInCents + minimumIncrementInCents;
+
+  // High enough, so a competing maximum bid stopped it - the proxy bidding logic has to answer it
+  if (bidAmountInCents >= minimumRequiredBidInCents) {
+    return null;
+  }
+
+  return {
+    ...createErrorResult(BID_ERROR_BID_TOO_LOW),
+    previousHighestBidInCents: currentBidInCents,
+    errorMessage: `Bid must be at least ${formatMoney(createMoney(minimumRequiredBidInCents, auctionItem.currencyCode))} (current: ${formatMoney(createMoney(currentBidInCents, auctionItem.currencyCode))} + increment at this price: ${formatMoney(createMoney(minimumIncrementInCents, auctionItem.currencyCode))})`
+  };
+}
+
+// ==============================|| SEALED BID (WITHIN LOCK) ||============================== //
+
+// Each bidder holds one sealed bid per auction, replaced in place until the deadline.
+// Nothing public changes - the auction keeps its starting price and no leader until it is settled at close.
+async function placeSealedBid(
+  auctionItem: AuctionItem,
+  bidderUserId: string,
+  bidAmountInCents: number,
+  maximumBidAmountInCents: number | null,
+  fencingToken: number
+): Promise<BidProcessingResult> {
+  if (maximumBidAmountInCents !== null) {
+    return createErrorResult(BID_ERROR_SEALED_MAXIMUM_BID_NOT_ALLOWED);
+  }
+
+  const startingPriceInCents = convertCentsToNumber(auctionItem.startingPriceInCents);
+
+  if (bidAmountInCents < startingPriceInCents) {
+    return {
+      ...createErrorResult(BID_ERROR_SEALED_BID_TOO_LOW),
+      errorMessage: `Your sealed bid must be at least ${formatMoney(createMoney(startingPriceInCents, auctionItem.currencyCode))}`
+    };
+  }
+
+  if (bidAmountInCents > (await fetchCommittableFundsInCents(bidderUserId, auctionItem.id))) {
+    return createErrorResult(BID_ERROR_INSUFFICIENT_FUNDS);
+  }
+
+  const bidPlacedAtTimestamp = new Date();
+  const existingSealedBid = await prismaClient.bid.findFirst({
+    where: { auctionItemId: auctionItem.id, bidderUserId, wasBidSuccessful: true }
+  });
+
+  // Any sealed bid may turn out to win, so each one holds its full amount until the auction is settled
+  const bidResult = await prismaClient.$transaction(async (transactionClient) => {
+    await verifyFencingTokenForAuctionWrite(transactionClient, auctionItem.id, fencingToken);
+    await adjustAuctionFundHolds(transactionClient, auctionItem.id, [{ userId: bidderUserId, amountInCents: bidAmountInCents }], false);
+
+    const sealedBid = existingSealedBid
+      ? await transactionClient.bid.update({
+          where: { id: existingSealedBid.id },
+          data: { bidAmountInCents: bidAmountInCents, placedAtTimestamp: bidPlacedAtTimestamp }
+        })
+      : await transactionClient.bid.create({
+          data: {
+            auctionItemId: auctionItem.id,
+            bidderUserId,
+            bidAmountInCents: bidAmountInCents,
+            placedAtTimestamp: bidPlacedAtTimestamp,
+            wasBidSuccessful: true
+          }
+        });
+
+    const bidResult: BidProcessingResult = {
+      wasBidSuccessful: true,
+      bidId: sealedBid.id,
+      currencyCode: auctionItem.currencyCode,
+      newHighestBidInCents: startingPriceInCents,
+      previousHighestBidInCents: startingPriceInCents,
+      highestBidderUserId: null,
+      highestBidderUsername: null,
+      maximumBidAmountInCents: null,
+      isReservePriceMet: null,
+      isBuyNowAvailable: false,
+      nextBidIncrementInCents: null,
+      bidPlacedAtTimestamp,
+      auctionEndTimeTimestamp: auctionItem.auctionEndTimeTimestamp,
+      previousAuctionEndTimeTimestamp: null,
+      isSealedBid: true,
+      bidderQuantityWinning: null,
+      errorCode: null,
+      errorMessage: null,
+      processingTimeInMs: 0
+    };
+
+    await recordBidPlacedEvent(transactionClient, auctionItem.id, bidResult);
+
+    return bidResult;
+  });
+
+  // Only the bid count changed, and replacing a sealed bid does not even change that
+  if (!existingSealedBid) {
+    await invalidateAuctionState(auctionItem.id);
+  }
+
+  return bidResult;
+}
+
+// ==============================|| MULTI-UNIT BID (WITHIN LOCK) ||============================== //
+
+// Each bidder holds one standing bid of a quantity at a per-unit price, replaced by their next bid.
+// The public price is the clearing price - the bid a newcomer has to beat once every unit is spoken for.
+async function placeMultiUnitBid(
+  auctionItem: AuctionItem,
+  incrementBands: BidIncrementBandData[],
+  bidderUserId: string,
+  bidAmountInCents: number,
+  bidQuantity: number,
+  maximumBidAmountInCents: number | null,
+  fencingToken: number
+): Promise<BidProcessingResult> {
+  if (maximumBidAmountInCents !== null) {
+    return createErrorResult(BID_ERROR_MULTI_UNIT_MAXIMUM_BID_NOT_ALLOWED);
+  }
+
+  if (!Number.isInteger(bidQuantity) || bidQuantity < 1 || bidQuantity > auctionItem.quantityAvailable) {
+    return {
+      ...createErrorResult(BID_ERROR_INVALID_QUANTITY),
+      errorMessage: `Quantity must be a whole number from 1 to ${auctionItem.quantityAvailable}`
+    };
+  }
+
+  const clearingPriceInCents = convertCentsToNumber(auctionItem.currentHighestBidInCents);
+  const minimumIncrementInCents = findBidIncrementForPrice(incrementBands, clearingPriceInCents);
+  const minimumRequiredBidInCents = clearingPriceInCents + minimumIncrementInCents;
+
+  if (bidAmountInCents < minimumRequiredBidInCents) {
+    return {
+      ...createErrorResult(BID_ERROR_BID_TOO_LOW),
+      previousHighestBidInCents: clearingPriceInCents,
+      errorMessage: `Bid must be at least ${formatMoney(createMoney(minimumRequiredBidInCents, auctionItem.currencyCode))} per unit (clearing price: ${formatMoney(createMoney(clearingPriceInCents, auctionItem.currencyCode))} + increment at this price: ${formatMoney(createMoney(minimumIncrementInCents, auctionItem.currencyCode))})`
+    };
+  }
+
+  const standingBids = await fetchStandingMultiUnitBids(prismaClient, auctionItem.id);
+  const bidderStandingBid = standingBids.find((standingBid) => standingBid.bidderUserId === bidderUserId);
+
+  if (bidderStandingBid && bidAmountInCents < bidderStandingBid.bidAmountInCents) {
+    return createErrorResult(BID_ERROR_MULTI_UNIT_BID_LOWERED);
+  }
+
+  if (bidAmountInCents * bidQuantity > (await fetchCommittableFundsInCents(bidderUserId, auctionItem.id))) {
+    return createErrorResult(BID_ERROR_INSUFFICIENT_FUNDS);
+  }
+
+  // Re-run the allocation with the new bid in place of the bidder's old one
+  const bidPlacedAtTimestamp = new Date();
+  const newStandingBids: MultiUnitBidEntry[] = [
+    ...standingBids.filter((standingBid) => standingBid.bidderUserId !== bidderUserId),
+    { bidderUserId, bidAmountInCents, bidQuantity, placedAtTimestamp: bidPlacedAtTimestamp }
+  ];
+  const allocationResult = allocateMultiUnitAuction(
+    newStandingBids,
+    auctionItem.quantityAvailable,
+    auctionItem.multiUnitPricing ?? 'PAY_AS_BID'
+  );
+  const newClearingPriceInCents = calculateMultiUnitClearingPrice(
+    allocationResult,
+    auctionItem.quantityAvailable,
+    convertCentsToNumber(auctionItem.startingPriceInCents)
+  );
+  const topBidderUserId = allocationResult.allocations[0].bidderUserId;
+  const bidderQuantityWinning =
+    allocationResult.allocations.find((allocation) => allocation.bidderUserId === bidderUserId)?.quantityWon ?? 0;
+
+  const newAuctionEndTimeTimestamp = calculateSoftCloseEndTime(
+    auctionItem.auctionEndTimeTimestamp,
+    bidPlacedAtTimestamp,
+    auctionItem.softCloseWindowInSeconds,
+    auctionItem.softCloseExtensionInSeconds
+  );
+  const wasAuctionExtended = newAuctionEndTimeTimestamp.getTime() !== auctionItem.auctionEndTimeTimestamp.getTime();
+
+  // Bidders winning any units hold their whole standing bid, so a larger share later needs no new money
+  const winningBidderUserIds = new Set(allocationResult.allocations.map((allocation) => allocation.bidderUserId));
+  const holdTargets = newStandingBids
+    .filter((standingBid) => winningBidderUserIds.has(standingBid.bidderUserId))
+    .map((standingBid) => ({
+      userId: standingBid.bidderUserId,
+      amountInCents: standingBid.bidAmountInCents * standingBid.bidQuantity
+    }));
+
+  const bidResult = await prismaClient.$transaction(async (transactionClient) => {
+    await verifyFencingTokenForAuctionWrite(transactionClient, auctionItem.id, fencingToken);
+
+    const updatedAuctionItem = await transactionClient.auctionItem.update({
+      where: { id: auctionItem.id },
+      data: {
+        currentHighestBidInCents: newClearingPriceInCents,
+        highestBidderUserId: topBidderUserId,
+        auctionEndTimeTimestamp: newAuctionEndTimeTimestamp,
         updatedAtTimestamp: bidPlacedAtTimestamp
+      },
+      include: {
+        highestBidderUser: { select: { id: true, username: true } }
       }
-    }),
-    // Create the bid record
-    prismaClient.bid.create({
+    });
+    const createdBid = await transactionClient.bid.create({
       data: {
-        auctionItemId,
+        auctionItemId: auctionItem.id,
         bidderUserId,
-        bidAmountInDollars: bidAmountDecimal,
+        bidAmountInCents: bidAmountInCents,
+        bidQuantity,
         placedAtTimestamp: bidPlacedAtTimestamp,
         wasBidSuccessful: true
       }
-    })
-  ]);
+    });
 
-  // Step 6: Update Redis cache
-  await updateAuctionCacheInRedis(auctionItemId, bidAmountInDollars, bidderUserId);
+    await adjustAuctionFundHolds(transactionClient, auctionItem.id, holdTargets, true);
 
-  return {
-    wasBidSuccessful: true,
-    bidId: createdBid.id,
-    newHighestBidInDollars: bidAmountInDollars,
-    previousHighestBidInDollars: currentBidAsNumber,
-    bidPlacedAtTimestamp,
-    errorCode: null,
-    errorMessage: null,
-    processingTimeInMs: 0
-  };
+    const bidResult: BidProcessingResult = {
+      wasBidSuccessful: true,
+      bidId: createdBid.id,
+      currencyCode: auctionItem.currencyCode,
+      newHighestBidInCents: newClearingPriceInCents,
+      previousHighestBidInCents: clearingPriceInCents,
+      highestBidderUserId: topBidderUserId,
+      highestBidderUsername: updatedAuctionItem.highestBidderUser?.username || null,
+      maximumBidAmountInCents: null,
+      isReservePriceMet: null,
+      isBuyNowAvailable: false,
+      nextBidIncrementInCents: findBidIncrementForPrice(incrementBands, newClearingPriceInCents),
+      bidPlacedAtTimestamp,
+      auctionEndTimeTimestamp: newAuctionEndTimeTimestamp,
+      previousAuctionEndTimeTimestamp: wasAuctionExtended ? auctionItem.auctionEndTimeTimestamp : null,
+      isSealedBid: false,
+      bidderQuantityWinning,
+      errorCode: null,
+      errorMessage: null,
+      processingTimeInMs: 0
+    };
+
+    await recordBidPlacedEvent(transactionClient, auctionItem.id, bidResult);
+
+    return bidResult;
+  });
+
+  await writeAuctionBidToStateCache({
+    auctionItemId: auctionItem.id,
+    stateVersion: fencingToken,
+    currentHighestBidInCents: newClearingPriceInCents,
+    highestBidderUserId: topBidderUserId,
+    highestBidderUsername: bidResult.highestBidderUsername,
+    bidIncrementInCents: bidResult.nextBidIncrementInCents!,
+    auctionEndTimeTimestamp: newAuctionEndTimeTimestamp,
+    placedBidCount: 1
+  });
+
+  return bidResult;
+}
+
+// A bidder's latest successful bid is their standing bid - earlier ones only remain as history
+export async function fetchStandingMultiUnitBids(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string
+): Promise<StandingMultiUnitBid[]> {
+  const allBids = await transactionClient.bid.findMany({
+    where: { auctionItemId, wasBidSuccessful: true },
+    include: { bidderUser: { select: { username: true } } },
+    orderBy: { placedAtTimestamp: 'desc' }
+  });
+
+  const standingBidsByBidder = new Map<string, StandingMultiUnitBid>();
+  for (const bid of allBids) {
+    if (standingBidsByBidder.has(bid.bidderUserId)) continue;
+
+    standingBidsByBidder.set(bid.bidderUserId, {
+      bidderUserId: bid.bidderUserId,
+      bidderUsername: bid.bidderUser.username,
+      bidAmountInCents: convertCentsToNumber(bid.bidAmountInCents),
+      bidQuantity: bid.bidQuantity,
+      placedAtTimestamp: bid.placedAtTimestamp
+    });
+  }
+
+  return [...standingBidsByBidder.values()];
 }
 
 // ==============================|| HELPER FUNCTIONS ||============================== //
 
+// Written in the bid's own transaction, so a crash after the commit cannot lose the broadcast.
+// A sealed bid's amount never enters the event - its result only carries the starting price
+async function recordBidPlacedEvent(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  bidResult: BidProcessingResult
+): Promise<void> {
+  await recordAuctionEvent(transactionClient, {
+    eventType: AUCTION_EVENT_BID_PLACED,
+    eventPayload: {
+      auctionItemId,
+      bidId: bidResult.bidId!,
+      currencyCode: bidResult.currencyCode!,
+      newHighestBidInCents: bidResult.newHighestBidInCents!,
+      highestBidderUserId: bidResult.highestBidderUserId,
+      highestBidderUsername: bidResult.highestBidderUsername,
+      bidPlacedAtTimestamp: bidResult.bidPlacedAtTimestamp!.toISOString(),
+      isReservePriceMet: bidResult.isReservePriceMet,
+      isBuyNowAvailable: bidResult.isBuyNowAvailable,
+      nextBidIncrementInCents: bidResult.nextBidIncrementInCents,
+      auctionEndTimeTimestamp: bidResult.auctionEndTimeTimestamp!.toISOString(),
+      previousAuctionEndTimeTimestamp: bidResult.previousAuctionEndTimeTimestamp?.toISOString() ?? null,
+      isSealedBid: bidResult.isSealedBid
+    }
+  });
+}
+
 function createErrorResult(errorCode: string): BidProcessingResult {
   return {
     wasBidSuccessful: false,
     bidId: null,
-    newHighestBidInDollars: null,
-    previousHighestBidInDollars: null,
+    currencyCode: null,
+    newHighestBidInCents: null,
+    previousHighestBidInCents: null,
+    highestBidderUserId: null,
+    highestBidderUsername: null,
+    maximumBidAmountInCents: null,
+    isReservePriceMet: null,
+    isBuyNowAvailable: false,
+    nextBidIncrementInCents: null,
     bidPlacedAtTimestamp: null,
+    auctionEndTimeTimestamp: null,
+    previousAuctionEndTimeTimestamp: null,
+    isSealedBid: false,
+    bidderQuantityWinning: null,
     errorCode,
     errorMessage: getErrorMessageFromCode(errorCode),
     processingTimeInMs: 0
   };
 }
 
-async function updateAuctionCacheInRedis(auctionItemId: string, currentBidInDollars: number, highestBidderUserId: string): Promise<void> {
-  try {
-    const currentBidKey = generateCurrentBidCacheKey(auctionItemId);
-    const highestBidderKey = generateHighestBidderCacheKey(auctionItemId);
+// Checks every bid goes through, whichever way it is committed. Returns the code that rejects the bid, or null
+async function findBidRejectionCode(auctionItem: AuctionItem, bidderUserId: string, bidCurrencyCode: string): Promise<string | null> {
+  // Bids are never converted - an amount in another currency is refused, not reinterpreted
+  if (bidCurrencyCode !== auctionItem.currencyCode) {
+    return BID_ERROR_CURRENCY_MISMATCH;
+  }
 
-    await Promise.all([
-      redisClient.setex(currentBidKey, CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS, currentBidInDollars.toString()),
-      redisClient.setex(highestBidderKey, CACHE_TTL_FOR_AUCTION_STATE_IN_SECONDS, highestBidderUserId)
-    ]);
-  } catch (cacheError) {
-    // Log but don't fail - cache is non-critical
-    logErrorMessage('Failed to update auction cache in Redis', cacheError, { auctionItemId });
+  // Auction status and timing
+  const currentTimestamp = new Date();
+
+  if (auctionItem.currentStatus === 'SCHEDULED') {
+    return BID_ERROR_AUCTION_NOT_STARTED;
+  }
+
+  if (auctionItem.currentStatus !== 'ACTIVE') {
+    return BID_ERROR_AUCTION_ENDED;
   }
+
+  if (auctionItem.auctionFormat === 'DUTCH') {
+    return BID_ERROR_WRONG_AUCTION_FORMAT;
+  }
+
+  if (currentTimestamp < auctionItem.auctionStartTimeTimestamp) {
+    return BID_ERROR_AUCTION_NOT_STARTED;
+  }
+
+  if (currentTimestamp >= auctionItem.auctionEndTimeTimestamp) {
+    return BID_ERROR_AUCTION_ENDED;
+  }
+
+  // The bidder must not be the creator, or have been barred for leaving items unpaid
+  if (auctionItem.creatorUserId === bidderUserId) {
+    return BID_ERROR_OWN_AUCTION;
+  }
+
+  if (await checkIsUserBiddingRestricted(bidderUserId)) {
+    return BID_ERROR_BIDDING_RESTRICTED;
+  }
+
+  return null;
+}
+
+export function checkIsReservePriceMet(currentBidInCents: number, reservePriceInCents: number | null): boolean | null {
+  return reservePriceInCents === null ? null : currentBidInCents >= reservePriceInCents;
+}
+
+function calculateSoftCloseEndTime(
+  auctionEndTimeTimestamp: Date,
+  bidPlacedAtTimestamp: Date,
+  softCloseWindowInSeconds: number,
+  softCloseExtensionInSeconds: number
+): Date {
+  if (softCloseWindowInSeconds <= 0 || softCloseExtensionInSeconds <= 0) {
+    return auctionEndTimeTimestamp;
+  }
+
+  const remainingTimeInMs = auctionEndTimeTimestamp.getTime() - bidPlacedAtTimestamp.getTime();
+
+  if (remainingTimeInMs > softCloseWindowInSeconds * 1000) {
+    return auctionEndTimeTimestamp;
+  }
+
+  return new Date(auctionEndTimeTimestamp.getTime() + softCloseExtensionInSeconds * 1000);
+}
+
+function upsertMaximumBid(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  bidderUserId: string,
+  maximumBidAmountInCents: number,
+  placedAtTimestamp: Date
+) {
+  return transactionClient.maximumBid.upsert({
+    where: { auctionItemId_bidderUserId: { auctionItemId, bidderUserId } },
+    create: {
+      auctionItemId,
+      bidderUserId,
+      maximumBidAmountInCents,
+      maximumBidPlacedAtTimestamp: placedAtTimestamp
+    },
+    update: {
+      maximumBidAmountInCents,
+      maximumBidPlacedAtTimestamp: placedAtTimestamp
+    }
+  });
 }
 
 // ==============================|| GET AUCTION BID INFO ||============================== //
 
+// Served from the auction state cache, so viewers joining and bid broadcasts do not reach Postgres
 export async function fetchCurrentAuctionBidInfo(auctionItemId: string): Promise<AuctionBidInfo | null> {
   try {
-    const auctionItem = await prismaClient.auctionItem.findUnique({
-      where: { id: auctionItemId },
-      include: {
-        _count: {
-          select: { allBidsOnItem: true }
-        }
-      }
-    });
+    const auctionState = await fetchAuctionState(auctionItemId);
 
-    if (!auctionItem) {
+    if (!auctionState) {
       return null;
     }
 
-    // Get highest bidder info
-    const highestBid = await prismaClient.bid.findFirst({
-      where: {
-        auctionItemId,
-        wasBidSuccessful: true
-      },
-      orderBy: {
-        bidAmountInDollars: 'desc'
-      },
-      include: {
-        bidderUser: {
-          select: { id: true, username: true }
-        }
-      }
-    });
-
     return {
-      auctionItemId: auctionItem.id,
-      currentHighestBidInDollars: auctionItem.currentHighestBidInDollars.toNumber(),
-      highestBidderUserId: highestBid?.bidderUser.id || null,
-      highestBidderUsername: highestBid?.bidderUser.username || null,
-      minimumBidIncrementInDollars: auctionItem.minimumBidIncrementInDollars.toNumber(),
-      auctionEndTimeTimestamp: auctionItem.auctionEndTimeTimestamp,
-      totalNumberOfBids: auctionItem._count.allBidsOnItem
+      auctionItemId: auctionState.auctionItemId,
+      currencyCode: auctionState.currencyCode,
+      currentStatus: auctionState.currentStatus,
+      currentHighestBidInCents: auctionState.currentHighestBidInCents,
+      highestBidderUserId: auctionState.highestBidderUserId,
+      highestBidderUsername: auctionState.highestBidderUsername,
+      bidIncrementInCents: auctionState.bidIncrementInCents,
+      auctionEndTimeTimestamp: auctionState.auctionEndTimeTimestamp,
+      totalNumberOfBids: auctionState.totalNumberOfBids,
+      isReservePriceMet: checkIsReservePriceMet(auctionState.currentHighestBidInCents, auctionState.reservePriceInCents)
     };
   } catch (error) {
     logErrorMessage('Error fetching auction bid info', error, { auctionItemId });
@@ -293,7 +1302,7 @@ export async function fetchCurrentAuctionBidInfo(auctionItemId: string): Promise
 export async function recordFailedBidAttempt(
   auctionItemId: string,
   bidderUserId: string,
-  bidAmountInDollars: number,
+  bidAmountInCents: number,
   processingTimeInMs: number
 ): Promise<void> {
   try {
@@ -301,7 +1310,7 @@ export async function recordFailedBidAttempt(
       data: {
         auctionItemId,
         bidderUserId,
-        bidAmountInDollars: new Decimal(bidAmountInDollars),
+        bidAmountInCents: bidAmountInCents,
         wasBidSuccessful: false,
         bidProcessingTimeInMs: processingTimeInMs
       }
@@ -310,7 +1319,7 @@ export async function recordFailedBidAttempt(
     logErrorMessage('Failed to record failed bid attempt', error, {
       auctionItemId,
       bidderUserId,
-      bidAmountInDollars
+      bidAmountInCents
     });
   }
 }
@@ -0,0 +1,194 @@
+// ==============================|| BID REQUEST DEDUPLICATION SERVICE ||============================== //
+// Remembers recent client bid request IDs and their outcomes in Redis, so a retried or duplicated
+// PLACE_BID is answered with the original outcome instead of placing a second bid
+
+import { redisClient } from '../config/redis-client.config';
+import {
+  generateBidRequestKey,
+  CACHE_TTL_FOR_BID_REQUEST_IN_SECONDS,
+  CACHE_TTL_FOR_UNCONFIRMED_BID_REQUEST_IN_SECONDS,
+  LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS
+} from '../constants/redis-keys.constants';
+import { PlaceBidAcknowledgement } from '../constants/socket-events.constants';
+import {
+  BID_ERROR_LOCK_ACQUISITION_FAILED,
+  BID_ERROR_LOCK_LEASE_LOST,
+  BID_ERROR_OUTCOME_UNKNOWN,
+  BID_ERROR_PROCESSING_FAILED,
+  BID_ERROR_QUEUE_TIMEOUT
+} from '../constants/error-codes.constants';
+import { logDebugMessage, logErrorMessage } from '../utils/logger.util';
+
+// A duplicate that arrives while the first attempt is still running waits this long for its outcome,
+// which is as long as the first attempt can hold the bid lock
+const DUPLICATE_BID_REQUEST_WAIT_IN_MILLISECONDS = LOCK_TTL_FOR_BID_PROCESSING_IN_MILLISECONDS;
+const DUPLICATE_BID_REQUEST_POLL_INTERVAL_IN_MILLISECONDS = 100;
+
+const BID_REQUEST_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Shortens a request's claim only while it is still pending, so an outcome recorded in the meantime is kept
+const LUA_SCRIPT_FOR_PENDING_REQUEST_EXPIRY = `
+  local storedRecordJson = redis.call("get", KEYS[1])
+  if storedRecordJson and cjson.decode(storedRecordJson).outcome == cjson.null then
+    return redis.call("expire", KEYS[1], ARGV[1])
+  else
+    return 0
+  end
+`;
+
+// Failures that say nothing about the bid itself. They are forgotten so a retry is processed again
+const RETRYABLE_BID_ERROR_CODES = new Set<string>([
+  BID_ERROR_LOCK_ACQUISITION_FAILED,
+  BID_ERROR_LOCK_LEASE_LOST,
+  BID_ERROR_PROCESSING_FAILED,
+  BID_ERROR_QUEUE_TIMEOUT
+]);
+
+// ==============================|| BID REQUEST INTERFACES ||============================== //
+
+interface BidRequestRecord {
+  requestFingerprint: string;
+  outcome: PlaceBidAcknowledgement | null; // Null while the first attempt is still being processed or its outcome is unknown
+}
+
+export interface BidRequestClaimResult {
+  // CLAIMED - first time this ID is seen, process the bid
+  // COMPLETED - already processed, reply with the stored outcome
+  // IN_PROGRESS - still being processed by the first attempt, or its outcome could not be confirmed
+  // REUSED - the ID was already used for a different bid
+  // UNAVAILABLE - Redis could not be reached, the bid is processed without deduplication
+  claimStatus: 'CLAIMED' | 'COMPLETED' | 'IN_PROGRESS' | 'REUSED' | 'UNAVAILABLE';
+  outcome: PlaceBidAcknowledgement | null;
+}
+
+// ==============================|| VALIDATION ||============================== //
+
+export function checkIsValidBidRequestId(value: unknown): value is string {
+  return typeof value === 'string' && BID_REQUEST_ID_PATTERN.test(value);
+}
+
+// Identifies what was asked for, so a request ID sent again with a different bid is caught
+export function createBidRequestFingerprint(
+  auctionItemId: string,
+  bidAmountInCents: number,
+  currencyCode: string,
+  maximumBidAmountInCents: number | null,
+  bidQuantity: number
+): string {
+  return [auctionItemId, bidAmountInCents, currencyCode, maximumBidAmountInCents ?? '', bidQuantity].join(':');
+}
+
+// ==============================|| CLAIM REQUEST ||============================== //
+
+export async function claimBidRequest(
+  bidderUserId: string,
+  bidRequestId: string,
+  requestFingerprint: string
+): Promise<BidRequestClaimResult> {
+  const bidRequestKey = generateBidRequestKey(bidderUserId, bidRequestId);
+  const pendingRecord: BidRequestRecord = { requestFingerprint, outcome: null };
+
+  try {
+    const claimResponse = await redisClient.set(
+      bidRequestKey,
+      JSON.stringify(pendingRecord),
+      'EX',
+      CACHE_TTL_FOR_BID_REQUEST_IN_SECONDS,
+      'NX'
+    );
+
+    if (claimResponse === 'OK') {
+      return { claimStatus: 'CLAIMED', outcome: null };
+    }
+
+    const waitDeadline = Date.now() + DUPLICATE_BID_REQUEST_WAIT_IN_MILLISECONDS;
+
+    for (;;) {
+      const storedRecordJson = await redisClient.get(bidRequestKey);
+
+      // Forgotten after a retryable failure - this attempt gets to process the bid instead
+      if (storedRecordJson === null) {
+        return claimBidRequest(bidderUserId, bidRequestId, requestFingerprint);
+      }
+
+      const storedRecord: BidRequestRecord = JSON.parse(storedRecordJson);
+
+      if (storedRecord.requestFingerprint !== requestFingerprint) {
+        return { claimStatus: 'REUSED', outcome: null };
+      }
+
+      if (storedRecord.outcome) {
+        logDebugMessage('Duplicate bid request answered with the stored outcome', { bidderUserId, bidRequestId });
+        return { claimStatus: 'COMPLETED', outcome: storedRecord.outcome };
+      }
+
+      if (Date.now() >= waitDeadline) {
+        return { claimStatus: 'IN_PROGRESS', outcome: null };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, DUPLICATE_BID_REQUEST_POLL_INTERVAL_IN_MILLISECONDS));
+    }
+  } catch (error) {
+    logErrorMessage('Failed to claim bid request', error, { bidderUserId, bidRequestId });
+    return { claimStatus: 'UNAVAILABLE', outcome: null };
+  }
+}
+
+// ==============================|| RECORD OUTCOME ||============================== //
+
+export async function recordBidRequestOutcome(
+  bidderUserId: string,
+  bidRequestId: string,
+  requestFingerprint: string,
+  outcome: PlaceBidAcknowledgement
+): Promise<void> {
+  // The bid may have been committed. The claim stays pending, so a retry is neither processed again nor
+  // answered as if it had failed. Whichever instance finishes the bid records its real outcome; a bid that never
+  // finishes lets go of the claim after a minute rather than blocking the bidder for the full TTL
+  if (!outcome.wasBidSuccessful && outcome.errorPayload.errorCode === BID_ERROR_OUTCOME_UNKNOWN) {
+    await shortenPendingBidRequest(bidderUserId, bidRequestId);
+    return;
+  }
+
+  if (!outcome.wasBidSuccessful && RETRYABLE_BID_ERROR_CODES.has(outcome.errorPayload.errorCode)) {
+    await releaseBidRequest(bidderUserId, bidRequestId);
+    return;
+  }
+
+  const completedRecord: BidRequestRecord = { requestFingerprint, outcome };
+
+  try {
+    await redisClient.set(
+      generateBidRequestKey(bidderUserId, bidRequestId),
+      JSON.stringify(completedRecord),
+      'EX',
+      CACHE_TTL_FOR_BID_REQUEST_IN_SECONDS
+    );
+  } catch (error) {
+    logErrorMessage('Failed to record bid request outcome', error, { bidderUserId, bidRequestId });
+  }
+}
+
+async function shortenPendingBidRequest(bidderUserId: string, bidRequestId: string): Promise<void> {
+  try {
+    await redisClient.eval(
+      LUA_SCRIPT_FOR_PENDING_REQUEST_EXPIRY,
+      1,
+      generateBidRequestKey(bidderUserId, bidRequestId),
+      CACHE_TTL_FOR_UNCONFIRMED_BID_REQUEST_IN_SECONDS
+    );
+  } catch (error) {
+    logErrorMessage('Failed to shorten unconfirmed bid request', error, { bidderUserId, bidRequestId });
+  }
+}
+
+// ==============================|| RELEASE REQUEST ||============================== //
+
+// Forgets a request whose processing failed before it had an outcome, so a retry is processed again
+export async function releaseBidRequest(bidderUserId: string, bidRequestId: string): Promise<void> {
+  try {
+    await redisClient.del(generateBidRequestKey(bidderUserId, bidRequestId));
+  } catch (error) {
+    logErrorMessage('Failed to release bid request', error, { bidderUserId, bidRequestId });
+  }
+}
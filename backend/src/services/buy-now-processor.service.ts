@@ -0,0 +1,259 @@
+// ==============================|| BUY NOW PROCESSOR SERVICE ||============================== //
+// Handles Buy-It-Now purchases that end an auction immediately, serialized with bids by the same distributed lock
+
+import { prismaClient } from '../config/prisma-client.config';
+import { environmentConfig } from '../config/environment.config';
+import { executeWithDistributedLock, verifyFencingTokenForAuctionWrite } from '../lib/distributed-lock-manager.lib';
+import {
+  AUCTION_ERROR_NOT_FOUND,
+  AUCTION_ERROR_ALREADY_ENDED,
+  BID_ERROR_AUCTION_NOT_STARTED,
+  BID_ERROR_INSUFFICIENT_FUNDS,
+  BID_ERROR_LOCK_ACQUISITION_FAILED,
+  BUY_NOW_ERROR_NOT_AVAILABLE,
+  BUY_NOW_ERROR_OWN_AUCTION,
+  BUY_NOW_ERROR_PROCESSING_FAILED,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { AUCTION_EVENT_AUCTION_ENDED } from '../constants/auction-events.constants';
+import { logBidProcessingEvent } from '../utils/logger.util';
+import { convertCentsToNumber, convertOptionalCentsToNumber } from '../utils/money.util';
+import { checkIsInsufficientFundsError, releaseAuctionFundHolds, settleAuctionFundHolds } from './wallet-ledger.service';
+import { invalidateAuctionState } from './auction-state-cache.service';
+import { notifyAuctionEventsRecorded, recordAuctionEvent } from './auction-event-outbox.service';
+
+// ==============================|| BUY NOW RESULT INTERFACES ||============================== //
+
+export interface BuyNowProcessingResult {
+  wasPurchaseSuccessful: boolean;
+  auctionItemId: string;
+  buyerUserId: string | null;
+  buyerUsername: string | null;
+  purchasePriceInCents: number | null;
+  currencyCode: string | null; // The auction's currency
+  purchasedAtTimestamp: Date | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  processingTimeInMs: number;
+}
+
+// ==============================|| BUY NOW AVAILABILITY ||============================== //
+
+export function checkIsBuyNowAvailable(buyNowPriceInCents: number | null, currentHighestBidInCents: number, hasAnyBids: boolean): boolean {
+  if (buyNowPriceInCents === null) {
+    return false;
+  }
+
+  if (!hasAnyBids) {
+    return true;
+  }
+
+  const disableThresholdInCents = (buyNowPriceInCents * environmentConfig.BUY_NOW_DISABLE_THRESHOLD_PERCENT) / 100;
+
+  return currentHighestBidInCents < disableThresholdInCents;
+}
+
+// ==============================|| PROCESS BUY NOW WITH LOCK ||============================== //
+
+export async function processBuyNowWithDistributedLock(auctionItemId: string, buyerUserId: string): Promise<BuyNowProcessingResult> {
+  const processingStartTime = Date.now();
+
+  logBidProcessingEvent('BUY_NOW_RECEIVED', auctionItemId, buyerUserId);
+
+  const lockExecutionResult = await executeWithDistributedLock<BuyNowProcessingResult>(auctionItemId, async (heldLock) => {
+    try {
+      return await processBuyNowTransaction(auctionItemId, buyerUserId, heldLock.fencingToken);
+    } catch (error) {
+      if (checkIsInsufficientFundsError(error)) {
+        return createErrorResult(auctionItemId, BID_ERROR_INSUFFICIENT_FUNDS);
+      }
+
+      throw error;
+    }
+  });
+
+  const processingTimeInMs = Date.now() - processingStartTime;
+
+  if (!lockExecutionResult.wasLockAcquired) {
+    logBidProcessingEvent('BUY_NOW_FAILED', auctionItemId, buyerUserId, {
+      reason: 'Lock acquisition failed',
+      processingTimeInMs
+    });
+
+    return { ...createErrorResult(auctionItemId, BID_ERROR_LOCK_ACQUISITION_FAILED), processingTimeInMs };
+  }
+
+  if (!lockExecutionResult.wasExecutionSuccessful || !lockExecutionResult.executionResult) {
+    logBidProcessingEvent('BUY_NOW_FAILED', auctionItemId, buyerUserId, {
+      reason: lockExecutionResult.errorMessage,
+      processingTimeInMs
+    });
+
+    return { ...createErrorResult(auctionItemId, BUY_NOW_ERROR_PROCESSING_FAILED), processingTimeInMs };
+  }
+
+  const result = lockExecutionResult.executionResult;
+  result.processingTimeInMs = processingTimeInMs;
+
+  if (result.wasPurchaseSuccessful) {
+    logBidProcessingEvent('BUY_NOW_PROCESSED', auctionItemId, buyerUserId, {
+      purchasePriceInCents: result.purchasePriceInCents,
+      processingTimeInMs
+    });
+  }
+
+  return result;
+}
+
+// ==============================|| BUY NOW TRANSACTION (WITHIN LOCK) ||============================== //
+
+async function processBuyNowTransaction(auctionItemId: string, buyerUserId: string, fencingToken: number): Promise<BuyNowProcessingResult> {
+  const auctionItem = await prismaClient.auctionItem.findUnique({
+    where: { id: auctionItemId }
+  });
+
+  if (!auctionItem) {
+    return createErrorResult(auctionItemId, AUCTION_ERROR_NOT_FOUND);
+  }
+
+  const currentTimestamp = new Date();
+
+  if (auctionItem.currentStatus === 'SCHEDULED') {
+    return createErrorResult(auctionItemId, BID_ERROR_AUCTION_NOT_STARTED);
+  }
+
+  if (auctionItem.currentStatus !== 'ACTIVE' || currentTimestamp >= auctionItem.auctionEndTimeTimestamp) {
+    return createErrorResult(auctionItemId, AUCTION_ERROR_ALREADY_ENDED);
+  }
+
+  if (currentTimestamp < auctionItem.auctionStartTimeTimestamp) {
+    return createErrorResult(auctionItemId, BID_ERROR_AUCTION_NOT_STARTED);
+  }
+
+  if (auctionItem.creatorUserId === buyerUserId) {
+    return createErrorResult(auctionItemId, BUY_NOW_ERROR_OWN_AUCTION);
+  }
+
+  const buyNowPriceInCents = convertOptionalCentsToNumber(auctionItem.buyNowPriceInCents);
+
+  if (
+    buyNowPriceInCents === null ||
+    !checkIsBuyNowAvailable(
+      buyNowPriceInCents,
+      convertCentsToNumber(auctionItem.currentHighestBidInCents),
+      auctionItem.highestBidderUserId !== null
+    )
+  ) {
+    return createErrorResult(auctionItemId, BUY_NOW_ERROR_NOT_AVAILABLE);
+  }
+
+  // Record the purchase as the winning bid and end the auction in one transaction
+  const [updatedAuctionItem] = await prismaClient.$transaction(async (transactionClient) => {
+    await verifyFencingTokenForAuctionWrite(transactionClient, auctionItemId, fencingToken);
+
+    const updatedAuctionItem = await transactionClient.auctionItem.update({
+      where: { id: auctionItemId },
+      data: {
+        currentHighestBidInCents: buyNowPriceInCents,
+        highestBidderUserId: buyerUserId,
+        currentStatus: 'ENDED',
+        endReason: 'BOUGHT_NOW',
+        auctionEndTimeTimestamp: currentTimestamp,
+        updatedAtTimestamp: currentTimestamp
+      },
+      include: {
+        highestBidderUser: { select: { id: true, username: true } }
+      }
+    });
+    await transactionClient.bid.create({
+      data: {
+        auctionItemId,
+        bidderUserId: buyerUserId,
+        bidAmountInCents: buyNowPriceInCents,
+        placedAtTimestamp: currentTimestamp,
+        wasBidSuccessful: true
+      }
+    });
+    await transactionClient.auctionWinner.create({
+      data: {
+        auctionItemId,
+        winnerUserId: buyerUserId,
+        pricePerUnitInCents: buyNowPriceInCents,
+        wonAtTimestamp: currentTimestamp,
+        // Paid from the wallet below, so the order is settled from the start
+        order: {
+          create: {
+            auctionItemId,
+            buyerUserId,
+            amountInCents: buyNowPriceInCents,
+            orderStatus: 'PAID',
+            paymentMethod: 'WALLET',
+            paymentDeadlineTimestamp: currentTimestamp,
+            paidAtTimestamp: currentTimestamp
+          }
+        }
+      }
+    });
+
+    // Pay the seller there and then, releasing the holds of anyone still bidding
+    await settleAuctionFundHolds(transactionClient, auctionItemId, auctionItem.creatorUserId, [
+      { payerUserId: buyerUserId, amountInCents: buyNowPriceInCents }
+    ]);
+    await releaseAuctionFundHolds(transactionClient, auctionItemId);
+
+    await recordAuctionEvent(transactionClient, {
+      eventType: AUCTION_EVENT_AUCTION_ENDED,
+      eventPayload: {
+        auctionItemId,
+        winnerUserId: buyerUserId,
+        winnerUsername: updatedAuctionItem.highestBidderUser!.username,
+        winners: [
+          {
+            userId: buyerUserId,
+            username: updatedAuctionItem.highestBidderUser!.username,
+            quantityWon: 1,
+            pricePerUnitInCents: buyNowPriceInCents
+          }
+        ],
+        finalBidAmountInCents: buyNowPriceInCents,
+        currencyCode: updatedAuctionItem.currencyCode,
+        endReason: 'BOUGHT_NOW'
+      }
+    });
+
+    return [updatedAuctionItem] as const;
+  });
+
+  await invalidateAuctionState(auctionItemId);
+  await notifyAuctionEventsRecorded();
+
+  return {
+    wasPurchaseSuccessful: true,
+    auctionItemId,
+    buyerUserId,
+    buyerUsername: updatedAuctionItem.highestBidderUser?.username || null,
+    purchasePriceInCents: buyNowPriceInCents,
+    currencyCode: updatedAuctionItem.currencyCode,
+    purchasedAtTimestamp: currentTimestamp,
+    errorCode: null,
+    errorMessage: null,
+    processingTimeInMs: 0
+  };
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function createErrorResult(auctionItemId: string, errorCode: string): BuyNowProcessingResult {
+  return {
+    wasPurchaseSuccessful: false,
+    auctionItemId,
+    buyerUserId: null,
+    buyerUsername: null,
+    purchasePriceInCents: null,
+    currencyCode: null,
+    purchasedAtTimestamp: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode),
+    processingTimeInMs: 0
+  };
+}
@@ -0,0 +1,244 @@
+// ==============================|| DUTCH AUCTION PROCESSOR SERVICE ||============================== //
+// Handles accepting the current descending price of a Dutch auction. Acceptances are serialized by the
+// distributed lock so only the first buyer wins, and the price is always taken from server time.
+
+import { prismaClient } from '../config/prisma-client.config';
+import { executeWithDistributedLock, verifyFencingTokenForAuctionWrite } from '../lib/distributed-lock-manager.lib';
+import {
+  AUCTION_ERROR_NOT_FOUND,
+  AUCTION_ERROR_ALREADY_ENDED,
+  BID_ERROR_AUCTION_NOT_STARTED,
+  BID_ERROR_INSUFFICIENT_FUNDS,
+  BID_ERROR_LOCK_ACQUISITION_FAILED,
+  DUTCH_ERROR_NOT_DUTCH_AUCTION,
+  DUTCH_ERROR_OWN_AUCTION,
+  DUTCH_ERROR_PROCESSING_FAILED,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { AUCTION_EVENT_AUCTION_ENDED } from '../constants/auction-events.constants';
+import { buildDutchPriceScheduleFromAuctionItem, calculateDutchPriceAtTime } from '../utils/dutch-auction-pricing.util';
+import { logBidProcessingEvent } from '../utils/logger.util';
+import { checkIsInsufficientFundsError, settleAuctionFundHolds } from './wallet-ledger.service';
+import { invalidateAuctionState } from './auction-state-cache.service';
+import { notifyAuctionEventsRecorded, recordAuctionEvent } from './auction-event-outbox.service';
+
+// ==============================|| DUTCH ACCEPTANCE RESULT INTERFACES ||============================== //
+
+export interface DutchAcceptanceResult {
+  wasAcceptanceSuccessful: boolean;
+  auctionItemId: string;
+  buyerUserId: string | null;
+  buyerUsername: string | null;
+  purchasePriceInCents: number | null;
+  currencyCode: string | null; // The auction's currency
+  purchasedAtTimestamp: Date | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+  processingTimeInMs: number;
+}
+
+// ==============================|| PROCESS ACCEPTANCE WITH LOCK ||============================== //
+
+export async function processDutchAcceptanceWithDistributedLock(
+  auctionItemId: string,
+  buyerUserId: string
+): Promise<DutchAcceptanceResult> {
+  const processingStartTime = Date.now();
+
+  logBidProcessingEvent('DUTCH_ACCEPT_RECEIVED', auctionItemId, buyerUserId);
+
+  const lockExecutionResult = await executeWithDistributedLock<DutchAcceptanceResult>(auctionItemId, async (heldLock) => {
+    try {
+      return await processDutchAcceptanceTransaction(auctionItemId, buyerUserId, heldLock.fencingToken);
+    } catch (error) {
+      if (checkIsInsufficientFundsError(error)) {
+        return createErrorResult(auctionItemId, BID_ERROR_INSUFFICIENT_FUNDS);
+      }
+
+      throw error;
+    }
+  });
+
+  const processingTimeInMs = Date.now() - processingStartTime;
+
+  if (!lockExecutionResult.wasLockAcquired) {
+    logBidProcessingEvent('DUTCH_ACCEPT_FAILED', auctionItemId, buyerUserId, {
+      reason: 'Lock acquisition failed',
+      processingTimeInMs
+    });
+
+    return { ...createErrorResult(auctionItemId, BID_ERROR_LOCK_ACQUISITION_FAILED), processingTimeInMs };
+  }
+
+  if (!lockExecutionResult.wasExecutionSuccessful || !lockExecutionResult.executionResult) {
+    logBidProcessingEvent('DUTCH_ACCEPT_FAILED', auctionItemId, buyerUserId, {
+      reason: lockExecutionResult.errorMessage,
+      processingTimeInMs
+    });
+
+    return { ...createErrorResult(auctionItemId, DUTCH_ERROR_PROCESSING_FAILED), processingTimeInMs };
+  }
+
+  const result = lockExecutionResult.executionResult;
+  result.processingTimeInMs = processingTimeInMs;
+
+  if (result.wasAcceptanceSuccessful) {
+    logBidProcessingEvent('DUTCH_ACCEPT_PROCESSED', auctionItemId, buyerUserId, {
+      purchasePriceInCents: result.purchasePriceInCents,
+      processingTimeInMs
+    });
+  }
+
+  return result;
+}
+
+// ==============================|| ACCEPTANCE TRANSACTION (WITHIN LOCK) ||============================== //
+
+async function processDutchAcceptanceTransaction(
+  auctionItemId: string,
+  buyerUserId: string,
+  fencingToken: number
+): Promise<DutchAcceptanceResult> {
+  const auctionItem = await prismaClient.auctionItem.findUnique({
+    where: { id: auctionItemId }
+  });
+
+  if (!auctionItem) {
+    return createErrorResult(auctionItemId, AUCTION_ERROR_NOT_FOUND);
+  }
+
+  const dutchPriceSchedule = buildDutchPriceScheduleFromAuctionItem(auctionItem);
+
+  if (!dutchPriceSchedule) {
+    return createErrorResult(auctionItemId, DUTCH_ERROR_NOT_DUTCH_AUCTION);
+  }
+
+  // The lock holder's clock decides the price - it only ever falls, so a buyer never pays more than they saw
+  const currentTimestamp = new Date();
+
+  if (auctionItem.currentStatus === 'SCHEDULED') {
+    return createErrorResult(auctionItemId, BID_ERROR_AUCTION_NOT_STARTED);
+  }
+
+  if (auctionItem.currentStatus !== 'ACTIVE' || currentTimestamp >= auctionItem.auctionEndTimeTimestamp) {
+    return createErrorResult(auctionItemId, AUCTION_ERROR_ALREADY_ENDED);
+  }
+
+  if (currentTimestamp < auctionItem.auctionStartTimeTimestamp) {
+    return createErrorResult(auctionItemId, BID_ERROR_AUCTION_NOT_STARTED);
+  }
+
+  if (auctionItem.creatorUserId === buyerUserId) {
+    return createErrorResult(auctionItemId, DUTCH_ERROR_OWN_AUCTION);
+  }
+
+  const purchasePriceInCents = calculateDutchPriceAtTime(dutchPriceSchedule, currentTimestamp.getTime());
+
+  const [updatedAuctionItem] = await prismaClient.$transaction(async (transactionClient) => {
+    await verifyFencingTokenForAuctionWrite(transactionClient, auctionItemId, fencingToken);
+
+    const updatedAuctionItem = await transactionClient.auctionItem.update({
+      where: { id: auctionItemId },
+      data: {
+        currentHighestBidInCents: purchasePriceInCents,
+        highestBidderUserId: buyerUserId,
+        currentStatus: 'ENDED',
+        endReason: 'SOLD',
+        auctionEndTimeTimestamp: currentTimestamp,
+        updatedAtTimestamp: currentTimestamp
+      },
+      include: {
+        highestBidderUser: { select: { id: true, username: true } }
+      }
+    });
+    await transactionClient.bid.create({
+      data: {
+        auctionItemId,
+        bidderUserId: buyerUserId,
+        bidAmountInCents: purchasePriceInCents,
+        placedAtTimestamp: currentTimestamp,
+        wasBidSuccessful: true
+      }
+    });
+    await transactionClient.auctionWinner.create({
+      data: {
+        auctionItemId,
+        winnerUserId: buyerUserId,
+        pricePerUnitInCents: purchasePriceInCents,
+        wonAtTimestamp: currentTimestamp,
+        // Paid from the wallet below, so the order is settled from the start
+        order: {
+          create: {
+            auctionItemId,
+            buyerUserId,
+            amountInCents: purchasePriceInCents,
+            orderStatus: 'PAID',
+            paymentMethod: 'WALLET',
+            paymentDeadlineTimestamp: currentTimestamp,
+            paidAtTimestamp: currentTimestamp
+          }
+        }
+      }
+    });
+
+    // The buyer pays the seller straight from their wallet
+    await settleAuctionFundHolds(transactionClient, auctionItemId, auctionItem.creatorUserId, [
+      { payerUserId: buyerUserId, amountInCents: purchasePriceInCents }
+    ]);
+
+    await recordAuctionEvent(transactionClient, {
+      eventType: AUCTION_EVENT_AUCTION_ENDED,
+      eventPayload: {
+        auctionItemId,
+        winnerUserId: buyerUserId,
+        winnerUsername: updatedAuctionItem.highestBidderUser!.username,
+        winners: [
+          {
+            userId: buyerUserId,
+            username: updatedAuctionItem.highestBidderUser!.username,
+            quantityWon: 1,
+            pricePerUnitInCents: purchasePriceInCents
+          }
+        ],
+        finalBidAmountInCents: purchasePriceInCents,
+        currencyCode: updatedAuctionItem.currencyCode,
+        endReason: 'SOLD'
+      }
+    });
+
+    return [updatedAuctionItem] as const;
+  });
+
+  await invalidateAuctionState(auctionItemId);
+  await notifyAuctionEventsRecorded();
+
+  return {
+    wasAcceptanceSuccessful: true,
+    auctionItemId,
+    buyerUserId,
+    buyerUsername: updatedAuctionItem.highestBidderUser?.username || null,
+    purchasePriceInCents,
+    currencyCode: updatedAuctionItem.currencyCode,
+    purchasedAtTimestamp: currentTimestamp,
+    errorCode: null,
+    errorMessage: null,
+    processingTimeInMs: 0
+  };
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function createErrorResult(auctionItemId: string, errorCode: string): DutchAcceptanceResult {
+  return {
+    wasAcceptanceSuccessful: false,
+    auctionItemId,
+    buyerUserId: null,
+    buyerUsername: null,
+    purchasePriceInCents: null,
+    currencyCode: null,
+    purchasedAtTimestamp: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode),
+    processingTimeInMs: 0
+  };
+}
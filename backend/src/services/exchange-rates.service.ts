@@ -0,0 +1,114 @@
+// ==============================|| EXCHANGE RATES SERVICE ||============================== //
+// The admin-maintained rate table clients use to show prices in each user's display currency.
+// Rates never touch stored money - bids, holds and orders always stay in the auction's own currency
+
+import { Prisma } from '@prisma/client';
+import { prismaClient } from '../config/prisma-client.config';
+import {
+  CURRENCY_ERROR_INVALID_RATE,
+  CURRENCY_ERROR_OPERATION_FAILED,
+  CURRENCY_ERROR_PLATFORM_RATE_FIXED,
+  CURRENCY_ERROR_UNSUPPORTED,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { logErrorMessage, logInfoMessage } from '../utils/logger.util';
+import { PLATFORM_CURRENCY_CODE, SUPPORTED_CURRENCY_CODES, checkIsSupportedCurrencyCode } from '../utils/money.util';
+
+// Matches the DECIMAL(18, 8) column
+const EXCHANGE_RATE_PATTERN = /^\d{1,10}(?:\.\d{1,8})?$/;
+
+// ==============================|| EXCHANGE RATE INTERFACES ||============================== //
+
+export interface ExchangeRateData {
+  currencyCode: string;
+  unitsPerPlatformUnit: string; // Sent as a decimal string so no precision is lost on the way
+  quotedAtTimestamp: Date;
+  updatedByUsername: string | null;
+}
+
+export interface ExchangeRateUpdateResult {
+  wasUpdateSuccessful: boolean;
+  exchangeRate: ExchangeRateData | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+// ==============================|| FETCH RATES ||============================== //
+
+// A supported currency without a rate yet is simply missing, and clients show its prices unconverted
+export async function fetchExchangeRates(): Promise<ExchangeRateData[]> {
+  try {
+    const exchangeRates = await prismaClient.exchangeRate.findMany({
+      where: { currencyCode: { in: [...SUPPORTED_CURRENCY_CODES] } },
+      include: { updatedByUser: { select: { username: true } } },
+      orderBy: { currencyCode: 'asc' }
+    });
+
+    return exchangeRates.map((exchangeRate) => ({
+      currencyCode: exchangeRate.currencyCode,
+      unitsPerPlatformUnit: exchangeRate.unitsPerPlatformUnit.toString(),
+      quotedAtTimestamp: exchangeRate.quotedAtTimestamp,
+      updatedByUsername: exchangeRate.updatedByUser?.username ?? null
+    }));
+  } catch (error) {
+    logErrorMessage('Error fetching exchange rates', error);
+    return [];
+  }
+}
+
+// ==============================|| UPDATE RATE ||============================== //
+
+// Every update re-stamps the rate, so clients can always say how old a conversion is
+export async function updateExchangeRate(adminUserId: string, currencyCode: string, rate: unknown): Promise<ExchangeRateUpdateResult> {
+  if (!checkIsSupportedCurrencyCode(currencyCode)) {
+    return createErrorResult(CURRENCY_ERROR_UNSUPPORTED);
+  }
+
+  if (currencyCode === PLATFORM_CURRENCY_CODE) {
+    return createErrorResult(CURRENCY_ERROR_PLATFORM_RATE_FIXED);
+  }
+
+  const rateText = typeof rate === 'number' || typeof rate === 'string' ? String(rate).trim() : '';
+
+  if (!EXCHANGE_RATE_PATTERN.test(rateText) || new Prisma.Decimal(rateText).lte(0)) {
+    return createErrorResult(CURRENCY_ERROR_INVALID_RATE);
+  }
+
+  try {
+    const quotedAtTimestamp = new Date();
+    const exchangeRate = await prismaClient.exchangeRate.upsert({
+      where: { currencyCode },
+      create: { currencyCode, unitsPerPlatformUnit: rateText, quotedAtTimestamp, updatedByUserId: adminUserId },
+      update: { unitsPerPlatformUnit: rateText, quotedAtTimestamp, updatedByUserId: adminUserId },
+      include: { updatedByUser: { select: { username: true } } }
+    });
+
+    logInfoMessage('Exchange rate updated', { currencyCode, rate: rateText, adminUserId });
+
+    return {
+      wasUpdateSuccessful: true,
+      exchangeRate: {
+        currencyCode: exchangeRate.currencyCode,
+        unitsPerPlatformUnit: exchangeRate.unitsPerPlatformUnit.toString(),
+        quotedAtTimestamp: exchangeRate.quotedAtTimestamp,
+        updatedByUsername: exchangeRate.updatedByUser?.username ?? null
+      },
+      errorCode: null,
+      errorMessage: null
+    };
+  } catch (error) {
+    logErrorMessage('Error updating exchange rate', error, { currencyCode, adminUserId });
+    return createErrorResult(CURRENCY_ERROR_OPERATION_FAILED);
+  }
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function createErrorResult(errorCode: string): ExchangeRateUpdateResult {
+  return {
+    wasUpdateSuccessful: false,
+    exchangeRate: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode)
+  };
+}
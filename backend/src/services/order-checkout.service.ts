@@ -0,0 +1,284 @@
+// ==============================|| ORDER CHECKOUT SERVICE ||============================== //
+// Every auction win becomes an order with a payment deadline. Winners whose wallet covered the price at close
+// start out paid; the rest pay through the payment provider, which confirms the outcome with a callback.
+
+import { Prisma } from '@prisma/client';
+import { prismaClient } from '../config/prisma-client.config';
+import { environmentConfig } from '../config/environment.config';
+import { findPaymentProviderByName, getActivePaymentProvider } from '../lib/payment-provider.lib';
+import {
+  ORDER_ERROR_NOT_FOUND,
+  ORDER_ERROR_ALREADY_PAID,
+  ORDER_ERROR_PAYMENT_IN_PROGRESS,
+  ORDER_ERROR_CHECKOUT_FAILED,
+  ORDER_ERROR_PAYMENT_DEADLINE_PASSED,
+  PAYMENT_ERROR_UNKNOWN_PROVIDER,
+  PAYMENT_ERROR_INVALID_CALLBACK,
+  PAYMENT_ERROR_PROVIDER_UNAVAILABLE,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { AuctionPayment, recordProviderPaymentToSeller, settleEndedAuctionFunds } from './wallet-ledger.service';
+import { resolveWalletDepositPayment } from './wallet-deposit.service';
+import { logErrorMessage, logInfoMessage, logWarningMessage } from '../utils/logger.util';
+import { convertCentsToNumber } from '../utils/money.util';
+
+// ==============================|| ORDER INTERFACES ||============================== //
+
+export interface OrderCheckoutResult {
+  wasCheckoutStarted: boolean;
+  orderId: string;
+  paymentId: string | null;
+  checkoutUrl: string | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+export interface PaymentCallbackResult {
+  wasCallbackAccepted: boolean;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+// ==============================|| OPEN ORDERS ||============================== //
+
+export function calculatePaymentDeadline(fromTimestamp: Date): Date {
+  return new Date(fromTimestamp.getTime() + environmentConfig.ORDER_PAYMENT_DEADLINE_IN_HOURS * 60 * 60 * 1000);
+}
+
+// An unpaid order past its deadline is overdue. Derived rather than stored, so it can never go stale
+export function checkIsOrderOverdue(order: { orderStatus: string; paymentDeadlineTimestamp: Date }, currentTimestamp: Date): boolean {
+  return order.orderStatus === 'AWAITING_PAYMENT' && order.paymentDeadlineTimestamp.getTime() <= currentTimestamp.getTime();
+}
+
+// Called in the same transaction that records the winners of a closed auction: pays the seller from each winner's
+// wallet where it can, then opens an order per win. Winners already holding an order are skipped, so running it twice is harmless
+export async function openOrdersForEndedAuction(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  sellerUserId: string,
+  auctionPayments: AuctionPayment[]
+): Promise<void> {
+  const walletPaidUserIds = await settleEndedAuctionFunds(transactionClient, auctionItemId, sellerUserId, auctionPayments);
+
+  const auctionWinnersWithoutOrder = await transactionClient.auctionWinner.findMany({
+    where: { auctionItemId, order: null }
+  });
+  const currentTimestamp = new Date();
+
+  for (const auctionWinner of auctionWinnersWithoutOrder) {
+    const isPaidFromWallet = walletPaidUserIds.has(auctionWinner.winnerUserId);
+
+    await transactionClient.order.create({
+      data: {
+        auctionWinnerId: auctionWinner.id,
+        auctionItemId,
+        buyerUserId: auctionWinner.winnerUserId,
+        amountInCents: auctionWinner.pricePerUnitInCents * BigInt(auctionWinner.quantityWon),
+        orderStatus: isPaidFromWallet ? 'PAID' : 'AWAITING_PAYMENT',
+        paymentMethod: isPaidFromWallet ? 'WALLET' : null,
+        paymentDeadlineTimestamp: calculatePaymentDeadline(currentTimestamp),
+        paidAtTimestamp: isPaidFromWallet ? currentTimestamp : null
+      }
+    });
+  }
+}
+
+// ==============================|| START CHECKOUT ||============================== //
+
+// The payment row is written before the provider is called, so its id can travel with the session and
+// a callback can always be matched - even one that arrives before the provider call has returned
+export async function startOrderCheckout(orderId: string, buyerUserId: string): Promise<OrderCheckoutResult> {
+  const order = await prismaClient.order.findUnique({
+    where: { id: orderId },
+    include: { auctionItem: { select: { itemTitle: true, currencyCode: true } } }
+  });
+
+  if (!order || order.buyerUserId !== buyerUserId) {
+    return createCheckoutErrorResult(orderId, ORDER_ERROR_NOT_FOUND);
+  }
+
+  if (order.orderStatus === 'PAID') {
+    return createCheckoutErrorResult(orderId, ORDER_ERROR_ALREADY_PAID);
+  }
+
+  const currentTimestamp = new Date();
+
+  if (order.orderStatus === 'VOIDED' || checkIsOrderOverdue(order, currentTimestamp)) {
+    return createCheckoutErrorResult(orderId, ORDER_ERROR_PAYMENT_DEADLINE_PASSED);
+  }
+
+  const paymentProvider = getActivePaymentProvider();
+
+  if (!paymentProvider) {
+    return createCheckoutErrorResult(orderId, PAYMENT_ERROR_PROVIDER_UNAVAILABLE);
+  }
+
+  // Claim the order for this checkout; a second click or a second tab loses the race here
+  const orderPayment = await prismaClient.$transaction(async (transactionClient) => {
+    const claimResult = await transactionClient.order.updateMany({
+      where: { id: orderId, orderStatus: 'AWAITING_PAYMENT', paymentDeadlineTimestamp: { gt: currentTimestamp } },
+      data: { orderStatus: 'PAYMENT_PENDING' }
+    });
+
+    if (claimResult.count === 0) return null;
+
+    return await transactionClient.orderPayment.create({
+      data: {
+        orderId,
+        providerName: paymentProvider.providerName,
+        amountInCents: order.amountInCents
+      }
+    });
+  });
+
+  if (!orderPayment) {
+    return createCheckoutErrorResult(orderId, ORDER_ERROR_PAYMENT_IN_PROGRESS);
+  }
+
+  try {
+    const paymentSession = await paymentProvider.createPaymentSession({
+      paymentId: orderPayment.id,
+      orderId,
+      amountInCents: convertCentsToNumber(order.amountInCents),
+      currencyCode: order.auctionItem.currencyCode,
+      paymentDescription: `Payment for "${order.auctionItem.itemTitle}"`,
+      callbackUrl: `${environmentConfig.PAYMENT_CALLBACK_BASE_URL}/payments/callbacks/${paymentProvider.providerName}`
+    });
+
+    await prismaClient.orderPayment.update({
+      where: { id: orderPayment.id },
+      data: { providerPaymentReference: paymentSession.providerPaymentReference }
+    });
+
+    logInfoMessage('Order checkout started', { orderId, paymentId: orderPayment.id, providerName: paymentProvider.providerName });
+
+    return {
+      wasCheckoutStarted: true,
+      orderId,
+      paymentId: orderPayment.id,
+      checkoutUrl: paymentSession.checkoutUrl,
+      errorCode: null,
+      errorMessage: null
+    };
+  } catch (error) {
+    logErrorMessage('Payment provider rejected checkout', error, { orderId, paymentId: orderPayment.id });
+
+    // Hand the order back so the buyer can try again
+    await prismaClient.$transaction([
+      prismaClient.orderPayment.update({
+        where: { id: orderPayment.id },
+        data: { paymentStatus: 'FAILED', failureReason: 'Payment provider rejected the session' }
+      }),
+      prismaClient.order.updateMany({
+        where: { id: orderId, orderStatus: 'PAYMENT_PENDING' },
+        data: { orderStatus: 'AWAITING_PAYMENT' }
+      })
+    ]);
+
+    return createCheckoutErrorResult(orderId, ORDER_ERROR_CHECKOUT_FAILED);
+  }
+}
+
+// ==============================|| PAYMENT CALLBACKS ||============================== //
+
+// Providers retry callbacks until they get a 2xx, so a payment that is already resolved is acknowledged and left alone
+export async function handlePaymentCallback(
+  providerName: string,
+  requestHeaders: Record<string, string | string[] | undefined>,
+  requestBody: unknown
+): Promise<PaymentCallbackResult> {
+  const paymentProvider = findPaymentProviderByName(providerName);
+
+  if (!paymentProvider) {
+    return createCallbackErrorResult(PAYMENT_ERROR_UNKNOWN_PROVIDER);
+  }
+
+  const paymentCallback = paymentProvider.parsePaymentCallback(requestHeaders, requestBody);
+
+  if (!paymentCallback) {
+    logWarningMessage('Rejected payment callback that failed verification', { providerName });
+    return createCallbackErrorResult(PAYMENT_ERROR_INVALID_CALLBACK);
+  }
+
+  const orderPayment = await prismaClient.orderPayment.findUnique({
+    where: { id: paymentCallback.paymentId },
+    include: { order: { include: { auctionItem: { select: { creatorUserId: true } } } } }
+  });
+
+  // Payments that are not for an order are wallet deposits
+  if (!orderPayment) {
+    const wasDepositFound = await resolveWalletDepositPayment(providerName, paymentCallback);
+
+    return wasDepositFound
+      ? { wasCallbackAccepted: true, errorCode: null, errorMessage: null }
+      : createCallbackErrorResult(PAYMENT_ERROR_INVALID_CALLBACK);
+  }
+
+  if (orderPayment.providerName !== providerName) {
+    return createCallbackErrorResult(PAYMENT_ERROR_INVALID_CALLBACK);
+  }
+
+  const wasPaymentResolved = await prismaClient.$transaction(async (transactionClient) => {
+    const resolveResult = await transactionClient.orderPayment.updateMany({
+      where: { id: orderPayment.id, paymentStatus: 'PENDING' },
+      data: {
+        paymentStatus: paymentCallback.paymentStatus,
+        providerPaymentReference: paymentCallback.providerPaymentReference,
+        failureReason: paymentCallback.failureReason
+      }
+    });
+
+    if (resolveResult.count === 0) return false;
+
+    if (paymentCallback.paymentStatus === 'SUCCEEDED') {
+      await transactionClient.order.update({
+        where: { id: orderPayment.orderId },
+        data: { orderStatus: 'PAID', paymentMethod: 'PAYMENT_PROVIDER', paidAtTimestamp: new Date() }
+      });
+      await recordProviderPaymentToSeller(
+        transactionClient,
+        orderPayment.order.auctionItemId,
+        orderPayment.order.auctionItem.creatorUserId,
+        orderPayment.amountInCents
+      );
+    } else {
+      await transactionClient.order.updateMany({
+        where: { id: orderPayment.orderId, orderStatus: 'PAYMENT_PENDING' },
+        data: { orderStatus: 'AWAITING_PAYMENT' }
+      });
+    }
+
+    return true;
+  });
+
+  if (wasPaymentResolved) {
+    logInfoMessage('Payment callback processed', {
+      orderId: orderPayment.orderId,
+      paymentId: orderPayment.id,
+      paymentStatus: paymentCallback.paymentStatus
+    });
+  }
+
+  return { wasCallbackAccepted: true, errorCode: null, errorMessage: null };
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function createCheckoutErrorResult(orderId: string, errorCode: string): OrderCheckoutResult {
+  return {
+    wasCheckoutStarted: false,
+    orderId,
+    paymentId: null,
+    checkoutUrl: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode)
+  };
+}
+
+function createCallbackErrorResult(errorCode: string): PaymentCallbackResult {
+  return {
+    wasCallbackAccepted: false,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode)
+  };
+}
@@ -0,0 +1,472 @@
+// ==============================|| UNPAID ITEM SERVICE ||============================== //
+// Voids wins that were not paid by the deadline and records a strike against the buyer. The seller can then offer
+// the item to the runner-up at that bidder's last bid, and bidders who keep not paying lose the right to bid.
+
+import { Prisma, SecondChanceOfferStatus } from '@prisma/client';
+import { prismaClient } from '../config/prisma-client.config';
+import { environmentConfig } from '../config/environment.config';
+import { executeWithDistributedLock, verifyFencingTokenForAuctionWrite } from '../lib/distributed-lock-manager.lib';
+import {
+  BID_ERROR_LOCK_ACQUISITION_FAILED,
+  SECOND_CHANCE_ERROR_ORDER_NOT_FOUND,
+  SECOND_CHANCE_ERROR_ORDER_NOT_VOIDED,
+  SECOND_CHANCE_ERROR_OFFER_ALREADY_OPEN,
+  SECOND_CHANCE_ERROR_NO_RUNNER_UP,
+  SECOND_CHANCE_ERROR_OFFER_NOT_FOUND,
+  SECOND_CHANCE_ERROR_OFFER_UNAVAILABLE,
+  SECOND_CHANCE_ERROR_OPERATION_FAILED,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { openOrdersForEndedAuction } from './order-checkout.service';
+import { logErrorMessage, logInfoMessage, logWarningMessage } from '../utils/logger.util';
+import { Money, convertCentsToNumber, createMoney } from '../utils/money.util';
+
+// ==============================|| UNPAID ITEM INTERFACES ||============================== //
+
+// An offer nobody answered in time is reported as expired, although it stays PENDING in storage
+export type SecondChanceOfferDisplayStatus = SecondChanceOfferStatus | 'EXPIRED';
+
+export interface SecondChanceOfferData {
+  offerId: string;
+  auctionItemId: string;
+  itemTitle: string;
+  itemImageUrl: string | null;
+  recipientUserId: string;
+  recipientUsername: string;
+  offerPricePerUnit: Money;
+  quantityOffered: number;
+  totalPrice: Money;
+  offerStatus: SecondChanceOfferDisplayStatus;
+  expiresAtTimestamp: Date;
+  respondedAtTimestamp: Date | null;
+  createdAtTimestamp: Date;
+}
+
+export interface RunnerUpData {
+  userId: string;
+  username: string;
+  lastBidPerUnit: Money;
+  quantityOffered: number;
+}
+
+export interface UnpaidItemData {
+  orderId: string;
+  auctionItemId: string;
+  itemTitle: string;
+  buyerUsername: string;
+  quantityWon: number;
+  amount: Money;
+  voidedAtTimestamp: Date | null;
+  runnerUp: RunnerUpData | null; // Who an offer would go to now; null while one is open or once one was accepted
+  secondChanceOffers: SecondChanceOfferData[];
+}
+
+export interface SecondChanceOfferResult {
+  wasActionSuccessful: boolean;
+  offer: SecondChanceOfferData | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+const SECOND_CHANCE_OFFER_INCLUDE = {
+  auctionItem: { select: { itemTitle: true, itemImageUrl: true, currencyCode: true } },
+  recipientUser: { select: { username: true } }
+} satisfies Prisma.SecondChanceOfferInclude;
+
+type SecondChanceOfferWithDetails = Prisma.SecondChanceOfferGetPayload<{ include: typeof SECOND_CHANCE_OFFER_INCLUDE }>;
+
+// ==============================|| BIDDER STRIKES ||============================== //
+
+export async function countRecentBidderStrikes(userId: string): Promise<number> {
+  const strikeWindowStartTimestamp = new Date(Date.now() - environmentConfig.UNPAID_STRIKE_WINDOW_IN_DAYS * 24 * 60 * 60 * 1000);
+
+  return await prismaClient.bidderStrike.count({
+    where: { userId, createdAtTimestamp: { gte: strikeWindowStartTimestamp } }
+  });
+}
+
+export async function checkIsUserBiddingRestricted(userId: string): Promise<boolean> {
+  return (await countRecentBidderStrikes(userId)) >= environmentConfig.UNPAID_STRIKE_LIMIT;
+}
+
+// ==============================|| VOID OVERDUE ORDERS ||============================== //
+
+// Run from the auction lifecycle loop. A payment already in flight keeps its order alive until the provider answers;
+// if that payment fails after the deadline the order is back to awaiting payment and is voided on the next pass
+export async function voidOverdueOrders(): Promise<number> {
+  const currentTimestamp = new Date();
+  const overdueOrders = await prismaClient.order.findMany({
+    where: { orderStatus: 'AWAITING_PAYMENT', paymentDeadlineTimestamp: { lte: currentTimestamp } },
+    select: { id: true, auctionWinnerId: true, auctionItemId: true, buyerUserId: true }
+  });
+
+  let voidedOrderCount = 0;
+
+  for (const overdueOrder of overdueOrders) {
+    try {
+      const wasOrderVoided = await prismaClient.$transaction(async (transactionClient) => {
+        const voidResult = await transactionClient.order.updateMany({
+          where: { id: overdueOrder.id, orderStatus: 'AWAITING_PAYMENT', paymentDeadlineTimestamp: { lte: currentTimestamp } },
+          data: { orderStatus: 'VOIDED', voidedAtTimestamp: currentTimestamp }
+        });
+
+        if (voidResult.count === 0) return false;
+
+        await transactionClient.auctionWinner.update({
+          where: { id: overdueOrder.auctionWinnerId },
+          data: { voidedAtTimestamp: currentTimestamp }
+        });
+        await transactionClient.bidderStrike.create({
+          data: { userId: overdueOrder.buyerUserId, orderId: overdueOrder.id, strikeReason: 'UNPAID_ITEM' }
+        });
+
+        return true;
+      });
+
+      if (wasOrderVoided) {
+        voidedOrderCount++;
+        logWarningMessage('Order voided for non-payment', {
+          orderId: overdueOrder.id,
+          auctionItemId: overdueOrder.auctionItemId,
+          buyerUserId: overdueOrder.buyerUserId
+        });
+      }
+    } catch (error) {
+      logErrorMessage('Failed to void overdue order', error, { orderId: overdueOrder.id });
+    }
+  }
+
+  return voidedOrderCount;
+}
+
+// ==============================|| RUNNER-UP ||============================== //
+
+// The best remaining bidder, judged by their last bid. Anyone who has already won, been offered the item or
+// is restricted from bidding is passed over
+async function findRunnerUpForVoidedOrder(voidedOrder: {
+  auctionItemId: string;
+  auctionItem: { currencyCode: string };
+  auctionWinner: { quantityWon: number };
+}): Promise<RunnerUpData | null> {
+  const [auctionItem, auctionWinners, previousOffers] = await Promise.all([
+    prismaClient.auctionItem.findUnique({ where: { id: voidedOrder.auctionItemId }, select: { creatorUserId: true } }),
+    prismaClient.auctionWinner.findMany({ where: { auctionItemId: voidedOrder.auctionItemId }, select: { winnerUserId: true } }),
+    prismaClient.secondChanceOffer.findMany({ where: { auctionItemId: voidedOrder.auctionItemId }, select: { recipientUserId: true } })
+  ]);
+
+  const excludedUserIds = [
+    ...(auctionItem ? [auctionItem.creatorUserId] : []),
+    ...auctionWinners.map((auctionWinner) => auctionWinner.winnerUserId),
+    ...previousOffers.map((previousOffer) => previousOffer.recipientUserId)
+  ];
+
+  const remainingBids = await prismaClient.bid.findMany({
+    where: { auctionItemId: voidedOrder.auctionItemId, wasBidSuccessful: true, bidderUserId: { notIn: excludedUserIds } },
+    include: { bidderUser: { select: { username: true } } },
+    orderBy: { placedAtTimestamp: 'desc' }
+  });
+
+  // Newest first, so the first bid seen for each bidder is their last
+  const lastBidsByBidder = new Map<string, (typeof remainingBids)[number]>();
+  for (const remainingBid of remainingBids) {
+    if (!lastBidsByBidder.has(remainingBid.bidderUserId)) {
+      lastBidsByBidder.set(remainingBid.bidderUserId, remainingBid);
+    }
+  }
+
+  const rankedLastBids = [...lastBidsByBidder.values()].sort(
+    (firstBid, secondBid) =>
+      Number(secondBid.bidAmountInCents - firstBid.bidAmountInCents) ||
+      firstBid.placedAtTimestamp.getTime() - secondBid.placedAtTimestamp.getTime()
+  );
+
+  for (const lastBid of rankedLastBids) {
+    if (await checkIsUserBiddingRestricted(lastBid.bidderUserId)) continue;
+
+    return {
+      userId: lastBid.bidderUserId,
+      username: lastBid.bidderUser.username,
+      lastBidPerUnit: createMoney(lastBid.bidAmountInCents, voidedOrder.auctionItem.currencyCode),
+      quantityOffered: Math.min(voidedOrder.auctionWinner.quantityWon, lastBid.bidQuantity)
+    };
+  }
+
+  return null;
+}
+
+// ==============================|| SELLER VIEW ||============================== //
+
+export async function fetchUnpaidItemsForSeller(sellerUserId: string): Promise<UnpaidItemData[]> {
+  try {
+    const voidedOrders = await prismaClient.order.findMany({
+      where: { orderStatus: 'VOIDED', auctionItem: { creatorUserId: sellerUserId } },
+      include: {
+        auctionItem: { select: { itemTitle: true, currencyCode: true } },
+        buyerUser: { select: { username: true } },
+        auctionWinner: { select: { quantityWon: true } },
+        secondChanceOffers: { include: SECOND_CHANCE_OFFER_INCLUDE, orderBy: { createdAtTimestamp: 'desc' } }
+      },
+      orderBy: { voidedAtTimestamp: 'desc' }
+    });
+    const currentTimestamp = new Date();
+
+    const unpaidItems: UnpaidItemData[] = [];
+
+    for (const voidedOrder of voidedOrders) {
+      const secondChanceOffers = voidedOrder.secondChanceOffers.map((offer) => mapSecondChanceOffer(offer, currentTimestamp));
+      const canSendOffer = secondChanceOffers.every((offer) => offer.offerStatus === 'DECLINED' || offer.offerStatus === 'EXPIRED');
+
+      unpaidItems.push({
+        orderId: voidedOrder.id,
+        auctionItemId: voidedOrder.auctionItemId,
+        itemTitle: voidedOrder.auctionItem.itemTitle,
+        buyerUsername: voidedOrder.buyerUser.username,
+        quantityWon: voidedOrder.auctionWinner.quantityWon,
+        amount: createMoney(voidedOrder.amountInCents, voidedOrder.auctionItem.currencyCode),
+        voidedAtTimestamp: voidedOrder.voidedAtTimestamp,
+        runnerUp: canSendOffer ? await findRunnerUpForVoidedOrder(voidedOrder) : null,
+        secondChanceOffers
+      });
+    }
+
+    return unpaidItems;
+  } catch (error) {
+    logErrorMessage('Error fetching unpaid items for seller', error, { sellerUserId });
+    return [];
+  }
+}
+
+// ==============================|| SEND SECOND-CHANCE OFFER ||============================== //
+
+// Runs under the auction's bid processing lock so a double click cannot send two offers for the same voided win
+export async function sendSecondChanceOffer(voidedOrderId: string, sellerUserId: string): Promise<SecondChanceOfferResult> {
+  const voidedOrder = await prismaClient.order.findUnique({
+    where: { id: voidedOrderId },
+    include: { auctionItem: { select: { creatorUserId: true, currencyCode: true } } }
+  });
+
+  if (!voidedOrder || voidedOrder.auctionItem.creatorUserId !== sellerUserId) {
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_ORDER_NOT_FOUND);
+  }
+
+  const lockExecutionResult = await executeWithDistributedLock<SecondChanceOfferResult>(voidedOrder.auctionItemId, async (heldLock) => {
+    return await processSendSecondChanceOffer(voidedOrderId, heldLock.fencingToken);
+  });
+
+  if (!lockExecutionResult.wasLockAcquired) {
+    return createOfferErrorResult(BID_ERROR_LOCK_ACQUISITION_FAILED);
+  }
+
+  if (!lockExecutionResult.wasExecutionSuccessful || !lockExecutionResult.executionResult) {
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_OPERATION_FAILED);
+  }
+
+  return lockExecutionResult.executionResult;
+}
+
+async function processSendSecondChanceOffer(voidedOrderId: string, fencingToken: number): Promise<SecondChanceOfferResult> {
+  const voidedOrder = await prismaClient.order.findUnique({
+    where: { id: voidedOrderId },
+    include: {
+      auctionItem: { select: { currencyCode: true } },
+      auctionWinner: { select: { quantityWon: true } },
+      secondChanceOffers: { select: { offerStatus: true, expiresAtTimestamp: true } }
+    }
+  });
+
+  if (!voidedOrder) {
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_ORDER_NOT_FOUND);
+  }
+
+  if (voidedOrder.orderStatus !== 'VOIDED') {
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_ORDER_NOT_VOIDED);
+  }
+
+  const currentTimestamp = new Date();
+  const hasLiveOffer = voidedOrder.secondChanceOffers.some(
+    (offer) =>
+      offer.offerStatus === 'ACCEPTED' ||
+      (offer.offerStatus === 'PENDING' && offer.expiresAtTimestamp.getTime() > currentTimestamp.getTime())
+  );
+
+  if (hasLiveOffer) {
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_OFFER_ALREADY_OPEN);
+  }
+
+  const runnerUp = await findRunnerUpForVoidedOrder(voidedOrder);
+
+  if (!runnerUp) {
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_NO_RUNNER_UP);
+  }
+
+  // Fenced like every other write made under the lock, so an instance holding it on another backend after a
+  // failover cannot open a second offer alongside this one
+  const createdOffer = await prismaClient.$transaction(async (transactionClient) => {
+    await verifyFencingTokenForAuctionWrite(transactionClient, voidedOrder.auctionItemId, fencingToken);
+
+    return await transactionClient.secondChanceOffer.create({
+      data: {
+        auctionItemId: voidedOrder.auctionItemId,
+        voidedOrderId,
+        recipientUserId: runnerUp.userId,
+        offerPricePerUnitInCents: runnerUp.lastBidPerUnit.amountInCents,
+        quantityOffered: runnerUp.quantityOffered,
+        expiresAtTimestamp: new Date(currentTimestamp.getTime() + environmentConfig.SECOND_CHANCE_OFFER_DURATION_IN_HOURS * 60 * 60 * 1000)
+      },
+      include: SECOND_CHANCE_OFFER_INCLUDE
+    });
+  });
+
+  logInfoMessage('Second-chance offer sent', {
+    offerId: createdOffer.id,
+    voidedOrderId,
+    recipientUserId: runnerUp.userId,
+    offerPricePerUnitInCents: runnerUp.lastBidPerUnit.amountInCents
+  });
+
+  return createOfferSuccessResult(createdOffer);
+}
+
+// ==============================|| RECIPIENT VIEW ||============================== //
+
+export async function fetchOpenSecondChanceOffersForUser(userId: string): Promise<SecondChanceOfferData[]> {
+  try {
+    const currentTimestamp = new Date();
+    const openOffers = await prismaClient.secondChanceOffer.findMany({
+      where: { recipientUserId: userId, offerStatus: 'PENDING', expiresAtTimestamp: { gt: currentTimestamp } },
+      include: SECOND_CHANCE_OFFER_INCLUDE,
+      orderBy: { expiresAtTimestamp: 'asc' }
+    });
+
+    return openOffers.map((offer) => mapSecondChanceOffer(offer, currentTimestamp));
+  } catch (error) {
+    logErrorMessage('Error fetching second-chance offers', error, { userId });
+    return [];
+  }
+}
+
+// ==============================|| RESPOND TO OFFER ||============================== //
+
+// Accepting makes the recipient a winner of the auction, and their order is opened with it like any other win:
+// paid from the wallet when it covers the price, otherwise left for checkout with a fresh deadline
+export async function acceptSecondChanceOffer(offerId: string, recipientUserId: string): Promise<SecondChanceOfferResult> {
+  const offer = await prismaClient.secondChanceOffer.findUnique({
+    where: { id: offerId },
+    include: { auctionItem: { select: { creatorUserId: true } } }
+  });
+
+  if (!offer || offer.recipientUserId !== recipientUserId) {
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_OFFER_NOT_FOUND);
+  }
+
+  const currentTimestamp = new Date();
+
+  try {
+    const wasOfferAccepted = await prismaClient.$transaction(async (transactionClient) => {
+      const acceptResult = await transactionClient.secondChanceOffer.updateMany({
+        where: { id: offerId, offerStatus: 'PENDING', expiresAtTimestamp: { gt: currentTimestamp } },
+        data: { offerStatus: 'ACCEPTED', respondedAtTimestamp: currentTimestamp }
+      });
+
+      if (acceptResult.count === 0) return false;
+
+      await transactionClient.auctionWinner.create({
+        data: {
+          auctionItemId: offer.auctionItemId,
+          winnerUserId: recipientUserId,
+          quantityWon: offer.quantityOffered,
+          pricePerUnitInCents: offer.offerPricePerUnitInCents,
+          wonAtTimestamp: currentTimestamp
+        }
+      });
+
+      await openOrdersForEndedAuction(transactionClient, offer.auctionItemId, offer.auctionItem.creatorUserId, [
+        {
+          payerUserId: recipientUserId,
+          amountInCents: convertCentsToNumber(offer.offerPricePerUnitInCents) * offer.quantityOffered
+        }
+      ]);
+
+      return true;
+    });
+
+    if (!wasOfferAccepted) {
+      return createOfferErrorResult(SECOND_CHANCE_ERROR_OFFER_UNAVAILABLE);
+    }
+  } catch (error) {
+    logErrorMessage('Failed to accept second-chance offer', error, { offerId, recipientUserId });
+    return createOfferErrorResult(SECOND_CHANCE_ERROR_OPERATION_FAILED);
+  }
+
+  logInfoMessage('Second-chance offer accepted', { offerId, auctionItemId: offer.auctionItemId, recipientUserId });
+
+  return await fetchOfferResult(offerId);
+}
+
+export async function declineSecondChanceOffer(offerId: string, recipientUserId: string): Promise<SecondChanceOfferResult> {
+  const declineResult = await prismaClient.secondChanceOffer.updateMany({
+    where: { id: offerId, recipientUserId, offerStatus: 'PENDING', expiresAtTimestamp: { gt: new Date() } },
+    data: { offerStatus: 'DECLINED', respondedAtTimestamp: new Date() }
+  });
+
+  if (declineResult.count === 0) {
+    const offer = await prismaClient.secondChanceOffer.findUnique({ where: { id: offerId }, select: { recipientUserId: true } });
+
+    return createOfferErrorResult(
+      offer?.recipientUserId === recipientUserId ? SECOND_CHANCE_ERROR_OFFER_UNAVAILABLE : SECOND_CHANCE_ERROR_OFFER_NOT_FOUND
+    );
+  }
+
+  logInfoMessage('Second-chance offer declined', { offerId, recipientUserId });
+
+  return await fetchOfferResult(offerId);
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function mapSecondChanceOffer(offer: SecondChanceOfferWithDetails, currentTimestamp: Date): SecondChanceOfferData {
+  const isExpired = offer.offerStatus === 'PENDING' && offer.expiresAtTimestamp.getTime() <= currentTimestamp.getTime();
+
+  return {
+    offerId: offer.id,
+    auctionItemId: offer.auctionItemId,
+    itemTitle: offer.auctionItem.itemTitle,
+    itemImageUrl: offer.auctionItem.itemImageUrl,
+    recipientUserId: offer.recipientUserId,
+    recipientUsername: offer.recipientUser.username,
+    offerPricePerUnit: createMoney(offer.offerPricePerUnitInCents, offer.auctionItem.currencyCode),
+    quantityOffered: offer.quantityOffered,
+    totalPrice: createMoney(offer.offerPricePerUnitInCents * BigInt(offer.quantityOffered), offer.auctionItem.currencyCode),
+    offerStatus: isExpired ? 'EXPIRED' : offer.offerStatus,
+    expiresAtTimestamp: offer.expiresAtTimestamp,
+    respondedAtTimestamp: offer.respondedAtTimestamp,
+    createdAtTimestamp: offer.createdAtTimestamp
+  };
+}
+
+async function fetchOfferResult(offerId: string): Promise<SecondChanceOfferResult> {
+  const offer = await prismaClient.secondChanceOffer.findUnique({
+    where: { id: offerId },
+    include: SECOND_CHANCE_OFFER_INCLUDE
+  });
+
+  return offer ? createOfferSuccessResult(offer) : createOfferErrorResult(SECOND_CHANCE_ERROR_OFFER_NOT_FOUND);
+}
+
+function createOfferSuccessResult(offer: SecondChanceOfferWithDetails): SecondChanceOfferResult {
+  return {
+    wasActionSuccessful: true,
+    offer: mapSecondChanceOffer(offer, new Date()),
+    errorCode: null,
+    errorMessage: null
+  };
+}
+
+function createOfferErrorResult(errorCode: string): SecondChanceOfferResult {
+  return {
+    wasActionSuccessful: false,
+    offer: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode)
+  };
+}
@@ -0,0 +1,156 @@
+// ==============================|| WALLET DEPOSIT SERVICE ||============================== //
+// Wallet top-ups are paid through the payment provider like checkouts. The deposit is recorded as pending first,
+// and the wallet is only credited once the provider confirms the payment with a signed callback
+
+import { prismaClient } from '../config/prisma-client.config';
+import { environmentConfig } from '../config/environment.config';
+import { PaymentCallbackData, getActivePaymentProvider } from '../lib/payment-provider.lib';
+import {
+  WALLET_ERROR_INVALID_DEPOSIT_AMOUNT,
+  WALLET_ERROR_DEPOSIT_FAILED,
+  CURRENCY_ERROR_UNSUPPORTED,
+  PAYMENT_ERROR_PROVIDER_UNAVAILABLE,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { MAXIMUM_DEPOSIT_IN_CENTS, recordProviderDepositToWallet } from './wallet-ledger.service';
+import { logErrorMessage, logInfoMessage } from '../utils/logger.util';
+import { checkIsSupportedCurrencyCode, createMoney, formatMoney } from '../utils/money.util';
+
+// ==============================|| WALLET DEPOSIT INTERFACES ||============================== //
+
+export interface WalletDepositCheckoutResult {
+  wasDepositStarted: boolean;
+  depositId: string | null;
+  checkoutUrl: string | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+// ==============================|| START DEPOSIT ||============================== //
+
+// The deposit row is written before the provider is called, so a callback can always be matched to it.
+// A null amount is one the route could not read as money
+export async function startWalletDeposit(
+  userId: string,
+  amountInCents: number | null,
+  currencyCode: unknown
+): Promise<WalletDepositCheckoutResult> {
+  if (amountInCents === null || !Number.isSafeInteger(amountInCents) || amountInCents < 1 || amountInCents > MAXIMUM_DEPOSIT_IN_CENTS) {
+    return createDepositCheckoutErrorResult(WALLET_ERROR_INVALID_DEPOSIT_AMOUNT);
+  }
+
+  if (!checkIsSupportedCurrencyCode(currencyCode)) {
+    return createDepositCheckoutErrorResult(CURRENCY_ERROR_UNSUPPORTED);
+  }
+
+  const paymentProvider = getActivePaymentProvider();
+
+  if (!paymentProvider) {
+    return createDepositCheckoutErrorResult(PAYMENT_ERROR_PROVIDER_UNAVAILABLE);
+  }
+
+  const walletDeposit = await prismaClient.walletDeposit.create({
+    data: {
+      depositorUserId: userId,
+      amountInCents: BigInt(amountInCents),
+      currencyCode,
+      providerName: paymentProvider.providerName
+    }
+  });
+
+  try {
+    const paymentSession = await paymentProvider.createPaymentSession({
+      paymentId: walletDeposit.id,
+      orderId: null,
+      amountInCents,
+      currencyCode,
+      paymentDescription: `Wallet deposit of ${formatMoney(createMoney(amountInCents, currencyCode))}`,
+      callbackUrl: `${environmentConfig.PAYMENT_CALLBACK_BASE_URL}/payments/callbacks/${paymentProvider.providerName}`
+    });
+
+    await prismaClient.walletDeposit.update({
+      where: { id: walletDeposit.id },
+      data: { providerPaymentReference: paymentSession.providerPaymentReference }
+    });
+
+    logInfoMessage('Wallet deposit started', { userId, depositId: walletDeposit.id, amountInCents, currencyCode });
+
+    return {
+      wasDepositStarted: true,
+      depositId: walletDeposit.id,
+      checkoutUrl: paymentSession.checkoutUrl,
+      errorCode: null,
+      errorMessage: null
+    };
+  } catch (error) {
+    logErrorMessage('Payment provider rejected wallet deposit', error, { userId, depositId: walletDeposit.id });
+
+    await prismaClient.walletDeposit.update({
+      where: { id: walletDeposit.id },
+      data: { depositStatus: 'FAILED', failureReason: 'Payment provider rejected the session' }
+    });
+
+    return createDepositCheckoutErrorResult(WALLET_ERROR_DEPOSIT_FAILED);
+  }
+}
+
+// ==============================|| DEPOSIT CALLBACKS ||============================== //
+
+// Resolves the deposit a verified callback is about, crediting the wallet if it succeeded. Resolves to false when
+// the callback matches no deposit of that provider. A deposit that is already resolved is left alone, so a
+// retried callback never credits twice
+export async function resolveWalletDepositPayment(providerName: string, paymentCallback: PaymentCallbackData): Promise<boolean> {
+  const walletDeposit = await prismaClient.walletDeposit.findUnique({
+    where: { id: paymentCallback.paymentId }
+  });
+
+  if (!walletDeposit || walletDeposit.providerName !== providerName) {
+    return false;
+  }
+
+  const wasDepositResolved = await prismaClient.$transaction(async (transactionClient) => {
+    const resolveResult = await transactionClient.walletDeposit.updateMany({
+      where: { id: walletDeposit.id, depositStatus: 'PENDING' },
+      data: {
+        depositStatus: paymentCallback.paymentStatus,
+        providerPaymentReference: paymentCallback.providerPaymentReference,
+        failureReason: paymentCallback.failureReason
+      }
+    });
+
+    if (resolveResult.count === 0) return false;
+
+    if (paymentCallback.paymentStatus === 'SUCCEEDED') {
+      await recordProviderDepositToWallet(
+        transactionClient,
+        walletDeposit.depositorUserId,
+        walletDeposit.amountInCents,
+        walletDeposit.currencyCode
+      );
+    }
+
+    return true;
+  });
+
+  if (wasDepositResolved) {
+    logInfoMessage('Wallet deposit callback processed', {
+      userId: walletDeposit.depositorUserId,
+      depositId: walletDeposit.id,
+      depositStatus: paymentCallback.paymentStatus
+    });
+  }
+
+  return true;
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function createDepositCheckoutErrorResult(errorCode: string): WalletDepositCheckoutResult {
+  return {
+    wasDepositStarted: false,
+    depositId: null,
+    checkoutUrl: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode)
+  };
+}
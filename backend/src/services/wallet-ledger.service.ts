@@ -0,0 +1,490 @@
+// ==============================|| WALLET LEDGER SERVICE ||============================== //
+// Per-user wallets on an append-only double-entry ledger: deposits, holds for standing bids and settlement to sellers.
+// Every account counts one currency, and money tied to an auction always moves in the auction's currency
+
+import { LedgerAccountType, LedgerTransactionType, Prisma } from '@prisma/client';
+import { prismaClient } from '../config/prisma-client.config';
+import { ApplicationError } from '../middleware/global-error-handler.middleware';
+import {
+  BID_ERROR_INSUFFICIENT_FUNDS,
+  HTTP_STATUS_UNPROCESSABLE_ENTITY,
+  WALLET_ERROR_INVALID_DEPOSIT_AMOUNT,
+  WALLET_ERROR_OPERATION_FAILED,
+  CURRENCY_ERROR_UNSUPPORTED,
+  getErrorMessageFromCode
+} from '../constants/error-codes.constants';
+import { logErrorMessage, logInfoMessage } from '../utils/logger.util';
+import { Money, PLATFORM_CURRENCY_CODE, checkIsSupportedCurrencyCode, convertCentsToNumber, createMoney } from '../utils/money.util';
+
+// The platform currency's funding account is created by the wallet_ledger migration
+export const PLATFORM_FUNDING_LEDGER_ACCOUNT_ID = 'platform-funding';
+// Created on first use. Money the payment provider has collected on our behalf arrives from here
+export const PAYMENT_PROVIDER_CLEARING_LEDGER_ACCOUNT_ID = 'payment-provider-clearing';
+
+// System accounts stand for money outside the platform, so they have no owner and may run negative
+type SystemLedgerAccountType = Extract<LedgerAccountType, 'PLATFORM_FUNDING' | 'PAYMENT_PROVIDER_CLEARING'>;
+
+const SYSTEM_LEDGER_ACCOUNT_IDS: Record<SystemLedgerAccountType, string> = {
+  PLATFORM_FUNDING: PLATFORM_FUNDING_LEDGER_ACCOUNT_ID,
+  PAYMENT_PROVIDER_CLEARING: PAYMENT_PROVIDER_CLEARING_LEDGER_ACCOUNT_ID
+};
+
+export const MAXIMUM_DEPOSIT_IN_CENTS = 10_000_000;
+const RECENT_LEDGER_ENTRIES_LIMIT = 50;
+
+// ==============================|| WALLET INTERFACES ||============================== //
+
+export interface FundHoldTarget {
+  userId: string;
+  amountInCents: number;
+}
+
+export interface AuctionPayment {
+  payerUserId: string;
+  amountInCents: number;
+}
+
+export interface WalletHoldData {
+  auctionItemId: string;
+  itemTitle: string;
+  amount: Money;
+}
+
+export interface WalletLedgerEntryData {
+  id: string;
+  transactionType: LedgerTransactionType;
+  transactionDescription: string | null;
+  accountType: LedgerAccountType;
+  amount: Money;
+  auctionItemId: string | null;
+  createdAtTimestamp: Date;
+}
+
+export interface WalletBalanceData {
+  currencyCode: string;
+  availableBalance: Money;
+  heldBalance: Money;
+}
+
+export interface WalletSummaryData {
+  balances: WalletBalanceData[]; // One per currency the user has ever held money in
+  activeHolds: WalletHoldData[];
+  recentLedgerEntries: WalletLedgerEntryData[];
+}
+
+export interface WalletDepositResult {
+  wasDepositSuccessful: boolean;
+  wallet: WalletSummaryData | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+interface LedgerMovement {
+  ledgerAccountId: string;
+  amountInCents: bigint; // Positive credits the account, negative debits it
+}
+
+// ==============================|| LEDGER POSTING ||============================== //
+
+async function findOrCreateUserLedgerAccountId(
+  transactionClient: Prisma.TransactionClient,
+  userId: string,
+  accountType: LedgerAccountType,
+  currencyCode: string
+): Promise<string> {
+  const ledgerAccount = await transactionClient.ledgerAccount.upsert({
+    where: { ownerUserId_accountType_currencyCode: { ownerUserId: userId, accountType, currencyCode } },
+    create: { ownerUserId: userId, accountType, currencyCode },
+    update: {},
+    select: { id: true }
+  });
+
+  return ledgerAccount.id;
+}
+
+// The platform currency keeps the original fixed ids, so existing entries stay on the same accounts
+async function findOrCreateSystemLedgerAccountId(
+  transactionClient: Prisma.TransactionClient,
+  accountType: SystemLedgerAccountType,
+  currencyCode: string
+): Promise<string> {
+  const baseAccountId = SYSTEM_LEDGER_ACCOUNT_IDS[accountType];
+  const ledgerAccountId = currencyCode === PLATFORM_CURRENCY_CODE ? baseAccountId : `${baseAccountId}-${currencyCode.toLowerCase()}`;
+
+  await transactionClient.ledgerAccount.upsert({
+    where: { id: ledgerAccountId },
+    create: { id: ledgerAccountId, accountType, currencyCode },
+    update: {}
+  });
+
+  return ledgerAccountId;
+}
+
+async function fetchAuctionCurrencyCode(transactionClient: Prisma.TransactionClient, auctionItemId: string): Promise<string> {
+  const auctionItem = await transactionClient.auctionItem.findUniqueOrThrow({
+    where: { id: auctionItemId },
+    select: { currencyCode: true }
+  });
+
+  return auctionItem.currencyCode;
+}
+
+// Writes one balanced transaction. Debits from user accounts only go through while the balance covers them,
+// so two bids racing on different auctions cannot both spend the same money. Callers keep every movement in one currency
+async function postLedgerTransaction(
+  transactionClient: Prisma.TransactionClient,
+  transactionType: LedgerTransactionType,
+  auctionItemId: string | null,
+  transactionDescription: string,
+  ledgerMovements: LedgerMovement[]
+): Promise<void> {
+  const nonZeroMovements = ledgerMovements.filter((ledgerMovement) => ledgerMovement.amountInCents !== 0n);
+
+  if (nonZeroMovements.length === 0) return;
+
+  const transactionTotal = nonZeroMovements.reduce((runningTotal, ledgerMovement) => runningTotal + ledgerMovement.amountInCents, 0n);
+
+  if (transactionTotal !== 0n) {
+    throw new Error(`Unbalanced ledger transaction (${transactionType} off by ${transactionTotal.toString()})`);
+  }
+
+  for (const ledgerMovement of nonZeroMovements) {
+    const isDebit = ledgerMovement.amountInCents < 0n;
+
+    const updateResult = await transactionClient.ledgerAccount.updateMany({
+      where: {
+        id: ledgerMovement.ledgerAccountId,
+        ...(isDebit ? { OR: [{ ownerUserId: null }, { balanceInCents: { gte: -ledgerMovement.amountInCents } }] } : {})
+      },
+      data: { balanceInCents: { increment: ledgerMovement.amountInCents } }
+    });
+
+    if (updateResult.count === 0) {
+      throw new ApplicationError(
+        getErrorMessageFromCode(BID_ERROR_INSUFFICIENT_FUNDS),
+        HTTP_STATUS_UNPROCESSABLE_ENTITY,
+        BID_ERROR_INSUFFICIENT_FUNDS
+      );
+    }
+  }
+
+  await transactionClient.ledgerTransaction.create({
+    data: {
+      transactionType,
+      transactionDescription,
+      auctionItemId,
+      ledgerEntries: {
+        create: nonZeroMovements.map((ledgerMovement) => ({
+          ledgerAccountId: ledgerMovement.ledgerAccountId,
+          amountInCents: ledgerMovement.amountInCents
+        }))
+      }
+    }
+  });
+}
+
+export function checkIsInsufficientFundsError(error: unknown): boolean {
+  return error instanceof ApplicationError && error.errorCode === BID_ERROR_INSUFFICIENT_FUNDS;
+}
+
+// ==============================|| FUND HOLDS ||============================== //
+
+// What a bidder can commit to an auction: their available balance in its currency plus whatever they already hold on it
+export async function fetchCommittableFundsInCents(userId: string, auctionItemId: string): Promise<number> {
+  const currencyCode = await fetchAuctionCurrencyCode(prismaClient, auctionItemId);
+  const [availableAccount, existingHold] = await Promise.all([
+    prismaClient.ledgerAccount.findUnique({
+      where: { ownerUserId_accountType_currencyCode: { ownerUserId: userId, accountType: 'USER_AVAILABLE', currencyCode } },
+      select: { balanceInCents: true }
+    }),
+    prismaClient.fundHold.findUnique({
+      where: { auctionItemId_holderUserId: { auctionItemId, holderUserId: userId } },
+      select: { amountInCents: true, holdStatus: true }
+    })
+  ]);
+
+  const availableBalance = availableAccount?.balanceInCents ?? 0n;
+  const heldOnAuction = existingHold?.holdStatus === 'ACTIVE' ? existingHold.amountInCents : 0n;
+
+  return convertCentsToNumber(availableBalance + heldOnAuction);
+}
+
+// Moves each listed bidder's hold on the auction to the target amount, a zero target releasing it.
+// Holds of bidders not listed are released too when asked - the usual case, as being outbid frees the money
+export async function adjustAuctionFundHolds(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  holdTargets: FundHoldTarget[],
+  shouldReleaseUnlistedHolds: boolean
+): Promise<void> {
+  const activeHolds = await transactionClient.fundHold.findMany({
+    where: { auctionItemId, holdStatus: 'ACTIVE' }
+  });
+  const currencyCode = await fetchAuctionCurrencyCode(transactionClient, auctionItemId);
+
+  const targetAmountsByUserId = new Map<string, bigint>(
+    holdTargets.map((holdTarget) => [holdTarget.userId, BigInt(holdTarget.amountInCents)])
+  );
+
+  if (shouldReleaseUnlistedHolds) {
+    for (const activeHold of activeHolds) {
+      if (!targetAmountsByUserId.has(activeHold.holderUserId)) {
+        targetAmountsByUserId.set(activeHold.holderUserId, 0n);
+      }
+    }
+  }
+
+  for (const [userId, targetAmount] of targetAmountsByUserId) {
+    const currentAmount = activeHolds.find((activeHold) => activeHold.holderUserId === userId)?.amountInCents ?? 0n;
+    const holdChange = targetAmount - currentAmount;
+
+    if (holdChange === 0n) continue;
+
+    const [availableAccountId, heldAccountId] = await Promise.all([
+      findOrCreateUserLedgerAccountId(transactionClient, userId, 'USER_AVAILABLE', currencyCode),
+      findOrCreateUserLedgerAccountId(transactionClient, userId, 'USER_HELD', currencyCode)
+    ]);
+
+    await postLedgerTransaction(
+      transactionClient,
+      holdChange > 0n ? 'BID_HOLD' : 'HOLD_RELEASE',
+      auctionItemId,
+      holdChange > 0n ? 'Funds held for a standing bid' : 'Hold released',
+      [
+        { ledgerAccountId: availableAccountId, amountInCents: -holdChange },
+        { ledgerAccountId: heldAccountId, amountInCents: holdChange }
+      ]
+    );
+
+    await transactionClient.fundHold.upsert({
+      where: { auctionItemId_holderUserId: { auctionItemId, holderUserId: userId } },
+      create: { auctionItemId, holderUserId: userId, amountInCents: targetAmount },
+      update: { amountInCents: targetAmount, holdStatus: targetAmount === 0n ? 'RELEASED' : 'ACTIVE' }
+    });
+  }
+}
+
+export async function releaseAuctionFundHolds(transactionClient: Prisma.TransactionClient, auctionItemId: string): Promise<void> {
+  await adjustAuctionFundHolds(transactionClient, auctionItemId, [], true);
+}
+
+// ==============================|| SETTLEMENT ||============================== //
+
+// Pays the seller from each winner's hold, topping up from their available balance when the hold falls short
+// (a buy-now or Dutch purchase has no hold at all). Leftover held money of the payers is released
+export async function settleAuctionFundHolds(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  sellerUserId: string,
+  auctionPayments: AuctionPayment[]
+): Promise<void> {
+  const activeHolds = await transactionClient.fundHold.findMany({
+    where: { auctionItemId, holdStatus: 'ACTIVE' }
+  });
+  const currencyCode = await fetchAuctionCurrencyCode(transactionClient, auctionItemId);
+  const sellerAvailableAccountId = await findOrCreateUserLedgerAccountId(transactionClient, sellerUserId, 'USER_AVAILABLE', currencyCode);
+
+  for (const auctionPayment of auctionPayments) {
+    const paymentAmount = BigInt(auctionPayment.amountInCents);
+    const heldAmount = activeHolds.find((activeHold) => activeHold.holderUserId === auctionPayment.payerUserId)?.amountInCents ?? 0n;
+    const amountFromHold = paymentAmount < heldAmount ? paymentAmount : heldAmount;
+    const amountFromAvailable = paymentAmount - amountFromHold;
+
+    const [payerAvailableAccountId, payerHeldAccountId] = await Promise.all([
+      findOrCreateUserLedgerAccountId(transactionClient, auctionPayment.payerUserId, 'USER_AVAILABLE', currencyCode),
+      findOrCreateUserLedgerAccountId(transactionClient, auctionPayment.payerUserId, 'USER_HELD', currencyCode)
+    ]);
+
+    await postLedgerTransaction(transactionClient, 'SETTLEMENT', auctionItemId, 'Auction payment to the seller', [
+      { ledgerAccountId: payerHeldAccountId, amountInCents: -amountFromHold },
+      { ledgerAccountId: payerAvailableAccountId, amountInCents: -amountFromAvailable },
+      { ledgerAccountId: sellerAvailableAccountId, amountInCents: paymentAmount }
+    ]);
+
+    const unusedHoldAmount = heldAmount - amountFromHold;
+
+    await postLedgerTransaction(transactionClient, 'HOLD_RELEASE', auctionItemId, 'Unused hold released after payment', [
+      { ledgerAccountId: payerHeldAccountId, amountInCents: -unusedHoldAmount },
+      { ledgerAccountId: payerAvailableAccountId, amountInCents: unusedHoldAmount }
+    ]);
+
+    await transactionClient.fundHold.updateMany({
+      where: { auctionItemId, holderUserId: auctionPayment.payerUserId, holdStatus: 'ACTIVE' },
+      data: { amountInCents: amountFromHold, holdStatus: 'CAPTURED' }
+    });
+  }
+}
+
+// Settles a closed auction one winner at a time inside the caller's transaction, then releases every hold still open
+// on it. The sale already stands, so a winner whose wallet cannot cover the price is rolled back to a savepoint and
+// left to pay at checkout instead of undoing the result. Resolves to the winners whose wallet payment went through
+export async function settleEndedAuctionFunds(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  sellerUserId: string,
+  auctionPayments: AuctionPayment[]
+): Promise<Set<string>> {
+  const walletPaidUserIds = new Set<string>();
+
+  for (const auctionPayment of auctionPayments) {
+    await transactionClient.$executeRaw`SAVEPOINT winner_settlement`;
+
+    try {
+      await settleAuctionFundHolds(transactionClient, auctionItemId, sellerUserId, [auctionPayment]);
+      await transactionClient.$executeRaw`RELEASE SAVEPOINT winner_settlement`;
+
+      walletPaidUserIds.add(auctionPayment.payerUserId);
+    } catch (error) {
+      await transactionClient.$executeRaw`ROLLBACK TO SAVEPOINT winner_settlement`;
+
+      logErrorMessage('Failed to settle wallet funds for auction winner', error, {
+        auctionItemId,
+        payerUserId: auctionPayment.payerUserId
+      });
+    }
+  }
+
+  await releaseAuctionFundHolds(transactionClient, auctionItemId);
+
+  return walletPaidUserIds;
+}
+
+// Credits the seller with a checkout payment the provider has confirmed
+export async function recordProviderPaymentToSeller(
+  transactionClient: Prisma.TransactionClient,
+  auctionItemId: string,
+  sellerUserId: string,
+  amountInCents: bigint
+): Promise<void> {
+  const currencyCode = await fetchAuctionCurrencyCode(transactionClient, auctionItemId);
+  const clearingAccountId = await findOrCreateSystemLedgerAccountId(transactionClient, 'PAYMENT_PROVIDER_CLEARING', currencyCode);
+  const sellerAvailableAccountId = await findOrCreateUserLedgerAccountId(transactionClient, sellerUserId, 'USER_AVAILABLE', currencyCode);
+
+  await postLedgerTransaction(transactionClient, 'CHECKOUT_PAYMENT', auctionItemId, 'Checkout payment to the seller', [
+    { ledgerAccountId: clearingAccountId, amountInCents: -amountInCents },
+    { ledgerAccountId: sellerAvailableAccountId, amountInCents }
+  ]);
+}
+
+// ==============================|| DEPOSIT ||============================== //
+
+// Credits a deposit the payment provider has confirmed, in the currency it was paid in
+export async function recordProviderDepositToWallet(
+  transactionClient: Prisma.TransactionClient,
+  userId: string,
+  amountInCents: bigint,
+  currencyCode: string
+): Promise<void> {
+  const clearingAccountId = await findOrCreateSystemLedgerAccountId(transactionClient, 'PAYMENT_PROVIDER_CLEARING', currencyCode);
+  const availableAccountId = await findOrCreateUserLedgerAccountId(transactionClient, userId, 'USER_AVAILABLE', currencyCode);
+
+  await postLedgerTransaction(transactionClient, 'DEPOSIT', null, 'Wallet deposit', [
+    { ledgerAccountId: clearingAccountId, amountInCents: -amountInCents },
+    { ledgerAccountId: availableAccountId, amountInCents }
+  ]);
+}
+
+// Credits the wallet's balance in the deposit currency straight from that currency's platform funding account,
+// without any payment. Only for operator scripts such as the benchmark - users deposit through the payment provider.
+// A null amount is one the caller could not read as money
+export async function depositIntoWallet(userId: string, amountInCents: number | null, currencyCode: unknown): Promise<WalletDepositResult> {
+  if (amountInCents === null || !Number.isSafeInteger(amountInCents) || amountInCents < 1 || amountInCents > MAXIMUM_DEPOSIT_IN_CENTS) {
+    return createDepositErrorResult(WALLET_ERROR_INVALID_DEPOSIT_AMOUNT);
+  }
+
+  if (!checkIsSupportedCurrencyCode(currencyCode)) {
+    return createDepositErrorResult(CURRENCY_ERROR_UNSUPPORTED);
+  }
+
+  const depositAmount = BigInt(amountInCents);
+
+  try {
+    await prismaClient.$transaction(async (transactionClient) => {
+      const fundingAccountId = await findOrCreateSystemLedgerAccountId(transactionClient, 'PLATFORM_FUNDING', currencyCode);
+      const availableAccountId = await findOrCreateUserLedgerAccountId(transactionClient, userId, 'USER_AVAILABLE', currencyCode);
+
+      await postLedgerTransaction(transactionClient, 'DEPOSIT', null, 'Wallet deposit', [
+        { ledgerAccountId: fundingAccountId, amountInCents: -depositAmount },
+        { ledgerAccountId: availableAccountId, amountInCents: depositAmount }
+      ]);
+    });
+
+    logInfoMessage('Wallet deposit recorded', { userId, amountInCents, currencyCode });
+
+    return {
+      wasDepositSuccessful: true,
+      wallet: await fetchWalletSummary(userId),
+      errorCode: null,
+      errorMessage: null
+    };
+  } catch (error) {
+    logErrorMessage('Failed to record wallet deposit', error, { userId, amountInCents, currencyCode });
+    return createDepositErrorResult(WALLET_ERROR_OPERATION_FAILED);
+  }
+}
+
+// ==============================|| WALLET SUMMARY ||============================== //
+
+export async function fetchWalletSummary(userId: string): Promise<WalletSummaryData> {
+  const [userLedgerAccounts, activeHolds, recentLedgerEntries] = await Promise.all([
+    prismaClient.ledgerAccount.findMany({
+      where: { ownerUserId: userId }
+    }),
+    prismaClient.fundHold.findMany({
+      where: { holderUserId: userId, holdStatus: 'ACTIVE' },
+      include: { auctionItem: { select: { itemTitle: true, currencyCode: true } } },
+      orderBy: { updatedAtTimestamp: 'desc' }
+    }),
+    prismaClient.ledgerEntry.findMany({
+      where: { ledgerAccount: { ownerUserId: userId } },
+      include: {
+        ledgerAccount: { select: { accountType: true, currencyCode: true } },
+        ledgerTransaction: { select: { transactionType: true, transactionDescription: true, auctionItemId: true } }
+      },
+      orderBy: { createdAtTimestamp: 'desc' },
+      take: RECENT_LEDGER_ENTRIES_LIMIT
+    })
+  ]);
+
+  const findBalance = (accountType: LedgerAccountType, currencyCode: string) =>
+    userLedgerAccounts.find((ledgerAccount) => ledgerAccount.accountType === accountType && ledgerAccount.currencyCode === currencyCode)
+      ?.balanceInCents ?? 0n;
+
+  // A new wallet still shows an empty platform-currency balance
+  const walletCurrencyCodes = [
+    ...new Set([PLATFORM_CURRENCY_CODE, ...userLedgerAccounts.map((ledgerAccount) => ledgerAccount.currencyCode)])
+  ];
+
+  return {
+    balances: walletCurrencyCodes.map((currencyCode) => ({
+      currencyCode,
+      availableBalance: createMoney(findBalance('USER_AVAILABLE', currencyCode), currencyCode),
+      heldBalance: createMoney(findBalance('USER_HELD', currencyCode), currencyCode)
+    })),
+    activeHolds: activeHolds.map((activeHold) => ({
+      auctionItemId: activeHold.auctionItemId,
+      itemTitle: activeHold.auctionItem.itemTitle,
+      amount: createMoney(activeHold.amountInCents, activeHold.auctionItem.currencyCode)
+    })),
+    recentLedgerEntries: recentLedgerEntries.map((ledgerEntry) => ({
+      id: ledgerEntry.id,
+      transactionType: ledgerEntry.ledgerTransaction.transactionType,
+      transactionDescription: ledgerEntry.ledgerTransaction.transactionDescription,
+      accountType: ledgerEntry.ledgerAccount.accountType,
+      amount: createMoney(ledgerEntry.amountInCents, ledgerEntry.ledgerAccount.currencyCode),
+      auctionItemId: ledgerEntry.ledgerTransaction.auctionItemId,
+      createdAtTimestamp: ledgerEntry.createdAtTimestamp
+    }))
+  };
+}
+
+// ==============================|| HELPER FUNCTIONS ||============================== //
+
+function createDepositErrorResult(errorCode: string): WalletDepositResult {
+  return {
+    wasDepositSuccessful: false,
+    wallet: null,
+    errorCode,
+    errorMessage: getErrorMessageFromCode(errorCode)
+  };
+}
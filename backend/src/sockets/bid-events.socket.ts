@@ -5,27 +5,81 @@ import {
   SOCKET_EVENT_CLIENT_JOIN_AUCTION_ROOM,
   SOCKET_EVENT_CLIENT_LEAVE_AUCTION_ROOM,
   SOCKET_EVENT_CLIENT_PLACE_BID,
+  SOCKET_EVENT_CLIENT_BUY_NOW,
+  SOCKET_EVENT_CLIENT_ACCEPT_DUTCH_PRICE,
   SOCKET_EVENT_SERVER_BID_UPDATE_BROADCAST,
   SOCKET_EVENT_SERVER_BID_PLACED_SUCCESS,
   SOCKET_EVENT_SERVER_BID_PLACED_ERROR,
   SOCKET_EVENT_SERVER_JOINED_AUCTION_ROOM,
   SOCKET_EVENT_SERVER_LEFT_AUCTION_ROOM,
   SOCKET_EVENT_SERVER_AUCTION_STATE_SYNC,
+  SOCKET_EVENT_SERVER_AUCTION_END_TIME_EXTENDED,
+  SOCKET_EVENT_SERVER_AUCTION_ENDED_BROADCAST,
+  SOCKET_EVENT_SERVER_AUCTION_STARTED_BROADCAST,
+  SOCKET_EVENT_SERVER_AUCTION_CANCELLED_NOTIFICATION,
+  SOCKET_EVENT_SERVER_AUCTION_DETAILS_UPDATED,
+  SOCKET_EVENT_SERVER_BUY_NOW_SUCCESS,
+  SOCKET_EVENT_SERVER_BUY_NOW_ERROR,
+  SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_SUCCESS,
+  SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_ERROR,
   JoinAuctionRoomPayload,
   LeaveAuctionRoomPayload,
   PlaceBidPayload,
+  BuyNowPayload,
+  BuyNowSuccessPayload,
+  BuyNowErrorPayload,
+  AcceptDutchPricePayload,
+  DutchPriceAcceptedSuccessPayload,
+  DutchPriceAcceptedErrorPayload,
   BidUpdateBroadcastPayload,
-  BidPlacedSuccessPayload,
-  BidPlacedErrorPayload,
+  PlaceBidAcknowledgement,
+  PlaceBidAcknowledgementCallback,
   AuctionStateSyncPayload,
+  AuctionEndTimeExtendedPayload,
+  AuctionEndedNotificationPayload,
+  AuctionStartedBroadcastPayload,
+  AuctionCancelledNotificationPayload,
+  AuctionDetailsUpdatedPayload,
 } from "../constants/socket-events.constants";
+import {
+  BID_ERROR_OUTCOME_UNKNOWN,
+  BID_ERROR_REQUEST_IN_PROGRESS,
+  BID_ERROR_REQUEST_ID_REUSED,
+  getErrorMessageFromCode,
+} from "../constants/error-codes.constants";
+import {
+  AUCTION_EVENT_AUCTION_CANCELLED,
+  AUCTION_EVENT_AUCTION_CREATED,
+  AUCTION_EVENT_AUCTION_DETAILS_UPDATED,
+  AUCTION_EVENT_AUCTION_ENDED,
+  AUCTION_EVENT_AUCTION_STARTED,
+  AUCTION_EVENT_BID_PLACED,
+  BidPlacedEventPayload,
+  PublishedAuctionEvent,
+} from "../constants/auction-events.constants";
 import { generateAuctionRoomNameFromId } from "../config/socket-io.config";
 import {
-  processBidWithDistributedLock,
+  processBid,
+  createPlaceBidAcknowledgement,
   fetchCurrentAuctionBidInfo,
 } from "../services/bid-processor.service";
+import { processBuyNowWithDistributedLock } from "../services/buy-now-processor.service";
+import { processDutchAcceptanceWithDistributedLock } from "../services/dutch-auction-processor.service";
+import {
+  AuctionItemData,
+  EndedAuctionInfo,
+  StartedAuctionInfo,
+  fetchAuctionItemById,
+} from "../services/auction-data-fetcher.service";
+import {
+  checkIsValidBidRequestId,
+  createBidRequestFingerprint,
+  claimBidRequest,
+  recordBidRequestOutcome,
+} from "../services/bid-request-deduplication.service";
 import { getUserDataFromSocket } from "./authentication.socket";
 import { logSocketEvent, logErrorMessage } from "../utils/logger.util";
+import { createMoney, parseMoneyPayload } from "../utils/money.util";
 
 let ioServer: Server | null = null;
 
@@ -46,8 +100,22 @@ export function registerBidEventHandlers(socket: Socket): void {
     SOCKET_EVENT_CLIENT_LEAVE_AUCTION_ROOM,
     (payload: LeaveAuctionRoomPayload) => handleLeaveRoom(socket, payload),
   );
-  socket.on(SOCKET_EVENT_CLIENT_PLACE_BID, (payload: PlaceBidPayload) =>
-    handlePlaceBid(socket, payload),
+  socket.on(
+    SOCKET_EVENT_CLIENT_PLACE_BID,
+    (payload: PlaceBidPayload, acknowledge?: PlaceBidAcknowledgementCallback) =>
+      handlePlaceBid(
+        socket,
+        payload,
+        typeof acknowledge === "function" ? acknowledge : null,
+      ),
+  );
+  socket.on(SOCKET_EVENT_CLIENT_BUY_NOW, (payload: BuyNowPayload) =>
+    handleBuyNow(socket, payload),
+  );
+  socket.on(
+    SOCKET_EVENT_CLIENT_ACCEPT_DUTCH_PRICE,
+    (payload: AcceptDutchPricePayload) =>
+      handleAcceptDutchPrice(socket, payload),
   );
 }
 
@@ -73,12 +141,20 @@ async function handleJoinRoom(
   if (bidInfo) {
     const syncPayload: AuctionStateSyncPayload = {
       auctionItemId: bidInfo.auctionItemId,
-      currentHighestBidInDollars: bidInfo.currentHighestBidInDollars,
+      currentHighestBid: createMoney(
+        bidInfo.currentHighestBidInCents,
+        bidInfo.currencyCode,
+      ),
       highestBidderUserId: bidInfo.highestBidderUserId,
       highestBidderUsername: bidInfo.highestBidderUsername,
       auctionEndTimeTimestamp: bidInfo.auctionEndTimeTimestamp.toISOString(),
-      currentStatus: "ACTIVE",
+      currentStatus: bidInfo.currentStatus,
       totalNumberOfBids: bidInfo.totalNumberOfBids,
+      isReservePriceMet: bidInfo.isReservePriceMet,
+      bidIncrement: createMoney(
+        bidInfo.bidIncrementInCents,
+        bidInfo.currencyCode,
+      ),
     };
     socket.emit(SOCKET_EVENT_SERVER_AUCTION_STATE_SYNC, syncPayload);
   }
@@ -103,85 +179,183 @@ async function handleLeaveRoom(
   socket.emit(SOCKET_EVENT_SERVER_LEFT_AUCTION_ROOM, { auctionItemId });
 }
 
+// Answers through the acknowledgement callback when the client sent one, so the reply
+// arrives on the same emit without a separate event listener
+function replyToPlaceBid(
+  socket: Socket,
+  acknowledge: PlaceBidAcknowledgementCallback | null,
+  acknowledgement: PlaceBidAcknowledgement,
+): void {
+  if (acknowledge) {
+    acknowledge(acknowledgement);
+  } else if (acknowledgement.wasBidSuccessful) {
+    socket.emit(
+      SOCKET_EVENT_SERVER_BID_PLACED_SUCCESS,
+      acknowledgement.successPayload,
+    );
+  } else {
+    socket.emit(
+      SOCKET_EVENT_SERVER_BID_PLACED_ERROR,
+      acknowledgement.errorPayload,
+    );
+  }
+}
+
 async function handlePlaceBid(
   socket: Socket,
   payload: PlaceBidPayload,
+  acknowledge: PlaceBidAcknowledgementCallback | null,
 ): Promise<void> {
   const userData = getUserDataFromSocket(socket);
 
   if (!userData) {
-    socket.emit(SOCKET_EVENT_SERVER_BID_PLACED_ERROR, {
-      auctionItemId: payload.auctionItemId,
-      errorCode: "AUTH_ERROR",
-      errorMessage: "Not authenticated",
-    } as BidPlacedErrorPayload);
+    replyToPlaceBid(socket, acknowledge, {
+      wasBidSuccessful: false,
+      errorPayload: {
+        auctionItemId: payload?.auctionItemId,
+        errorCode: "AUTH_ERROR",
+        errorMessage: "Not authenticated",
+      },
+    });
     return;
   }
 
-  const { auctionItemId, bidAmountInDollars } = payload;
+  const { auctionItemId } = payload ?? {};
+  // Amounts must be whole cents in a supported currency - anything else is rejected rather than rounded.
+  // Whether it is the auction's currency is checked against the auction itself
+  const bidAmount = parseMoneyPayload(payload?.bidAmount);
+  const maximumBidAmount =
+    payload?.maximumBidAmount == null
+      ? null
+      : parseMoneyPayload(payload.maximumBidAmount);
+  const bidQuantity = payload?.bidQuantity ?? 1;
+  const bidRequestId = payload?.bidRequestId ?? null;
 
   if (
     !auctionItemId ||
-    typeof bidAmountInDollars !== "number" ||
-    bidAmountInDollars <= 0
+    bidAmount === null ||
+    bidAmount.amountInCents <= 0 ||
+    (payload.maximumBidAmount != null &&
+      (maximumBidAmount === null ||
+        maximumBidAmount.amountInCents <= 0 ||
+        maximumBidAmount.currencyCode !== bidAmount.currencyCode)) ||
+    typeof bidQuantity !== "number" ||
+    (bidRequestId !== null && !checkIsValidBidRequestId(bidRequestId))
   ) {
-    socket.emit(SOCKET_EVENT_SERVER_BID_PLACED_ERROR, {
-      auctionItemId,
-      errorCode: "VALIDATION_ERROR",
-      errorMessage: "Invalid bid data",
-    } as BidPlacedErrorPayload);
+    replyToPlaceBid(socket, acknowledge, {
+      wasBidSuccessful: false,
+      errorPayload: {
+        auctionItemId,
+        errorCode: "VALIDATION_ERROR",
+        errorMessage: "Invalid bid data",
+        bidRequestId,
+      },
+    });
     return;
   }
 
   logSocketEvent("BID_ATTEMPT", socket.id, userData.userId, {
     auctionItemId,
-    bidAmountInDollars,
+    bidAmountInCents: bidAmount.amountInCents,
+    currencyCode: bidAmount.currencyCode,
+    bidQuantity,
+    hasMaximumBid: maximumBidAmount !== null,
+    bidRequestId,
   });
 
-  try {
-    const result = await processBidWithDistributedLock(
-      auctionItemId,
+  const requestFingerprint = createBidRequestFingerprint(
+    auctionItemId,
+    bidAmount.amountInCents,
+    bidAmount.currencyCode,
+    maximumBidAmount?.amountInCents ?? null,
+    bidQuantity,
+  );
+
+  // A retried request is answered from its first attempt and never reaches the bid processor again
+  if (bidRequestId) {
+    const claimResult = await claimBidRequest(
       userData.userId,
-      bidAmountInDollars,
+      bidRequestId,
+      requestFingerprint,
     );
 
-    if (result.wasBidSuccessful) {
-      const successPayload: BidPlacedSuccessPayload = {
+    if (claimResult.claimStatus === "COMPLETED") {
+      replyToPlaceBid(socket, acknowledge, claimResult.outcome!);
+
+      logSocketEvent("BID_REQUEST_REPLAYED", socket.id, userData.userId, {
         auctionItemId,
-        bidAmountInDollars,
-        bidId: result.bidId!,
-        bidPlacedAtTimestamp: result.bidPlacedAtTimestamp!.toISOString(),
-      };
-      socket.emit(SOCKET_EVENT_SERVER_BID_PLACED_SUCCESS, successPayload);
+        bidRequestId,
+      });
+      return;
+    }
 
-      const roomName = generateAuctionRoomNameFromId(auctionItemId);
-      const bidInfo = await fetchCurrentAuctionBidInfo(auctionItemId);
+    if (
+      claimResult.claimStatus === "IN_PROGRESS" ||
+      claimResult.claimStatus === "REUSED"
+    ) {
+      const errorCode =
+        claimResult.claimStatus === "IN_PROGRESS"
+          ? BID_ERROR_REQUEST_IN_PROGRESS
+          : BID_ERROR_REQUEST_ID_REUSED;
 
-      const broadcastPayload: BidUpdateBroadcastPayload = {
-        auctionItemId,
-        newHighestBidInDollars: result.newHighestBidInDollars!,
-        highestBidderUserId: userData.userId,
-        highestBidderUsername: userData.username,
-        bidPlacedAtTimestamp: result.bidPlacedAtTimestamp!.toISOString(),
-        totalNumberOfBids: bidInfo?.totalNumberOfBids || 1,
-      };
+      replyToPlaceBid(socket, acknowledge, {
+        wasBidSuccessful: false,
+        errorPayload: {
+          auctionItemId,
+          errorCode,
+          errorMessage: getErrorMessageFromCode(errorCode),
+          bidRequestId,
+        },
+      });
+      return;
+    }
+  }
 
-      ioServer
-        ?.to(roomName)
-        .emit(SOCKET_EVENT_SERVER_BID_UPDATE_BROADCAST, broadcastPayload);
+  let wasOutcomeRecorded = false;
+
+  const replyWithOutcome = async (outcome: PlaceBidAcknowledgement) => {
+    replyToPlaceBid(socket, acknowledge, outcome);
+
+    if (bidRequestId) {
+      await recordBidRequestOutcome(
+        userData.userId,
+        bidRequestId,
+        requestFingerprint,
+        outcome,
+      );
+    }
+    wasOutcomeRecorded = true;
+  };
 
+  try {
+    const result = await processBid(
+      auctionItemId,
+      userData.userId,
+      bidAmount.amountInCents,
+      bidAmount.currencyCode,
+      maximumBidAmount?.amountInCents ?? null,
+      bidQuantity,
+      bidRequestId,
+    );
+
+    await replyWithOutcome(
+      createPlaceBidAcknowledgement(
+        auctionItemId,
+        userData.userId,
+        bidAmount,
+        bidRequestId,
+        result,
+      ),
+    );
+
+    if (result.wasBidSuccessful) {
       logSocketEvent("BID_SUCCESS", socket.id, userData.userId, {
         auctionItemId,
-        bidAmount: bidAmountInDollars,
+        bidAmountInCents: bidAmount.amountInCents,
+        highestBidderUserId: result.highestBidderUserId,
         processingTimeMs: result.processingTimeInMs,
       });
     } else {
-      socket.emit(SOCKET_EVENT_SERVER_BID_PLACED_ERROR, {
-        auctionItemId,
-        errorCode: result.errorCode || "BID_FAILED",
-        errorMessage: result.errorMessage || "Bid failed",
-      } as BidPlacedErrorPayload);
-
       logSocketEvent("BID_FAILED", socket.id, userData.userId, {
         auctionItemId,
         errorCode: result.errorCode,
@@ -193,19 +367,221 @@ async function handlePlaceBid(
       userId: userData.userId,
       auctionItemId,
     });
-    socket.emit(SOCKET_EVENT_SERVER_BID_PLACED_ERROR, {
+
+    // An answered request keeps its outcome. An unanswered one may have been committed before the error,
+    // so its request stays claimed rather than letting a retry place the bid again
+    if (wasOutcomeRecorded) return;
+
+    await replyWithOutcome({
+      wasBidSuccessful: false,
+      errorPayload: {
+        auctionItemId,
+        errorCode: BID_ERROR_OUTCOME_UNKNOWN,
+        errorMessage: getErrorMessageFromCode(BID_ERROR_OUTCOME_UNKNOWN),
+        bidRequestId,
+      },
+    });
+  }
+}
+
+async function handleBuyNow(
+  socket: Socket,
+  payload: BuyNowPayload,
+): Promise<void> {
+  const userData = getUserDataFromSocket(socket);
+  const auctionItemId = payload?.auctionItemId;
+
+  if (!userData) {
+    socket.emit(SOCKET_EVENT_SERVER_BUY_NOW_ERROR, {
+      auctionItemId,
+      errorCode: "AUTH_ERROR",
+      errorMessage: "Not authenticated",
+    } as BuyNowErrorPayload);
+    return;
+  }
+
+  if (!auctionItemId) {
+    socket.emit(SOCKET_EVENT_SERVER_BUY_NOW_ERROR, {
+      auctionItemId,
+      errorCode: "VALIDATION_ERROR",
+      errorMessage: "Invalid buy now data",
+    } as BuyNowErrorPayload);
+    return;
+  }
+
+  logSocketEvent("BUY_NOW_ATTEMPT", socket.id, userData.userId, {
+    auctionItemId,
+  });
+
+  try {
+    const result = await processBuyNowWithDistributedLock(
+      auctionItemId,
+      userData.userId,
+    );
+
+    if (!result.wasPurchaseSuccessful) {
+      socket.emit(SOCKET_EVENT_SERVER_BUY_NOW_ERROR, {
+        auctionItemId,
+        errorCode: result.errorCode || "BUY_NOW_FAILED",
+        errorMessage: result.errorMessage || "Purchase failed",
+      } as BuyNowErrorPayload);
+      return;
+    }
+
+    const successPayload: BuyNowSuccessPayload = {
+      auctionItemId,
+      purchasePrice: createMoney(
+        result.purchasePriceInCents!,
+        result.currencyCode!,
+      ),
+      purchasedAtTimestamp: result.purchasedAtTimestamp!.toISOString(),
+    };
+    socket.emit(SOCKET_EVENT_SERVER_BUY_NOW_SUCCESS, successPayload);
+
+    logSocketEvent("BUY_NOW_SUCCESS", socket.id, userData.userId, {
+      auctionItemId,
+      processingTimeMs: result.processingTimeInMs,
+    });
+  } catch (error) {
+    logErrorMessage("Buy now processing error", error, {
+      socketId: socket.id,
+      userId: userData.userId,
+      auctionItemId,
+    });
+    socket.emit(SOCKET_EVENT_SERVER_BUY_NOW_ERROR, {
       auctionItemId,
       errorCode: "SERVER_ERROR",
-      errorMessage: "An error occurred while processing your bid",
-    } as BidPlacedErrorPayload);
+      errorMessage: "An error occurred while processing your purchase",
+    } as BuyNowErrorPayload);
   }
 }
 
+async function handleAcceptDutchPrice(
+  socket: Socket,
+  payload: AcceptDutchPricePayload,
+): Promise<void> {
+  const userData = getUserDataFromSocket(socket);
+  const auctionItemId = payload?.auctionItemId;
+
+  if (!userData) {
+    socket.emit(SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_ERROR, {
+      auctionItemId,
+      errorCode: "AUTH_ERROR",
+      errorMessage: "Not authenticated",
+    } as DutchPriceAcceptedErrorPayload);
+    return;
+  }
+
+  if (!auctionItemId) {
+    socket.emit(SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_ERROR, {
+      auctionItemId,
+      errorCode: "VALIDATION_ERROR",
+      errorMessage: "Invalid accept price data",
+    } as DutchPriceAcceptedErrorPayload);
+    return;
+  }
+
+  logSocketEvent("DUTCH_ACCEPT_ATTEMPT", socket.id, userData.userId, {
+    auctionItemId,
+  });
+
+  try {
+    const result = await processDutchAcceptanceWithDistributedLock(
+      auctionItemId,
+      userData.userId,
+    );
+
+    if (!result.wasAcceptanceSuccessful) {
+      socket.emit(SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_ERROR, {
+        auctionItemId,
+        errorCode: result.errorCode || "DUTCH_ACCEPT_FAILED",
+        errorMessage: result.errorMessage || "Accepting the price failed",
+      } as DutchPriceAcceptedErrorPayload);
+      return;
+    }
+
+    const successPayload: DutchPriceAcceptedSuccessPayload = {
+      auctionItemId,
+      purchasePrice: createMoney(
+        result.purchasePriceInCents!,
+        result.currencyCode!,
+      ),
+      purchasedAtTimestamp: result.purchasedAtTimestamp!.toISOString(),
+    };
+    socket.emit(
+      SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_SUCCESS,
+      successPayload,
+    );
+
+    logSocketEvent("DUTCH_ACCEPT_SUCCESS", socket.id, userData.userId, {
+      auctionItemId,
+      processingTimeMs: result.processingTimeInMs,
+    });
+  } catch (error) {
+    logErrorMessage("Dutch price acceptance error", error, {
+      socketId: socket.id,
+      userId: userData.userId,
+      auctionItemId,
+    });
+    socket.emit(SOCKET_EVENT_SERVER_DUTCH_PRICE_ACCEPTED_ERROR, {
+      auctionItemId,
+      errorCode: "SERVER_ERROR",
+      errorMessage: "An error occurred while accepting the price",
+    } as DutchPriceAcceptedErrorPayload);
+  }
+}
+
+// Broadcast an ended auction to every connected client so all dashboards update
+export function broadcastAuctionEndedToAllClients(
+  endedAuction: EndedAuctionInfo,
+): void {
+  if (!ioServer) return;
+
+  ioServer.emit(SOCKET_EVENT_SERVER_AUCTION_ENDED_BROADCAST, {
+    auctionItemId: endedAuction.auctionItemId,
+    winnerUserId: endedAuction.winnerUserId,
+    winnerUsername: endedAuction.winnerUsername,
+    winners: endedAuction.winners.map((winner) => ({
+      userId: winner.userId,
+      username: winner.username,
+      quantityWon: winner.quantityWon,
+      pricePerUnit: createMoney(
+        winner.pricePerUnitInCents,
+        endedAuction.currencyCode,
+      ),
+    })),
+    finalBidAmount: createMoney(
+      endedAuction.finalBidAmountInCents,
+      endedAuction.currencyCode,
+    ),
+    endReason: endedAuction.endReason,
+  });
+}
+
+// Broadcast a scheduled auction opening to every connected client so it moves from Upcoming to Live
+export function broadcastAuctionStartedToAllClients(
+  startedAuction: StartedAuctionInfo,
+): void {
+  if (!ioServer) return;
+
+  const startedPayload: AuctionStartedBroadcastPayload = {
+    auctionItemId: startedAuction.auctionItemId,
+    auctionStartTimeTimestamp:
+      startedAuction.auctionStartTimeTimestamp.toISOString(),
+    auctionEndTimeTimestamp:
+      startedAuction.auctionEndTimeTimestamp.toISOString(),
+  };
+
+  ioServer.emit(SOCKET_EVENT_SERVER_AUCTION_STARTED_BROADCAST, startedPayload);
+}
+
 export function broadcastAuctionEnded(
   auctionItemId: string,
   winnerUserId: string | null,
   winnerUsername: string | null,
-  finalBidAmountInDollars: number,
+  finalBidAmountInCents: number,
+  currencyCode: string,
+  endReason: AuctionEndedNotificationPayload["endReason"],
 ): void {
   if (!ioServer) return;
 
@@ -214,13 +590,184 @@ export function broadcastAuctionEnded(
     auctionItemId,
     winnerUserId,
     winnerUsername,
-    finalBidAmountInDollars,
+    finalBidAmount: createMoney(finalBidAmountInCents, currencyCode),
+    endReason,
     auctionEndedAtTimestamp: new Date().toISOString(),
   });
 }
 
+// Tell everyone watching an auction that the seller withdrew it, and why
+export function broadcastAuctionCancelled(
+  auctionItemId: string,
+  itemTitle: string,
+  cancellationReason: string,
+  cancelledAtTimestamp: Date,
+): void {
+  if (!ioServer) return;
+
+  const roomName = generateAuctionRoomNameFromId(auctionItemId);
+  const cancelledPayload: AuctionCancelledNotificationPayload = {
+    auctionItemId,
+    itemTitle,
+    cancellationReason,
+    cancelledAtTimestamp: cancelledAtTimestamp.toISOString(),
+  };
+
+  ioServer
+    .to(roomName)
+    .emit(SOCKET_EVENT_SERVER_AUCTION_CANCELLED_NOTIFICATION, cancelledPayload);
+}
+
+export function broadcastAuctionDetailsUpdated(
+  auctionItem: AuctionItemData,
+): void {
+  if (!ioServer) return;
+
+  const roomName = generateAuctionRoomNameFromId(auctionItem.id);
+  const updatedPayload: AuctionDetailsUpdatedPayload = {
+    auctionItemId: auctionItem.id,
+    itemTitle: auctionItem.itemTitle,
+    itemDescription: auctionItem.itemDescription,
+    itemImageUrl: auctionItem.itemImageUrl,
+    bidIncrement: auctionItem.bidIncrement,
+  };
+
+  ioServer
+    .to(roomName)
+    .emit(SOCKET_EVENT_SERVER_AUCTION_DETAILS_UPDATED, updatedPayload);
+}
+
+export function broadcastAuctionEndTimeExtended(
+  auctionItemId: string,
+  previousAuctionEndTimeTimestamp: Date,
+  newAuctionEndTimeTimestamp: Date,
+): void {
+  if (!ioServer) return;
+
+  const roomName = generateAuctionRoomNameFromId(auctionItemId);
+  const extendedPayload: AuctionEndTimeExtendedPayload = {
+    auctionItemId,
+    previousAuctionEndTimeTimestamp:
+      previousAuctionEndTimeTimestamp.toISOString(),
+    newAuctionEndTimeTimestamp: newAuctionEndTimeTimestamp.toISOString(),
+    extendedBySeconds: Math.round(
+      (newAuctionEndTimeTimestamp.getTime() -
+        previousAuctionEndTimeTimestamp.getTime()) /
+        1000,
+    ),
+  };
+
+  ioServer
+    .to(roomName)
+    .emit(SOCKET_EVENT_SERVER_AUCTION_END_TIME_EXTENDED, extendedPayload);
+}
+
 // Broadcast new auction to all connected clients
 export function broadcastNewAuction(auctionItem: any): void {
   if (!ioServer) return;
   ioServer.emit("auction:created", { auctionItem });
 }
+
+// ==============================|| AUCTION EVENT CONSUMER ||============================== //
+
+// Relays each published auction event to the clients it concerns. Every broadcast carries current state
+// rather than a change, so a repeated event only resends what clients already show
+export async function publishAuctionEventToSocketClients(
+  auctionEvent: PublishedAuctionEvent,
+): Promise<void> {
+  switch (auctionEvent.eventType) {
+    case AUCTION_EVENT_AUCTION_CREATED: {
+      const auctionItem = await fetchAuctionItemById(
+        auctionEvent.eventPayload.auctionItemId,
+      );
+
+      if (auctionItem) {
+        broadcastNewAuction(auctionItem);
+      }
+      return;
+    }
+
+    case AUCTION_EVENT_AUCTION_STARTED:
+      broadcastAuctionStartedToAllClients({
+        auctionItemId: auctionEvent.eventPayload.auctionItemId,
+        auctionStartTimeTimestamp: new Date(
+          auctionEvent.eventPayload.auctionStartTimeTimestamp,
+        ),
+        auctionEndTimeTimestamp: new Date(
+          auctionEvent.eventPayload.auctionEndTimeTimestamp,
+        ),
+      });
+      return;
+
+    case AUCTION_EVENT_AUCTION_DETAILS_UPDATED: {
+      const auctionItem = await fetchAuctionItemById(
+        auctionEvent.eventPayload.auctionItemId,
+      );
+
+      if (auctionItem) {
+        broadcastAuctionDetailsUpdated(auctionItem);
+      }
+      return;
+    }
+
+    case AUCTION_EVENT_BID_PLACED:
+      await broadcastBidPlaced(auctionEvent.eventPayload);
+      return;
+
+    case AUCTION_EVENT_AUCTION_CANCELLED:
+      broadcastAuctionCancelled(
+        auctionEvent.eventPayload.auctionItemId,
+        auctionEvent.eventPayload.itemTitle,
+        auctionEvent.eventPayload.cancellationReason,
+        new Date(auctionEvent.eventPayload.cancelledAtTimestamp),
+      );
+      return;
+
+    case AUCTION_EVENT_AUCTION_ENDED:
+      broadcastAuctionEndedToAllClients(auctionEvent.eventPayload);
+      return;
+  }
+}
+
+// Sealed bids are never broadcast
+async function broadcastBidPlaced(
+  bidPlacedEvent: BidPlacedEventPayload,
+): Promise<void> {
+  if (!ioServer || bidPlacedEvent.isSealedBid) return;
+
+  const roomName = generateAuctionRoomNameFromId(bidPlacedEvent.auctionItemId);
+  const bidInfo = await fetchCurrentAuctionBidInfo(
+    bidPlacedEvent.auctionItemId,
+  );
+
+  // Only the visible price is broadcast - maximum bids stay hidden
+  const broadcastPayload: BidUpdateBroadcastPayload = {
+    auctionItemId: bidPlacedEvent.auctionItemId,
+    newHighestBid: createMoney(
+      bidPlacedEvent.newHighestBidInCents,
+      bidPlacedEvent.currencyCode,
+    ),
+    highestBidderUserId: bidPlacedEvent.highestBidderUserId!,
+    highestBidderUsername: bidPlacedEvent.highestBidderUsername!,
+    bidPlacedAtTimestamp: bidPlacedEvent.bidPlacedAtTimestamp,
+    totalNumberOfBids: bidInfo?.totalNumberOfBids || 1,
+    isReservePriceMet: bidPlacedEvent.isReservePriceMet,
+    isBuyNowAvailable: bidPlacedEvent.isBuyNowAvailable,
+    bidIncrement: createMoney(
+      bidPlacedEvent.nextBidIncrementInCents!,
+      bidPlacedEvent.currencyCode,
+    ),
+  };
+
+  ioServer
+    .to(roomName)
+    .emit(SOCKET_EVENT_SERVER_BID_UPDATE_BROADCAST, broadcastPayload);
+
+  if (bidPlacedEvent.previousAuctionEndTimeTimestamp) {
+    broadcastAuctionEndTimeExtended(
+      bidPlacedEvent.auctionItemId,
+      new Date(bidPlacedEvent.previousAuctionEndTimeTimestamp),
+      new Date(bidPlacedEvent.auctionEndTimeTimestamp),
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// ==============================|| BID INCREMENT UTILITY ||============================== //
+// Looks up the increment that applies at a price from a banded increment table. Prices and increments are in cents.
+
+export interface BidIncrementBandData {
+  priceFromInCents: number;
+  incrementInCents: number;
+}
+
+// ==============================|| FIND INCREMENT ||============================== //
+
+export function findBidIncrementForPrice(incrementBands: BidIncrementBandData[], priceInCents: number): number {
+  let applicableBand: BidIncrementBandData | null = null;
+
+  for (const incrementBand of incrementBands) {
+    const isBandReached = incrementBand.priceFromInCents <= priceInCents;
+    const isHigherThanCurrentBand = !applicableBand || incrementBand.priceFromInCents > applicableBand.priceFromInCents;
+
+    if (isBandReached && isHigherThanCurrentBand) {
+      applicableBand = incrementBand;
+    }
+  }
+
+  // Tables always start at 0, so this only guards against a malformed table
+  return applicableBand?.incrementInCents ?? incrementBands[0]?.incrementInCents ?? 100;
+}
+
+// ==============================|| VALIDATE BANDS ||============================== //
+
+// Returns an error message when the bands cannot form a table, or null when they are fine
+export function validateBidIncrementBands(incrementBands: BidIncrementBandData[]): string | null {
+  if (incrementBands.length === 0) {
+    return 'An increment table needs at least one band';
+  }
+
+  const hasInvalidValue = incrementBands.some(
+    (incrementBand) =>
+      !Number.isSafeInteger(incrementBand.priceFromInCents) ||
+      !Number.isSafeInteger(incrementBand.incrementInCents) ||
+      incrementBand.priceFromInCents < 0 ||
+      incrementBand.incrementInCents < 1
+  );
+
+  if (hasInvalidValue) {
+    return 'Every band needs a non-negative starting price and an increment of at least 0.01';
+  }
+
+  if (!incrementBands.some((incrementBand) => incrementBand.priceFromInCents === 0)) {
+    return 'The first band must start at 0';
+  }
+
+  const distinctStartingPrices = new Set(incrementBands.map((incrementBand) => incrementBand.priceFromInCents));
+
+  if (distinctStartingPrices.size !== incrementBands.length) {
+    return 'Each band must start at a different price';
+  }
+
+  return null;
+}
@@ -0,0 +1,56 @@
+// ==============================|| DUTCH AUCTION PRICING UTILITY ||============================== //
+// Computes the descending price of a Dutch auction from a point in time.
+// Mirrored by frontend/src/utils/dutchAuctionPricing.ts - keep both in step so every client shows the server's price.
+
+import { AuctionItem, DutchPriceCurve } from '@prisma/client';
+
+export interface DutchPriceSchedule {
+  startingPriceInCents: number;
+  floorPriceInCents: number;
+  priceCurve: DutchPriceCurve;
+  dropIntervalInSeconds: number | null;
+  dropAmountInCents: number | null;
+  auctionStartTimeInMs: number;
+  auctionEndTimeInMs: number;
+}
+
+// ==============================|| BUILD SCHEDULE ||============================== //
+
+export function buildDutchPriceScheduleFromAuctionItem(auctionItem: AuctionItem): DutchPriceSchedule | null {
+  if (auctionItem.auctionFormat !== 'DUTCH' || auctionItem.dutchFloorPriceInCents === null || !auctionItem.dutchPriceCurve) {
+    return null;
+  }
+
+  return {
+    startingPriceInCents: Number(auctionItem.startingPriceInCents),
+    floorPriceInCents: Number(auctionItem.dutchFloorPriceInCents),
+    priceCurve: auctionItem.dutchPriceCurve,
+    dropIntervalInSeconds: auctionItem.dutchDropIntervalInSeconds,
+    dropAmountInCents: auctionItem.dutchDropAmountInCents === null ? null : Number(auctionItem.dutchDropAmountInCents),
+    auctionStartTimeInMs: auctionItem.auctionStartTimeTimestamp.getTime(),
+    auctionEndTimeInMs: auctionItem.auctionEndTimeTimestamp.getTime()
+  };
+}
+
+// ==============================|| CALCULATE PRICE ||============================== //
+
+export function calculateDutchPriceAtTime(schedule: DutchPriceSchedule, atTimestampInMs: number): number {
+  const elapsedTimeInMs = Math.max(0, atTimestampInMs - schedule.auctionStartTimeInMs);
+  const totalPriceDropInCents = schedule.startingPriceInCents - schedule.floorPriceInCents;
+  let priceInCents: number;
+
+  if (schedule.priceCurve === 'LINEAR') {
+    // Falls evenly from the starting price to the floor over the whole auction
+    const auctionDurationInMs = Math.max(1, schedule.auctionEndTimeInMs - schedule.auctionStartTimeInMs);
+    const elapsedFraction = Math.min(1, elapsedTimeInMs / auctionDurationInMs);
+    priceInCents = schedule.startingPriceInCents - totalPriceDropInCents * elapsedFraction;
+  } else {
+    // Drops by a fixed amount at the end of every interval
+    const dropIntervalInMs = Math.max(1, schedule.dropIntervalInSeconds ?? 1) * 1000;
+    const numberOfDrops = Math.floor(elapsedTimeInMs / dropIntervalInMs);
+    priceInCents = schedule.startingPriceInCents - numberOfDrops * (schedule.dropAmountInCents ?? 0);
+  }
+
+  // The linear curve lands between cents, so round back to a whole cent
+  return Math.max(schedule.floorPriceInCents, Math.round(priceInCents));
+}
@@ -83,7 +83,18 @@ export function logAuthenticationEvent(
 }
 
 export function logBidProcessingEvent(
-  eventType: 'BID_RECEIVED' | 'BID_PROCESSED' | 'BID_FAILED' | 'LOCK_ACQUIRED' | 'LOCK_RELEASED',
+  eventType:
+    | 'BID_RECEIVED'
+    | 'BID_PROCESSED'
+    | 'BID_FAILED'
+    | 'LOCK_ACQUIRED'
+    | 'LOCK_RELEASED'
+    | 'BUY_NOW_RECEIVED'
+    | 'BUY_NOW_PROCESSED'
+    | 'BUY_NOW_FAILED'
+    | 'DUTCH_ACCEPT_RECEIVED'
+    | 'DUTCH_ACCEPT_PROCESSED'
+    | 'DUTCH_ACCEPT_FAILED',
   auctionItemId: string,
   userId: string,
   additionalInfo?: Record<string, unknown>
@@ -0,0 +1,82 @@
+// ==============================|| MONEY UTILITY ||============================== //
+// Amounts are whole cents everywhere - in the database, in arithmetic and on the wire - so sums and comparisons are exact.
+// Mirrored by frontend/src/utils/money.ts - keep both in step so clients parse and display amounts the way the server does.
+
+// Exchange rates are quoted against the platform currency
+export const PLATFORM_CURRENCY_CODE = 'USD';
+
+// Auctions may be listed, and wallets funded, in any of these. All of them count in hundredths
+export const SUPPORTED_CURRENCY_CODES = ['USD', 'EUR', 'GBP'] as const;
+
+export type SupportedCurrencyCode = (typeof SUPPORTED_CURRENCY_CODES)[number];
+
+const CENTS_PER_UNIT = 100;
+
+// How every amount leaves the server: the cents together with the currency they are counted in
+export interface Money {
+  amountInCents: number;
+  currencyCode: string;
+}
+
+// ==============================|| CREATE ||============================== //
+
+// Accepts the bigint Prisma returns for BIGINT columns as well as plain cents.
+// There is deliberately no default currency - an auction's amounts are always in the auction's own currency
+export function createMoney(amountInCents: number | bigint, currencyCode: string): Money {
+  return { amountInCents: Number(amountInCents), currencyCode };
+}
+
+export function createOptionalMoney(amountInCents: number | bigint | null, currencyCode: string): Money | null {
+  return amountInCents === null ? null : createMoney(amountInCents, currencyCode);
+}
+
+// BIGINT columns come back from Prisma as bigint; cents stay far below Number.MAX_SAFE_INTEGER, so this is exact
+export function convertCentsToNumber(amountInCents: bigint): number {
+  return Number(amountInCents);
+}
+
+export function convertOptionalCentsToNumber(amountInCents: bigint | null): number | null {
+  return amountInCents === null ? null : Number(amountInCents);
+}
+
+// ==============================|| PARSE ||============================== //
+
+export function checkIsSupportedCurrencyCode(value: unknown): value is SupportedCurrencyCode {
+  return typeof value === 'string' && (SUPPORTED_CURRENCY_CODES as readonly string[]).includes(value);
+}
+
+// Reads an amount typed as a decimal ("12.5", "12.50", 12.5) without going through a float, so it can never be off by a cent.
+// Returns null for anything that is not a non-negative amount with at most two decimal places
+export function parseCentsFromDecimalAmount(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const amountMatch = /^(\d+)(?:\.(\d{1,2}))?$/.exec(String(value).trim());
+
+  if (!amountMatch) return null;
+
+  const [, wholeUnits, fractionDigits = ''] = amountMatch;
+  const amountInCents = Number(wholeUnits) * CENTS_PER_UNIT + Number(fractionDigits.padEnd(2, '0'));
+
+  return Number.isSafeInteger(amountInCents) ? amountInCents : null;
+}
+
+// Reads a Money value sent by a client. Null unless it is whole, non-negative cents in a supported currency -
+// whether that is the right currency is up to the caller, which knows what the amount is for
+export function parseMoneyPayload(value: unknown): Money | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const { amountInCents, currencyCode } = value as Partial<Money>;
+
+  if (!checkIsSupportedCurrencyCode(currencyCode)) return null;
+
+  return typeof amountInCents === 'number' && Number.isSafeInteger(amountInCents) && amountInCents >= 0
+    ? { amountInCents, currencyCode }
+    : null;
+}
+
+// ==============================|| FORMAT ||============================== //
+
+// For messages shown to users, e.g. "$1,234.50"
+export function formatMoney(money: Money): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: money.currencyCode }).format(money.amountInCents / CENTS_PER_UNIT);
+}
@@ -0,0 +1,75 @@
+// ==============================|| MULTI-UNIT ALLOCATION UTILITY ||============================== //
+// Decides who wins how many units of a multi-quantity auction, and the price each winner pays per unit.
+
+import { MultiUnitPricing } from '@prisma/client';
+
+export interface MultiUnitBidEntry {
+  bidderUserId: string;
+  bidAmountInCents: number; // Per unit
+  bidQuantity: number;
+  placedAtTimestamp: Date;
+}
+
+export interface MultiUnitAllocation {
+  bidderUserId: string;
+  quantityWon: number;
+  pricePerUnitInCents: number;
+}
+
+export interface MultiUnitAllocationResult {
+  allocations: MultiUnitAllocation[];
+  quantityAllocated: number;
+  lowestAcceptedBidInCents: number | null; // Null when no bid was accepted
+}
+
+// ==============================|| ALLOCATE ||============================== //
+
+// Units go to the highest per-unit bids first. The last accepted bid may be filled only in part
+export function allocateMultiUnitAuction(
+  standingBids: MultiUnitBidEntry[],
+  quantityAvailable: number,
+  multiUnitPricing: MultiUnitPricing
+): MultiUnitAllocationResult {
+  // Ties go to whoever placed their standing bid first
+  const rankedBids = [...standingBids].sort(
+    (firstBid, secondBid) =>
+      secondBid.bidAmountInCents - firstBid.bidAmountInCents || firstBid.placedAtTimestamp.getTime() - secondBid.placedAtTimestamp.getTime()
+  );
+
+  const acceptedBids: Array<{ bidderUserId: string; quantityWon: number; bidAmountInCents: number }> = [];
+  let quantityRemaining = quantityAvailable;
+
+  for (const bid of rankedBids) {
+    if (quantityRemaining === 0) break;
+
+    const quantityWon = Math.min(bid.bidQuantity, quantityRemaining);
+    acceptedBids.push({ bidderUserId: bid.bidderUserId, quantityWon, bidAmountInCents: bid.bidAmountInCents });
+    quantityRemaining -= quantityWon;
+  }
+
+  const lowestAcceptedBidInCents = acceptedBids.length > 0 ? acceptedBids[acceptedBids.length - 1].bidAmountInCents : null;
+
+  return {
+    allocations: acceptedBids.map((acceptedBid) => ({
+      bidderUserId: acceptedBid.bidderUserId,
+      quantityWon: acceptedBid.quantityWon,
+      pricePerUnitInCents:
+        multiUnitPricing === 'UNIFORM_PRICE' && lowestAcceptedBidInCents !== null ? lowestAcceptedBidInCents : acceptedBid.bidAmountInCents
+    })),
+    quantityAllocated: quantityAvailable - quantityRemaining,
+    lowestAcceptedBidInCents
+  };
+}
+
+// The price a new bid has to beat: the lowest accepted bid once every unit is spoken for, otherwise the starting price
+export function calculateMultiUnitClearingPrice(
+  allocationResult: MultiUnitAllocationResult,
+  quantityAvailable: number,
+  startingPriceInCents: number
+): number {
+  if (allocationResult.quantityAllocated < quantityAvailable || allocationResult.lowestAcceptedBidInCents === null) {
+    return startingPriceInCents;
+  }
+
+  return allocationResult.lowestAcceptedBidInCents;
+}
@@ -0,0 +1,44 @@
+// ==============================|| SEALED BID SETTLEMENT UTILITY ||============================== //
+// Decides the winner and the price paid when a sealed-bid auction closes.
+
+import { SealedBidPricing } from '@prisma/client';
+
+export interface SealedBidEntry {
+  bidderUserId: string;
+  bidAmountInCents: number;
+  placedAtTimestamp: Date;
+}
+
+export interface SealedBidSettlement {
+  winnerUserId: string | null;
+  settlementPriceInCents: number;
+}
+
+// ==============================|| SETTLE ||============================== //
+
+export function settleSealedBidAuction(
+  sealedBids: SealedBidEntry[],
+  sealedBidPricing: SealedBidPricing,
+  startingPriceInCents: number
+): SealedBidSettlement {
+  if (sealedBids.length === 0) {
+    return { winnerUserId: null, settlementPriceInCents: startingPriceInCents };
+  }
+
+  // Highest bid wins, ties go to whoever submitted their final bid first
+  const rankedBids = [...sealedBids].sort(
+    (firstBid, secondBid) =>
+      secondBid.bidAmountInCents - firstBid.bidAmountInCents || firstBid.placedAtTimestamp.getTime() - secondBid.placedAtTimestamp.getTime()
+  );
+  const [winningBid, runnerUpBid] = rankedBids;
+
+  if (sealedBidPricing === 'FIRST_PRICE') {
+    return { winnerUserId: winningBid.bidderUserId, settlementPriceInCents: winningBid.bidAmountInCents };
+  }
+
+  // A lone second-price bidder pays the starting price
+  return {
+    winnerUserId: winningBid.bidderUserId,
+    settlementPriceInCents: runnerUpBid ? runnerUpBid.bidAmountInCents : startingPriceInCents
+  };
+}
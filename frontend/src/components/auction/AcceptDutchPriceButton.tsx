@@ -0,0 +1,82 @@
+// Button for accepting the current falling price of a Dutch auction, with a confirmation step
+
+import { useState } from 'react';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import FallOutlined from '@ant-design/icons/FallOutlined';
+import useDutchAuctionAcceptance from 'hooks/useDutchAuctionAcceptance';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { Money, formatMoney } from 'utils/money';
+
+interface AcceptDutchPriceButtonProps {
+  auctionItemId: string;
+  currentPrice: Money;
+  isAuctionEnded: boolean;
+  isUserWinner: boolean;
+  isUserCreator: boolean;
+}
+
+export default function AcceptDutchPriceButton({
+  auctionItemId,
+  currentPrice,
+  isAuctionEnded,
+  isUserWinner,
+  isUserCreator
+}: AcceptDutchPriceButtonProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const { acceptDutchPriceForAuction, isAcceptanceInProgress } = useDutchAuctionAcceptance();
+
+  const handleConfirmAcceptance = async () => {
+    const result = await acceptDutchPriceForAuction(auctionItemId);
+
+    openSnackbar({
+      open: true,
+      message:
+        result.wasSuccessful && result.purchasePrice
+          ? `You bought this item for ${formatMoney(result.purchasePrice)}!`
+          : result.errorMessage || 'Failed to accept the price',
+      variant: 'alert',
+      alert: { color: result.wasSuccessful ? 'success' : 'error' }
+    } as SnackbarProps);
+
+    setIsConfirming(false);
+  };
+
+  if (isAuctionEnded) {
+    return (
+      <Typography variant="body1" color={isUserWinner ? 'success.main' : 'text.secondary'} textAlign="center" fontWeight={600}>
+        {isUserWinner ? 'You won this auction!' : 'Auction has ended'}
+      </Typography>
+    );
+  }
+
+  // The price keeps falling while confirming - the server charges the price at the moment it accepts
+  if (isConfirming) {
+    return (
+      <Stack direction="row" spacing={1}>
+        <Button fullWidth variant="contained" color="success" onClick={handleConfirmAcceptance} disabled={isAcceptanceInProgress}>
+          {isAcceptanceInProgress ? <CircularProgress size={20} color="inherit" /> : `Confirm ~${formatMoney(currentPrice)}`}
+        </Button>
+        <Button variant="outlined" color="secondary" onClick={() => setIsConfirming(false)} disabled={isAcceptanceInProgress}>
+          Cancel
+        </Button>
+      </Stack>
+    );
+  }
+
+  return (
+    <Button
+      fullWidth
+      variant="contained"
+      size="large"
+      startIcon={<FallOutlined />}
+      onClick={() => setIsConfirming(true)}
+      disabled={isUserCreator}
+    >
+      {isUserCreator ? 'Your auction' : `Buy at ${formatMoney(currentPrice)}`}
+    </Button>
+  );
+}
@@ -15,12 +15,22 @@ import useAuth from 'hooks/useAuth';
 import useAuctionStore, { AuctionItemState } from 'store/auctionStore';
 import CountdownTimer from './CountdownTimer';
 import BidButton from './BidButton';
-import { WinningBadge, OutbidBadge, BidCountBadge, AuctionEndedBadge } from './BidStatusBadges';
+import BuyNowButton from './BuyNowButton';
+import AcceptDutchPriceButton from './AcceptDutchPriceButton';
+import SealedBidForm from './SealedBidForm';
+import MultiUnitBidForm from './MultiUnitBidForm';
+import SellerAuctionActions from './SellerAuctionActions';
+import ConvertedMoney from './ConvertedMoney';
+import useDutchAuctionPrice from 'hooks/useDutchAuctionPrice';
+import { createMoney, formatMoney } from 'utils/money';
+import { WinningBadge, OutbidBadge, BidCountBadge, AuctionEndedBadge, ReserveStatusBadge } from './BidStatusBadges';
 
 interface AuctionCardProps {
   auctionItem: AuctionItemState;
 }
 
+const formatSecondsShort = (seconds: number) => (seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60}m` : `${seconds}s`);
+
 const DEFAULT_IMAGE = 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=400&h=300&fit=crop';
 
 export default function AuctionCard({ auctionItem }: AuctionCardProps) {
@@ -31,34 +41,46 @@ export default function AuctionCard({ auctionItem }: AuctionCardProps) {
   const currentUserId = user?.id || '';
   const isRecentlyUpdated = recentlyUpdatedAuctionIds.has(auctionItem.id);
   const isAuctionEnded = auctionItem.currentStatus === 'ENDED';
+  const isDutchAuction = auctionItem.auctionFormat === 'DUTCH';
+  const isSealedBidAuction = auctionItem.auctionFormat === 'SEALED_BID';
+  const isMultiUnitAuction = auctionItem.quantityAvailable > 1;
+
+  // Dutch prices fall live until someone accepts; after that the sale price is the current bid
+  const dutchPriceInCents = useDutchAuctionPrice(auctionItem);
+  const displayedPrice =
+    isDutchAuction && !isAuctionEnded && dutchPriceInCents !== null
+      ? createMoney(dutchPriceInCents, auctionItem.startingPrice.currencyCode)
+      : auctionItem.currentHighestBid;
 
-  const prevBidRef = useRef(auctionItem.currentHighestBidInDollars);
+  const prevBidRef = useRef(auctionItem.currentHighestBid.amountInCents);
   const [showPriceFlash, setShowPriceFlash] = useState(false);
 
   // Flash animation when bid amount changes
   useEffect(() => {
-    if (prevBidRef.current !== auctionItem.currentHighestBidInDollars) {
+    if (prevBidRef.current !== auctionItem.currentHighestBid.amountInCents) {
       setShowPriceFlash(true);
-      prevBidRef.current = auctionItem.currentHighestBidInDollars;
+      prevBidRef.current = auctionItem.currentHighestBid.amountInCents;
 
       const timer = setTimeout(() => setShowPriceFlash(false), 1000);
       return () => clearTimeout(timer);
     }
-  }, [auctionItem.currentHighestBidInDollars]);
+  }, [auctionItem.currentHighestBid.amountInCents]);
 
+  // Several bidders can be winning units of a multi-quantity auction at once, so there is no single leader to badge
   const isUserHighestBidder = useMemo(
-    () => auctionItem.highestBidder?.userId === currentUserId,
-    [auctionItem.highestBidder, currentUserId]
+    () => !isMultiUnitAuction && auctionItem.highestBidder?.userId === currentUserId,
+    [isMultiUnitAuction, auctionItem.highestBidder, currentUserId]
   );
 
-  const isUserWinner = useMemo(
-    () => isAuctionEnded && auctionItem.winnerUser?.userId === currentUserId,
-    [isAuctionEnded, auctionItem.winnerUser, currentUserId]
+  const quantityWonByUser = useMemo(
+    () => auctionItem.winners.find((winner) => winner.userId === currentUserId)?.quantityWon ?? 0,
+    [auctionItem.winners, currentUserId]
   );
+  const isUserWinner = isAuctionEnded && quantityWonByUser > 0;
 
   const isUserOutbid = useMemo(
-    () => !isUserHighestBidder && auctionItem.totalBidCount > 0 && auctionItem.highestBidder !== null,
-    [isUserHighestBidder, auctionItem.totalBidCount, auctionItem.highestBidder]
+    () => !isMultiUnitAuction && !isUserHighestBidder && auctionItem.totalBidCount > 0 && auctionItem.highestBidder !== null,
+    [isMultiUnitAuction, isUserHighestBidder, auctionItem.totalBidCount, auctionItem.highestBidder]
   );
 
   const borderColor = useMemo(() => {
@@ -70,6 +92,13 @@ export default function AuctionCard({ auctionItem }: AuctionCardProps) {
 
   const imageUrl = auctionItem.itemImageUrl || DEFAULT_IMAGE;
 
+  const getPriceLabel = () => {
+    if (isDutchAuction) return isAuctionEnded ? 'Sale Price' : 'Current Price';
+    if (isSealedBidAuction) return isAuctionEnded ? 'Sale Price' : 'Starting Price';
+    if (isMultiUnitAuction) return 'Clearing Price';
+    return 'Current Bid';
+  };
+
   return (
     <Card
       component={motion.div}
@@ -108,7 +137,7 @@ export default function AuctionCard({ auctionItem }: AuctionCardProps) {
         <Box sx={{ position: 'absolute', top: 8, right: 8, display: 'flex', flexDirection: 'column', gap: 0.5, alignItems: 'flex-end' }}>
           <WinningBadge isVisible={isUserHighestBidder && !isAuctionEnded} />
           <OutbidBadge isVisible={isUserOutbid && !isAuctionEnded} />
-          {isAuctionEnded && <AuctionEndedBadge winnerUsername={auctionItem.winnerUser?.username || null} />}
+          {isAuctionEnded && <AuctionEndedBadge winners={auctionItem.winners} endReason={auctionItem.endReason} />}
         </Box>
       </Box>
 
@@ -143,14 +172,19 @@ export default function AuctionCard({ auctionItem }: AuctionCardProps) {
         <Stack spacing={1.5} sx={{ mb: 2.5 }}>
           <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
             <Typography variant="body1" color="text.secondary" fontWeight={500}>
-              Current Bid
+              {getPriceLabel()}
             </Typography>
-            <BidCountBadge totalBidCount={auctionItem.totalBidCount} />
+            <Stack direction="row" spacing={1} alignItems="center">
+              {auctionItem.hasReservePrice && auctionItem.isReservePriceMet !== null && (
+                <ReserveStatusBadge isReservePriceMet={auctionItem.isReservePriceMet} />
+              )}
+              <BidCountBadge totalBidCount={auctionItem.totalBidCount} />
+            </Stack>
           </Box>
 
           <AnimatePresence mode="wait">
             <motion.div
-              key={auctionItem.currentHighestBidInDollars}
+              key={auctionItem.currentHighestBid.amountInCents}
               initial={{ scale: 1 }}
               animate={{ scale: showPriceFlash ? [1, 1.15, 1] : 1 }}
               transition={{ duration: 0.4 }}
@@ -178,13 +212,40 @@ export default function AuctionCard({ auctionItem }: AuctionCardProps) {
                   variant="h3"
                   sx={{ fontWeight: 700, display: 'block' }}
                 >
-                  ${auctionItem.currentHighestBidInDollars.toFixed(2)}
+                  {formatMoney(displayedPrice)}
                 </Typography>
               </Box>
             </motion.div>
           </AnimatePresence>
 
-          {auctionItem.highestBidder && (
+          <ConvertedMoney money={displayedPrice} />
+
+          {isDutchAuction && !isAuctionEnded && auctionItem.dutchPriceSchedule && (
+            <Typography variant="caption" color="text.secondary">
+              Falls to {formatMoney(auctionItem.dutchPriceSchedule.floorPrice)}
+              {auctionItem.dutchPriceSchedule.priceCurve === 'STEPWISE' && auctionItem.dutchPriceSchedule.dropAmount !== null
+                ? ` by ${formatMoney(auctionItem.dutchPriceSchedule.dropAmount)} every ${formatSecondsShort(auctionItem.dutchPriceSchedule.dropIntervalInSeconds ?? 1)}`
+                : ' steadily until the auction ends'}
+            </Typography>
+          )}
+
+          {isSealedBidAuction && !isAuctionEnded && (
+            <Typography variant="caption" color="text.secondary">
+              Sealed bids are hidden until close. The winner pays{' '}
+              {auctionItem.sealedBidPricing === 'SECOND_PRICE' ? 'the second-highest bid' : 'their own bid'}
+            </Typography>
+          )}
+
+          {isMultiUnitAuction && (
+            <Typography variant="caption" color="text.secondary">
+              {auctionItem.quantityAvailable} units on offer. At close the top bids win and{' '}
+              {auctionItem.multiUnitPricing === 'UNIFORM_PRICE'
+                ? 'every winner pays the lowest winning bid'
+                : 'each winner pays their own bid'}
+            </Typography>
+          )}
+
+          {auctionItem.highestBidder && !isMultiUnitAuction && (
             <Typography variant="body2" color="text.secondary">
               Highest bidder: <strong>{auctionItem.highestBidder.username}</strong>
             </Typography>
@@ -197,18 +258,60 @@ export default function AuctionCard({ auctionItem }: AuctionCardProps) {
             {isAuctionEnded ? 'Auction ended' : 'Time remaining'}
           </Typography>
           <CountdownTimer auctionEndTimeISOString={auctionItem.auctionEndTimeTimestamp} />
+          {!isAuctionEnded && auctionItem.softCloseWindowInSeconds > 0 && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+              Bids in the last {formatSecondsShort(auctionItem.softCloseWindowInSeconds)} extend the auction by{' '}
+              {formatSecondsShort(auctionItem.softCloseExtensionInSeconds)}
+            </Typography>
+          )}
         </Box>
 
         <Box sx={{ flexGrow: 1 }} />
 
-        <BidButton
-          auctionItemId={auctionItem.id}
-          currentBidInDollars={auctionItem.currentHighestBidInDollars}
-          minimumIncrementInDollars={auctionItem.minimumBidIncrementInDollars}
-          isAuctionEnded={isAuctionEnded}
-          isUserHighestBidder={isUserHighestBidder}
-          isUserWinner={isUserWinner}
-        />
+        {isSealedBidAuction ? (
+          <SealedBidForm
+            auctionItemId={auctionItem.id}
+            startingPrice={auctionItem.startingPrice}
+            isAuctionEnded={isAuctionEnded}
+            isUserWinner={isUserWinner}
+            isUserCreator={auctionItem.creatorUser.userId === currentUserId}
+          />
+        ) : isMultiUnitAuction ? (
+          <MultiUnitBidForm
+            auctionItemId={auctionItem.id}
+            quantityAvailable={auctionItem.quantityAvailable}
+            minimumBidPerUnit={createMoney(
+              auctionItem.currentHighestBid.amountInCents + auctionItem.bidIncrement.amountInCents,
+              auctionItem.currentHighestBid.currencyCode
+            )}
+            isAuctionEnded={isAuctionEnded}
+            quantityWonByUser={quantityWonByUser}
+            isUserCreator={auctionItem.creatorUser.userId === currentUserId}
+          />
+        ) : isDutchAuction ? (
+          <AcceptDutchPriceButton
+            auctionItemId={auctionItem.id}
+            currentPrice={displayedPrice}
+            isAuctionEnded={isAuctionEnded}
+            isUserWinner={isUserWinner}
+            isUserCreator={auctionItem.creatorUser.userId === currentUserId}
+          />
+        ) : (
+          <BidButton
+            auctionItemId={auctionItem.id}
+            currentBid={auctionItem.currentHighestBid}
+            minimumIncrement={auctionItem.bidIncrement}
+            isAuctionEnded={isAuctionEnded}
+            isUserHighestBidder={isUserHighestBidder}
+            isUserWinner={isUserWinner}
+          />
+        )}
+
+        {!isAuctionEnded && auctionItem.isBuyNowAvailable && auctionItem.buyNowPrice !== null && (
+          <BuyNowButton auctionItemId={auctionItem.id} buyNowPrice={auctionItem.buyNowPrice} />
+        )}
+
+        {!isAuctionEnded && auctionItem.creatorUser.userId === currentUserId && <SellerAuctionActions auctionItem={auctionItem} />}
       </CardContent>
     </Card>
   );
@@ -1,18 +1,24 @@
 // Button for placing bids with loading state and status display
 
 import { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import Button from '@mui/material/Button';
 import CircularProgress from '@mui/material/CircularProgress';
+import Collapse from '@mui/material/Collapse';
+import InputAdornment from '@mui/material/InputAdornment';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
 import Typography from '@mui/material/Typography';
 import { motion } from 'framer-motion';
 import useBidSubmission from 'hooks/useBidSubmission';
 import { openSnackbar } from 'api/snackbar';
 import { SnackbarProps } from 'types/snackbar';
+import { Money, createMoney, formatCentsAsDecimalAmount, formatMoney, parseCentsFromDecimalAmount } from 'utils/money';
 
 interface BidButtonProps {
   auctionItemId: string;
-  currentBidInDollars: number;
-  minimumIncrementInDollars: number;
+  currentBid: Money;
+  minimumIncrement: Money;
   isAuctionEnded: boolean;
   isUserHighestBidder: boolean;
   isUserWinner: boolean;
@@ -21,8 +27,8 @@ interface BidButtonProps {
 
 export default function BidButton({
   auctionItemId,
-  currentBidInDollars,
-  minimumIncrementInDollars,
+  currentBid,
+  minimumIncrement,
   isAuctionEnded,
   isUserHighestBidder,
   isUserWinner,
@@ -30,30 +36,55 @@ export default function BidButton({
 }: BidButtonProps) {
   const { submitBidForAuction, isBidSubmissionInProgress } = useBidSubmission();
   const [isAnimating, setIsAnimating] = useState(false);
+  const [isMaximumBidFormOpen, setIsMaximumBidFormOpen] = useState(false);
+  const [maximumBidInput, setMaximumBidInput] = useState('');
 
-  const nextBidAmount = currentBidInDollars + minimumIncrementInDollars;
+  const nextBidAmount = createMoney(currentBid.amountInCents + minimumIncrement.amountInCents, currentBid.currencyCode);
+  const maximumBidAmountInCents = parseCentsFromDecimalAmount(maximumBidInput);
+  const isMaximumBidValid = maximumBidAmountInCents !== null && maximumBidAmountInCents >= nextBidAmount.amountInCents;
 
-  const handleBidClick = async () => {
+  const submitBid = async (maximumBidAmount: Money | null) => {
     if (isAuctionEnded || disabled || isBidSubmissionInProgress) return;
 
     setIsAnimating(true);
-    const result = await submitBidForAuction(auctionItemId, nextBidAmount);
+    const result = await submitBidForAuction(auctionItemId, nextBidAmount, maximumBidAmount);
     setIsAnimating(false);
 
+    if (result.wasSuccessful) {
+      setIsMaximumBidFormOpen(false);
+      setMaximumBidInput('');
+    }
+
     openSnackbar({
       open: true,
-      message: result.wasSuccessful
-        ? `Bid of $${nextBidAmount.toFixed(2)} placed successfully!`
-        : result.errorMessage || 'Failed to place bid',
+      message: getResultMessage(result),
       variant: 'alert',
-      alert: { color: result.wasSuccessful ? 'success' : 'error' }
+      alert: { color: !result.wasSuccessful ? 'error' : result.isHighestBidder ? 'success' : 'warning' }
     } as SnackbarProps);
   };
 
-  const formatIncrement = (amount: number) => {
-    return amount >= 1 && amount === Math.floor(amount) ? `$${amount.toFixed(0)}` : `$${amount.toFixed(2)}`;
+  const getResultMessage = (result: Awaited<ReturnType<typeof submitBidForAuction>>) => {
+    if (!result.wasSuccessful) return result.errorMessage || 'Failed to place bid';
+    if (!result.isHighestBidder && result.newHighestBid) {
+      return `You were outbid by another bidder's maximum bid at ${formatMoney(result.newHighestBid)}`;
+    }
+    if (!result.bidId && result.maximumBidAmount) return `Maximum bid raised to ${formatMoney(result.maximumBidAmount)}`;
+    if (result.maximumBidAmount && result.newHighestBid) {
+      return `You're winning at ${formatMoney(result.newHighestBid)} - we'll bid for you up to ${formatMoney(result.maximumBidAmount)}`;
+    }
+    return `Bid of ${formatMoney(nextBidAmount)} placed successfully!`;
   };
 
+  const handleBidClick = () => submitBid(null);
+
+  const handleMaximumBidSubmit = () => {
+    if (!isMaximumBidValid) return;
+    submitBid(createMoney(maximumBidAmountInCents, currentBid.currencyCode));
+  };
+
+  // Whole-unit increments read better without the cents, e.g. "+$5"
+  const formatIncrement = (increment: Money) => formatMoney(increment).replace(/\.00$/, '');
+
   const getButtonContent = () => {
     if (isAuctionEnded) {
       return (
@@ -77,7 +108,7 @@ export default function BidButton({
 
     return (
       <Typography variant="h6" sx={{ fontWeight: 700 }}>
-        Bid +{formatIncrement(minimumIncrementInDollars)}
+        Bid +{formatIncrement(minimumIncrement)}
       </Typography>
     );
   };
@@ -107,6 +138,55 @@ export default function BidButton({
       >
         {getButtonContent()}
       </Button>
+
+      {isAuctionEnded && isUserWinner && (
+        <Button fullWidth size="small" color="success" component={RouterLink} to="/won-items" sx={{ mt: 1 }}>
+          View order and payment
+        </Button>
+      )}
+
+      {!isAuctionEnded && !disabled && (
+        <>
+          <Button
+            fullWidth
+            size="small"
+            color="secondary"
+            onClick={() => setIsMaximumBidFormOpen((isOpen) => !isOpen)}
+            disabled={isBidSubmissionInProgress}
+            sx={{ mt: 1 }}
+          >
+            {isMaximumBidFormOpen ? 'Hide maximum bid' : isUserHighestBidder ? 'Raise your maximum bid' : 'Set a maximum bid'}
+          </Button>
+
+          <Collapse in={isMaximumBidFormOpen}>
+            <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+              <TextField
+                size="small"
+                type="number"
+                placeholder={formatCentsAsDecimalAmount(nextBidAmount.amountInCents)}
+                value={maximumBidInput}
+                onChange={(event) => setMaximumBidInput(event.target.value)}
+                error={maximumBidInput !== '' && !isMaximumBidValid}
+                helperText={`Kept secret. We bid for you up to this amount (min ${formatMoney(nextBidAmount)})`}
+                InputProps={{ startAdornment: <InputAdornment position="start">{currentBid.currencyCode}</InputAdornment> }}
+                inputProps={{
+                  min: formatCentsAsDecimalAmount(nextBidAmount.amountInCents),
+                  step: formatCentsAsDecimalAmount(minimumIncrement.amountInCents)
+                }}
+                sx={{ flexGrow: 1 }}
+              />
+              <Button
+                variant="outlined"
+                onClick={handleMaximumBidSubmit}
+                disabled={!isMaximumBidValid || isBidSubmissionInProgress}
+                sx={{ alignSelf: 'flex-start', height: 40 }}
+              >
+                Confirm
+              </Button>
+            </Stack>
+          </Collapse>
+        </>
+      )}
     </motion.div>
   );
 }
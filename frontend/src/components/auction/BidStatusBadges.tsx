@@ -1,4 +1,4 @@
-// Visual badges for auction status (winning, outbid, ended)
+// Visual badges for auction status (winning, outbid, reserve, ended)
 
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
@@ -6,6 +6,7 @@ import Chip from '@mui/material/Chip';
 import { motion, AnimatePresence } from 'framer-motion';
 import TrophyOutlined from '@ant-design/icons/TrophyOutlined';
 import CloseCircleOutlined from '@ant-design/icons/CloseCircleOutlined';
+import { AuctionEndReason, AuctionWinnerState } from 'store/auctionStore';
 
 const springTransition = { type: 'spring' as const, stiffness: 500, damping: 25 };
 
@@ -77,19 +78,37 @@ export function BidCountBadge({ totalBidCount }: BidCountBadgeProps) {
   );
 }
 
+interface ReserveStatusBadgeProps {
+  isReservePriceMet: boolean;
+}
+
+export function ReserveStatusBadge({ isReservePriceMet }: ReserveStatusBadgeProps) {
+  return (
+    <Chip
+      label={isReservePriceMet ? 'Reserve met' : 'Reserve not met'}
+      color={isReservePriceMet ? 'success' : 'warning'}
+      variant="outlined"
+      size="small"
+      sx={{ fontWeight: 600 }}
+    />
+  );
+}
+
 interface AuctionEndedBadgeProps {
-  winnerUsername: string | null;
+  winners: AuctionWinnerState[];
+  endReason?: AuctionEndReason | null;
 }
 
-export function AuctionEndedBadge({ winnerUsername }: AuctionEndedBadgeProps) {
+export function AuctionEndedBadge({ winners, endReason = null }: AuctionEndedBadgeProps) {
+  const getLabel = () => {
+    if (winners.length > 1) return `Sold to ${winners.length} bidders`;
+    if (winners.length === 1) return `Won by ${winners[0].username}`;
+    return endReason === 'RESERVE_NOT_MET' ? 'Reserve Not Met' : 'No Winner';
+  };
+
   return (
     <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
-      <Chip
-        label={winnerUsername ? `Won by ${winnerUsername}` : 'No Winner'}
-        color={winnerUsername ? 'primary' : 'default'}
-        size="small"
-        sx={{ fontWeight: 600 }}
-      />
+      <Chip label={getLabel()} color={winners.length > 0 ? 'primary' : 'default'} size="small" sx={{ fontWeight: 600 }} />
     </motion.div>
   );
 }
@@ -0,0 +1,76 @@
+// Button for buying an item outright at its Buy-It-Now price, with a confirmation step
+
+import { useState } from 'react';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Stack from '@mui/material/Stack';
+import ShoppingCartOutlined from '@ant-design/icons/ShoppingCartOutlined';
+import axios from 'utils/axios';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { Money, formatMoney } from 'utils/money';
+
+interface BuyNowButtonProps {
+  auctionItemId: string;
+  buyNowPrice: Money;
+  disabled?: boolean;
+}
+
+export default function BuyNowButton({ auctionItemId, buyNowPrice, disabled = false }: BuyNowButtonProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isPurchaseInProgress, setIsPurchaseInProgress] = useState(false);
+
+  const handleConfirmPurchase = async () => {
+    setIsPurchaseInProgress(true);
+
+    try {
+      const response = await axios.post(`/api/auction-items/${auctionItemId}/buy-now`);
+
+      openSnackbar({
+        open: true,
+        message: response.data.success
+          ? `You bought this item for ${formatMoney(buyNowPrice)}!`
+          : response.data.errorMessage || 'Failed to complete purchase',
+        variant: 'alert',
+        alert: { color: response.data.success ? 'success' : 'error' }
+      } as SnackbarProps);
+    } catch (error: any) {
+      openSnackbar({
+        open: true,
+        message: error.response?.data?.errorMessage || error.errorMessage || 'Failed to complete purchase',
+        variant: 'alert',
+        alert: { color: 'error' }
+      } as SnackbarProps);
+    } finally {
+      setIsPurchaseInProgress(false);
+      setIsConfirming(false);
+    }
+  };
+
+  if (isConfirming) {
+    return (
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        <Button fullWidth variant="contained" color="success" onClick={handleConfirmPurchase} disabled={isPurchaseInProgress}>
+          {isPurchaseInProgress ? <CircularProgress size={20} color="inherit" /> : `Confirm ${formatMoney(buyNowPrice)}`}
+        </Button>
+        <Button variant="outlined" color="secondary" onClick={() => setIsConfirming(false)} disabled={isPurchaseInProgress}>
+          Cancel
+        </Button>
+      </Stack>
+    );
+  }
+
+  return (
+    <Button
+      fullWidth
+      variant="outlined"
+      color="success"
+      startIcon={<ShoppingCartOutlined />}
+      onClick={() => setIsConfirming(true)}
+      disabled={disabled}
+      sx={{ mt: 1 }}
+    >
+      Buy It Now for {formatMoney(buyNowPrice)}
+    </Button>
+  );
+}
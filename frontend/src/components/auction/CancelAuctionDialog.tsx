@@ -0,0 +1,98 @@
+// Confirmation dialog for sellers withdrawing an auction, with the reason shown to bidders
+
+import { useState } from 'react';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogActions from '@mui/material/DialogActions';
+import TextField from '@mui/material/TextField';
+import axios from 'utils/axios';
+import useAuctionStore, { AuctionItemState } from 'store/auctionStore';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+
+interface CancelAuctionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  auctionItem: AuctionItemState;
+}
+
+const MINIMUM_REASON_LENGTH = 3;
+
+export default function CancelAuctionDialog({ open, onClose, auctionItem }: CancelAuctionDialogProps) {
+  const { removeCancelledAuction } = useAuctionStore();
+  const [cancellationReason, setCancellationReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const isReasonValid = cancellationReason.trim().length >= MINIMUM_REASON_LENGTH;
+
+  const handleConfirmCancellation = async () => {
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await axios.post(`/api/auction-items/${auctionItem.id}/cancel`, { reason: cancellationReason.trim() });
+
+      if (response.data.success) {
+        removeCancelledAuction(auctionItem.id);
+        openSnackbar({
+          open: true,
+          message: 'Auction cancelled. Bidders have been notified',
+          variant: 'alert',
+          alert: { color: 'success' }
+        } as SnackbarProps);
+        setCancellationReason('');
+        onClose();
+      } else {
+        setSubmitError(response.data.errorMessage || 'Failed to cancel auction');
+      }
+    } catch (error: any) {
+      setSubmitError(error.errorMessage || error.message || 'Failed to cancel auction');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    setSubmitError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Cancel "{auctionItem.itemTitle}"?</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {auctionItem.totalBidCount > 0
+            ? 'Bidding has already started. Everyone watching will see your reason, and no one will win the item.'
+            : 'The auction will be withdrawn and no one will be able to bid on it.'}
+        </DialogContentText>
+        <TextField
+          label="Reason"
+          placeholder="e.g., Item is no longer available"
+          value={cancellationReason}
+          onChange={(event) => setCancellationReason(event.target.value)}
+          error={!!submitError}
+          helperText={submitError || 'Shown to bidders'}
+          fullWidth
+          required
+          multiline
+          rows={2}
+          autoFocus
+        />
+      </DialogContent>
+      <DialogActions sx={{ p: 2.5 }}>
+        <Button onClick={handleClose} disabled={isSubmitting} color="secondary">
+          Keep Auction
+        </Button>
+        <Button onClick={handleConfirmCancellation} variant="contained" color="error" disabled={isSubmitting || !isReasonValid}>
+          {isSubmitting ? 'Cancelling...' : 'Cancel Auction'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+// Shows an amount in the viewer's display currency next to the original, which is what bids are validated and charged in
+
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import useExchangeRates from 'hooks/useExchangeRates';
+import { Money, PLATFORM_CURRENCY_CODE, convertMoney, formatMoney } from 'utils/money';
+
+interface ConvertedMoneyProps {
+  money: Money;
+}
+
+export function ConvertedMoney({ money }: ConvertedMoneyProps) {
+  const { exchangeRates, displayCurrencyCode } = useExchangeRates();
+
+  const convertedMoney = convertMoney(money, displayCurrencyCode, exchangeRates);
+
+  if (!convertedMoney || convertedMoney.currencyCode === money.currencyCode) return null;
+
+  const sourceRate = exchangeRates.find((exchangeRate) => exchangeRate.currencyCode === money.currencyCode)!;
+  const targetRate = exchangeRates.find((exchangeRate) => exchangeRate.currencyCode === displayCurrencyCode)!;
+  const unitsPerSourceUnit = Number(targetRate.unitsPerPlatformUnit) / Number(sourceRate.unitsPerPlatformUnit);
+
+  // The platform rate never changes, so the conversion is only as fresh as the other rate involved
+  const quotedAtTimestamps = [sourceRate, targetRate]
+    .filter((exchangeRate) => exchangeRate.currencyCode !== PLATFORM_CURRENCY_CODE)
+    .map((exchangeRate) => new Date(exchangeRate.quotedAtTimestamp).getTime());
+  const quotedAtDate = new Date(Math.min(...quotedAtTimestamps));
+
+  return (
+    <Tooltip
+      title={`1 ${money.currencyCode} = ${unitsPerSourceUnit.toFixed(4)} ${displayCurrencyCode}, rate as of ${quotedAtDate.toLocaleString('en-US')}. Bids are placed and charged in ${money.currencyCode}.`}
+    >
+      <Typography component="span" variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+        ≈ {formatMoney(convertedMoney)}
+      </Typography>
+    </Tooltip>
+  );
+}
+
+export default ConvertedMoney;
@@ -1,6 +1,6 @@
 // Modal form for creating new auction items
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Button from '@mui/material/Button';
 import Dialog from '@mui/material/Dialog';
 import DialogTitle from '@mui/material/DialogTitle';
@@ -17,8 +17,35 @@ import MenuItem from '@mui/material/MenuItem';
 import Select from '@mui/material/Select';
 import InputLabel from '@mui/material/InputLabel';
 import FormControl from '@mui/material/FormControl';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Switch from '@mui/material/Switch';
 import axios from 'utils/axios';
+import {
+  CURRENCY_NAMES,
+  PLATFORM_CURRENCY_CODE,
+  SUPPORTED_CURRENCY_CODES,
+  createMoney,
+  formatMoney,
+  parseCentsFromDecimalAmount
+} from 'utils/money';
 import CloseOutlined from '@ant-design/icons/CloseOutlined';
+import PlusOutlined from '@ant-design/icons/PlusOutlined';
+import DeleteOutlined from '@ant-design/icons/DeleteOutlined';
+
+interface BidIncrementTableOption {
+  id: string;
+  tableName: string;
+  incrementBands: { priceFromInCents: number; incrementInCents: number }[];
+}
+
+interface CustomBidIncrementBandInput {
+  priceFrom: string;
+  increment: string;
+}
+
+const CUSTOM_BID_INCREMENT_TABLE = 'custom';
+
+const INITIAL_CUSTOM_BID_INCREMENT_BANDS: CustomBidIncrementBandInput[] = [{ priceFrom: '0', increment: '1.00' }];
 
 interface CreateAuctionModalProps {
   open: boolean;
@@ -41,12 +68,61 @@ const DURATION_OPTIONS = [
   { value: 604800, label: '7 days' }
 ];
 
+const SOFT_CLOSE_WINDOW_OPTIONS = [
+  { value: 10, label: 'Last 10 seconds' },
+  { value: 30, label: 'Last 30 seconds' },
+  { value: 60, label: 'Last minute' },
+  { value: 120, label: 'Last 2 minutes' },
+  { value: 300, label: 'Last 5 minutes' }
+];
+
+const SOFT_CLOSE_EXTENSION_OPTIONS = [
+  { value: 10, label: '10 seconds' },
+  { value: 30, label: '30 seconds' },
+  { value: 60, label: '1 minute' },
+  { value: 120, label: '2 minutes' },
+  { value: 300, label: '5 minutes' }
+];
+
+const DUTCH_PRICE_CURVE_OPTIONS = [
+  { value: 'LINEAR', label: 'Linear - falls steadily until the auction ends' },
+  { value: 'STEPWISE', label: 'Stepwise - drops a fixed amount at set intervals' }
+];
+
+const SEALED_BID_PRICING_OPTIONS = [
+  { value: 'FIRST_PRICE', label: 'Their own bid (first price)' },
+  { value: 'SECOND_PRICE', label: 'The second-highest bid (Vickrey)' }
+];
+
+const MULTI_UNIT_PRICING_OPTIONS = [
+  { value: 'UNIFORM_PRICE', label: 'The lowest winning bid (uniform price)' },
+  { value: 'PAY_AS_BID', label: 'Their own bid (pay as bid)' }
+];
+
+const MAXIMUM_QUANTITY_PER_AUCTION = 1000;
+
 const INITIAL_FORM_STATE = {
+  auctionFormat: 'ENGLISH',
   title: '',
   description: '',
+  currencyCode: PLATFORM_CURRENCY_CODE as string,
   startingPrice: '',
-  minimumBidIncrement: '1.00',
+  bidIncrementTableId: '',
+  reservePrice: '',
+  buyNowPrice: '',
   durationInSeconds: 3600,
+  isScheduledStart: false,
+  scheduledStartTime: '',
+  isSoftCloseEnabled: true,
+  softCloseWindowInSeconds: 120,
+  softCloseExtensionInSeconds: 120,
+  dutchFloorPrice: '',
+  dutchPriceCurve: 'LINEAR',
+  dutchDropIntervalInSeconds: '60',
+  dutchDropAmount: '',
+  sealedBidPricing: 'FIRST_PRICE',
+  quantity: '1',
+  multiUnitPricing: 'UNIFORM_PRICE',
   imageUrl: ''
 };
 
@@ -55,6 +131,29 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [bidIncrementTables, setBidIncrementTables] = useState<BidIncrementTableOption[]>([]);
+  const [defaultBidIncrementTableId, setDefaultBidIncrementTableId] = useState('');
+  const [customBidIncrementBands, setCustomBidIncrementBands] = useState(INITIAL_CUSTOM_BID_INCREMENT_BANDS);
+
+  useEffect(() => {
+    if (!open) return;
+
+    axios
+      .get('/api/bid-increment-tables')
+      .then((response) => {
+        if (!response.data.success) return;
+
+        const tables: BidIncrementTableOption[] = response.data.data.bidIncrementTables;
+        const defaultTable = tables.find((table) => table.tableName === response.data.data.defaultTableName) || tables[0];
+
+        setBidIncrementTables(tables);
+        setDefaultBidIncrementTableId(defaultTable?.id || '');
+        setFormData((prev) => (prev.bidIncrementTableId ? prev : { ...prev, bidIncrementTableId: defaultTable?.id || '' }));
+      })
+      .catch(() => {
+        // The server falls back to its default table when none is sent
+      });
+  }, [open]);
 
   const handleChange = (field: string) => (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     setFormData((prev) => ({ ...prev, [field]: event.target.value }));
@@ -67,6 +166,41 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
     setFormData((prev) => ({ ...prev, durationInSeconds: event.target.value }));
   };
 
+  const handleSoftCloseSettingChange = (field: 'softCloseWindowInSeconds' | 'softCloseExtensionInSeconds') => (event: any) => {
+    setFormData((prev) => ({ ...prev, [field]: event.target.value }));
+  };
+
+  const handleCustomBidIncrementBandChange =
+    (bandIndex: number, field: keyof CustomBidIncrementBandInput) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      const value = event.target.value;
+      setCustomBidIncrementBands((prev) => prev.map((band, index) => (index === bandIndex ? { ...band, [field]: value } : band)));
+      if (errors.customBidIncrementBands) {
+        setErrors((prev) => ({ ...prev, customBidIncrementBands: '' }));
+      }
+    };
+
+  const handleAddCustomBidIncrementBand = () => {
+    setCustomBidIncrementBands((prev) => [...prev, { priceFrom: '', increment: '' }]);
+  };
+
+  const handleRemoveCustomBidIncrementBand = (bandIndex: number) => {
+    setCustomBidIncrementBands((prev) => prev.filter((_, index) => index !== bandIndex));
+  };
+
+  const handleAuctionFormatSettingChange =
+    (field: 'auctionFormat' | 'currencyCode' | 'dutchPriceCurve' | 'sealedBidPricing' | 'multiUnitPricing' | 'bidIncrementTableId') =>
+    (event: any) => {
+      setFormData((prev) => ({ ...prev, [field]: event.target.value }));
+      setErrors({});
+    };
+
+  const isEnglishAuction = formData.auctionFormat === 'ENGLISH';
+  const isDutchAuction = formData.auctionFormat === 'DUTCH';
+  const isSealedBidAuction = formData.auctionFormat === 'SEALED_BID';
+  const isMultiUnitAuction = isEnglishAuction && Number(formData.quantity) > 1;
+  const isCustomBidIncrementTable = isEnglishAuction && formData.bidIncrementTableId === CUSTOM_BID_INCREMENT_TABLE;
+  const selectedBidIncrementTable = bidIncrementTables.find((table) => table.id === formData.bidIncrementTableId);
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -78,14 +212,75 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
       newErrors.description = 'Description must be at least 10 characters';
     }
 
-    const price = parseFloat(formData.startingPrice);
-    if (isNaN(price) || price < 0.01) {
-      newErrors.startingPrice = 'Starting price must be at least $0.01';
+    // Prices are compared in whole cents, and anything with more than two decimals is rejected rather than rounded
+    const priceInCents = parseCentsFromDecimalAmount(formData.startingPrice);
+    if (priceInCents === null || priceInCents < 1) {
+      newErrors.startingPrice = 'Starting price must be at least 0.01';
     }
 
-    const increment = parseFloat(formData.minimumBidIncrement);
-    if (isNaN(increment) || increment < 0.01) {
-      newErrors.minimumBidIncrement = 'Minimum increment must be at least $0.01';
+    if (isDutchAuction) {
+      const floorInCents = parseCentsFromDecimalAmount(formData.dutchFloorPrice);
+      if (floorInCents === null || floorInCents < 1 || (priceInCents !== null && floorInCents >= priceInCents)) {
+        newErrors.dutchFloorPrice = 'Floor price must be at least 0.01 and below the starting price';
+      }
+
+      if (formData.dutchPriceCurve === 'STEPWISE') {
+        const interval = Number(formData.dutchDropIntervalInSeconds);
+        if (!Number.isInteger(interval) || interval < 1) {
+          newErrors.dutchDropIntervalInSeconds = 'Drop interval must be a whole number of seconds, at least 1';
+        }
+
+        const dropAmountInCents = parseCentsFromDecimalAmount(formData.dutchDropAmount);
+        if (dropAmountInCents === null || dropAmountInCents < 1) {
+          newErrors.dutchDropAmount = 'Drop amount must be at least 0.01';
+        }
+      }
+    }
+
+    if (isEnglishAuction) {
+      const quantity = Number(formData.quantity);
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAXIMUM_QUANTITY_PER_AUCTION) {
+        newErrors.quantity = `Quantity must be a whole number from 1 to ${MAXIMUM_QUANTITY_PER_AUCTION}`;
+      }
+    }
+
+    if (isCustomBidIncrementTable) {
+      const bandStartingPrices = customBidIncrementBands.map((band) => parseCentsFromDecimalAmount(band.priceFrom));
+      const hasInvalidBand = customBidIncrementBands.some(
+        (band) => parseCentsFromDecimalAmount(band.priceFrom) === null || (parseCentsFromDecimalAmount(band.increment) ?? 0) < 1
+      );
+
+      if (customBidIncrementBands.length === 0 || hasInvalidBand) {
+        newErrors.customBidIncrementBands = 'Every band needs a starting price of 0 or more and an increment of at least 0.01';
+      } else if (!bandStartingPrices.includes(0)) {
+        newErrors.customBidIncrementBands = 'The first band must start at 0';
+      } else if (new Set(bandStartingPrices).size !== bandStartingPrices.length) {
+        newErrors.customBidIncrementBands = 'Each band must start at a different price';
+      }
+    }
+
+    if (isEnglishAuction && !isMultiUnitAuction && formData.reservePrice.trim() !== '') {
+      const reserveInCents = parseCentsFromDecimalAmount(formData.reservePrice);
+      if (reserveInCents === null || (priceInCents !== null && reserveInCents < priceInCents)) {
+        newErrors.reservePrice = 'Reserve price must be at least the starting price';
+      }
+    }
+
+    if (isEnglishAuction && !isMultiUnitAuction && formData.buyNowPrice.trim() !== '') {
+      const buyNowInCents = parseCentsFromDecimalAmount(formData.buyNowPrice);
+      const reserveInCents = parseCentsFromDecimalAmount(formData.reservePrice);
+      if (buyNowInCents === null || (priceInCents !== null && buyNowInCents <= priceInCents)) {
+        newErrors.buyNowPrice = 'Buy It Now price must be above the starting price';
+      } else if (reserveInCents !== null && buyNowInCents < reserveInCents) {
+        newErrors.buyNowPrice = 'Buy It Now price must be at least the reserve price';
+      }
+    }
+
+    if (formData.isScheduledStart) {
+      const scheduledStartTime = new Date(formData.scheduledStartTime).getTime();
+      if (isNaN(scheduledStartTime) || scheduledStartTime <= Date.now()) {
+        newErrors.scheduledStartTime = 'Start time must be in the future';
+      }
     }
 
     if (formData.imageUrl && formData.imageUrl.trim() !== '') {
@@ -110,14 +305,33 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
       const response = await axios.post('/api/auction-items', {
         title: formData.title.trim(),
         description: formData.description.trim(),
-        startingPrice: parseFloat(formData.startingPrice),
-        minimumBidIncrement: parseFloat(formData.minimumBidIncrement),
+        currencyCode: formData.currencyCode,
+        startingPrice: formData.startingPrice.trim(),
+        bidIncrementTableId: isEnglishAuction && !isCustomBidIncrementTable ? formData.bidIncrementTableId || null : null,
+        customBidIncrementBands: isCustomBidIncrementTable
+          ? customBidIncrementBands.map((band) => ({ priceFrom: band.priceFrom.trim(), increment: band.increment.trim() }))
+          : null,
+        reservePrice: isEnglishAuction && !isMultiUnitAuction && formData.reservePrice.trim() !== '' ? formData.reservePrice.trim() : null,
+        buyNowPrice: isEnglishAuction && !isMultiUnitAuction && formData.buyNowPrice.trim() !== '' ? formData.buyNowPrice.trim() : null,
         durationInSeconds: formData.durationInSeconds,
+        startTime: formData.isScheduledStart ? new Date(formData.scheduledStartTime).toISOString() : null,
+        softCloseWindowInSeconds: isEnglishAuction && formData.isSoftCloseEnabled ? formData.softCloseWindowInSeconds : 0,
+        softCloseExtensionInSeconds: isEnglishAuction && formData.isSoftCloseEnabled ? formData.softCloseExtensionInSeconds : 0,
+        auctionFormat: formData.auctionFormat,
+        dutchFloorPrice: isDutchAuction ? formData.dutchFloorPrice.trim() : null,
+        dutchPriceCurve: isDutchAuction ? formData.dutchPriceCurve : null,
+        dutchDropIntervalInSeconds:
+          isDutchAuction && formData.dutchPriceCurve === 'STEPWISE' ? Number(formData.dutchDropIntervalInSeconds) : null,
+        dutchDropAmount: isDutchAuction && formData.dutchPriceCurve === 'STEPWISE' ? formData.dutchDropAmount.trim() : null,
+        sealedBidPricing: isSealedBidAuction ? formData.sealedBidPricing : null,
+        quantity: isEnglishAuction ? Number(formData.quantity) : 1,
+        multiUnitPricing: isMultiUnitAuction ? formData.multiUnitPricing : null,
         imageUrl: formData.imageUrl.trim() || null
       });
 
       if (response.data.success) {
-        setFormData(INITIAL_FORM_STATE);
+        setFormData({ ...INITIAL_FORM_STATE, bidIncrementTableId: defaultBidIncrementTableId });
+        setCustomBidIncrementBands(INITIAL_CUSTOM_BID_INCREMENT_BANDS);
         onSuccess();
         onClose();
       } else {
@@ -132,7 +346,8 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
 
   const handleClose = () => {
     if (isSubmitting) return;
-    setFormData(INITIAL_FORM_STATE);
+    setFormData({ ...INITIAL_FORM_STATE, bidIncrementTableId: defaultBidIncrementTableId });
+    setCustomBidIncrementBands(INITIAL_CUSTOM_BID_INCREMENT_BANDS);
     setErrors({});
     setSubmitError(null);
     onClose();
@@ -175,6 +390,27 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
             rows={3}
           />
 
+          <FormControl fullWidth>
+            <InputLabel>Auction Format</InputLabel>
+            <Select value={formData.auctionFormat} label="Auction Format" onChange={handleAuctionFormatSettingChange('auctionFormat')}>
+              <MenuItem value="ENGLISH">English - bids rise until the auction ends</MenuItem>
+              <MenuItem value="DUTCH">Dutch - the price falls until someone buys</MenuItem>
+              <MenuItem value="SEALED_BID">Sealed bid - hidden bids, opened at close</MenuItem>
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth>
+            <InputLabel>Currency</InputLabel>
+            <Select value={formData.currencyCode} label="Currency" onChange={handleAuctionFormatSettingChange('currencyCode')}>
+              {SUPPORTED_CURRENCY_CODES.map((currencyCode) => (
+                <MenuItem key={currencyCode} value={currencyCode}>
+                  {currencyCode} - {CURRENCY_NAMES[currencyCode]}
+                </MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>Bids are placed, validated and paid in this currency</FormHelperText>
+          </FormControl>
+
           <TextField
             label="Starting Price"
             placeholder="0.00"
@@ -185,22 +421,215 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
             fullWidth
             required
             type="number"
-            InputProps={{ startAdornment: <InputAdornment position="start">$</InputAdornment> }}
+            InputProps={{ startAdornment: <InputAdornment position="start">{formData.currencyCode}</InputAdornment> }}
             inputProps={{ min: 0.01, step: 0.01 }}
           />
 
-          <TextField
-            label="Minimum Bid Increment"
-            placeholder="1.00"
-            value={formData.minimumBidIncrement}
-            onChange={handleChange('minimumBidIncrement')}
-            error={!!errors.minimumBidIncrement}
-            helperText={errors.minimumBidIncrement || 'Minimum amount each bid must increase by'}
-            fullWidth
-            type="number"
-            InputProps={{ startAdornment: <InputAdornment position="start">$</InputAdornment> }}
-            inputProps={{ min: 0.01, step: 0.01 }}
-          />
+          {isDutchAuction && (
+            <>
+              <TextField
+                label="Floor Price"
+                placeholder="0.00"
+                value={formData.dutchFloorPrice}
+                onChange={handleChange('dutchFloorPrice')}
+                error={!!errors.dutchFloorPrice}
+                helperText={errors.dutchFloorPrice || 'The lowest price the item will fall to'}
+                fullWidth
+                required
+                type="number"
+                InputProps={{ startAdornment: <InputAdornment position="start">{formData.currencyCode}</InputAdornment> }}
+                inputProps={{ min: 0.01, step: 0.01 }}
+              />
+
+              <FormControl fullWidth>
+                <InputLabel>Price Curve</InputLabel>
+                <Select value={formData.dutchPriceCurve} label="Price Curve" onChange={handleAuctionFormatSettingChange('dutchPriceCurve')}>
+                  {DUTCH_PRICE_CURVE_OPTIONS.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              {formData.dutchPriceCurve === 'STEPWISE' && (
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                  <TextField
+                    label="Drop Every (seconds)"
+                    value={formData.dutchDropIntervalInSeconds}
+                    onChange={handleChange('dutchDropIntervalInSeconds')}
+                    error={!!errors.dutchDropIntervalInSeconds}
+                    helperText={errors.dutchDropIntervalInSeconds}
+                    fullWidth
+                    type="number"
+                    inputProps={{ min: 1, step: 1 }}
+                  />
+
+                  <TextField
+                    label="Drop Amount"
+                    placeholder="0.00"
+                    value={formData.dutchDropAmount}
+                    onChange={handleChange('dutchDropAmount')}
+                    error={!!errors.dutchDropAmount}
+                    helperText={errors.dutchDropAmount}
+                    fullWidth
+                    type="number"
+                    InputProps={{ startAdornment: <InputAdornment position="start">{formData.currencyCode}</InputAdornment> }}
+                    inputProps={{ min: 0.01, step: 0.01 }}
+                  />
+                </Stack>
+              )}
+            </>
+          )}
+
+          {isSealedBidAuction && (
+            <FormControl fullWidth>
+              <InputLabel>Winner Pays</InputLabel>
+              <Select value={formData.sealedBidPricing} label="Winner Pays" onChange={handleAuctionFormatSettingChange('sealedBidPricing')}>
+                {SEALED_BID_PRICING_OPTIONS.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </Select>
+              <FormHelperText>Bids stay hidden from everyone until the auction closes</FormHelperText>
+            </FormControl>
+          )}
+
+          {isEnglishAuction && (
+            <>
+              <TextField
+                label="Quantity"
+                value={formData.quantity}
+                onChange={handleChange('quantity')}
+                error={!!errors.quantity}
+                helperText={errors.quantity || 'Identical units on offer. Bidders name a quantity and a price per unit'}
+                fullWidth
+                type="number"
+                inputProps={{ min: 1, max: MAXIMUM_QUANTITY_PER_AUCTION, step: 1 }}
+              />
+
+              {isMultiUnitAuction && (
+                <FormControl fullWidth>
+                  <InputLabel>Winners Pay</InputLabel>
+                  <Select
+                    value={formData.multiUnitPricing}
+                    label="Winners Pay"
+                    onChange={handleAuctionFormatSettingChange('multiUnitPricing')}
+                  >
+                    {MULTI_UNIT_PRICING_OPTIONS.map((option) => (
+                      <MenuItem key={option.value} value={option.value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  <FormHelperText>Units go to the highest bids per unit when the auction closes</FormHelperText>
+                </FormControl>
+              )}
+
+              <FormControl fullWidth>
+                <InputLabel>Bid Increments</InputLabel>
+                <Select
+                  value={formData.bidIncrementTableId}
+                  label="Bid Increments"
+                  onChange={handleAuctionFormatSettingChange('bidIncrementTableId')}
+                >
+                  {bidIncrementTables.map((table) => (
+                    <MenuItem key={table.id} value={table.id}>
+                      {table.tableName}
+                    </MenuItem>
+                  ))}
+                  <MenuItem value={CUSTOM_BID_INCREMENT_TABLE}>Custom increments</MenuItem>
+                </Select>
+                <FormHelperText>
+                  {selectedBidIncrementTable
+                    ? selectedBidIncrementTable.incrementBands
+                        .map(
+                          (band) =>
+                            `from ${formatMoney(createMoney(band.priceFromInCents, formData.currencyCode))}: +${formatMoney(createMoney(band.incrementInCents, formData.currencyCode))}`
+                        )
+                        .join(', ')
+                    : 'How much each bid must increase by, depending on the current price'}
+                </FormHelperText>
+              </FormControl>
+
+              {isCustomBidIncrementTable && (
+                <Stack spacing={1.5}>
+                  {customBidIncrementBands.map((band, bandIndex) => (
+                    <Stack key={bandIndex} direction="row" spacing={2} alignItems="center">
+                      <TextField
+                        label="Price From"
+                        value={band.priceFrom}
+                        onChange={handleCustomBidIncrementBandChange(bandIndex, 'priceFrom')}
+                        fullWidth
+                        size="small"
+                        type="number"
+                        InputProps={{ startAdornment: <InputAdornment position="start">{formData.currencyCode}</InputAdornment> }}
+                        inputProps={{ min: 0, step: 0.01 }}
+                      />
+                      <TextField
+                        label="Increment"
+                        value={band.increment}
+                        onChange={handleCustomBidIncrementBandChange(bandIndex, 'increment')}
+                        fullWidth
+                        size="small"
+                        type="number"
+                        InputProps={{ startAdornment: <InputAdornment position="start">{formData.currencyCode}</InputAdornment> }}
+                        inputProps={{ min: 0.01, step: 0.01 }}
+                      />
+                      <IconButton
+                        onClick={() => handleRemoveCustomBidIncrementBand(bandIndex)}
+                        disabled={customBidIncrementBands.length === 1}
+                        color="error"
+                      >
+                        <DeleteOutlined />
+                      </IconButton>
+                    </Stack>
+                  ))}
+                  <Box>
+                    <Button size="small" startIcon={<PlusOutlined />} onClick={handleAddCustomBidIncrementBand}>
+                      Add Band
+                    </Button>
+                  </Box>
+                  <FormHelperText error={!!errors.customBidIncrementBands} sx={{ mt: 0 }}>
+                    {errors.customBidIncrementBands || 'Each band applies from its price up to the next band'}
+                  </FormHelperText>
+                </Stack>
+              )}
+
+              {!isMultiUnitAuction && (
+                <>
+                  <TextField
+                    label="Reserve Price (Optional)"
+                    placeholder="0.00"
+                    value={formData.reservePrice}
+                    onChange={handleChange('reservePrice')}
+                    error={!!errors.reservePrice}
+                    helperText={errors.reservePrice || "Hidden minimum you'll accept. Bidders only see whether it has been met"}
+                    fullWidth
+                    type="number"
+                    InputProps={{ startAdornment: <InputAdornment position="start">{formData.currencyCode}</InputAdornment> }}
+                    inputProps={{ min: 0.01, step: 0.01 }}
+                  />
+
+                  <TextField
+                    label="Buy It Now Price (Optional)"
+                    placeholder="0.00"
+                    value={formData.buyNowPrice}
+                    onChange={handleChange('buyNowPrice')}
+                    error={!!errors.buyNowPrice}
+                    helperText={
+                      errors.buyNowPrice || 'Lets a buyer end the auction immediately at this price, until bidding gets close to it'
+                    }
+                    fullWidth
+                    type="number"
+                    InputProps={{ startAdornment: <InputAdornment position="start">{formData.currencyCode}</InputAdornment> }}
+                    inputProps={{ min: 0.01, step: 0.01 }}
+                  />
+                </>
+              )}
+            </>
+          )}
 
           <FormControl fullWidth>
             <InputLabel>Auction Duration</InputLabel>
@@ -214,6 +643,84 @@ export default function CreateAuctionModal({ open, onClose, onSuccess }: CreateA
             <FormHelperText>How long the auction will run</FormHelperText>
           </FormControl>
 
+          <Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.isScheduledStart}
+                  onChange={(event) => setFormData((prev) => ({ ...prev, isScheduledStart: event.target.checked }))}
+                />
+              }
+              label="Schedule for later"
+            />
+            <FormHelperText sx={{ mt: 0 }}>Announce the auction now and open bidding at a set time</FormHelperText>
+          </Box>
+
+          {formData.isScheduledStart && (
+            <TextField
+              label="Opens At"
+              value={formData.scheduledStartTime}
+              onChange={handleChange('scheduledStartTime')}
+              error={!!errors.scheduledStartTime}
+              helperText={errors.scheduledStartTime || 'The duration counts from this time'}
+              fullWidth
+              required
+              type="datetime-local"
+              InputLabelProps={{ shrink: true }}
+            />
+          )}
+
+          {isEnglishAuction && (
+            <Box>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={formData.isSoftCloseEnabled}
+                    onChange={(event) => setFormData((prev) => ({ ...prev, isSoftCloseEnabled: event.target.checked }))}
+                  />
+                }
+                label="Anti-sniping soft close"
+              />
+              <FormHelperText sx={{ mt: 0 }}>
+                Bids placed near the end push the end time back so everyone gets a chance to respond
+              </FormHelperText>
+            </Box>
+          )}
+
+          {isEnglishAuction && formData.isSoftCloseEnabled && (
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <FormControl fullWidth>
+                <InputLabel>Extend When Bid Lands In</InputLabel>
+                <Select
+                  value={formData.softCloseWindowInSeconds}
+                  label="Extend When Bid Lands In"
+                  onChange={handleSoftCloseSettingChange('softCloseWindowInSeconds')}
+                >
+                  {SOFT_CLOSE_WINDOW_OPTIONS.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <FormControl fullWidth>
+                <InputLabel>Extend By</InputLabel>
+                <Select
+                  value={formData.softCloseExtensionInSeconds}
+                  label="Extend By"
+                  onChange={handleSoftCloseSettingChange('softCloseExtensionInSeconds')}
+                >
+                  {SOFT_CLOSE_EXTENSION_OPTIONS.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Stack>
+          )}
+
           <TextField
             label="Image URL (Optional)"
             placeholder="https://example.com/image.jpg"
@@ -0,0 +1,202 @@
+// Modal form for sellers to edit their auction listing
+
+import { useEffect, useState } from 'react';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import TextField from '@mui/material/TextField';
+import Stack from '@mui/material/Stack';
+import FormHelperText from '@mui/material/FormHelperText';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import InputLabel from '@mui/material/InputLabel';
+import FormControl from '@mui/material/FormControl';
+import axios from 'utils/axios';
+import useAuctionStore, { AuctionItemState } from 'store/auctionStore';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import CloseOutlined from '@ant-design/icons/CloseOutlined';
+
+interface EditAuctionModalProps {
+  open: boolean;
+  onClose: () => void;
+  auctionItem: AuctionItemState;
+}
+
+interface BidIncrementTableOption {
+  id: string;
+  tableName: string;
+}
+
+const KEEP_CURRENT_BID_INCREMENT_TABLE = '';
+
+export default function EditAuctionModal({ open, onClose, auctionItem }: EditAuctionModalProps) {
+  const { updateAuctionItemDetails } = useAuctionStore();
+
+  const [title, setTitle] = useState(auctionItem.itemTitle);
+  const [description, setDescription] = useState(auctionItem.itemDescription);
+  const [imageUrl, setImageUrl] = useState(auctionItem.itemImageUrl || '');
+  const [bidIncrementTableId, setBidIncrementTableId] = useState(KEEP_CURRENT_BID_INCREMENT_TABLE);
+  const [bidIncrementTables, setBidIncrementTables] = useState<BidIncrementTableOption[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Bidders committed to the listing they saw, so only the description can grow once bidding starts
+  const hasBiddingStarted = auctionItem.totalBidCount > 0;
+  const isEnglishAuction = auctionItem.auctionFormat === 'ENGLISH';
+
+  // Mounted only while open, so the form starts from the listing as it is now
+  useEffect(() => {
+    if (!isEnglishAuction || hasBiddingStarted) return;
+
+    axios
+      .get('/api/bid-increment-tables')
+      .then((response) => {
+        if (response.data.success) {
+          setBidIncrementTables(response.data.data.bidIncrementTables);
+        }
+      })
+      .catch(() => {
+        // Without the list the seller simply keeps the current increments
+      });
+  }, [isEnglishAuction, hasBiddingStarted]);
+
+  const handleSubmit = async () => {
+    if (hasBiddingStarted && !description.trim().startsWith(auctionItem.itemDescription)) {
+      setSubmitError('Once bidding has started you can only add to the end of the description');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await axios.patch(
+        `/api/auction-items/${auctionItem.id}`,
+        hasBiddingStarted
+          ? { description: description.trim() }
+          : {
+              title: title.trim(),
+              description: description.trim(),
+              imageUrl: imageUrl.trim() || null,
+              bidIncrementTableId: bidIncrementTableId || null
+            }
+      );
+
+      if (response.data.success) {
+        const updatedAuctionItem = response.data.data.auctionItem;
+        updateAuctionItemDetails({
+          auctionItemId: updatedAuctionItem.id,
+          itemTitle: updatedAuctionItem.itemTitle,
+          itemDescription: updatedAuctionItem.itemDescription,
+          itemImageUrl: updatedAuctionItem.itemImageUrl,
+          bidIncrement: updatedAuctionItem.bidIncrement
+        });
+        openSnackbar({
+          open: true,
+          message: 'Auction updated',
+          variant: 'alert',
+          alert: { color: 'success' }
+        } as SnackbarProps);
+        onClose();
+      } else {
+        setSubmitError(response.data.errorMessage || 'Failed to update auction');
+      }
+    } catch (error: any) {
+      setSubmitError(error.errorMessage || error.message || 'Failed to update auction');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Stack direction="row" justifyContent="space-between" alignItems="center">
+          <Typography variant="h4">Edit Auction</Typography>
+          <IconButton onClick={handleClose} disabled={isSubmitting}>
+            <CloseOutlined />
+          </IconButton>
+        </Stack>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Stack spacing={3} sx={{ mt: 1 }}>
+          {hasBiddingStarted && <Alert severity="info">Bidding has started, so you can only add to the end of the description.</Alert>}
+
+          <TextField
+            label="Item Title"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            fullWidth
+            required
+            disabled={hasBiddingStarted}
+          />
+
+          <TextField
+            label="Description"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            fullWidth
+            required
+            multiline
+            rows={4}
+          />
+
+          <TextField
+            label="Image URL (Optional)"
+            value={imageUrl}
+            onChange={(event) => setImageUrl(event.target.value)}
+            fullWidth
+            disabled={hasBiddingStarted}
+          />
+
+          {isEnglishAuction && !hasBiddingStarted && (
+            <FormControl fullWidth>
+              <InputLabel shrink>Bid Increments</InputLabel>
+              <Select
+                value={bidIncrementTableId}
+                label="Bid Increments"
+                displayEmpty
+                notched
+                onChange={(event) => setBidIncrementTableId(event.target.value)}
+              >
+                <MenuItem value={KEEP_CURRENT_BID_INCREMENT_TABLE}>Keep current increments</MenuItem>
+                {bidIncrementTables.map((table) => (
+                  <MenuItem key={table.id} value={table.id}>
+                    {table.tableName}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          {submitError && (
+            <FormHelperText error sx={{ fontSize: '0.875rem' }}>
+              {submitError}
+            </FormHelperText>
+          )}
+        </Stack>
+      </DialogContent>
+
+      <DialogActions sx={{ p: 2.5 }}>
+        <Button onClick={handleClose} disabled={isSubmitting} color="secondary">
+          Close
+        </Button>
+        <Button onClick={handleSubmit} variant="contained" disabled={isSubmitting} sx={{ minWidth: 120 }}>
+          {isSubmitting ? 'Saving...' : 'Save Changes'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+// Form for bidding a per-unit price on several units of a multi-quantity auction
+
+import { useState } from 'react';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import InputAdornment from '@mui/material/InputAdornment';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import useBidSubmission from 'hooks/useBidSubmission';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { Money, createMoney, formatCentsAsDecimalAmount, formatMoney, parseCentsFromDecimalAmount } from 'utils/money';
+
+interface MultiUnitBidFormProps {
+  auctionItemId: string;
+  quantityAvailable: number;
+  minimumBidPerUnit: Money;
+  isAuctionEnded: boolean;
+  quantityWonByUser: number;
+  isUserCreator: boolean;
+}
+
+interface StandingBidState {
+  bidQuantity: number;
+  bidPerUnit: Money;
+  quantityWinning: number;
+}
+
+export default function MultiUnitBidForm({
+  auctionItemId,
+  quantityAvailable,
+  minimumBidPerUnit,
+  isAuctionEnded,
+  quantityWonByUser,
+  isUserCreator
+}: MultiUnitBidFormProps) {
+  const { submitBidForAuction, isBidSubmissionInProgress } = useBidSubmission();
+  const [quantityInput, setQuantityInput] = useState('1');
+  const [bidPerUnitInput, setBidPerUnitInput] = useState('');
+  const [standingBid, setStandingBid] = useState<StandingBidState | null>(null);
+
+  const bidQuantity = parseInt(quantityInput, 10);
+  const bidPerUnitInCents = parseCentsFromDecimalAmount(bidPerUnitInput);
+  const isQuantityValid = Number.isInteger(bidQuantity) && bidQuantity >= 1 && bidQuantity <= quantityAvailable;
+  const isBidPerUnitValid = bidPerUnitInCents !== null && bidPerUnitInCents >= minimumBidPerUnit.amountInCents;
+
+  const handleSubmit = async () => {
+    if (!isQuantityValid || !isBidPerUnitValid || isBidSubmissionInProgress) return;
+
+    const bidPerUnit = createMoney(bidPerUnitInCents, minimumBidPerUnit.currencyCode);
+    const result = await submitBidForAuction(auctionItemId, bidPerUnit, null, bidQuantity);
+    const quantityWinning = result.quantityWinning ?? 0;
+
+    if (result.wasSuccessful) {
+      setStandingBid({ bidQuantity, bidPerUnit, quantityWinning });
+      setBidPerUnitInput('');
+    }
+
+    openSnackbar({
+      open: true,
+      message: result.wasSuccessful
+        ? `Bid placed for ${bidQuantity} × ${formatMoney(bidPerUnit)}. You're currently winning ${quantityWinning} of them`
+        : result.errorMessage || 'Failed to place bid',
+      variant: 'alert',
+      alert: { color: !result.wasSuccessful ? 'error' : quantityWinning === bidQuantity ? 'success' : 'warning' }
+    } as SnackbarProps);
+  };
+
+  if (isAuctionEnded) {
+    return (
+      <Typography variant="body1" color={quantityWonByUser > 0 ? 'success.main' : 'text.secondary'} textAlign="center" fontWeight={600}>
+        {quantityWonByUser > 0 ? `You won ${quantityWonByUser} of ${quantityAvailable} units!` : 'Auction has ended'}
+      </Typography>
+    );
+  }
+
+  if (isUserCreator) {
+    return (
+      <Button fullWidth variant="contained" size="large" disabled>
+        Your auction
+      </Button>
+    );
+  }
+
+  return (
+    <Stack spacing={1}>
+      {standingBid !== null && (
+        <Typography variant="body2" color="text.secondary">
+          Your bid: <strong>{standingBid.bidQuantity}</strong> × <strong>{formatMoney(standingBid.bidPerUnit)}</strong> (winning{' '}
+          {standingBid.quantityWinning} when placed)
+        </Typography>
+      )}
+      <Stack direction="row" spacing={1}>
+        <TextField
+          size="small"
+          type="number"
+          label="Qty"
+          value={quantityInput}
+          onChange={(event) => setQuantityInput(event.target.value)}
+          error={quantityInput !== '' && !isQuantityValid}
+          inputProps={{ min: 1, max: quantityAvailable, step: 1 }}
+          sx={{ width: 90 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Per unit"
+          placeholder={formatCentsAsDecimalAmount(minimumBidPerUnit.amountInCents)}
+          value={bidPerUnitInput}
+          onChange={(event) => setBidPerUnitInput(event.target.value)}
+          InputProps={{ startAdornment: <InputAdornment position="start">{minimumBidPerUnit.currencyCode}</InputAdornment> }}
+          inputProps={{ min: formatCentsAsDecimalAmount(minimumBidPerUnit.amountInCents), step: 0.01 }}
+          fullWidth
+        />
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={!isQuantityValid || !isBidPerUnitValid || isBidSubmissionInProgress}
+          sx={{ whiteSpace: 'nowrap' }}
+        >
+          {isBidSubmissionInProgress ? <CircularProgress size={20} color="inherit" /> : standingBid !== null ? 'Replace Bid' : 'Bid'}
+        </Button>
+      </Stack>
+      <Typography variant="caption" color="text.secondary">
+        Minimum {formatMoney(minimumBidPerUnit)} per unit. Your next bid replaces your current one
+      </Typography>
+    </Stack>
+  );
+}
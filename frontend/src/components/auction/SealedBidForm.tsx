@@ -0,0 +1,105 @@
+// Form for submitting or replacing a sealed bid, which stays hidden from other bidders until the auction closes
+
+import { useState } from 'react';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import InputAdornment from '@mui/material/InputAdornment';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import LockOutlined from '@ant-design/icons/LockOutlined';
+import useBidSubmission from 'hooks/useBidSubmission';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { Money, createMoney, formatCentsAsDecimalAmount, formatMoney, parseCentsFromDecimalAmount } from 'utils/money';
+
+interface SealedBidFormProps {
+  auctionItemId: string;
+  startingPrice: Money;
+  isAuctionEnded: boolean;
+  isUserWinner: boolean;
+  isUserCreator: boolean;
+}
+
+export default function SealedBidForm({ auctionItemId, startingPrice, isAuctionEnded, isUserWinner, isUserCreator }: SealedBidFormProps) {
+  const { submitBidForAuction, isBidSubmissionInProgress } = useBidSubmission();
+  const [sealedBidInput, setSealedBidInput] = useState('');
+  const [submittedSealedBid, setSubmittedSealedBid] = useState<Money | null>(null);
+
+  const sealedBidAmountInCents = parseCentsFromDecimalAmount(sealedBidInput);
+  const isSealedBidValid = sealedBidAmountInCents !== null && sealedBidAmountInCents >= startingPrice.amountInCents;
+
+  const handleSubmit = async () => {
+    if (!isSealedBidValid || isBidSubmissionInProgress) return;
+
+    const sealedBidAmount = createMoney(sealedBidAmountInCents, startingPrice.currencyCode);
+    const result = await submitBidForAuction(auctionItemId, sealedBidAmount);
+
+    if (result.wasSuccessful) {
+      setSubmittedSealedBid(sealedBidAmount);
+      setSealedBidInput('');
+    }
+
+    openSnackbar({
+      open: true,
+      message: result.wasSuccessful
+        ? `Sealed bid of ${formatMoney(sealedBidAmount)} submitted. You can replace it until the auction closes`
+        : result.errorMessage || 'Failed to submit sealed bid',
+      variant: 'alert',
+      alert: { color: result.wasSuccessful ? 'success' : 'error' }
+    } as SnackbarProps);
+  };
+
+  if (isAuctionEnded) {
+    return (
+      <Typography variant="body1" color={isUserWinner ? 'success.main' : 'text.secondary'} textAlign="center" fontWeight={600}>
+        {isUserWinner ? 'You won this auction!' : 'Auction has ended'}
+      </Typography>
+    );
+  }
+
+  if (isUserCreator) {
+    return (
+      <Button fullWidth variant="contained" size="large" disabled>
+        Your auction
+      </Button>
+    );
+  }
+
+  return (
+    <Stack spacing={1}>
+      {submittedSealedBid !== null && (
+        <Typography variant="body2" color="text.secondary">
+          Your sealed bid: <strong>{formatMoney(submittedSealedBid)}</strong>
+        </Typography>
+      )}
+      <Stack direction="row" spacing={1}>
+        <TextField
+          size="small"
+          type="number"
+          placeholder={formatCentsAsDecimalAmount(startingPrice.amountInCents)}
+          value={sealedBidInput}
+          onChange={(event) => setSealedBidInput(event.target.value)}
+          InputProps={{ startAdornment: <InputAdornment position="start">{startingPrice.currencyCode}</InputAdornment> }}
+          inputProps={{ min: formatCentsAsDecimalAmount(startingPrice.amountInCents), step: 0.01 }}
+          fullWidth
+        />
+        <Button
+          variant="contained"
+          startIcon={isBidSubmissionInProgress ? undefined : <LockOutlined />}
+          onClick={handleSubmit}
+          disabled={!isSealedBidValid || isBidSubmissionInProgress}
+          sx={{ whiteSpace: 'nowrap' }}
+        >
+          {isBidSubmissionInProgress ? (
+            <CircularProgress size={20} color="inherit" />
+          ) : submittedSealedBid !== null ? (
+            'Replace Bid'
+          ) : (
+            'Submit Bid'
+          )}
+        </Button>
+      </Stack>
+    </Stack>
+  );
+}
@@ -0,0 +1,137 @@
+// Second-chance offers waiting for the signed-in user, made after the original winner did not pay
+
+import { useState, useEffect } from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Divider from '@mui/material/Divider';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import axios from 'utils/axios';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { Money, formatMoney } from 'utils/money';
+
+interface SecondChanceOffer {
+  offerId: string;
+  auctionItemId: string;
+  itemTitle: string;
+  offerPricePerUnit: Money;
+  quantityOffered: number;
+  totalPrice: Money;
+  expiresAtTimestamp: string;
+}
+
+interface SecondChanceOfferListProps {
+  onOfferAccepted: () => void;
+}
+
+export default function SecondChanceOfferList({ onOfferAccepted }: SecondChanceOfferListProps) {
+  const [offers, setOffers] = useState<SecondChanceOffer[]>([]);
+  const [respondingOfferId, setRespondingOfferId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOffers();
+  }, []);
+
+  const fetchOffers = async () => {
+    try {
+      const response = await axios.get('/api/user/second-chance-offers');
+      if (response.data.success) {
+        setOffers(response.data.data.secondChanceOffers);
+      }
+    } catch {
+      // The won items below still load; offers simply stay hidden
+    }
+  };
+
+  const respondToOffer = async (offerId: string, response: 'accept' | 'decline') => {
+    if (respondingOfferId) return;
+
+    setRespondingOfferId(offerId);
+
+    try {
+      await axios.post(`/api/second-chance-offers/${offerId}/${response}`);
+      openSnackbar({
+        open: true,
+        message: response === 'accept' ? 'Offer accepted. The item is now in your won items' : 'Offer declined',
+        variant: 'alert',
+        alert: { color: response === 'accept' ? 'success' : 'info' }
+      } as SnackbarProps);
+
+      if (response === 'accept') onOfferAccepted();
+    } catch (err: any) {
+      openSnackbar({
+        open: true,
+        message: err.errorMessage || 'Failed to answer the offer',
+        variant: 'alert',
+        alert: { color: 'error' }
+      } as SnackbarProps);
+    } finally {
+      setRespondingOfferId(null);
+      fetchOffers();
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (offers.length === 0) return null;
+
+  return (
+    <Alert severity="info" icon={false} sx={{ mb: 3, '& .MuiAlert-message': { width: '100%' } }}>
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Second-chance offers
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+        The winner of these auctions did not pay, so the seller is offering you the item at your last bid. Your wallet is charged when you
+        accept if it covers the price; otherwise you can pay from your won items.
+      </Typography>
+      <Stack spacing={1.5} divider={<Divider />}>
+        {offers.map((offer) => (
+          <Box key={offer.offerId} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+            <Box sx={{ minWidth: 0 }}>
+              <Typography variant="subtitle1" noWrap>
+                {offer.itemTitle}
+              </Typography>
+              <Typography variant="body2">
+                {offer.quantityOffered > 1
+                  ? `${offer.quantityOffered} × ${formatMoney(offer.offerPricePerUnit)} = ${formatMoney(offer.totalPrice)}`
+                  : formatMoney(offer.totalPrice)}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                Expires {formatDate(offer.expiresAtTimestamp)}
+              </Typography>
+            </Box>
+            <Stack direction="row" spacing={1} sx={{ flexShrink: 0 }}>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={() => respondToOffer(offer.offerId, 'accept')}
+                disabled={respondingOfferId !== null}
+              >
+                {respondingOfferId === offer.offerId ? <CircularProgress size={18} color="inherit" /> : 'Accept'}
+              </Button>
+              <Button
+                size="small"
+                variant="outlined"
+                color="secondary"
+                onClick={() => respondToOffer(offer.offerId, 'decline')}
+                disabled={respondingOfferId !== null}
+              >
+                Decline
+              </Button>
+            </Stack>
+          </Box>
+        ))}
+      </Stack>
+    </Alert>
+  );
+}
@@ -0,0 +1,43 @@
+// Edit and cancel actions shown to the seller on their own auction
+
+import { useState } from 'react';
+import Button from '@mui/material/Button';
+import Stack from '@mui/material/Stack';
+import EditOutlined from '@ant-design/icons/EditOutlined';
+import StopOutlined from '@ant-design/icons/StopOutlined';
+
+import { AuctionItemState } from 'store/auctionStore';
+import EditAuctionModal from './EditAuctionModal';
+import CancelAuctionDialog from './CancelAuctionDialog';
+
+interface SellerAuctionActionsProps {
+  auctionItem: AuctionItemState;
+}
+
+export default function SellerAuctionActions({ auctionItem }: SellerAuctionActionsProps) {
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+
+  return (
+    <>
+      <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+        <Button fullWidth size="small" variant="text" startIcon={<EditOutlined />} onClick={() => setIsEditModalOpen(true)}>
+          Edit
+        </Button>
+        <Button
+          fullWidth
+          size="small"
+          variant="text"
+          color="error"
+          startIcon={<StopOutlined />}
+          onClick={() => setIsCancelDialogOpen(true)}
+        >
+          Cancel Auction
+        </Button>
+      </Stack>
+
+      {isEditModalOpen && <EditAuctionModal open onClose={() => setIsEditModalOpen(false)} auctionItem={auctionItem} />}
+      <CancelAuctionDialog open={isCancelDialogOpen} onClose={() => setIsCancelDialogOpen(false)} auctionItem={auctionItem} />
+    </>
+  );
+}
@@ -0,0 +1,83 @@
+// Displays a scheduled auction with a server-synced countdown to its opening
+
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import CardMedia from '@mui/material/CardMedia';
+import Chip from '@mui/material/Chip';
+import Typography from '@mui/material/Typography';
+import Stack from '@mui/material/Stack';
+
+import useAuth from 'hooks/useAuth';
+import { AuctionItemState } from 'store/auctionStore';
+import useServerSyncedCountdown, { formatCountdownString } from 'hooks/useServerSyncedCountdown';
+import { formatMoney } from 'utils/money';
+import SellerAuctionActions from './SellerAuctionActions';
+
+interface UpcomingAuctionCardProps {
+  auctionItem: AuctionItemState;
+}
+
+const AUCTION_FORMAT_LABELS: Record<AuctionItemState['auctionFormat'], string> = {
+  ENGLISH: 'English',
+  DUTCH: 'Dutch',
+  SEALED_BID: 'Sealed bid'
+};
+
+const DEFAULT_IMAGE = 'https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=400&h=300&fit=crop';
+
+export default function UpcomingAuctionCard({ auctionItem }: UpcomingAuctionCardProps) {
+  const { user } = useAuth();
+  const countdownToOpen = useServerSyncedCountdown(auctionItem.auctionStartTimeTimestamp);
+
+  const formattedStartTime = new Date(auctionItem.auctionStartTimeTimestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <Card sx={{ height: '100%', display: 'flex', flexDirection: 'column', border: 1, borderColor: 'divider' }}>
+      <CardMedia
+        component="img"
+        height="140"
+        image={auctionItem.itemImageUrl || DEFAULT_IMAGE}
+        alt={auctionItem.itemTitle}
+        sx={{ objectFit: 'cover' }}
+      />
+      <CardContent sx={{ flexGrow: 1 }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="flex-start" sx={{ mb: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, flex: 1, mr: 1 }} noWrap>
+            {auctionItem.itemTitle}
+          </Typography>
+          <Chip label={AUCTION_FORMAT_LABELS[auctionItem.auctionFormat]} size="small" variant="outlined" />
+        </Stack>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Starting Price:
+          </Typography>
+          <Typography variant="body2" fontWeight={600}>
+            {formatMoney(auctionItem.startingPrice)}
+          </Typography>
+        </Box>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Opens:
+          </Typography>
+          <Typography variant="body2">{formattedStartTime}</Typography>
+        </Box>
+
+        <Box sx={{ px: 2, py: 1, borderRadius: 1, bgcolor: 'info.lighter', textAlign: 'center' }}>
+          <Typography variant="h5" sx={{ fontWeight: 700, color: 'info.main', fontFamily: 'monospace', letterSpacing: 1 }}>
+            {countdownToOpen.isAuctionEnded ? 'Opening...' : `Opens in ${formatCountdownString(countdownToOpen)}`}
+          </Typography>
+        </Box>
+
+        {auctionItem.creatorUser.userId === user?.id && <SellerAuctionActions auctionItem={auctionItem} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -130,11 +130,26 @@ export const JWTProvider = ({ children }: { children: React.ReactElement }) => {
 
   const updateProfile = () => {};
 
+  const updateDisplayCurrency = async (currencyCode: string) => {
+    const response = await axios.put('/api/account/display-currency', { currencyCode });
+
+    if (!response.data.success) {
+      throw new Error(response.data.errorMessage || 'Failed to update display currency');
+    }
+
+    dispatch({
+      type: LOGIN,
+      payload: { isLoggedIn: true, user: { ...state.user, displayCurrencyCode: response.data.data.displayCurrencyCode } }
+    });
+  };
+
   if (state.isInitialized !== undefined && !state.isInitialized) {
     return <BackendWakeupLoader />;
   }
 
-  return <JWTContext value={{ ...state, login, logout, register, resetPassword, updateProfile }}>{children}</JWTContext>;
+  return (
+    <JWTContext value={{ ...state, login, logout, register, resetPassword, updateProfile, updateDisplayCurrency }}>{children}</JWTContext>
+  );
 };
 
 export default JWTContext;
@@ -1,77 +1,126 @@
-// Hook for submitting bids via WebSocket
+// Hook for submitting bids over the shared WebSocket connection, answered by acknowledgement
 
-import { useState, useCallback } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { useState, useCallback, useRef } from 'react';
+import useAuctionStore from 'store/auctionStore';
+import { getSharedSocketInstance } from './useSocketConnection';
+import { Money } from 'utils/money';
 
-const SOCKET_URL = import.meta.env.VITE_APP_SOCKET_URL || 'http://localhost:3010';
 const BID_TIMEOUT = 10000;
+const BID_UNCONFIRMED_MESSAGE = 'We could not confirm your bid. Submitting it again will not place it twice';
+const NOT_CONNECTED_MESSAGE = 'Not connected to live bidding. Please wait a moment and try again';
 
 interface BidResult {
   wasSuccessful: boolean;
-  bidId?: string;
+  bidId?: string | null;
+  isHighestBidder?: boolean;
+  newHighestBid?: Money;
+  maximumBidAmount?: Money | null;
+  isSealedBid?: boolean;
+  quantityWinning?: number | null;
   errorMessage?: string;
+  roundTripTimeInMs?: number;
 }
 
+// A bid whose outcome never arrived. Submitting the same bid again reuses its request ID,
+// so the server answers with the first attempt's outcome instead of placing it twice
+interface UnconfirmedBidRequest {
+  bidRequestId: string;
+  requestFingerprint: string;
+}
+
+interface BidPlacedSuccessResponse {
+  bidId: string | null;
+  isHighestBidder: boolean;
+  newHighestBid: Money;
+  maximumBidAmount: Money | null;
+  isSealedBid: boolean;
+  quantityWinning: number | null;
+  bidRequestId: string | null;
+}
+
+interface BidPlacedErrorResponse {
+  errorCode: string;
+  errorMessage: string;
+  bidRequestId?: string | null;
+}
+
+// Mirrors PlaceBidAcknowledgement on the server
+type PlaceBidAcknowledgement =
+  | { wasBidSuccessful: true; successPayload: BidPlacedSuccessResponse }
+  | { wasBidSuccessful: false; errorPayload: BidPlacedErrorResponse };
+
 export function useBidSubmission() {
   const [isBidSubmissionInProgress, setIsBidSubmissionInProgress] = useState(false);
   const [lastBidSubmissionError, setLastBidSubmissionError] = useState<string | null>(null);
+  const unconfirmedBidRequestRef = useRef<UnconfirmedBidRequest | null>(null);
+  const { recordBidRoundTripTime } = useAuctionStore();
 
   const clearBidSubmissionError = useCallback(() => setLastBidSubmissionError(null), []);
 
-  const submitBidForAuction = useCallback(async (auctionItemId: string, bidAmountInDollars: number): Promise<BidResult> => {
-    setIsBidSubmissionInProgress(true);
-    setLastBidSubmissionError(null);
-
-    return new Promise((resolve) => {
-      const token = localStorage.getItem('serviceToken');
+  const submitBidForAuction = useCallback(
+    async (auctionItemId: string, bidAmount: Money, maximumBidAmount: Money | null = null, bidQuantity: number = 1): Promise<BidResult> => {
+      const socket = getSharedSocketInstance();
 
-      if (!token) {
-        setIsBidSubmissionInProgress(false);
-        setLastBidSubmissionError('Not authenticated');
-        resolve({ wasSuccessful: false, errorMessage: 'Not authenticated' });
-        return;
+      if (!socket?.connected) {
+        setLastBidSubmissionError(NOT_CONNECTED_MESSAGE);
+        return { wasSuccessful: false, errorMessage: NOT_CONNECTED_MESSAGE };
       }
 
-      const socket: Socket = io(SOCKET_URL, {
-        auth: { token },
-        transports: ['websocket', 'polling']
-      });
-
-      const timeoutId = setTimeout(() => {
-        socket.disconnect();
-        setIsBidSubmissionInProgress(false);
-        setLastBidSubmissionError('Bid submission timed out');
-        resolve({ wasSuccessful: false, errorMessage: 'Bid submission timed out' });
-      }, BID_TIMEOUT);
-
-      socket.on('connect', () => {
-        socket.emit('JOIN_AUCTION_ROOM', { auctionItemId });
-        socket.emit('PLACE_BID', { auctionItemId, bidAmountInDollars });
-      });
-
-      socket.on('BID_PLACED_SUCCESS', (response: { bidId: string }) => {
-        clearTimeout(timeoutId);
-        socket.disconnect();
-        setIsBidSubmissionInProgress(false);
-        resolve({ wasSuccessful: true, bidId: response.bidId });
-      });
-
-      socket.on('BID_PLACED_ERROR', (error: { errorMessage: string }) => {
-        clearTimeout(timeoutId);
-        socket.disconnect();
-        setIsBidSubmissionInProgress(false);
-        setLastBidSubmissionError(error.errorMessage);
-        resolve({ wasSuccessful: false, errorMessage: error.errorMessage });
-      });
-
-      socket.on('connect_error', (error: Error) => {
-        clearTimeout(timeoutId);
+      setIsBidSubmissionInProgress(true);
+      setLastBidSubmissionError(null);
+
+      const requestFingerprint = JSON.stringify([auctionItemId, bidAmount, maximumBidAmount, bidQuantity]);
+      const bidRequestId =
+        unconfirmedBidRequestRef.current?.requestFingerprint === requestFingerprint
+          ? unconfirmedBidRequestRef.current.bidRequestId
+          : crypto.randomUUID();
+
+      unconfirmedBidRequestRef.current = { bidRequestId, requestFingerprint };
+
+      const emittedAtInMs = performance.now();
+
+      try {
+        const acknowledgement: PlaceBidAcknowledgement = await socket
+          .timeout(BID_TIMEOUT)
+          .emitWithAck('PLACE_BID', { auctionItemId, bidAmount, maximumBidAmount, bidQuantity, bidRequestId });
+
+        const roundTripTimeInMs = Math.round(performance.now() - emittedAtInMs);
+        recordBidRoundTripTime(roundTripTimeInMs);
+
+        if (!acknowledgement.wasBidSuccessful) {
+          const { errorPayload } = acknowledgement;
+
+          // The first attempt is still running or never reported back, so its outcome is still unknown
+          if (errorPayload.errorCode !== 'BID_REQUEST_IN_PROGRESS' && errorPayload.errorCode !== 'BID_OUTCOME_UNKNOWN') {
+            unconfirmedBidRequestRef.current = null;
+          }
+          setLastBidSubmissionError(errorPayload.errorMessage);
+          return { wasSuccessful: false, errorMessage: errorPayload.errorMessage, roundTripTimeInMs };
+        }
+
+        const { successPayload } = acknowledgement;
+
+        unconfirmedBidRequestRef.current = null;
+        return {
+          wasSuccessful: true,
+          bidId: successPayload.bidId,
+          isHighestBidder: successPayload.isHighestBidder,
+          newHighestBid: successPayload.newHighestBid,
+          maximumBidAmount: successPayload.maximumBidAmount,
+          isSealedBid: successPayload.isSealedBid,
+          quantityWinning: successPayload.quantityWinning,
+          roundTripTimeInMs
+        };
+      } catch {
+        // No acknowledgement within the timeout. The bid may still have gone through, so the request ID is kept for a retry
+        setLastBidSubmissionError(BID_UNCONFIRMED_MESSAGE);
+        return { wasSuccessful: false, errorMessage: BID_UNCONFIRMED_MESSAGE };
+      } finally {
         setIsBidSubmissionInProgress(false);
-        setLastBidSubmissionError(error.message);
-        resolve({ wasSuccessful: false, errorMessage: error.message });
-      });
-    });
-  }, []);
+      }
+    },
+    [recordBidRoundTripTime]
+  );
 
   return {
     submitBidForAuction,
@@ -0,0 +1,80 @@
+// Hook for accepting the current price of a Dutch auction via WebSocket
+
+import { useState, useCallback } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { Money } from 'utils/money';
+
+const SOCKET_URL = import.meta.env.VITE_APP_SOCKET_URL || 'http://localhost:3010';
+const ACCEPT_TIMEOUT = 10000;
+
+interface DutchAcceptanceResult {
+  wasSuccessful: boolean;
+  purchasePrice?: Money;
+  errorMessage?: string;
+}
+
+interface DutchPriceAcceptedSuccessResponse {
+  auctionItemId: string;
+  purchasePrice: Money;
+  purchasedAtTimestamp: string;
+}
+
+export function useDutchAuctionAcceptance() {
+  const [isAcceptanceInProgress, setIsAcceptanceInProgress] = useState(false);
+
+  const acceptDutchPriceForAuction = useCallback(async (auctionItemId: string): Promise<DutchAcceptanceResult> => {
+    setIsAcceptanceInProgress(true);
+
+    return new Promise((resolve) => {
+      const token = localStorage.getItem('serviceToken');
+
+      if (!token) {
+        setIsAcceptanceInProgress(false);
+        resolve({ wasSuccessful: false, errorMessage: 'Not authenticated' });
+        return;
+      }
+
+      const socket: Socket = io(SOCKET_URL, {
+        auth: { token },
+        transports: ['websocket', 'polling']
+      });
+
+      const timeoutId = setTimeout(() => {
+        socket.disconnect();
+        setIsAcceptanceInProgress(false);
+        resolve({ wasSuccessful: false, errorMessage: 'Accepting the price timed out' });
+      }, ACCEPT_TIMEOUT);
+
+      socket.on('connect', () => {
+        socket.emit('ACCEPT_DUTCH_PRICE', { auctionItemId });
+      });
+
+      socket.on('DUTCH_PRICE_ACCEPTED_SUCCESS', (response: DutchPriceAcceptedSuccessResponse) => {
+        clearTimeout(timeoutId);
+        socket.disconnect();
+        setIsAcceptanceInProgress(false);
+        resolve({ wasSuccessful: true, purchasePrice: response.purchasePrice });
+      });
+
+      socket.on('DUTCH_PRICE_ACCEPTED_ERROR', (error: { errorMessage: string }) => {
+        clearTimeout(timeoutId);
+        socket.disconnect();
+        setIsAcceptanceInProgress(false);
+        resolve({ wasSuccessful: false, errorMessage: error.errorMessage });
+      });
+
+      socket.on('connect_error', (error: Error) => {
+        clearTimeout(timeoutId);
+        setIsAcceptanceInProgress(false);
+        resolve({ wasSuccessful: false, errorMessage: error.message });
+      });
+    });
+  }, []);
+
+  return {
+    acceptDutchPriceForAuction,
+    isAcceptanceInProgress
+  };
+}
+
+export default useDutchAuctionAcceptance;
@@ -0,0 +1,29 @@
+// Live Dutch auction price computed against the server-synced clock
+
+import { useState, useEffect } from 'react';
+import useAuctionStore, { AuctionItemState } from 'store/auctionStore';
+import { calculateDutchPriceAtTime } from 'utils/dutchAuctionPricing';
+
+const PRICE_REFRESH_INTERVAL = 250;
+
+export function useDutchAuctionPrice(auctionItem: AuctionItemState): number | null {
+  const { getServerSyncedCurrentTimeInMs } = useAuctionStore();
+  const [currentPriceInCents, setCurrentPriceInCents] = useState<number | null>(() =>
+    calculateDutchPriceAtTime(auctionItem, getServerSyncedCurrentTimeInMs())
+  );
+
+  useEffect(() => {
+    const refreshPrice = () => setCurrentPriceInCents(calculateDutchPriceAtTime(auctionItem, getServerSyncedCurrentTimeInMs()));
+
+    refreshPrice();
+
+    if (auctionItem.auctionFormat !== 'DUTCH' || auctionItem.currentStatus !== 'ACTIVE') return;
+
+    const intervalId = setInterval(refreshPrice, PRICE_REFRESH_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [auctionItem, getServerSyncedCurrentTimeInMs]);
+
+  return currentPriceInCents;
+}
+
+export default useDutchAuctionPrice;
@@ -0,0 +1,31 @@
+// Exchange rates and the signed-in user's display currency, for showing prices converted next to the original
+
+import { useEffect } from 'react';
+import useAuth from 'hooks/useAuth';
+import useExchangeRateStore from 'store/exchangeRateStore';
+import axios from 'utils/axios';
+import { ExchangeRate, PLATFORM_CURRENCY_CODE } from 'utils/money';
+
+// Shared by every mounted caller so the rates are only requested once
+let pendingExchangeRatesRequest: Promise<void> | null = null;
+
+export function useExchangeRates(): { exchangeRates: ExchangeRate[]; displayCurrencyCode: string } {
+  const { user } = useAuth();
+  const { exchangeRates, hasLoadedExchangeRates, setExchangeRates } = useExchangeRateStore();
+
+  useEffect(() => {
+    if (hasLoadedExchangeRates || pendingExchangeRatesRequest) return;
+
+    pendingExchangeRatesRequest = axios
+      .get('/api/exchange-rates')
+      .then((response) => setExchangeRates(response.data.data.exchangeRates))
+      .catch((error) => console.error('Failed to fetch exchange rates:', error))
+      .finally(() => {
+        pendingExchangeRatesRequest = null;
+      });
+  }, [hasLoadedExchangeRates, setExchangeRates]);
+
+  return { exchangeRates, displayCurrencyCode: user?.displayCurrencyCode ?? PLATFORM_CURRENCY_CODE };
+}
+
+export default useExchangeRates;
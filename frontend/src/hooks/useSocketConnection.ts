@@ -2,14 +2,29 @@
 
 import { useEffect, useRef, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import useAuctionStore from 'store/auctionStore';
+import useAuctionStore, {
+  AuctionDetailsUpdatedPayload,
+  AuctionEndReason,
+  AuctionEndTimeExtendedPayload,
+  AuctionItemState,
+  AuctionStartedPayload,
+  AuctionWinnerState,
+  BidUpdatePayload
+} from 'store/auctionStore';
 import useAuth from './useAuth';
+import { Money } from 'utils/money';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
 
 // Socket events
 const EVENTS = {
   BID_UPDATE: 'BID_UPDATE_BROADCAST',
+  AUCTION_END_TIME_EXTENDED: 'AUCTION_END_TIME_EXTENDED',
   AUCTION_ENDED: 'auction:ended',
   AUCTION_CREATED: 'auction:created',
+  AUCTION_STARTED: 'auction:started',
+  AUCTION_CANCELLED: 'AUCTION_CANCELLED_NOTIFICATION',
+  AUCTION_DETAILS_UPDATED: 'AUCTION_DETAILS_UPDATED',
   TIME_SYNC_REQUEST: 'TIME_SYNC_REQUEST',
   TIME_SYNC_RESPONSE: 'TIME_SYNC_RESPONSE',
   JOIN_ROOM: 'JOIN_AUCTION_ROOM',
@@ -20,6 +35,13 @@ const SOCKET_URL = import.meta.env.VITE_APP_SOCKET_URL || 'http://localhost:3010
 const TIME_SYNC_INTERVAL = 30000;
 const SYNC_SAMPLES_COUNT = 5;
 
+// The one live connection, shared with hooks that emit on it such as useBidSubmission
+let sharedSocketInstance: Socket | null = null;
+
+export function getSharedSocketInstance(): Socket | null {
+  return sharedSocketInstance;
+}
+
 interface TimeSyncSample {
   offsetInMs: number;
   roundTripTimeInMs: number;
@@ -35,9 +57,14 @@ export function useSocketConnection() {
     updateSocketConnectionState,
     updateTimeSyncState,
     updateAuctionItemWithBid,
+    updateAuctionEndTime,
     markAuctionAsEnded,
     markAuctionAsRecentlyUpdated,
-    addNewAuctionItem
+    addNewAuctionItem,
+    addUpcomingAuctionItem,
+    moveUpcomingAuctionToLive,
+    updateAuctionItemDetails,
+    removeCancelledAuction
   } = useAuctionStore();
 
   // Time sync using NTP-style algorithm
@@ -74,14 +101,7 @@ export function useSocketConnection() {
   );
 
   const handleBidUpdate = useCallback(
-    (bidUpdate: {
-      auctionItemId: string;
-      newHighestBidInDollars: number;
-      highestBidderUserId: string;
-      highestBidderUsername: string;
-      bidPlacedAtTimestamp: string;
-      totalNumberOfBids: number;
-    }) => {
+    (bidUpdate: BidUpdatePayload) => {
       updateAuctionItemWithBid(bidUpdate);
       markAuctionAsRecentlyUpdated(bidUpdate.auctionItemId);
       setTimeout(() => useAuctionStore.getState().clearRecentlyUpdatedFlag(bidUpdate.auctionItemId), 500);
@@ -89,9 +109,18 @@ export function useSocketConnection() {
     [updateAuctionItemWithBid, markAuctionAsRecentlyUpdated]
   );
 
+  const handleAuctionEndTimeExtended = useCallback(
+    (endTimeUpdate: AuctionEndTimeExtendedPayload) => {
+      updateAuctionEndTime(endTimeUpdate);
+      markAuctionAsRecentlyUpdated(endTimeUpdate.auctionItemId);
+      setTimeout(() => useAuctionStore.getState().clearRecentlyUpdatedFlag(endTimeUpdate.auctionItemId), 500);
+    },
+    [updateAuctionEndTime, markAuctionAsRecentlyUpdated]
+  );
+
   const handleAuctionEnded = useCallback(
-    (notification: { auctionItemId: string; winnerUserId: string | null; winnerUsername: string | null }) => {
-      markAuctionAsEnded(notification.auctionItemId, notification.winnerUserId, notification.winnerUsername);
+    (notification: { auctionItemId: string; winners: AuctionWinnerState[]; endReason: AuctionEndReason | null; finalBidAmount: Money }) => {
+      markAuctionAsEnded(notification.auctionItemId, notification.winners || [], notification.endReason, notification.finalBidAmount);
     },
     [markAuctionAsEnded]
   );
@@ -100,26 +129,70 @@ export function useSocketConnection() {
     (data: { auctionItem: any }) => {
       if (data.auctionItem) {
         // Transform backend response to frontend format
-        const item = {
+        const item: AuctionItemState = {
           id: data.auctionItem.id,
           itemTitle: data.auctionItem.itemTitle,
           itemDescription: data.auctionItem.itemDescription,
-          startingPriceInDollars: data.auctionItem.startingPriceInDollars,
-          currentHighestBidInDollars: data.auctionItem.currentHighestBidInDollars,
-          minimumBidIncrementInDollars: data.auctionItem.minimumBidIncrementInDollars,
+          currencyCode: data.auctionItem.currencyCode,
+          startingPrice: data.auctionItem.startingPrice,
+          currentHighestBid: data.auctionItem.currentHighestBid,
+          bidIncrement: data.auctionItem.bidIncrement,
           auctionStartTimeTimestamp: data.auctionItem.auctionStartTimeTimestamp,
           auctionEndTimeTimestamp: data.auctionItem.auctionEndTimeTimestamp,
           itemImageUrl: data.auctionItem.itemImageUrl,
           currentStatus: data.auctionItem.currentStatus,
+          endReason: data.auctionItem.endReason || null,
+          hasReservePrice: !!data.auctionItem.hasReservePrice,
+          isReservePriceMet: data.auctionItem.isReservePriceMet ?? null,
+          buyNowPrice: data.auctionItem.buyNowPrice ?? null,
+          isBuyNowAvailable: !!data.auctionItem.isBuyNowAvailable,
+          softCloseWindowInSeconds: data.auctionItem.softCloseWindowInSeconds || 0,
+          softCloseExtensionInSeconds: data.auctionItem.softCloseExtensionInSeconds || 0,
+          auctionFormat: data.auctionItem.auctionFormat || 'ENGLISH',
+          dutchPriceSchedule: data.auctionItem.dutchPriceSchedule || null,
+          sealedBidPricing: data.auctionItem.sealedBidPricing || null,
+          quantityAvailable: data.auctionItem.quantityAvailable || 1,
+          multiUnitPricing: data.auctionItem.multiUnitPricing || null,
           creatorUser: data.auctionItem.creatorUser,
-          winnerUser: data.auctionItem.winnerUser || null,
+          winners: data.auctionItem.winners || [],
           totalBidCount: data.auctionItem.totalBidCount || 0,
           highestBidder: data.auctionItem.highestBidder || null
         };
-        addNewAuctionItem(item);
+        if (item.currentStatus === 'SCHEDULED') {
+          addUpcomingAuctionItem(item);
+        } else {
+          addNewAuctionItem(item);
+        }
       }
     },
-    [addNewAuctionItem]
+    [addNewAuctionItem, addUpcomingAuctionItem]
+  );
+
+  const handleAuctionStarted = useCallback(
+    (startedAuction: AuctionStartedPayload) => {
+      moveUpcomingAuctionToLive(startedAuction);
+    },
+    [moveUpcomingAuctionToLive]
+  );
+
+  const handleAuctionCancelled = useCallback(
+    (notification: { auctionItemId: string; itemTitle: string; cancellationReason: string }) => {
+      removeCancelledAuction(notification.auctionItemId);
+      openSnackbar({
+        open: true,
+        message: `"${notification.itemTitle}" was cancelled by the seller: ${notification.cancellationReason}`,
+        variant: 'alert',
+        alert: { color: 'warning' }
+      } as SnackbarProps);
+    },
+    [removeCancelledAuction]
+  );
+
+  const handleAuctionDetailsUpdated = useCallback(
+    (detailsUpdate: AuctionDetailsUpdatedPayload) => {
+      updateAuctionItemDetails(detailsUpdate);
+    },
+    [updateAuctionItemDetails]
   );
 
   const connectSocket = useCallback(() => {
@@ -140,6 +213,7 @@ export function useSocketConnection() {
     });
 
     socketRef.current = socket;
+    sharedSocketInstance = socket;
 
     socket.on('connect', () => {
       updateSocketConnectionState({ isConnected: true, connectionError: null, reconnectAttempts: 0 });
@@ -170,22 +244,31 @@ export function useSocketConnection() {
 
     socket.on(EVENTS.TIME_SYNC_RESPONSE, handleTimeSyncResponse);
     socket.on(EVENTS.BID_UPDATE, handleBidUpdate);
+    socket.on(EVENTS.AUCTION_END_TIME_EXTENDED, handleAuctionEndTimeExtended);
     socket.on(EVENTS.AUCTION_ENDED, handleAuctionEnded);
     socket.on(EVENTS.AUCTION_CREATED, handleNewAuctionCreated);
+    socket.on(EVENTS.AUCTION_STARTED, handleAuctionStarted);
+    socket.on(EVENTS.AUCTION_CANCELLED, handleAuctionCancelled);
+    socket.on(EVENTS.AUCTION_DETAILS_UPDATED, handleAuctionDetailsUpdated);
   }, [
     isLoggedIn,
     updateSocketConnectionState,
     performTimeSyncRequest,
     handleTimeSyncResponse,
     handleBidUpdate,
+    handleAuctionEndTimeExtended,
     handleAuctionEnded,
-    handleNewAuctionCreated
+    handleNewAuctionCreated,
+    handleAuctionStarted,
+    handleAuctionCancelled,
+    handleAuctionDetailsUpdated
   ]);
 
   const disconnectSocket = useCallback(() => {
     if (socketRef.current) {
       socketRef.current.disconnect();
       socketRef.current = null;
+      sharedSocketInstance = null;
     }
 
     if (timeSyncIntervalRef.current) {
@@ -0,0 +1,138 @@
+import { useRef, useState } from 'react';
+
+// material-ui
+import useMediaQuery from '@mui/material/useMediaQuery';
+import ClickAwayListener from '@mui/material/ClickAwayListener';
+import Grid from '@mui/material/Grid';
+import List from '@mui/material/List';
+import ListItemButton from '@mui/material/ListItemButton';
+import ListItemText from '@mui/material/ListItemText';
+import Paper from '@mui/material/Paper';
+import Popper from '@mui/material/Popper';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import Box from '@mui/material/Box';
+
+// project imports
+import IconButton from 'components/@extended/IconButton';
+import Transitions from 'components/@extended/Transitions';
+
+import useAuth from 'hooks/useAuth';
+import { openSnackbar } from 'api/snackbar';
+import { CURRENCY_NAMES, SUPPORTED_CURRENCY_CODES, PLATFORM_CURRENCY_CODE } from 'utils/money';
+
+// assets
+import TransactionOutlined from '@ant-design/icons/TransactionOutlined';
+
+// types
+import { SnackbarProps } from 'types/snackbar';
+
+// ==============================|| HEADER CONTENT - DISPLAY CURRENCY ||============================== //
+
+export default function DisplayCurrency() {
+  const downMD = useMediaQuery((theme) => theme.breakpoints.down('md'));
+
+  const { user, updateDisplayCurrency } = useAuth();
+  const displayCurrencyCode = user?.displayCurrencyCode ?? PLATFORM_CURRENCY_CODE;
+
+  const anchorRef = useRef<any>(null);
+  const [open, setOpen] = useState(false);
+  const handleToggle = () => {
+    setOpen((prevOpen) => !prevOpen);
+  };
+
+  const handleClose = (event: MouseEvent | TouchEvent) => {
+    if (anchorRef.current && anchorRef.current.contains(event.target)) {
+      return;
+    }
+    setOpen(false);
+  };
+
+  const handleListItemClick = async (currencyCode: string) => {
+    setOpen(false);
+
+    if (currencyCode === displayCurrencyCode) return;
+
+    try {
+      await updateDisplayCurrency(currencyCode);
+    } catch (err: any) {
+      openSnackbar({
+        open: true,
+        message: err.errorMessage || err.message || 'Failed to update display currency',
+        variant: 'alert',
+        alert: { color: 'error' }
+      } as SnackbarProps);
+    }
+  };
+
+  return (
+    <Box sx={{ flexShrink: 0 }}>
+      <Tooltip title="Display Currency" disableInteractive>
+        <IconButton
+          color="secondary"
+          variant="light"
+          sx={(theme) => ({
+            color: 'text.primary',
+            bgcolor: open ? 'grey.100' : 'transparent',
+            ...theme.applyStyles('dark', { bgcolor: open ? 'background.default' : 'transparent' })
+          })}
+          aria-label="open display currency"
+          ref={anchorRef}
+          aria-controls={open ? 'display-currency-grow' : undefined}
+          aria-haspopup="true"
+          onClick={handleToggle}
+        >
+          <TransactionOutlined />
+        </IconButton>
+      </Tooltip>
+      <Popper
+        placement={downMD ? 'bottom-start' : 'bottom'}
+        open={open}
+        anchorEl={anchorRef.current}
+        role={undefined}
+        transition
+        disablePortal
+        popperOptions={{ modifiers: [{ name: 'offset', options: { offset: [0, 9] } }] }}
+      >
+        {({ TransitionProps }) => (
+          <Transitions type="grow" position={downMD ? 'top-right' : 'top'} in={open} {...TransitionProps}>
+            <Paper sx={(theme) => ({ boxShadow: theme.vars.customShadows.z1 })}>
+              <ClickAwayListener onClickAway={handleClose}>
+                <List
+                  component="nav"
+                  sx={{
+                    p: 0,
+                    width: '100%',
+                    minWidth: 200,
+                    maxWidth: { xs: 250, md: 290 },
+                    bgcolor: 'background.paper',
+                    borderRadius: 0.5
+                  }}
+                >
+                  {SUPPORTED_CURRENCY_CODES.map((currencyCode) => (
+                    <ListItemButton
+                      key={currencyCode}
+                      selected={displayCurrencyCode === currencyCode}
+                      onClick={() => handleListItemClick(currencyCode)}
+                    >
+                      <ListItemText
+                        primary={
+                          <Grid container>
+                            <Typography color="text.primary">{currencyCode}</Typography>
+                            <Typography variant="caption" color="text.secondary" sx={{ ml: '8px' }}>
+                              ({CURRENCY_NAMES[currencyCode]})
+                            </Typography>
+                          </Grid>
+                        }
+                      />
+                    </ListItemButton>
+                  ))}
+                </List>
+              </ClickAwayListener>
+            </Paper>
+          </Transitions>
+        )}
+      </Popper>
+    </Box>
+  );
+}
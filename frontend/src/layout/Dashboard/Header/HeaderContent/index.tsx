@@ -7,6 +7,7 @@ import Box from '@mui/material/Box';
 // project imports
 import Profile from './Profile';
 import FullScreen from './FullScreen';
+import DisplayCurrency from './DisplayCurrency';
 
 import useConfig from 'hooks/useConfig';
 import { MenuOrientation } from 'config';
@@ -26,6 +27,7 @@ export default function HeaderContent() {
 
       <Stack direction="row" sx={{ alignItems: 'center', gap: 0.75 }}>
         {!downLG && <FullScreen />}
+        <DisplayCurrency />
         <Profile />
       </Stack>
     </>
@@ -2,6 +2,9 @@
 import ShoppingOutlined from '@ant-design/icons/ShoppingOutlined';
 import HistoryOutlined from '@ant-design/icons/HistoryOutlined';
 import TrophyOutlined from '@ant-design/icons/TrophyOutlined';
+import WalletOutlined from '@ant-design/icons/WalletOutlined';
+import ExceptionOutlined from '@ant-design/icons/ExceptionOutlined';
+import TransactionOutlined from '@ant-design/icons/TransactionOutlined';
 
 // type
 import { NavItemType } from 'types/menu';
@@ -10,7 +13,10 @@ import { NavItemType } from 'types/menu';
 const icons = {
   ShoppingOutlined,
   HistoryOutlined,
-  TrophyOutlined
+  TrophyOutlined,
+  WalletOutlined,
+  ExceptionOutlined,
+  TransactionOutlined
 };
 
 // ==============================|| MENU ITEMS - AUCTION ||============================== //
@@ -41,6 +47,27 @@ const auction: NavItemType = {
       type: 'item',
       url: '/won-items',
       icon: icons.TrophyOutlined
+    },
+    {
+      id: 'wallet',
+      title: 'Wallet',
+      type: 'item',
+      url: '/wallet',
+      icon: icons.WalletOutlined
+    },
+    {
+      id: 'unpaid-items',
+      title: 'Unpaid Items',
+      type: 'item',
+      url: '/unpaid-items',
+      icon: icons.ExceptionOutlined
+    },
+    {
+      id: 'exchange-rates',
+      title: 'Exchange Rates',
+      type: 'item',
+      url: '/exchange-rates',
+      icon: icons.TransactionOutlined
     }
   ]
 };
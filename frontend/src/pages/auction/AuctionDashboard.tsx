@@ -9,11 +9,13 @@ import Alert from '@mui/material/Alert';
 import Chip from '@mui/material/Chip';
 import Stack from '@mui/material/Stack';
 import Button from '@mui/material/Button';
+import Tooltip from '@mui/material/Tooltip';
 import PlusOutlined from '@ant-design/icons/PlusOutlined';
 
 import MainCard from 'components/MainCard';
 import AuctionCard from 'components/auction/AuctionCard';
 import CreateAuctionModal from 'components/auction/CreateAuctionModal';
+import UpcomingAuctionCard from 'components/auction/UpcomingAuctionCard';
 import useAuctionStore, { AuctionItemState } from 'store/auctionStore';
 import useSocketConnection from 'hooks/useSocketConnection';
 import axios from 'utils/axios';
@@ -21,11 +23,14 @@ import axios from 'utils/axios';
 export default function AuctionDashboard() {
   const {
     allAuctionItems,
+    upcomingAuctionItems,
     isLoadingAuctionItems,
     auctionItemsLoadError,
     socketConnectionState,
     timeSyncState,
+    bidLatencyState,
     setAllAuctionItems,
+    setUpcomingAuctionItems,
     setIsLoadingAuctionItems,
     setAuctionItemsLoadError
   } = useAuctionStore();
@@ -38,9 +43,10 @@ export default function AuctionDashboard() {
     setAuctionItemsLoadError(null);
 
     try {
-      const response = await axios.get('/api/auction-items');
-      if (response.data.success) {
+      const [response, upcomingResponse] = await Promise.all([axios.get('/api/auction-items'), axios.get('/api/auction-items/upcoming')]);
+      if (response.data.success && upcomingResponse.data.success) {
         setAllAuctionItems(response.data.data.auctionItems);
+        setUpcomingAuctionItems(upcomingResponse.data.data.auctionItems);
       } else {
         setAuctionItemsLoadError('Failed to load auction items');
       }
@@ -49,7 +55,7 @@ export default function AuctionDashboard() {
     } finally {
       setIsLoadingAuctionItems(false);
     }
-  }, [setAllAuctionItems, setIsLoadingAuctionItems, setAuctionItemsLoadError]);
+  }, [setAllAuctionItems, setUpcomingAuctionItems, setIsLoadingAuctionItems, setAuctionItemsLoadError]);
 
   useEffect(() => {
     fetchAuctionItems();
@@ -68,7 +74,11 @@ export default function AuctionDashboard() {
           <Stack direction="row" spacing={2} alignItems="center" justifyContent="space-between" sx={{ width: '100%' }}>
             <Stack direction="row" spacing={2} alignItems="center">
               <Typography variant="h4">Live Auctions</Typography>
-              <ConnectionStatus isConnected={socketConnectionState.isConnected} isTimeSynced={timeSyncState.isTimeSynced} />
+              <ConnectionStatus
+                isConnected={socketConnectionState.isConnected}
+                isTimeSynced={timeSyncState.isTimeSynced}
+                averageBidRoundTripTimeInMs={bidLatencyState.averageBidRoundTripTimeInMs}
+              />
             </Stack>
             <Button variant="contained" startIcon={<PlusOutlined />} onClick={() => setIsCreateModalOpen(true)} sx={{ minWidth: 160 }}>
               Create Auction
@@ -115,14 +125,49 @@ export default function AuctionDashboard() {
         </Box>
       </MainCard>
 
+      {!isLoadingAuctionItems && upcomingAuctionItems.length > 0 && (
+        <MainCard
+          title={
+            <Stack direction="row" spacing={2} alignItems="center">
+              <Typography variant="h4">Upcoming</Typography>
+              <Chip size="small" label={upcomingAuctionItems.length} color="info" sx={{ fontSize: '0.75rem' }} />
+            </Stack>
+          }
+          sx={{ mt: 3 }}
+        >
+          <Box sx={{ p: 1 }}>
+            <Grid container spacing={3}>
+              {upcomingAuctionItems.map((item: AuctionItemState) => (
+                <Grid key={item.id} size={{ xs: 12, sm: 6, md: 3 }}>
+                  <UpcomingAuctionCard auctionItem={item} />
+                </Grid>
+              ))}
+            </Grid>
+          </Box>
+        </MainCard>
+      )}
+
       <CreateAuctionModal open={isCreateModalOpen} onClose={() => setIsCreateModalOpen(false)} onSuccess={fetchAuctionItems} />
     </>
   );
 }
 
-// Connection status indicator
-function ConnectionStatus({ isConnected, isTimeSynced }: { isConnected: boolean; isTimeSynced: boolean }) {
+// Connection status indicator, with the average bid round trip once a bid has been placed
+function ConnectionStatus({
+  isConnected,
+  isTimeSynced,
+  averageBidRoundTripTimeInMs
+}: {
+  isConnected: boolean;
+  isTimeSynced: boolean;
+  averageBidRoundTripTimeInMs: number | null;
+}) {
   if (!isConnected) return <Chip size="small" label="Connecting..." color="warning" sx={{ fontSize: '0.75rem' }} />;
   if (!isTimeSynced) return <Chip size="small" label="Syncing..." color="info" sx={{ fontSize: '0.75rem' }} />;
-  return <Chip size="small" label="Live" color="success" sx={{ fontSize: '0.75rem' }} />;
+  if (averageBidRoundTripTimeInMs === null) return <Chip size="small" label="Live" color="success" sx={{ fontSize: '0.75rem' }} />;
+  return (
+    <Tooltip title="Average time for a bid to be confirmed">
+      <Chip size="small" label={`Live · ${Math.round(averageBidRoundTripTimeInMs)} ms`} color="success" sx={{ fontSize: '0.75rem' }} />
+    </Tooltip>
+  );
 }
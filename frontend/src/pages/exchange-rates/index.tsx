@@ -0,0 +1,134 @@
+import { useState } from 'react';
+
+// material-ui
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import Stack from '@mui/material/Stack';
+import Divider from '@mui/material/Divider';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+
+// project imports
+import MainCard from 'components/MainCard';
+import useAuth from 'hooks/useAuth';
+import useExchangeRates from 'hooks/useExchangeRates';
+import useExchangeRateStore from 'store/exchangeRateStore';
+import axios from 'utils/axios';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { CURRENCY_NAMES, ExchangeRate, PLATFORM_CURRENCY_CODE, SupportedCurrencyCode } from 'utils/money';
+
+export default function ExchangeRatesPage() {
+  const { user } = useAuth();
+  const { exchangeRates } = useExchangeRates();
+  const { hasLoadedExchangeRates, setExchangeRates } = useExchangeRateStore();
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+  const [savingCurrencyCode, setSavingCurrencyCode] = useState<string | null>(null);
+
+  const isPlatformAdmin = user?.role === 'admin';
+
+  const handleSaveRate = async (currencyCode: string) => {
+    const rateInput = rateInputs[currencyCode]?.trim();
+    if (!rateInput || savingCurrencyCode) return;
+
+    setSavingCurrencyCode(currencyCode);
+
+    try {
+      const response = await axios.put(`/api/exchange-rates/${currencyCode}`, { rate: rateInput });
+      const updatedExchangeRate: ExchangeRate = response.data.data.exchangeRate;
+
+      setExchangeRates(
+        exchangeRates.some((exchangeRate) => exchangeRate.currencyCode === currencyCode)
+          ? exchangeRates.map((exchangeRate) => (exchangeRate.currencyCode === currencyCode ? updatedExchangeRate : exchangeRate))
+          : [...exchangeRates, updatedExchangeRate]
+      );
+      setRateInputs((prev) => ({ ...prev, [currencyCode]: '' }));
+      openSnackbar({
+        open: true,
+        message: `${currencyCode} rate updated`,
+        variant: 'alert',
+        alert: { color: 'success' }
+      } as SnackbarProps);
+    } catch (err: any) {
+      openSnackbar({
+        open: true,
+        message: err.errorMessage || 'Failed to update exchange rate',
+        variant: 'alert',
+        alert: { color: 'error' }
+      } as SnackbarProps);
+    } finally {
+      setSavingCurrencyCode(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (!hasLoadedExchangeRates) {
+    return (
+      <MainCard title="Exchange Rates">
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      </MainCard>
+    );
+  }
+
+  return (
+    <MainCard title="Exchange Rates">
+      <Alert severity="info" sx={{ mb: 3 }}>
+        Rates are only used to show prices in your display currency. Bids are always placed, validated and paid in the auction&apos;s own
+        currency.
+      </Alert>
+
+      <Stack spacing={1.5} divider={<Divider />}>
+        {exchangeRates.map((exchangeRate) => (
+          <Box
+            key={exchangeRate.currencyCode}
+            sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}
+          >
+            <Box>
+              <Typography variant="body1" fontWeight={600}>
+                1 {PLATFORM_CURRENCY_CODE} = {exchangeRate.unitsPerPlatformUnit} {exchangeRate.currencyCode}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {CURRENCY_NAMES[exchangeRate.currencyCode as SupportedCurrencyCode] ?? exchangeRate.currencyCode} · quoted{' '}
+                {formatDate(exchangeRate.quotedAtTimestamp)}
+                {exchangeRate.updatedByUsername ? ` by ${exchangeRate.updatedByUsername}` : ''}
+              </Typography>
+            </Box>
+            {isPlatformAdmin && exchangeRate.currencyCode !== PLATFORM_CURRENCY_CODE && (
+              <Stack direction="row" spacing={1} alignItems="center">
+                <TextField
+                  size="small"
+                  type="number"
+                  label="New rate"
+                  value={rateInputs[exchangeRate.currencyCode] ?? ''}
+                  onChange={(event) => setRateInputs((prev) => ({ ...prev, [exchangeRate.currencyCode]: event.target.value }))}
+                  inputProps={{ min: 0.00000001, step: 0.0001 }}
+                  sx={{ maxWidth: 160 }}
+                />
+                <Button
+                  variant="contained"
+                  onClick={() => handleSaveRate(exchangeRate.currencyCode)}
+                  disabled={!rateInputs[exchangeRate.currencyCode]?.trim() || savingCurrencyCode !== null}
+                >
+                  {savingCurrencyCode === exchangeRate.currencyCode ? <CircularProgress size={20} color="inherit" /> : 'Save'}
+                </Button>
+              </Stack>
+            )}
+          </Box>
+        ))}
+      </Stack>
+    </MainCard>
+  );
+}
@@ -14,16 +14,19 @@ import Alert from '@mui/material/Alert';
 
 // project imports
 import MainCard from 'components/MainCard';
+import ConvertedMoney from 'components/auction/ConvertedMoney';
 import axios from 'utils/axios';
+import { Money, formatMoney } from 'utils/money';
 
 // assets
 import TrophyOutlined from '@ant-design/icons/TrophyOutlined';
 import ClockCircleOutlined from '@ant-design/icons/ClockCircleOutlined';
 import CloseCircleOutlined from '@ant-design/icons/CloseCircleOutlined';
+import LockOutlined from '@ant-design/icons/LockOutlined';
 
 interface UserBid {
   bidId: string;
-  bidAmountInDollars: number;
+  bidAmount: Money;
   placedAtTimestamp: string;
   wasBidSuccessful: boolean;
   auctionItem: {
@@ -31,9 +34,11 @@ interface UserBid {
     itemTitle: string;
     itemDescription: string;
     itemImageUrl: string | null;
-    currentHighestBidInDollars: number;
+    currentHighestBid: Money;
     auctionEndTimeTimestamp: string;
     currentStatus: string;
+    endReason: 'SOLD' | 'NO_BIDS' | 'RESERVE_NOT_MET' | 'BOUGHT_NOW' | null;
+    auctionFormat: 'ENGLISH' | 'DUTCH' | 'SEALED_BID';
   };
   isHighestBidder: boolean;
   isWinner: boolean;
@@ -64,13 +69,21 @@ export default function MyBidsPage() {
     }
   };
 
+  const isSealedAndOpen = (bid: UserBid) => bid.auctionItem.auctionFormat === 'SEALED_BID' && bid.auctionItem.currentStatus === 'ACTIVE';
+
   const getStatusChip = (bid: UserBid) => {
     if (bid.isWinner) {
       return <Chip icon={<TrophyOutlined />} label="Won" color="success" size="small" />;
     }
+    if (bid.auctionItem.endReason === 'RESERVE_NOT_MET') {
+      return <Chip icon={<CloseCircleOutlined />} label="Reserve Not Met" color="default" size="small" />;
+    }
     if (bid.auctionItem.currentStatus === 'ENDED') {
       return <Chip icon={<CloseCircleOutlined />} label="Lost" color="error" size="small" />;
     }
+    if (isSealedAndOpen(bid)) {
+      return <Chip icon={<LockOutlined />} label="Sealed" color="info" size="small" variant="outlined" />;
+    }
     if (bid.isHighestBidder) {
       return <Chip icon={<TrophyOutlined />} label="Winning" color="success" size="small" variant="outlined" />;
     }
@@ -156,17 +169,23 @@ export default function MyBidsPage() {
                       <Typography variant="body2" color="text.secondary">
                         Your Bid:
                       </Typography>
-                      <Typography variant="body2" fontWeight={600}>
-                        ${bid.bidAmountInDollars.toFixed(2)}
-                      </Typography>
+                      <Box sx={{ textAlign: 'right' }}>
+                        <Typography variant="body2" fontWeight={600}>
+                          {formatMoney(bid.bidAmount)}
+                        </Typography>
+                        <ConvertedMoney money={bid.bidAmount} />
+                      </Box>
                     </Box>
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2" color="text.secondary">
                         Current Bid:
                       </Typography>
-                      <Typography variant="body2" fontWeight={600} color="primary.main">
-                        ${bid.auctionItem.currentHighestBidInDollars.toFixed(2)}
-                      </Typography>
+                      <Box sx={{ textAlign: 'right' }}>
+                        <Typography variant="body2" fontWeight={600} color="primary.main">
+                          {isSealedAndOpen(bid) ? 'Hidden until close' : formatMoney(bid.auctionItem.currentHighestBid)}
+                        </Typography>
+                        {!isSealedAndOpen(bid) && <ConvertedMoney money={bid.auctionItem.currentHighestBid} />}
+                      </Box>
                     </Box>
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2" color="text.secondary">
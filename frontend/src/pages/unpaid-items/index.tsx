@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+
+// material-ui
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import Divider from '@mui/material/Divider';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+
+// project imports
+import MainCard from 'components/MainCard';
+import axios from 'utils/axios';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { Money, formatMoney } from 'utils/money';
+
+// assets
+import ExceptionOutlined from '@ant-design/icons/ExceptionOutlined';
+import SendOutlined from '@ant-design/icons/SendOutlined';
+
+type SecondChanceOfferStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+interface SecondChanceOffer {
+  offerId: string;
+  recipientUsername: string;
+  offerPricePerUnit: Money;
+  quantityOffered: number;
+  totalPrice: Money;
+  offerStatus: SecondChanceOfferStatus;
+  expiresAtTimestamp: string;
+  createdAtTimestamp: string;
+}
+
+interface RunnerUp {
+  username: string;
+  lastBidPerUnit: Money;
+  quantityOffered: number;
+}
+
+interface UnpaidItem {
+  orderId: string;
+  auctionItemId: string;
+  itemTitle: string;
+  buyerUsername: string;
+  quantityWon: number;
+  amount: Money;
+  voidedAtTimestamp: string | null;
+  runnerUp: RunnerUp | null;
+  secondChanceOffers: SecondChanceOffer[];
+}
+
+const OFFER_STATUS_CHIPS: Record<SecondChanceOfferStatus, { label: string; color: 'info' | 'success' | 'default' | 'warning' }> = {
+  PENDING: { label: 'Waiting for answer', color: 'info' },
+  ACCEPTED: { label: 'Accepted', color: 'success' },
+  DECLINED: { label: 'Declined', color: 'default' },
+  EXPIRED: { label: 'Expired', color: 'warning' }
+};
+
+export default function UnpaidItemsPage() {
+  const [unpaidItems, setUnpaidItems] = useState<UnpaidItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sendingOrderId, setSendingOrderId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUnpaidItems(true);
+  }, []);
+
+  const fetchUnpaidItems = async (showLoading: boolean) => {
+    try {
+      if (showLoading) setLoading(true);
+      const response = await axios.get('/api/user/unpaid-items');
+      if (response.data.success) {
+        setUnpaidItems(response.data.data.unpaidItems);
+      } else {
+        setError(response.data.errorMessage || 'Failed to fetch unpaid items');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch unpaid items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendOffer = async (unpaidItem: UnpaidItem) => {
+    if (sendingOrderId) return;
+
+    setSendingOrderId(unpaidItem.orderId);
+
+    try {
+      await axios.post('/api/second-chance-offers', { orderId: unpaidItem.orderId });
+      openSnackbar({
+        open: true,
+        message: `Second-chance offer sent to ${unpaidItem.runnerUp?.username ?? 'the runner-up'}`,
+        variant: 'alert',
+        alert: { color: 'success' }
+      } as SnackbarProps);
+      await fetchUnpaidItems(false);
+    } catch (err: any) {
+      openSnackbar({
+        open: true,
+        message: err.errorMessage || 'Failed to send offer',
+        variant: 'alert',
+        alert: { color: 'error' }
+      } as SnackbarProps);
+    } finally {
+      setSendingOrderId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <MainCard title="Unpaid Items">
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      </MainCard>
+    );
+  }
+
+  if (error) {
+    return (
+      <MainCard title="Unpaid Items">
+        <Alert severity="error">{error}</Alert>
+      </MainCard>
+    );
+  }
+
+  return (
+    <MainCard title="Unpaid Items">
+      {unpaidItems.length === 0 ? (
+        <Box sx={{ textAlign: 'center', py: 8 }}>
+          <ExceptionOutlined style={{ fontSize: 48, color: '#bbb', marginBottom: 16 }} />
+          <Typography variant="h6" color="text.secondary">
+            No unpaid items
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Wins on your auctions that are not paid by the deadline show up here
+          </Typography>
+        </Box>
+      ) : (
+        <Stack spacing={2}>
+          {unpaidItems.map((unpaidItem) => (
+            <Card key={unpaidItem.orderId} sx={{ border: 1, borderColor: 'divider' }}>
+              <CardContent>
+                <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={2}>
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography variant="h6" noWrap>
+                      {unpaidItem.itemTitle}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {unpaidItem.buyerUsername} did not pay {formatMoney(unpaidItem.amount)}
+                      {unpaidItem.quantityWon > 1 ? ` for ${unpaidItem.quantityWon} units` : ''}
+                      {unpaidItem.voidedAtTimestamp ? ` - voided ${formatDate(unpaidItem.voidedAtTimestamp)}` : ''}
+                    </Typography>
+                  </Box>
+                  {unpaidItem.runnerUp && (
+                    <Button
+                      variant="contained"
+                      size="small"
+                      startIcon={sendingOrderId === unpaidItem.orderId ? undefined : <SendOutlined />}
+                      onClick={() => handleSendOffer(unpaidItem)}
+                      disabled={sendingOrderId !== null}
+                      sx={{ flexShrink: 0 }}
+                    >
+                      {sendingOrderId === unpaidItem.orderId ? <CircularProgress size={18} color="inherit" /> : 'Send second-chance offer'}
+                    </Button>
+                  )}
+                </Stack>
+
+                {unpaidItem.runnerUp && (
+                  <Typography variant="body2" sx={{ mt: 1 }}>
+                    Runner-up: <strong>{unpaidItem.runnerUp.username}</strong>, last bid {formatMoney(unpaidItem.runnerUp.lastBidPerUnit)}
+                    {unpaidItem.runnerUp.quantityOffered > 1 ? ` per unit for ${unpaidItem.runnerUp.quantityOffered} units` : ''}
+                  </Typography>
+                )}
+                {!unpaidItem.runnerUp && unpaidItem.secondChanceOffers.every((offer) => offer.offerStatus !== 'PENDING') && (
+                  <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                    {unpaidItem.secondChanceOffers.some((offer) => offer.offerStatus === 'ACCEPTED')
+                      ? 'Sold through a second-chance offer'
+                      : 'No other eligible bidders to make an offer to'}
+                  </Typography>
+                )}
+
+                {unpaidItem.secondChanceOffers.length > 0 && (
+                  <Stack spacing={1} divider={<Divider />} sx={{ mt: 2 }}>
+                    {unpaidItem.secondChanceOffers.map((offer) => (
+                      <Box key={offer.offerId} sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <Box>
+                          <Typography variant="body2">
+                            Offered to <strong>{offer.recipientUsername}</strong> for {formatMoney(offer.totalPrice)}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            Sent {formatDate(offer.createdAtTimestamp)}
+                            {offer.offerStatus === 'PENDING' ? ` - expires ${formatDate(offer.expiresAtTimestamp)}` : ''}
+                          </Typography>
+                        </Box>
+                        <Chip
+                          size="small"
+                          label={OFFER_STATUS_CHIPS[offer.offerStatus].label}
+                          color={OFFER_STATUS_CHIPS[offer.offerStatus].color}
+                        />
+                      </Box>
+                    ))}
+                  </Stack>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </Stack>
+      )}
+    </MainCard>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react';
+
+// material-ui
+import Box from '@mui/material/Box';
+import Grid from '@mui/material/Grid';
+import Button from '@mui/material/Button';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import Typography from '@mui/material/Typography';
+import TextField from '@mui/material/TextField';
+import InputAdornment from '@mui/material/InputAdornment';
+import Stack from '@mui/material/Stack';
+import Divider from '@mui/material/Divider';
+import CircularProgress from '@mui/material/CircularProgress';
+import Alert from '@mui/material/Alert';
+import MenuItem from '@mui/material/MenuItem';
+
+// project imports
+import MainCard from 'components/MainCard';
+import axios from 'utils/axios';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import {
+  Money,
+  PLATFORM_CURRENCY_CODE,
+  SUPPORTED_CURRENCY_CODES,
+  createMoney,
+  formatMoney,
+  parseCentsFromDecimalAmount
+} from 'utils/money';
+
+// assets
+import WalletOutlined from '@ant-design/icons/WalletOutlined';
+import LockOutlined from '@ant-design/icons/LockOutlined';
+
+type LedgerTransactionType = 'DEPOSIT' | 'BID_HOLD' | 'HOLD_RELEASE' | 'SETTLEMENT' | 'CHECKOUT_PAYMENT';
+
+interface WalletHold {
+  auctionItemId: string;
+  itemTitle: string;
+  amount: Money;
+}
+
+interface WalletLedgerEntry {
+  id: string;
+  transactionType: LedgerTransactionType;
+  transactionDescription: string | null;
+  accountType: 'USER_AVAILABLE' | 'USER_HELD';
+  amount: Money;
+  auctionItemId: string | null;
+  createdAtTimestamp: string;
+}
+
+// One per currency the wallet holds funds in. Bids in an auction only draw on the balance in that auction's currency
+interface WalletBalance {
+  currencyCode: string;
+  availableBalance: Money;
+  heldBalance: Money;
+}
+
+interface WalletSummary {
+  balances: WalletBalance[];
+  activeHolds: WalletHold[];
+  recentLedgerEntries: WalletLedgerEntry[];
+}
+
+const TRANSACTION_TYPE_LABELS: Record<LedgerTransactionType, string> = {
+  DEPOSIT: 'Deposit',
+  BID_HOLD: 'Held for bid',
+  HOLD_RELEASE: 'Hold released',
+  SETTLEMENT: 'Auction payment',
+  CHECKOUT_PAYMENT: 'Checkout payment received'
+};
+
+export default function WalletPage() {
+  const [wallet, setWallet] = useState<WalletSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [depositInput, setDepositInput] = useState('');
+  const [depositCurrencyCode, setDepositCurrencyCode] = useState<string>(PLATFORM_CURRENCY_CODE);
+  const [isDepositing, setIsDepositing] = useState(false);
+
+  useEffect(() => {
+    fetchWallet();
+  }, []);
+
+  const fetchWallet = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/wallet');
+      if (response.data.success) {
+        setWallet(response.data.data.wallet);
+      } else {
+        setError(response.data.errorMessage || 'Failed to fetch wallet');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch wallet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const depositAmountInCents = parseCentsFromDecimalAmount(depositInput);
+  const isDepositAmountValid = depositAmountInCents !== null && depositAmountInCents >= 1;
+
+  const handleDeposit = async () => {
+    if (!isDepositAmountValid || isDepositing) return;
+
+    setIsDepositing(true);
+
+    try {
+      const response = await axios.post('/api/wallet/deposits', { amount: depositInput.trim(), currencyCode: depositCurrencyCode });
+      const checkoutUrl: string | null = response.data.data.checkoutUrl;
+
+      if (checkoutUrl) {
+        window.location.assign(checkoutUrl);
+        return;
+      }
+
+      // The balance only grows once the payment provider confirms the deposit
+      setDepositInput('');
+      openSnackbar({
+        open: true,
+        message: `Payment of ${formatMoney(createMoney(depositAmountInCents, depositCurrencyCode))} started. It will be added to your wallet once confirmed`,
+        variant: 'alert',
+        alert: { color: 'info' }
+      } as SnackbarProps);
+    } catch (err: any) {
+      openSnackbar({
+        open: true,
+        message: err.errorMessage || 'Failed to add funds',
+        variant: 'alert',
+        alert: { color: 'error' }
+      } as SnackbarProps);
+    } finally {
+      setIsDepositing(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  if (loading) {
+    return (
+      <MainCard title="Wallet">
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      </MainCard>
+    );
+  }
+
+  if (error || !wallet) {
+    return (
+      <MainCard title="Wallet">
+        <Alert severity="error">{error || 'Failed to fetch wallet'}</Alert>
+      </MainCard>
+    );
+  }
+
+  return (
+    <MainCard title="Wallet">
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <Card sx={{ border: 1, borderColor: 'divider' }}>
+            <CardContent>
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                <WalletOutlined />
+                <Typography variant="body2" color="text.secondary">
+                  Available
+                </Typography>
+              </Stack>
+              {wallet.balances.map((balance) => (
+                <Typography key={balance.currencyCode} variant="h3" fontWeight={700} color="success.main">
+                  {formatMoney(balance.availableBalance)}
+                </Typography>
+              ))}
+              <Typography variant="caption" color="text.secondary">
+                What you can still bid
+              </Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+        <Grid size={{ xs: 12, sm: 6 }}>
+          <Card sx={{ border: 1, borderColor: 'divider' }}>
+            <CardContent>
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 1 }}>
+                <LockOutlined />
+                <Typography variant="body2" color="text.secondary">
+                  Held
+                </Typography>
+              </Stack>
+              {wallet.balances.map((balance) => (
+                <Typography key={balance.currencyCode} variant="h3" fontWeight={700}>
+                  {formatMoney(balance.heldBalance)}
+                </Typography>
+              ))}
+              <Typography variant="caption" color="text.secondary">
+                Committed to bids that can still win. Released when you are outbid
+              </Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        <Grid size={12}>
+          <Stack direction="row" spacing={1} alignItems="flex-start">
+            <TextField
+              select
+              size="small"
+              label="Currency"
+              value={depositCurrencyCode}
+              onChange={(event) => setDepositCurrencyCode(event.target.value)}
+              sx={{ minWidth: 110 }}
+            >
+              {SUPPORTED_CURRENCY_CODES.map((currencyCode) => (
+                <MenuItem key={currencyCode} value={currencyCode}>
+                  {currencyCode}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              type="number"
+              label="Add funds"
+              value={depositInput}
+              onChange={(event) => setDepositInput(event.target.value)}
+              InputProps={{ startAdornment: <InputAdornment position="start">{depositCurrencyCode}</InputAdornment> }}
+              inputProps={{ min: 0.01, step: 0.01 }}
+              sx={{ maxWidth: 240 }}
+            />
+            <Button variant="contained" onClick={handleDeposit} disabled={!isDepositAmountValid || isDepositing}>
+              {isDepositing ? <CircularProgress size={20} color="inherit" /> : 'Deposit'}
+            </Button>
+          </Stack>
+        </Grid>
+
+        {wallet.activeHolds.length > 0 && (
+          <Grid size={12}>
+            <Typography variant="h5" sx={{ mb: 1.5 }}>
+              Active Holds
+            </Typography>
+            <Stack spacing={1} divider={<Divider />}>
+              {wallet.activeHolds.map((hold) => (
+                <Box key={hold.auctionItemId} sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography variant="body2" noWrap sx={{ mr: 2 }}>
+                    {hold.itemTitle}
+                  </Typography>
+                  <Typography variant="body2" fontWeight={600}>
+                    {formatMoney(hold.amount)}
+                  </Typography>
+                </Box>
+              ))}
+            </Stack>
+          </Grid>
+        )}
+
+        <Grid size={12}>
+          <Typography variant="h5" sx={{ mb: 1.5 }}>
+            Recent Activity
+          </Typography>
+          {wallet.recentLedgerEntries.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No wallet activity yet
+            </Typography>
+          ) : (
+            <Stack spacing={1} divider={<Divider />}>
+              {/* A hold or release moves money between your two balances, so it shows once on each */}
+              {wallet.recentLedgerEntries.map((ledgerEntry) => (
+                <Box key={ledgerEntry.id} sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <Box>
+                    <Typography variant="body2">
+                      {TRANSACTION_TYPE_LABELS[ledgerEntry.transactionType]}
+                      {ledgerEntry.accountType === 'USER_HELD' ? ' (held balance)' : ''}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {formatDate(ledgerEntry.createdAtTimestamp)}
+                    </Typography>
+                  </Box>
+                  <Typography
+                    variant="body2"
+                    fontWeight={600}
+                    color={ledgerEntry.amount.amountInCents >= 0 ? 'success.main' : 'text.primary'}
+                  >
+                    {ledgerEntry.amount.amountInCents >= 0 ? '+' : '-'}
+                    {formatMoney(createMoney(Math.abs(ledgerEntry.amount.amountInCents), ledgerEntry.amount.currencyCode))}
+                  </Typography>
+                </Box>
+              ))}
+            </Stack>
+          )}
+        </Grid>
+      </Grid>
+    </MainCard>
+  );
+}
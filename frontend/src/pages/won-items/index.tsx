@@ -7,6 +7,7 @@ import Card from '@mui/material/Card';
 import CardContent from '@mui/material/CardContent';
 import CardMedia from '@mui/material/CardMedia';
 import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
 import Chip from '@mui/material/Chip';
 import Stack from '@mui/material/Stack';
 import CircularProgress from '@mui/material/CircularProgress';
@@ -14,36 +15,80 @@ import Alert from '@mui/material/Alert';
 
 // project imports
 import MainCard from 'components/MainCard';
+import SecondChanceOfferList from 'components/auction/SecondChanceOfferList';
+import ConvertedMoney from 'components/auction/ConvertedMoney';
 import axios from 'utils/axios';
+import { openSnackbar } from 'api/snackbar';
+import { SnackbarProps } from 'types/snackbar';
+import { Money, formatMoney } from 'utils/money';
 
 // assets
 import TrophyOutlined from '@ant-design/icons/TrophyOutlined';
+import CheckCircleOutlined from '@ant-design/icons/CheckCircleOutlined';
+import ClockCircleOutlined from '@ant-design/icons/ClockCircleOutlined';
+import ExclamationCircleOutlined from '@ant-design/icons/ExclamationCircleOutlined';
+import StopOutlined from '@ant-design/icons/StopOutlined';
+
+// How often to check back while a payment is waiting on the provider
+const PENDING_PAYMENT_POLL_INTERVAL_IN_MS = 3000;
+
+interface WonItemOrder {
+  orderId: string;
+  orderStatus: 'AWAITING_PAYMENT' | 'PAYMENT_PENDING' | 'PAID' | 'VOIDED';
+  paymentMethod: 'WALLET' | 'PAYMENT_PROVIDER' | null;
+  paymentDeadlineTimestamp: string;
+  paidAtTimestamp: string | null;
+  voidedAtTimestamp: string | null;
+  isOverdue: boolean;
+}
 
 interface WonItem {
   id: string;
   itemTitle: string;
   itemDescription: string;
   itemImageUrl: string | null;
-  winningBidAmountInDollars: number;
+  winningBidAmount: Money;
+  quantityWon: number;
+  quantityAvailable: number;
+  totalPrice: Money;
   auctionEndTimeTimestamp: string;
   wonAtTimestamp: string;
+  order: WonItemOrder | null;
+}
+
+interface BidderStanding {
+  recentStrikeCount: number;
+  strikeLimit: number;
+  isBiddingRestricted: boolean;
 }
 
 export default function WonItemsPage() {
   const [wonItems, setWonItems] = useState<WonItem[]>([]);
+  const [bidderStanding, setBidderStanding] = useState<BidderStanding | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
+
+  const hasPendingPayment = wonItems.some((item) => item.order?.orderStatus === 'PAYMENT_PENDING');
 
   useEffect(() => {
-    fetchWonItems();
+    fetchWonItems(true);
   }, []);
 
-  const fetchWonItems = async () => {
+  useEffect(() => {
+    if (!hasPendingPayment) return;
+
+    const pollTimer = setInterval(() => fetchWonItems(false), PENDING_PAYMENT_POLL_INTERVAL_IN_MS);
+    return () => clearInterval(pollTimer);
+  }, [hasPendingPayment]);
+
+  const fetchWonItems = async (showLoading: boolean) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       const response = await axios.get('/api/user/won-items');
       if (response.data.success) {
         setWonItems(response.data.data.wonItems);
+        setBidderStanding(response.data.data.bidderStanding);
       } else {
         setError(response.data.errorMessage || 'Failed to fetch won items');
       }
@@ -54,6 +99,53 @@ export default function WonItemsPage() {
     }
   };
 
+  const handlePay = async (orderId: string) => {
+    if (payingOrderId) return;
+
+    setPayingOrderId(orderId);
+
+    try {
+      const response = await axios.post(`/api/orders/${orderId}/checkout`);
+      const checkoutUrl: string | null = response.data.data.checkoutUrl;
+
+      if (checkoutUrl) {
+        window.location.assign(checkoutUrl);
+        return;
+      }
+
+      openSnackbar({
+        open: true,
+        message: 'Payment started. We will update this order once it is confirmed',
+        variant: 'alert',
+        alert: { color: 'info' }
+      } as SnackbarProps);
+      await fetchWonItems(false);
+    } catch (err: any) {
+      openSnackbar({
+        open: true,
+        message: err.errorMessage || 'Failed to start payment',
+        variant: 'alert',
+        alert: { color: 'error' }
+      } as SnackbarProps);
+    } finally {
+      setPayingOrderId(null);
+    }
+  };
+
+  const getOrderChip = (order: WonItemOrder | null) => {
+    if (!order) return <Chip icon={<TrophyOutlined />} label="Won" color="success" size="small" />;
+    if (order.orderStatus === 'PAID') return <Chip icon={<CheckCircleOutlined />} label="Paid" color="success" size="small" />;
+    if (order.orderStatus === 'VOIDED') return <Chip icon={<StopOutlined />} label="Voided (unpaid)" color="error" size="small" />;
+    if (order.orderStatus === 'PAYMENT_PENDING')
+      return <Chip icon={<ClockCircleOutlined />} label="Processing" color="info" size="small" />;
+    if (order.isOverdue) return <Chip icon={<ExclamationCircleOutlined />} label="Overdue" color="error" size="small" />;
+    return <Chip icon={<ClockCircleOutlined />} label="Awaiting payment" color="warning" size="small" />;
+  };
+
+  // An overdue order can no longer be paid; it is voided on the next check
+  const checkCanPayOrder = (order: WonItemOrder | null) =>
+    order !== null && (order.orderStatus === 'PAYMENT_PENDING' || (order.orderStatus === 'AWAITING_PAYMENT' && !order.isOverdue));
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -84,6 +176,16 @@ export default function WonItemsPage() {
 
   return (
     <MainCard title="Won Items">
+      {bidderStanding !== null && bidderStanding.recentStrikeCount > 0 && (
+        <Alert severity={bidderStanding.isBiddingRestricted ? 'error' : 'warning'} sx={{ mb: 3 }}>
+          {bidderStanding.isBiddingRestricted
+            ? `Bidding is restricted on your account: ${bidderStanding.recentStrikeCount} wins went unpaid.`
+            : `You have ${bidderStanding.recentStrikeCount} unpaid-item strike${bidderStanding.recentStrikeCount === 1 ? '' : 's'}. At ${bidderStanding.strikeLimit} you can no longer bid.`}
+        </Alert>
+      )}
+
+      <SecondChanceOfferList onOfferAccepted={() => fetchWonItems(false)} />
+
       {wonItems.length === 0 ? (
         <Box sx={{ textAlign: 'center', py: 8 }}>
           <TrophyOutlined style={{ fontSize: 48, color: '#bbb', marginBottom: 16 }} />
@@ -104,7 +206,7 @@ export default function WonItemsPage() {
                   display: 'flex',
                   flexDirection: 'column',
                   border: 2,
-                  borderColor: 'success.main',
+                  borderColor: item.order?.isOverdue || item.order?.orderStatus === 'VOIDED' ? 'error.main' : 'success.main',
                   position: 'relative'
                 }}
               >
@@ -116,7 +218,7 @@ export default function WonItemsPage() {
                     zIndex: 1
                   }}
                 >
-                  <Chip icon={<TrophyOutlined />} label="Won" color="success" size="small" />
+                  {getOrderChip(item.order)}
                 </Box>
                 <CardMedia
                   component="img"
@@ -148,19 +250,91 @@ export default function WonItemsPage() {
                   <Stack spacing={1}>
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2" color="text.secondary">
-                        Winning Bid:
-                      </Typography>
-                      <Typography variant="h6" fontWeight={700} color="success.main">
-                        ${item.winningBidAmountInDollars.toFixed(2)}
+                        {item.quantityAvailable > 1 ? 'Price per Unit:' : 'Winning Bid:'}
                       </Typography>
+                      <Box sx={{ textAlign: 'right' }}>
+                        <Typography variant="h6" fontWeight={700} color="success.main">
+                          {formatMoney(item.winningBidAmount)}
+                        </Typography>
+                        <ConvertedMoney money={item.winningBidAmount} />
+                      </Box>
                     </Box>
+                    {item.quantityAvailable > 1 && (
+                      <>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                          <Typography variant="body2" color="text.secondary">
+                            Quantity Won:
+                          </Typography>
+                          <Typography variant="body2" fontWeight={600}>
+                            {item.quantityWon} of {item.quantityAvailable}
+                          </Typography>
+                        </Box>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                          <Typography variant="body2" color="text.secondary">
+                            Total:
+                          </Typography>
+                          <Box sx={{ textAlign: 'right' }}>
+                            <Typography variant="body2" fontWeight={600}>
+                              {formatMoney(item.totalPrice)}
+                            </Typography>
+                            <ConvertedMoney money={item.totalPrice} />
+                          </Box>
+                        </Box>
+                      </>
+                    )}
                     <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                       <Typography variant="body2" color="text.secondary">
                         Won on:
                       </Typography>
                       <Typography variant="caption">{formatDate(item.wonAtTimestamp)}</Typography>
                     </Box>
+                    {item.order?.orderStatus === 'PAID' && item.order.paidAtTimestamp && (
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2" color="text.secondary">
+                          Paid on:
+                        </Typography>
+                        <Typography variant="caption">
+                          {formatDate(item.order.paidAtTimestamp)}
+                          {item.order.paymentMethod === 'WALLET' ? ' (wallet)' : ''}
+                        </Typography>
+                      </Box>
+                    )}
+                    {item.order?.orderStatus === 'VOIDED' && item.order.voidedAtTimestamp && (
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2" color="error.main">
+                          Voided on:
+                        </Typography>
+                        <Typography variant="caption" color="error.main">
+                          {formatDate(item.order.voidedAtTimestamp)}
+                        </Typography>
+                      </Box>
+                    )}
+                    {item.order && (item.order.orderStatus === 'AWAITING_PAYMENT' || item.order.orderStatus === 'PAYMENT_PENDING') && (
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                        <Typography variant="body2" color={item.order.isOverdue ? 'error.main' : 'text.secondary'}>
+                          {item.order.isOverdue ? 'Payment was due:' : 'Pay by:'}
+                        </Typography>
+                        <Typography variant="caption" color={item.order.isOverdue ? 'error.main' : undefined}>
+                          {formatDate(item.order.paymentDeadlineTimestamp)}
+                        </Typography>
+                      </Box>
+                    )}
                   </Stack>
+                  {item.order && checkCanPayOrder(item.order) && (
+                    <Button
+                      fullWidth
+                      variant="contained"
+                      onClick={() => item.order && handlePay(item.order.orderId)}
+                      disabled={item.order.orderStatus === 'PAYMENT_PENDING' || payingOrderId !== null}
+                      sx={{ mt: 2 }}
+                    >
+                      {payingOrderId === item.order.orderId || item.order.orderStatus === 'PAYMENT_PENDING' ? (
+                        <CircularProgress size={20} color="inherit" />
+                      ) : (
+                        `Pay ${formatMoney(item.totalPrice)}`
+                      )}
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             </Grid>
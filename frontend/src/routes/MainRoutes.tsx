@@ -21,6 +21,9 @@ const AppContactUS = Loadable(lazy(() => import('pages/contact-us')));
 const AuctionDashboard = Loadable(lazy(() => import('pages/auction/AuctionDashboard')));
 const MyBidsPage = Loadable(lazy(() => import('pages/my-bids')));
 const WonItemsPage = Loadable(lazy(() => import('pages/won-items')));
+const WalletPage = Loadable(lazy(() => import('pages/wallet')));
+const UnpaidItemsPage = Loadable(lazy(() => import('pages/unpaid-items')));
+const ExchangeRatesPage = Loadable(lazy(() => import('pages/exchange-rates')));
 
 // ==============================|| MAIN ROUTING ||============================== //
 
@@ -46,6 +49,18 @@ const MainRoutes = {
         {
           path: 'won-items',
           element: <WonItemsPage />
+        },
+        {
+          path: 'wallet',
+          element: <WalletPage />
+        },
+        {
+          path: 'unpaid-items',
+          element: <UnpaidItemsPage />
+        },
+        {
+          path: 'exchange-rates',
+          element: <ExchangeRatesPage />
         }
       ]
     },
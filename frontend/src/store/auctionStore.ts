@@ -2,32 +2,93 @@
 
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
+import { Money } from 'utils/money';
+
+// Weight of the newest bid round trip in the moving average
+const BID_LATENCY_SMOOTHING_FACTOR = 0.2;
 
 // Types
+export type AuctionEndReason = 'SOLD' | 'NO_BIDS' | 'RESERVE_NOT_MET' | 'BOUGHT_NOW';
+export type AuctionFormat = 'ENGLISH' | 'DUTCH' | 'SEALED_BID';
+export type DutchPriceCurve = 'STEPWISE' | 'LINEAR';
+export type SealedBidPricing = 'FIRST_PRICE' | 'SECOND_PRICE';
+export type MultiUnitPricing = 'UNIFORM_PRICE' | 'PAY_AS_BID';
+
+export interface DutchPriceScheduleState {
+  floorPrice: Money;
+  priceCurve: DutchPriceCurve;
+  dropIntervalInSeconds: number | null;
+  dropAmount: Money | null;
+}
+
+export interface AuctionWinnerState {
+  userId: string;
+  username: string;
+  quantityWon: number;
+  pricePerUnit: Money;
+}
+
 export interface AuctionItemState {
   id: string;
   itemTitle: string;
   itemDescription: string;
-  startingPriceInDollars: number;
-  currentHighestBidInDollars: number;
-  minimumBidIncrementInDollars: number;
+  currencyCode: string;
+  startingPrice: Money;
+  currentHighestBid: Money;
+  bidIncrement: Money;
   auctionStartTimeTimestamp: string;
   auctionEndTimeTimestamp: string;
   itemImageUrl: string | null;
-  currentStatus: 'ACTIVE' | 'ENDED' | 'CANCELLED';
+  currentStatus: 'SCHEDULED' | 'ACTIVE' | 'ENDED' | 'CANCELLED';
+  endReason: AuctionEndReason | null;
+  hasReservePrice: boolean;
+  isReservePriceMet: boolean | null;
+  buyNowPrice: Money | null;
+  isBuyNowAvailable: boolean;
+  softCloseWindowInSeconds: number;
+  softCloseExtensionInSeconds: number;
+  auctionFormat: AuctionFormat;
+  dutchPriceSchedule: DutchPriceScheduleState | null;
+  sealedBidPricing: SealedBidPricing | null;
+  quantityAvailable: number;
+  multiUnitPricing: MultiUnitPricing | null;
   creatorUser: { userId: string; username: string; fullName: string };
-  winnerUser: { userId: string; username: string; fullName: string } | null;
+  winners: AuctionWinnerState[];
   totalBidCount: number;
   highestBidder: { userId: string; username: string } | null;
 }
 
 export interface BidUpdatePayload {
   auctionItemId: string;
-  newHighestBidInDollars: number;
+  newHighestBid: Money;
   highestBidderUserId: string;
   highestBidderUsername: string;
   bidPlacedAtTimestamp: string;
   totalNumberOfBids: number;
+  isReservePriceMet: boolean | null;
+  isBuyNowAvailable: boolean;
+  bidIncrement: Money;
+}
+
+export interface AuctionStartedPayload {
+  auctionItemId: string;
+  auctionStartTimeTimestamp: string;
+  auctionEndTimeTimestamp: string;
+}
+
+export interface AuctionDetailsUpdatedPayload {
+  auctionItemId: string;
+  itemTitle: string;
+  itemDescription: string;
+  itemImageUrl: string | null;
+  bidIncrement: Money;
+}
+
+export interface AuctionEndTimeExtendedPayload {
+  auctionItemId: string;
+  previousAuctionEndTimeTimestamp: string;
+  newAuctionEndTimeTimestamp: string;
+  extendedBySeconds: number;
 }
 
 export interface TimeSyncState {
@@ -37,6 +98,13 @@ export interface TimeSyncState {
   roundTripTimeInMs: number;
 }
 
+// Time from emitting PLACE_BID to its acknowledgement, including server-side processing
+export interface BidLatencyState {
+  lastBidRoundTripTimeInMs: number | null;
+  averageBidRoundTripTimeInMs: number | null; // Exponential moving average, so one slow bid does not dominate
+  measuredBidCount: number;
+}
+
 export interface SocketConnectionState {
   isConnected: boolean;
   connectionError: string | null;
@@ -45,21 +113,35 @@ export interface SocketConnectionState {
 
 interface AuctionStoreState {
   allAuctionItems: AuctionItemState[];
+  upcomingAuctionItems: AuctionItemState[];
   isLoadingAuctionItems: boolean;
   auctionItemsLoadError: string | null;
   timeSyncState: TimeSyncState;
   socketConnectionState: SocketConnectionState;
+  bidLatencyState: BidLatencyState;
   recentlyUpdatedAuctionIds: Set<string>;
 
   // Actions
   setAllAuctionItems: (items: AuctionItemState[]) => void;
   addNewAuctionItem: (item: AuctionItemState) => void;
+  setUpcomingAuctionItems: (items: AuctionItemState[]) => void;
+  addUpcomingAuctionItem: (item: AuctionItemState) => void;
+  moveUpcomingAuctionToLive: (startedAuction: AuctionStartedPayload) => void;
   setIsLoadingAuctionItems: (loading: boolean) => void;
   setAuctionItemsLoadError: (error: string | null) => void;
   updateAuctionItemWithBid: (bidUpdate: BidUpdatePayload) => void;
-  markAuctionAsEnded: (auctionItemId: string, winnerUserId: string | null, winnerUsername: string | null) => void;
+  updateAuctionEndTime: (endTimeUpdate: AuctionEndTimeExtendedPayload) => void;
+  updateAuctionItemDetails: (detailsUpdate: AuctionDetailsUpdatedPayload) => void;
+  removeCancelledAuction: (auctionItemId: string) => void;
+  markAuctionAsEnded: (
+    auctionItemId: string,
+    winners: AuctionWinnerState[],
+    endReason: AuctionEndReason | null,
+    finalBidAmount?: Money
+  ) => void;
   updateTimeSyncState: (syncState: Partial<TimeSyncState>) => void;
   updateSocketConnectionState: (state: Partial<SocketConnectionState>) => void;
+  recordBidRoundTripTime: (roundTripTimeInMs: number) => void;
   markAuctionAsRecentlyUpdated: (auctionItemId: string) => void;
   clearRecentlyUpdatedFlag: (auctionItemId: string) => void;
 
@@ -74,10 +156,12 @@ export const useAuctionStore = create<AuctionStoreState>()(
   devtools(
     (set, get) => ({
       allAuctionItems: [],
+      upcomingAuctionItems: [],
       isLoadingAuctionItems: false,
       auctionItemsLoadError: null,
       timeSyncState: { serverTimeOffsetInMs: 0, lastSyncTimestamp: 0, isTimeSynced: false, roundTripTimeInMs: 0 },
       socketConnectionState: { isConnected: false, connectionError: null, reconnectAttempts: 0 },
+      bidLatencyState: { lastBidRoundTripTimeInMs: null, averageBidRoundTripTimeInMs: null, measuredBidCount: 0 },
       recentlyUpdatedAuctionIds: new Set(),
 
       setAllAuctionItems: (items) => set({ allAuctionItems: items }, false, 'setAllAuctionItems'),
@@ -95,6 +179,49 @@ export const useAuctionStore = create<AuctionStoreState>()(
           'addNewAuctionItem'
         ),
 
+      setUpcomingAuctionItems: (items) => set({ upcomingAuctionItems: items }, false, 'setUpcomingAuctionItems'),
+
+      addUpcomingAuctionItem: (item) =>
+        set(
+          (state) => {
+            if (state.upcomingAuctionItems.some((existing) => existing.id === item.id)) {
+              return state;
+            }
+            const upcomingAuctionItems = [...state.upcomingAuctionItems, item].sort(
+              (a, b) => new Date(a.auctionStartTimeTimestamp).getTime() - new Date(b.auctionStartTimeTimestamp).getTime()
+            );
+            return { upcomingAuctionItems };
+          },
+          false,
+          'addUpcomingAuctionItem'
+        ),
+
+      moveUpcomingAuctionToLive: (startedAuction) =>
+        set(
+          (state) => {
+            const upcomingItem = state.upcomingAuctionItems.find((item) => item.id === startedAuction.auctionItemId);
+            if (!upcomingItem) {
+              return state;
+            }
+
+            const liveItem: AuctionItemState = {
+              ...upcomingItem,
+              currentStatus: 'ACTIVE',
+              auctionStartTimeTimestamp: startedAuction.auctionStartTimeTimestamp,
+              auctionEndTimeTimestamp: startedAuction.auctionEndTimeTimestamp
+            };
+
+            return {
+              upcomingAuctionItems: state.upcomingAuctionItems.filter((item) => item.id !== startedAuction.auctionItemId),
+              allAuctionItems: state.allAuctionItems.some((item) => item.id === liveItem.id)
+                ? state.allAuctionItems
+                : [liveItem, ...state.allAuctionItems]
+            };
+          },
+          false,
+          'moveUpcomingAuctionToLive'
+        ),
+
       setIsLoadingAuctionItems: (loading) => set({ isLoadingAuctionItems: loading }, false, 'setIsLoadingAuctionItems'),
 
       setAuctionItemsLoadError: (error) => set({ auctionItemsLoadError: error }, false, 'setAuctionItemsLoadError'),
@@ -106,8 +233,11 @@ export const useAuctionStore = create<AuctionStoreState>()(
               item.id === bidUpdate.auctionItemId
                 ? {
                     ...item,
-                    currentHighestBidInDollars: bidUpdate.newHighestBidInDollars,
+                    currentHighestBid: bidUpdate.newHighestBid,
                     totalBidCount: bidUpdate.totalNumberOfBids,
+                    isReservePriceMet: bidUpdate.isReservePriceMet,
+                    isBuyNowAvailable: bidUpdate.isBuyNowAvailable,
+                    bidIncrement: bidUpdate.bidIncrement ?? item.bidIncrement,
                     highestBidder: { userId: bidUpdate.highestBidderUserId, username: bidUpdate.highestBidderUsername }
                   }
                 : item
@@ -117,7 +247,52 @@ export const useAuctionStore = create<AuctionStoreState>()(
           'updateAuctionItemWithBid'
         ),
 
-      markAuctionAsEnded: (auctionItemId, winnerUserId, winnerUsername) =>
+      updateAuctionEndTime: (endTimeUpdate) =>
+        set(
+          (state) => ({
+            allAuctionItems: state.allAuctionItems.map((item) =>
+              item.id === endTimeUpdate.auctionItemId
+                ? { ...item, auctionEndTimeTimestamp: endTimeUpdate.newAuctionEndTimeTimestamp }
+                : item
+            )
+          }),
+          false,
+          'updateAuctionEndTime'
+        ),
+
+      updateAuctionItemDetails: (detailsUpdate) =>
+        set(
+          (state) => {
+            const applyDetails = (item: AuctionItemState) =>
+              item.id === detailsUpdate.auctionItemId
+                ? {
+                    ...item,
+                    itemTitle: detailsUpdate.itemTitle,
+                    itemDescription: detailsUpdate.itemDescription,
+                    itemImageUrl: detailsUpdate.itemImageUrl,
+                    bidIncrement: detailsUpdate.bidIncrement
+                  }
+                : item;
+            return {
+              allAuctionItems: state.allAuctionItems.map(applyDetails),
+              upcomingAuctionItems: state.upcomingAuctionItems.map(applyDetails)
+            };
+          },
+          false,
+          'updateAuctionItemDetails'
+        ),
+
+      removeCancelledAuction: (auctionItemId) =>
+        set(
+          (state) => ({
+            allAuctionItems: state.allAuctionItems.filter((item) => item.id !== auctionItemId),
+            upcomingAuctionItems: state.upcomingAuctionItems.filter((item) => item.id !== auctionItemId)
+          }),
+          false,
+          'removeCancelledAuction'
+        ),
+
+      markAuctionAsEnded: (auctionItemId, winners, endReason, finalBidAmount) =>
         set(
           (state) => ({
             allAuctionItems: state.allAuctionItems.map((item) =>
@@ -125,7 +300,10 @@ export const useAuctionStore = create<AuctionStoreState>()(
                 ? {
                     ...item,
                     currentStatus: 'ENDED' as const,
-                    winnerUser: winnerUserId && winnerUsername ? { userId: winnerUserId, username: winnerUsername, fullName: '' } : null
+                    endReason,
+                    isBuyNowAvailable: false,
+                    currentHighestBid: finalBidAmount ?? item.currentHighestBid,
+                    winners
                   }
                 : item
             )
@@ -144,6 +322,25 @@ export const useAuctionStore = create<AuctionStoreState>()(
           'updateSocketConnectionState'
         ),
 
+      recordBidRoundTripTime: (roundTripTimeInMs) =>
+        set(
+          (state) => {
+            const { averageBidRoundTripTimeInMs, measuredBidCount } = state.bidLatencyState;
+            return {
+              bidLatencyState: {
+                lastBidRoundTripTimeInMs: roundTripTimeInMs,
+                averageBidRoundTripTimeInMs:
+                  averageBidRoundTripTimeInMs === null
+                    ? roundTripTimeInMs
+                    : averageBidRoundTripTimeInMs + BID_LATENCY_SMOOTHING_FACTOR * (roundTripTimeInMs - averageBidRoundTripTimeInMs),
+                measuredBidCount: measuredBidCount + 1
+              }
+            };
+          },
+          false,
+          'recordBidRoundTripTime'
+        ),
+
       markAuctionAsRecentlyUpdated: (auctionItemId) =>
         set(
           (state) => {
@@ -0,0 +1,27 @@
+// Admin-maintained exchange rates, loaded once and shared by every converted amount on screen
+
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { ExchangeRate } from 'utils/money';
+
+interface ExchangeRateStoreState {
+  exchangeRates: ExchangeRate[];
+  hasLoadedExchangeRates: boolean;
+
+  // Actions
+  setExchangeRates: (exchangeRates: ExchangeRate[]) => void;
+}
+
+export const useExchangeRateStore = create<ExchangeRateStoreState>()(
+  devtools(
+    (set) => ({
+      exchangeRates: [],
+      hasLoadedExchangeRates: false,
+
+      setExchangeRates: (exchangeRates) => set({ exchangeRates, hasLoadedExchangeRates: true }, false, 'setExchangeRates')
+    }),
+    { name: 'ExchangeRateStore' }
+  )
+);
+
+export default useExchangeRateStore;
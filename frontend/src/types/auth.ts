@@ -36,6 +36,7 @@ type UserProfile = {
   name?: string;
   role?: string;
   tier?: string;
+  displayCurrencyCode?: string;
 };
 
 export interface AuthProps {
@@ -93,6 +94,7 @@ export type JWTContextType = CanRemove & {
   register: (email: string, password: string, username: string, fullName: string) => Promise<any>;
   resetPassword: (email: string) => Promise<void>;
   updateProfile: VoidFunction;
+  updateDisplayCurrency: (currencyCode: string) => Promise<void>;
 };
 
 export type Auth0ContextType = CanRemove & {
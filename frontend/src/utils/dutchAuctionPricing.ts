@@ -0,0 +1,30 @@
+// Computes the descending price of a Dutch auction from a point in time.
+// Mirrors backend/src/utils/dutch-auction-pricing.util.ts - the server price is authoritative when a buyer accepts.
+
+import { AuctionItemState } from 'store/auctionStore';
+
+export function calculateDutchPriceAtTime(auctionItem: AuctionItemState, atTimestampInMs: number): number | null {
+  const schedule = auctionItem.dutchPriceSchedule;
+
+  if (auctionItem.auctionFormat !== 'DUTCH' || !schedule) {
+    return null;
+  }
+
+  const auctionStartTimeInMs = new Date(auctionItem.auctionStartTimeTimestamp).getTime();
+  const auctionEndTimeInMs = new Date(auctionItem.auctionEndTimeTimestamp).getTime();
+  const elapsedTimeInMs = Math.max(0, atTimestampInMs - auctionStartTimeInMs);
+  const totalPriceDropInCents = auctionItem.startingPrice.amountInCents - schedule.floorPrice.amountInCents;
+  let priceInCents: number;
+
+  if (schedule.priceCurve === 'LINEAR') {
+    const auctionDurationInMs = Math.max(1, auctionEndTimeInMs - auctionStartTimeInMs);
+    const elapsedFraction = Math.min(1, elapsedTimeInMs / auctionDurationInMs);
+    priceInCents = auctionItem.startingPrice.amountInCents - totalPriceDropInCents * elapsedFraction;
+  } else {
+    const dropIntervalInMs = Math.max(1, schedule.dropIntervalInSeconds ?? 1) * 1000;
+    const numberOfDrops = Math.floor(elapsedTimeInMs / dropIntervalInMs);
+    priceInCents = auctionItem.startingPrice.amountInCents - numberOfDrops * (schedule.dropAmount?.amountInCents ?? 0);
+  }
+
+  return Math.max(schedule.floorPrice.amountInCents, Math.round(priceInCents));
+}
@@ -0,0 +1,74 @@
+// Amounts are whole cents with their currency, exactly as the server sends them.
+// Mirrors backend/src/utils/money.util.ts - keep both in step so prices are parsed and displayed the way the server does.
+
+export const PLATFORM_CURRENCY_CODE = 'USD';
+
+export const SUPPORTED_CURRENCY_CODES = ['USD', 'EUR', 'GBP'] as const;
+
+export type SupportedCurrencyCode = (typeof SUPPORTED_CURRENCY_CODES)[number];
+
+export const CURRENCY_NAMES: Record<SupportedCurrencyCode, string> = {
+  USD: 'US Dollar',
+  EUR: 'Euro',
+  GBP: 'British Pound'
+};
+
+const CENTS_PER_UNIT = 100;
+
+export interface Money {
+  amountInCents: number;
+  currencyCode: string;
+}
+
+// How many units of a currency one platform unit buys, as set by a platform admin.
+// The rate stays a decimal string so it is shown exactly as it was entered
+export interface ExchangeRate {
+  currencyCode: string;
+  unitsPerPlatformUnit: string;
+  quotedAtTimestamp: string;
+  updatedByUsername: string | null;
+}
+
+export function createMoney(amountInCents: number, currencyCode: string): Money {
+  return { amountInCents, currencyCode };
+}
+
+// Reads an amount typed into a form ("12.5", "12.50") without going through a float, so it can never be off by a cent.
+// Returns null for anything that is not a non-negative amount with at most two decimal places
+export function parseCentsFromDecimalAmount(value: string): number | null {
+  const amountMatch = /^(\d+)(?:\.(\d{1,2}))?$/.exec(value.trim());
+
+  if (!amountMatch) return null;
+
+  const [, wholeUnits, fractionDigits = ''] = amountMatch;
+  const amountInCents = Number(wholeUnits) * CENTS_PER_UNIT + Number(fractionDigits.padEnd(2, '0'));
+
+  return Number.isSafeInteger(amountInCents) ? amountInCents : null;
+}
+
+// Prefills a form field with an amount, e.g. 1250 cents becomes "12.50"
+export function formatCentsAsDecimalAmount(amountInCents: number): string {
+  return (amountInCents / CENTS_PER_UNIT).toFixed(2);
+}
+
+// E.g. "$1,234.50"
+export function formatMoney(money: Money): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: money.currencyCode }).format(money.amountInCents / CENTS_PER_UNIT);
+}
+
+// Converts through the platform currency and rounds to the nearest cent. Only ever used for display - the server
+// settles every amount in the auction's own currency. Returns null when either rate is missing
+export function convertMoney(money: Money, targetCurrencyCode: string, exchangeRates: ExchangeRate[]): Money | null {
+  if (money.currencyCode === targetCurrencyCode) return money;
+
+  const sourceRate = exchangeRates.find((exchangeRate) => exchangeRate.currencyCode === money.currencyCode);
+  const targetRate = exchangeRates.find((exchangeRate) => exchangeRate.currencyCode === targetCurrencyCode);
+
+  if (!sourceRate || !targetRate) return null;
+
+  const convertedAmountInCents = Math.round(
+    (money.amountInCents * Number(targetRate.unitsPerPlatformUnit)) / Number(sourceRate.unitsPerPlatformUnit)
+  );
+
+  return Number.isSafeInteger(convertedAmountInCents) ? createMoney(convertedAmountInCents, targetCurrencyCode) : null;
+}